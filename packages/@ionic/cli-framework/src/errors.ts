@@ -10,6 +10,36 @@ export const ERROR_SHELL_COMMAND_NOT_FOUND = 'ERR_ICF_SHELL_COMMAND_NOT_FOUND';
 export const ERROR_IPC_MODULE_INACCESSIBLE = 'ERR_ICF_IPC_MODULE_INACCESSIBLE';
 export const ERROR_IPC_UNKNOWN_PROCEDURE = 'ERR_ICF_IPC_UNKNOWN_PROCEDURE';
 
+export interface ErrorCodeDefinition {
+  /**
+   * The stable, machine-readable code of the error, e.g. `ERR_ICF_INPUT_VALIDATION`.
+   */
+  readonly code: string;
+
+  /**
+   * The exit code of the process when this error is not handled.
+   */
+  readonly exitCode: number;
+
+  readonly summary: string;
+}
+
+export const ERROR_CODES: ReadonlyArray<ErrorCodeDefinition> = [
+  { code: ERROR_INPUT_VALIDATION, exitCode: 2, summary: 'Command-line inputs or options failed validation.' },
+  { code: ERROR_COMMAND_NOT_FOUND, exitCode: 3, summary: 'The command could not be found.' },
+  { code: ERROR_SHELL_NON_ZERO_EXIT, exitCode: 4, summary: 'A subprocess exited with a non-zero exit code. Its exit code is used when available.' },
+  { code: ERROR_SHELL_COMMAND_NOT_FOUND, exitCode: 127, summary: 'The program of a subprocess could not be found.' },
+  { code: ERROR_IPC_MODULE_INACCESSIBLE, exitCode: 5, summary: 'The module for inter-process communication could not be loaded.' },
+  { code: ERROR_IPC_UNKNOWN_PROCEDURE, exitCode: 6, summary: 'An unknown procedure was requested over inter-process communication.' },
+];
+
+/**
+ * Find the definition of an error code in the given catalog.
+ */
+export function getErrorCodeDefinition(code: string, catalog: ReadonlyArray<ErrorCodeDefinition> = ERROR_CODES): ErrorCodeDefinition | undefined {
+  return catalog.find(def => def.code === code);
+}
+
 export abstract class BaseError extends Error {
   abstract readonly name: string;
   message: string;
@@ -117,6 +117,20 @@ describe('@ionic/cli-framework', () => {
         expect(handlers.failure).toHaveBeenCalledTimes(1);
       });
 
+      it('should track elapsed time', () => {
+        const spy = jest.spyOn(Date, 'now');
+        expect(task.elapsed).toEqual(0);
+        spy.mockReturnValue(1000);
+        task.start();
+        spy.mockReturnValue(1250);
+        expect(task.elapsed).toEqual(250);
+        spy.mockReturnValue(1500);
+        task.succeed();
+        spy.mockReturnValue(5000);
+        expect(task.elapsed).toEqual(500);
+        spy.mockRestore();
+      });
+
       describe('intervaled', () => {
 
         const tickInterval = 50;
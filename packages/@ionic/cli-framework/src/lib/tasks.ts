@@ -44,6 +44,12 @@ export class Task extends EventEmitter {
   running = false;
   progressRatio?: number;
 
+  /**
+   * Timestamps (in milliseconds) of when the task was started and ended.
+   */
+  startTime?: number;
+  endTime?: number;
+
   protected _msg = '';
 
   constructor({ msg = '', tickInterval }: TaskOptions = {}) {
@@ -61,9 +67,26 @@ export class Task extends EventEmitter {
     this.tick();
   }
 
+  /**
+   * The time (in milliseconds) the task has been running, or the total
+   * running time if the task has ended.
+   */
+  get elapsed(): number {
+    if (typeof this.startTime === 'undefined') {
+      return 0;
+    }
+
+    return (typeof this.endTime === 'undefined' ? Date.now() : this.endTime) - this.startTime;
+  }
+
   start(): this {
-    if (!this.running && this.tickInterval) {
-      this.intervalId = setInterval(() => { this.tick(); }, this.tickInterval);
+    if (!this.running) {
+      this.startTime = Date.now();
+      this.endTime = undefined;
+
+      if (this.tickInterval) {
+        this.intervalId = setInterval(() => { this.tick(); }, this.tickInterval);
+      }
     }
 
     this.running = true;
@@ -95,6 +118,10 @@ export class Task extends EventEmitter {
   }
 
   end(): this {
+    if (this.running) {
+      this.endTime = Date.now();
+    }
+
     this.running = false;
     this.tick();
     this.clear();
@@ -197,6 +197,27 @@ describe('@ionic/cli-framework', () => {
 
     });
 
+    describe('prettyDuration', () => {
+
+      const { prettyDuration } = require('../format');
+
+      it('should format milliseconds', () => {
+        expect(prettyDuration(0)).toEqual('0ms');
+        expect(prettyDuration(999)).toEqual('999ms');
+      });
+
+      it('should format seconds', () => {
+        expect(prettyDuration(1000)).toEqual('1.00s');
+        expect(prettyDuration(12340)).toEqual('12.34s');
+      });
+
+      it('should format minutes', () => {
+        expect(prettyDuration(60000)).toEqual('1m 0s');
+        expect(prettyDuration(119999)).toEqual('1m 59s');
+      });
+
+    });
+
     describe('wordWrap', () => {
 
       const { wordWrap } = require('../format');
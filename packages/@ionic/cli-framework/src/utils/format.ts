@@ -37,6 +37,21 @@ export function prettyPath(p: string): string {
   return p;
 }
 
+export function prettyDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(2)}s`;
+  }
+
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+
+  return `${minutes}m ${seconds}s`;
+}
+
 export function expandPath(p: string): string {
   return path.resolve(untildify(p));
 }
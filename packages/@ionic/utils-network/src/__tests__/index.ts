@@ -1,5 +1,5 @@
 import * as osSpy from 'os';
-import { getExternalIPv4Interfaces } from '../';
+import { formatHost, getExternalIPv4Interfaces, getExternalInterfaces, isLinkLocalAddress, isVirtualInterface } from '../';
 
 describe('@ionic/utils-network', () => {
 
@@ -47,4 +47,78 @@ describe('@ionic/utils-network', () => {
 
   });
 
+
+  describe('getExternalInterfaces', () => {
+
+    const networkInterfaces = {
+      lo: [
+        { internal: true, family: 'IPv4', address: '127.0.0.1' },
+        { internal: true, family: 'IPv6', address: '::1' },
+      ],
+      eth0: [
+        { internal: false, family: 'IPv4', address: '192.168.1.2' },
+        { internal: false, family: 'IPv6', address: 'fe80::1' },
+        { internal: false, family: 'IPv6', address: '2001:db8::2' },
+      ],
+      docker0: [
+        { internal: false, family: 'IPv4', address: '172.17.0.1' },
+      ],
+      utun2: [
+        { internal: false, family: 'IPv6', address: '2001:db8::3' },
+      ],
+    };
+
+    it('should find IPv4 and IPv6 interfaces, excluding virtual adapters and link-local addresses', () => {
+      spyOn(osSpy, 'networkInterfaces').and.callFake(() => networkInterfaces);
+      const result = getExternalInterfaces();
+      expect(result.map(i => i.address)).toEqual(['192.168.1.2', '2001:db8::2']);
+    });
+
+    it('should sort by the order of families', () => {
+      spyOn(osSpy, 'networkInterfaces').and.callFake(() => networkInterfaces);
+      const result = getExternalInterfaces({ families: ['IPv6', 'IPv4'] });
+      expect(result.map(i => i.address)).toEqual(['2001:db8::2', '192.168.1.2']);
+    });
+
+    it('should exclude by custom patterns', () => {
+      spyOn(osSpy, 'networkInterfaces').and.callFake(() => networkInterfaces);
+      const result = getExternalInterfaces({ exclude: [/^eth/] });
+      expect(result.map(i => i.device)).toEqual(['docker0', 'utun2']);
+    });
+
+  });
+
+  describe('isVirtualInterface', () => {
+
+    it('should match virtual adapters', () => {
+      expect(['docker0', 'br-1a2b3c', 'veth12ab', 'vboxnet0', 'vmnet8', 'utun1', 'awdl0', 'vEthernet (WSL)'].every(d => isVirtualInterface(d))).toBe(true);
+    });
+
+    it('should not match physical adapters', () => {
+      expect(['eth0', 'en0', 'wlan0', 'enp3s0', 'Wi-Fi'].some(d => isVirtualInterface(d))).toBe(false);
+    });
+
+  });
+
+  describe('isLinkLocalAddress', () => {
+
+    it('should detect link-local addresses', () => {
+      expect(isLinkLocalAddress('169.254.10.1')).toBe(true);
+      expect(isLinkLocalAddress('fe80::1')).toBe(true);
+      expect(isLinkLocalAddress('192.168.1.2')).toBe(false);
+      expect(isLinkLocalAddress('2001:db8::2')).toBe(false);
+    });
+
+  });
+
+  describe('formatHost', () => {
+
+    it('should wrap IPv6 addresses in brackets', () => {
+      expect(formatHost('2001:db8::2')).toEqual('[2001:db8::2]');
+      expect(formatHost('192.168.1.2')).toEqual('192.168.1.2');
+      expect(formatHost('localhost')).toEqual('localhost');
+    });
+
+  });
+
 });
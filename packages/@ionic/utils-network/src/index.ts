@@ -7,10 +7,44 @@ const debug = Debug('ionic:utils-network');
 
 export const DEFAULT_ADDRESSES: ReadonlyArray<string> = getDefaultAddresses();
 
+/**
+ * Patterns of device names of virtual network adapters, such as those of
+ * Docker, VirtualBox, VMware and macOS tunnels, which are rarely reachable
+ * from other devices.
+ */
+export const VIRTUAL_INTERFACE_PATTERNS: ReadonlyArray<RegExp> = [
+  /^docker\d*$/,
+  /^br-[0-9a-f]+$/,
+  /^veth/,
+  /^virbr\d+/,
+  /^vboxnet\d+$/,
+  /^vmnet\d+$/,
+  /^utun\d+$/,
+  /^awdl\d+$/,
+  /^llw\d+$/,
+  /^vEthernet/,
+];
+
 export type NetworkInterface = { device: string; } & os.NetworkInterfaceInfo;
 
+export type NetworkInterfaceFamily = 'IPv4' | 'IPv6';
+
+export interface NetworkInterfaceFilterOptions {
+  /**
+   * Address families to include, in order of preference. Defaults to IPv4
+   * and IPv6.
+   */
+  families?: ReadonlyArray<NetworkInterfaceFamily>;
+
+  /**
+   * Patterns of device names to exclude. Defaults to
+   * `VIRTUAL_INTERFACE_PATTERNS`.
+   */
+  exclude?: ReadonlyArray<RegExp>;
+}
+
 function getDefaultAddresses(): string[] {
-  const addresses: string[] = ['0.0.0.0'];
+  const addresses: string[] = ['0.0.0.0', '::'];
 
   try {
     const networkInterfaces = os.networkInterfaces();
@@ -18,7 +52,8 @@ function getDefaultAddresses(): string[] {
     for (const device of Object.keys(networkInterfaces)) {
       const networkInterface = networkInterfaces[device];
 
-      addresses.push(...networkInterface.map(i => i.address));
+      // link-local IPv6 addresses can only be bound with their zone index
+      addresses.push(...networkInterface.map(i => i.family === 'IPv6' && isLinkLocalAddress(i.address) ? `${i.address}%${device}` : i.address));
     }
   } catch (e) {
     // swallow
@@ -28,15 +63,36 @@ function getDefaultAddresses(): string[] {
 }
 
 export function getExternalIPv4Interfaces(): NetworkInterface[] {
+  return getExternalInterfaces({ families: ['IPv4'], exclude: [] });
+}
+
+export function getExternalIPv6Interfaces(): NetworkInterface[] {
+  return getExternalInterfaces({ families: ['IPv6'], exclude: [] });
+}
+
+/**
+ * Get the external network interfaces of this machine.
+ *
+ * Interfaces are sorted by the order of `families`. Link-local IPv6
+ * addresses are skipped, as they are unusable in URLs without a zone index.
+ */
+export function getExternalInterfaces({ families = ['IPv4', 'IPv6'], exclude = VIRTUAL_INTERFACE_PATTERNS }: NetworkInterfaceFilterOptions = {}): NetworkInterface[] {
   const networkInterfaces = os.networkInterfaces();
   const devices: NetworkInterface[] = [];
 
-  for (const device of Object.keys(networkInterfaces)) {
-    const networkInterface = networkInterfaces[device];
+  for (const family of families) {
+    for (const device of Object.keys(networkInterfaces)) {
+      if (isVirtualInterface(device, exclude)) {
+        debug('excluding network interface %s', device);
+        continue;
+      }
 
-    for (const networkAddress of networkInterface) {
-      if (!networkAddress.internal && networkAddress.family === 'IPv4') {
-        devices.push({ device, ...networkAddress });
+      const networkInterface = networkInterfaces[device];
+
+      for (const networkAddress of networkInterface) {
+        if (!networkAddress.internal && networkAddress.family === family && !(family === 'IPv6' && isLinkLocalAddress(networkAddress.address))) {
+          devices.push({ device, ...networkAddress });
+        }
       }
     }
   }
@@ -44,6 +100,29 @@ export function getExternalIPv4Interfaces(): NetworkInterface[] {
   return devices;
 }
 
+export function isVirtualInterface(device: string, patterns: ReadonlyArray<RegExp> = VIRTUAL_INTERFACE_PATTERNS): boolean {
+  return patterns.some(pattern => pattern.test(device));
+}
+
+/**
+ * Whether an address is link-local (`169.254.0.0/16` or `fe80::/10`).
+ */
+export function isLinkLocalAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return address.startsWith('169.254.');
+  }
+
+  return /^fe[89ab][0-9a-f]:/i.test(address);
+}
+
+/**
+ * Format an address as the host of a URL, wrapping IPv6 addresses in
+ * brackets.
+ */
+export function formatHost(address: string): string {
+  return net.isIPv6(address) ? `[${address}]` : address;
+}
+
 /**
  * Attempts to locate a port number starting from `port` and incrementing by 1.
  *
@@ -129,6 +208,8 @@ export async function isHostConnectable(host: string, port: number, { timeout }:
     return new Promise<boolean>((resolve, reject) => {
       if (host === '0.0.0.0') {
         host = '127.0.0.1';
+      } else if (host === '::') {
+        host = '::1';
       }
 
       const sock = net.connect({ port, host });
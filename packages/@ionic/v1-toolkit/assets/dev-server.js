@@ -3,7 +3,7 @@ window.Ionic = window.Ionic || {}; window.Ionic.DevServer = {
     var self = this;
 
     if (config.consolelogs) {
-      this.socket = new WebSocket('ws://' + window.location.hostname + ':' + String(config.wsPort));
+      this.socket = new WebSocket((window.location.protocol === 'https:' ? 'wss://' : 'ws://') + window.location.hostname + ':' + String(config.wsPort));
       this.msgQueue = [];
 
       this.socket.onopen = function() {
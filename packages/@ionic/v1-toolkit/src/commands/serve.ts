@@ -3,8 +3,10 @@ import * as path from 'path';
 
 import { Command, CommandLineInputs, CommandLineOptions } from '@ionic/cli-framework';
 import { str2num } from '@ionic/cli-framework/utils/string';
+import { readFile } from '@ionic/utils-fs';
 
 import { Config } from '../lib/config';
+import { SSLOptions } from '../lib/dev-server';
 import { hasTask, runTask } from '../lib/gulp';
 import { timestamp } from '../lib/log';
 import { WATCH_PATTERNS, proxyConfigToMiddlewareConfig, runServer } from '../lib/serve';
@@ -48,6 +50,19 @@ export class ServeCommand extends Command {
           type: Boolean,
           aliases: ['c'],
         },
+        {
+          name: 'ssl',
+          summary: 'Use HTTPS for the HTTP server and WebSocket servers',
+          type: Boolean,
+        },
+        {
+          name: 'ssl-key',
+          summary: 'Path to the SSL key file',
+        },
+        {
+          name: 'ssl-cert',
+          summary: 'Path to the SSL certificate file',
+        },
         {
           name: 'engine',
           summary: `Target engine (e.g. ${['browser', 'cordova'].map(e => chalk.green(e)).join(', ')})`,
@@ -70,8 +85,9 @@ export class ServeCommand extends Command {
     const consolelogs = options['consolelogs'] ? true : false;
     const engine = String(options['engine']);
     const platform = options['platform'] ? String(options['platform']) : undefined;
+    const ssl = options['ssl'] ? await readSSLFiles(options) : undefined;
 
-    const url = `http://${host}:${port}`;
+    const url = `${ssl ? 'https' : 'http'}://${host}:${port}`;
 
     if (await hasTask('ionic:serve:before')) {
       await runTask('ionic:serve:before');
@@ -102,8 +118,22 @@ export class ServeCommand extends Command {
       wwwDir,
       watchPatterns: c.watchPatterns,
       proxies,
+      ssl,
     });
 
     process.stdout.write(`${timestamp()} Dev server running at ${chalk.bold(url)}\n`);
   }
 }
+
+async function readSSLFiles(options: CommandLineOptions): Promise<SSLOptions> {
+  if (!options['ssl-key'] || !options['ssl-cert']) {
+    throw new Error(`Both ${chalk.green('--ssl-key')} and ${chalk.green('--ssl-cert')} are required with ${chalk.green('--ssl')}.`);
+  }
+
+  const [ key, cert ] = await Promise.all([
+    readFile(path.resolve(String(options['ssl-key'])), { encoding: 'utf8' }),
+    readFile(path.resolve(String(options['ssl-cert'])), { encoding: 'utf8' }),
+  ]);
+
+  return { key, cert };
+}
@@ -4,11 +4,10 @@ export interface ConfigFileProxy {
   path: string;
   proxyUrl: string;
   proxyNoAgent?: boolean;
-
-  /**
-   * @deprecated
-   */
   rejectUnauthorized?: boolean;
+  headers?: { [key: string]: string; };
+  pathRewrite?: { [key: string]: string; };
+  ws?: boolean;
 }
 
 export interface ConfigFile {
@@ -13,6 +13,11 @@ export interface DevServerMessage {
   data: any[];
 }
 
+export interface SSLOptions {
+  key: string;
+  cert: string;
+}
+
 export interface DevServerOptions {
   consolelogs: boolean;
   devPort: number;
@@ -83,9 +88,9 @@ function getDevServerScript() {
 `;
 }
 
-export async function createLiveReloadServer({ host, port, wwwDir }: { host: string, port: number; wwwDir: string; }): Promise<LiveReloadFunction> {
+export async function createLiveReloadServer({ host, port, wwwDir, ssl }: { host: string, port: number; wwwDir: string; ssl?: SSLOptions; }): Promise<LiveReloadFunction> {
   const tinylr = await import('tiny-lr');
-  const lrserver = tinylr();
+  const lrserver = tinylr(ssl ? { key: ssl.key, cert: ssl.cert } : {});
   lrserver.listen(port, host);
 
   return changedFiles => {
@@ -99,18 +104,18 @@ export async function createLiveReloadServer({ host, port, wwwDir }: { host: str
   };
 }
 
-export function injectLiveReloadScript(content: string, port: number): string {
+export function injectLiveReloadScript(content: string, port: number, { https = false }: { https?: boolean; } = {}): string {
   if (content.indexOf('/livereload.js') > -1) {
     // already added script
     return content;
   }
 
-  const liveReloadScript = getLiveReloadScript(port);
+  const liveReloadScript = getLiveReloadScript(port, https);
 
   return injectScript(content, liveReloadScript);
 }
 
-function getLiveReloadScript(port: number) {
+function getLiveReloadScript(port: number, https: boolean) {
   const src = `${DEV_SERVER_PREFIX}/tiny-lr/livereload.js`;
 
   return `
@@ -119,6 +124,7 @@ function getLiveReloadScript(port: number) {
       window.LiveReloadOptions = {
         host: window.location.hostname,
         port: ${port},
+        https: ${https},
         snipver: true,
       };
     </script>
@@ -126,10 +132,18 @@ function getLiveReloadScript(port: number) {
 `;
 }
 
-export async function createDevLoggerServer(host: string, port: number): Promise<ζws.Server> {
+export async function createDevLoggerServer(host: string, port: number, ssl?: SSLOptions): Promise<ζws.Server> {
   const WebSocket = await import('ws');
+  let wss: ζws.Server;
 
-  const wss = new WebSocket.Server({ host, port });
+  if (ssl) {
+    const https = await import('https');
+    const server = https.createServer(ssl);
+    wss = new WebSocket.Server({ server });
+    server.listen(port, host);
+  } else {
+    wss = new WebSocket.Server({ host, port });
+  }
 
   wss.on('connection', ws => {
     ws.on('message', data => {
@@ -5,7 +5,7 @@ import * as ζproxyMiddleware from 'http-proxy-middleware';
 import * as path from 'path';
 
 import { ConfigFileProxy } from './config';
-import { DEV_SERVER_PREFIX, LiveReloadFunction, createDevLoggerServer, createDevServerHandler, createLiveReloadServer, injectDevServerScript, injectLiveReloadScript } from './dev-server';
+import { DEV_SERVER_PREFIX, LiveReloadFunction, SSLOptions, createDevLoggerServer, createDevServerHandler, createLiveReloadServer, injectDevServerScript, injectLiveReloadScript } from './dev-server';
 import { runTask } from './gulp';
 import { timestamp } from './log';
 
@@ -18,10 +18,18 @@ export const WATCH_PATTERNS = [
 
 export function proxyConfigToMiddlewareConfig(proxy: ConfigFileProxy): ζproxyMiddleware.Config {
   const config: ζproxyMiddleware.Config = {
-    pathRewrite: { [proxy.path]: '' },
+    pathRewrite: proxy.pathRewrite ? proxy.pathRewrite : { [proxy.path]: '' },
     target: proxy.proxyUrl,
   };
 
+  if (proxy.headers) {
+    config.headers = proxy.headers;
+  }
+
+  if (typeof proxy.ws === 'boolean') {
+    config.ws = proxy.ws;
+  }
+
   if (proxy.proxyNoAgent) {
     config.agent = false as any; // TODO: type issue
   }
@@ -49,6 +57,7 @@ export interface ServeOptions {
   platform?: string;
   watchPatterns: string[];
   proxies: ProxyConfig[];
+  ssl?: SSLOptions;
 }
 
 const DEFAULT_PROXY_CONFIG: ζproxyMiddleware.Config = {
@@ -61,7 +70,7 @@ export async function runServer(options: ServeOptions): Promise<ServeOptions> {
   let reloadfn: LiveReloadFunction | undefined;
 
   if (options.livereload) {
-    reloadfn = await createLiveReloadServer({ host: options.host, port: options.livereloadPort, wwwDir: options.wwwDir });
+    reloadfn = await createLiveReloadServer({ host: options.host, port: options.livereloadPort, wwwDir: options.wwwDir, ssl: options.ssl });
   }
 
   await createHttpServer(options);
@@ -106,7 +115,7 @@ async function createHttpServer(options: ServeOptions): Promise<ζexpress.Applic
     indexHtml = injectDevServerScript(indexHtml);
 
     if (options.livereload) {
-      indexHtml = injectLiveReloadScript(indexHtml, options.livereloadPort);
+      indexHtml = injectLiveReloadScript(indexHtml, options.livereloadPort, { https: options.ssl ? true : false });
     }
 
     res.set('Content-Type', 'text/html');
@@ -135,10 +144,11 @@ async function createHttpServer(options: ServeOptions): Promise<ζexpress.Applic
   app.get('/cordova_plugins.js', serveCordovaPlatformResource);
   app.get('/plugins/*', serveCordovaPlatformResource);
 
-  const livereloadUrl = `http://localhost:${options.livereloadPort}`;
+  const livereloadUrl = `${options.ssl ? 'https' : 'http'}://localhost:${options.livereloadPort}`;
   const pathPrefix = `/${DEV_SERVER_PREFIX}/tiny-lr`;
 
-  await attachProxy(app, { ...DEFAULT_PROXY_CONFIG, mount: pathPrefix, target: livereloadUrl, pathRewrite: { [pathPrefix]: '' } });
+  // the live-reload server uses the same (likely self-signed) certificate
+  await attachProxy(app, { ...DEFAULT_PROXY_CONFIG, mount: pathPrefix, target: livereloadUrl, pathRewrite: { [pathPrefix]: '' }, secure: false });
 
   for (const proxy of options.proxies) {
     await attachProxy(app, { ...DEFAULT_PROXY_CONFIG, ...proxy });
@@ -147,10 +157,11 @@ async function createHttpServer(options: ServeOptions): Promise<ζexpress.Applic
 
   app.get(`/${DEV_SERVER_PREFIX}/dev-server.js`, await createDevServerHandler(options));
 
-  const wss = await createDevLoggerServer(options.host, options.devPort);
+  const wss = await createDevLoggerServer(options.host, options.devPort, options.ssl);
+  const httpserv = options.ssl ? (await import('https')).createServer(options.ssl, app) : (await import('http')).createServer(app);
 
   return new Promise<ζexpress.Application>((resolve, reject) => {
-    const httpserv = app.listen(options.port, options.host);
+    httpserv.listen(options.port, options.host);
 
     wss.on('error', err => {
       reject(err);
@@ -8,6 +8,7 @@ import { strcmp } from '@ionic/cli-framework/utils/string';
 import { mkdirp, removeDirectory, writeFile } from '@ionic/utils-fs';
 
 import { ProjectType, generateContext, loadExecutor } from 'ionic';
+import { ERROR_CODES } from 'ionic/lib/errors';
 import { CommandHelpSchema, NamespaceSchemaHelpFormatter } from 'ionic/lib/help';
 
 import { ansi2md, links2md } from './utils';
@@ -47,6 +48,9 @@ export class DocsCommand extends Command {
       await writeFile(path.resolve(STAGING_DIRECTORY, `${projectType}.json`), JSON.stringify(projectJson, undefined, 2), { encoding: 'utf8' });
     }
 
+    const errorsJson = { errors: [...ERROR_CODES].sort((a, b) => strcmp(a.code, b.code)) };
+    await writeFile(path.resolve(STAGING_DIRECTORY, 'errors.json'), JSON.stringify(errorsJson, undefined, 2), { encoding: 'utf8' });
+
     process.stdout.write(`${chalk.green('Done.')}\n`);
   }
 
@@ -0,0 +1,104 @@
+(function() {
+  var config = window.Ionic && window.Ionic.ConsoleLogsConfig ? window.Ionic.ConsoleLogsConfig : {};
+  var url = (window.location.protocol === 'https:' ? 'wss://' : 'ws://') + window.location.host + config.path;
+  var queue = [];
+  var socket;
+  var retries = 0;
+
+  function connect() {
+    try {
+      socket = new WebSocket(url);
+    } catch (e) {
+      return;
+    }
+
+    socket.onopen = function() {
+      retries = 0;
+      drain();
+    };
+
+    // the dev server may be restarting
+    socket.onclose = function() {
+      socket = undefined;
+
+      if (retries < 10) {
+        setTimeout(connect, Math.min(500 * Math.pow(2, retries++), 10000));
+      }
+    };
+  }
+
+  function drain() {
+    while (socket && socket.readyState === 1 && queue.length > 0) {
+      socket.send(JSON.stringify(queue.shift()));
+    }
+  }
+
+  function send(msg) {
+    if (queue.length < 500) {
+      queue.push(msg);
+    }
+
+    drain();
+  }
+
+  function serialize(value) {
+    if (value instanceof Error) {
+      return value.stack ? String(value.stack) : String(value);
+    }
+
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    if (typeof value === 'undefined' || typeof value === 'function' || typeof value === 'symbol') {
+      return String(value);
+    }
+
+    try {
+      return JSON.stringify(value);
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  function patchConsole(type) {
+    var original = console[type];
+
+    if (typeof original !== 'function') {
+      return;
+    }
+
+    console[type] = function() {
+      var data = [];
+
+      for (var i = 0; i < arguments.length; i++) {
+        data.push(serialize(arguments[i]));
+      }
+
+      if (data.length > 0) {
+        send({ category: 'console', type: type, data: data });
+      }
+
+      return original.apply(console, arguments);
+    };
+  }
+
+  var types = ['log', 'info', 'warn', 'error', 'debug', 'trace', 'dir', 'table', 'assert'];
+
+  for (var i = 0; i < types.length; i++) {
+    patchConsole(types[i]);
+  }
+
+  window.addEventListener('error', function(event) {
+    var stack = event.error && event.error.stack ? String(event.error.stack) : undefined;
+    var location = event.filename ? ' (' + event.filename + ':' + event.lineno + ':' + event.colno + ')' : '';
+
+    send({ category: 'error', type: 'error', data: [stack ? stack : String(event.message) + location] });
+  });
+
+  window.addEventListener('unhandledrejection', function(event) {
+    send({ category: 'error', type: 'unhandledrejection', data: [serialize(event.reason)] });
+  });
+
+  connect();
+})();
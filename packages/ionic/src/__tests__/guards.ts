@@ -40,6 +40,9 @@ const OBJECT_GUARDS: Guard[] = [
   guards.isSecurityProfileResponse,
   guards.isTreatableAilment,
   guards.isIntegrationName,
+  guards.isHookName,
+  guards.isHookFileConfig,
+  guards.isHookCommandConfig,
   guards.isProjectConfig,
   guards.isMultiProjectConfig,
 ];
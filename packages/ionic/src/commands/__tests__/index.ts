@@ -0,0 +1,46 @@
+import { CommandMap, NamespaceMap } from '../../lib/namespace';
+import { loadCommandPlugins } from '../../lib/plugins';
+import { IonicNamespace } from '../index';
+
+jest.mock('../../lib/plugins', () => ({
+  loadCommandPlugins: jest.fn(),
+}));
+
+describe('ionic', () => {
+
+  describe('commands/index', () => {
+
+    const releaseCommand: any = { getMetadata: async () => ({ name: 'release', summary: '' }) };
+
+    const createNamespace = () => new IonicNamespace({ env: { log: { warn: jest.fn() } } } as any);
+
+    beforeEach(() => {
+      (loadCommandPlugins as jest.Mock).mockReset();
+      (loadCommandPlugins as jest.Mock).mockImplementation(async () => ({ namespaces: new NamespaceMap(), commands: new CommandMap([['release', async () => releaseCommand]]) }));
+    });
+
+    it('should not load command plugins for core commands', async () => {
+      const namespace = createNamespace();
+      const location = await namespace.locate(['docs']);
+      expect(location.path.map(([ name ]) => name)).toEqual(['ionic', 'docs']);
+      expect(loadCommandPlugins).not.toHaveBeenCalled();
+    });
+
+    it('should load command plugins for unknown commands', async () => {
+      const namespace = createNamespace();
+      const location = await namespace.locate(['release', 'now']);
+      expect(location.obj).toBe(releaseCommand);
+      expect(location.args).toEqual(['now']);
+      expect(loadCommandPlugins).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load command plugins once for unknown commands of no plugin', async () => {
+      const namespace = createNamespace();
+      expect((await namespace.locate(['foo'])).obj).toBe(namespace);
+      expect((await namespace.locate(['bar'])).obj).toBe(namespace);
+      expect(loadCommandPlugins).toHaveBeenCalledTimes(1);
+    });
+
+  });
+
+});
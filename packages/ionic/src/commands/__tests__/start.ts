@@ -0,0 +1,44 @@
+import { Hook } from '../../lib/hooks';
+import { StartCommand } from '../start';
+
+describe('ionic', () => {
+
+  describe('commands/start', () => {
+
+    let calls: any[][];
+    let spy: jest.SpyInstance;
+
+    beforeEach(() => {
+      calls = [];
+      spy = jest.spyOn(Hook.prototype, 'run').mockImplementation(async function(this: Hook, input: any) { calls.push([this.name, input]); return {}; });
+    });
+
+    afterEach(() => {
+      spy.mockRestore();
+    });
+
+    it('should run the start:after hook with the details of the new app', async () => {
+      const project = { type: 'angular', directory: '/path/to/myApp', config: { get: () => 'myApp' } };
+      const cmd = new StartCommand({ root: { env: {}, project } } as any);
+
+      await cmd.runStartHook({ cloned: false, name: 'My App', type: 'angular', template: 'tabs', projectId: 'myApp', projectDir: '/path/to/myApp', packageId: 'io.ionic.starter' });
+
+      expect(calls).toEqual([
+        ['start:after', { name: 'start:after', start: { type: 'angular', name: 'My App', projectId: 'myApp', packageId: 'io.ionic.starter', template: 'tabs' } }],
+      ]);
+    });
+
+    it('should run the start:after hook with the name of cloned apps', async () => {
+      const project = { type: 'angular', directory: '/path/to/myApp', config: { get: () => 'Cloned App' } };
+      const cmd = new StartCommand({ root: { env: {}, project } } as any);
+
+      await cmd.runStartHook({ cloned: true, url: 'https://github.com/ionic-team/ionic-conference-app', projectId: 'myApp', projectDir: '/path/to/myApp' });
+
+      expect(calls).toEqual([
+        ['start:after', { name: 'start:after', start: { type: 'angular', name: 'Cloned App', projectId: 'myApp', packageId: undefined, template: undefined } }],
+      ]);
+    });
+
+  });
+
+});
@@ -3,7 +3,7 @@ import chalk from 'chalk';
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, CommandPreRun } from '../definitions';
 import { COMMON_BUILD_COMMAND_OPTIONS, build } from '../lib/build';
 import { Command } from '../lib/command';
-import { FatalException } from '../lib/errors';
+import { ProjectRequiredException } from '../lib/errors';
 
 export class BuildCommand extends Command implements CommandPreRun {
   async getMetadata(): Promise<CommandMetadata> {
@@ -48,10 +48,11 @@ export class BuildCommand extends Command implements CommandPreRun {
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions, runinfo: CommandInstanceInfo): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic build')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic build')} outside a project directory.`);
     }
 
     // TODO: use runner directly
-    await build({ config: this.env.config, log: this.env.log, shell: this.env.shell, prompt: this.env.prompt, project: this.project }, inputs, options);
+    const details = await build({ config: this.env.config, log: this.env.log, shell: this.env.shell, prompt: this.env.prompt, project: this.project }, inputs, options);
+    this.env.output.setData(details);
   }
 }
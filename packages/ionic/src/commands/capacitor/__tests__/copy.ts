@@ -0,0 +1,35 @@
+import { Hook } from '../../../lib/hooks';
+import { CopyCommand } from '../copy';
+
+describe('ionic', () => {
+
+  describe('commands/capacitor/copy', () => {
+
+    let calls: any[][];
+    let spy: jest.SpyInstance;
+
+    beforeEach(() => {
+      calls = [];
+      spy = jest.spyOn(Hook.prototype, 'run').mockImplementation(async function(this: Hook, input: any) { calls.push([this.name, input]); return {}; });
+    });
+
+    afterEach(() => {
+      spy.mockRestore();
+    });
+
+    it('should run capacitor hooks around copying', async () => {
+      const cmd = new CopyCommand({ root: { env: {}, project: { directory: '/path/to/proj' } } } as any);
+      jest.spyOn(cmd, 'runCapacitor').mockImplementation(async (args: string[]) => { calls.push(args); });
+
+      await cmd.run(['android'], { _: [] });
+
+      expect(calls).toEqual([
+        ['capacitor:copy:before', { name: 'capacitor:copy:before', capacitor: { platform: 'android' } }],
+        ['copy', 'android'],
+        ['capacitor:copy:after', { name: 'capacitor:copy:after', capacitor: { platform: 'android' } }],
+      ]);
+    });
+
+  });
+
+});
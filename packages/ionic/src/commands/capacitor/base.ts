@@ -1,19 +1,20 @@
-import { ERROR_SHELL_COMMAND_NOT_FOUND, ShellCommandError } from '@ionic/cli-framework';
+import { BaseError, ERROR_SHELL_COMMAND_NOT_FOUND, ShellCommandError } from '@ionic/cli-framework';
 import { pathExists } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as path from 'path';
 
-import { CommandInstanceInfo, ProjectIntegration } from '../../definitions';
+import { CapacitorHookInput, CommandInstanceInfo, ProjectIntegration } from '../../definitions';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { FatalException, HookException, ProjectRequiredException } from '../../lib/errors';
 import { runCommand } from '../../lib/executor';
+import { Hook, HookDeps } from '../../lib/hooks';
 
 export abstract class CapacitorCommand extends Command {
   private _integration?: Required<ProjectIntegration>;
 
   get integration(): Required<ProjectIntegration> {
     if (!this.project) {
-      throw new FatalException(`Cannot use Capacitor outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot use Capacitor outside a project directory.`);
     }
 
     if (!this._integration) {
@@ -25,7 +26,7 @@ export abstract class CapacitorCommand extends Command {
 
   async checkCapacitor(runinfo: CommandInstanceInfo) {
     if (!this.project) {
-      throw new FatalException(`Cannot use Capacitor outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot use Capacitor outside a project directory.`);
     }
 
     const capacitor = this.project.getIntegration('capacitor');
@@ -63,9 +64,27 @@ export abstract class CapacitorCommand extends Command {
     }
   }
 
+  async runCapacitorHook(name: CapacitorHookInput['name'], capacitor: CapacitorHookInput['capacitor']): Promise<void> {
+    if (!this.project) {
+      throw new ProjectRequiredException(`Cannot use Capacitor outside a project directory.`);
+    }
+
+    const hook = new CapacitorHook(name, { config: this.env.config, log: this.env.log, project: this.project, shell: this.env.shell });
+
+    try {
+      await hook.run({ name: hook.name, capacitor });
+    } catch (e) {
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
+      }
+
+      throw e;
+    }
+  }
+
   async checkForPlatformInstallation(platform: string) {
     if (!this.project) {
-      throw new FatalException('Cannot use Capacitor outside a project directory.');
+      throw new ProjectRequiredException('Cannot use Capacitor outside a project directory.');
     }
 
     if (platform) {
@@ -83,7 +102,7 @@ export abstract class CapacitorCommand extends Command {
 
   private async promptToInstallCapacitor(): Promise<boolean> {
     if (!this.project) {
-      throw new FatalException(`Cannot use Capacitor outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot use Capacitor outside a project directory.`);
     }
 
     const { pkgManagerArgs } = await import('../../lib/utils/npm');
@@ -109,9 +128,15 @@ export abstract class CapacitorCommand extends Command {
 
   private async _runCapacitor(argList: string[]) {
     if (!this.project) {
-      throw new FatalException(`Cannot use Capacitor outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot use Capacitor outside a project directory.`);
     }
 
     await this.env.shell.run('capacitor', argList, { fatalOnNotFound: false, truncateErrorOutput: 5000, stdio: 'inherit', cwd: this.integration.root });
   }
 }
+
+class CapacitorHook extends Hook {
+  constructor(readonly name: CapacitorHookInput['name'], e: HookDeps) {
+    super(e);
+  }
+}
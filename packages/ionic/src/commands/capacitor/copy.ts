@@ -41,6 +41,8 @@ ${chalk.green('ionic capacitor copy')} will do the following:
       args.push(platform);
     }
 
+    await this.runCapacitorHook('capacitor:copy:before', { platform });
     await this.runCapacitor(args);
+    await this.runCapacitorHook('capacitor:copy:after', { platform });
   }
 }
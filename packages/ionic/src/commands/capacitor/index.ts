@@ -23,6 +23,7 @@ Learn more about Capacitor:
       ['add', async () => { const { AddCommand } = await import('./add'); return new AddCommand(this); }],
       ['copy', async () => { const { CopyCommand } = await import('./copy'); return new CopyCommand(this); }],
       ['open', async () => { const { OpenCommand } = await import('./open'); return new OpenCommand(this); }],
+      ['resources', async () => { const { ResourcesCommand } = await import('./resources'); return new ResourcesCommand(this); }],
       ['run', async () => { const { RunCommand } = await import('./run'); return new RunCommand(this); }],
       ['sync', async () => { const { SyncCommand } = await import('./sync'); return new SyncCommand(this); }],
       ['update', async () => { const { UpdateCommand } = await import('./update'); return new UpdateCommand(this); }],
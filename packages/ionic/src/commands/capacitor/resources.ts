@@ -0,0 +1,196 @@
+import { CommandGroup } from '@ionic/cli-framework';
+import { prettyPath } from '@ionic/cli-framework/utils/format';
+import { pathExists } from '@ionic/utils-fs';
+import chalk from 'chalk';
+import * as Debug from 'debug';
+import * as path from 'path';
+
+import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun, KnownResourceType, SourceImage } from '../../definitions';
+import { FatalException, UnsupportedImageException } from '../../lib/errors';
+import { CapacitorImageResource, CapacitorPlatform } from '../../lib/integrations/capacitor/resources';
+import { LocalSourceImage } from '../../lib/integrations/cordova/resources';
+
+import { CapacitorCommand } from './base';
+
+const debug = Debug('ionic:commands:capacitor:resources');
+
+const AVAILABLE_RESOURCE_TYPES: KnownResourceType[] = ['icon', 'splash'];
+
+export class ResourcesCommand extends CapacitorCommand implements CommandPreRun {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'resources',
+      type: 'project',
+      summary: 'Automatically create icon and splash screen resources',
+      description: `
+Ionic can automatically generate perfectly sized icons and splash screens from source images (${chalk.bold('.png')} or ${chalk.bold('.svg')}) for the native projects of Capacitor. SVG images require the ${chalk.green('@resvg/resvg-js')} package to be installed next to the Ionic CLI.
+
+Source images are looked up like for ${chalk.green('ionic cordova resources')}: the icon at ${chalk.bold('resources/icon.png')} and the splash screen at ${chalk.bold('resources/splash.png')}, or platform-specific images in the respective ${chalk.bold('resources/<platform>/')} directory. The source image for icons should ideally be at least ${chalk.bold('1024×1024px')} and the source image for splash screens at least ${chalk.bold('2732×2732px')}.
+
+Images are generated on your computer and written directly into the native projects, replacing the images of the Capacitor templates:
+- Android: ${chalk.bold('android/app/src/main/res/mipmap-*/')} and ${chalk.bold('drawable-*/')}, including adaptive and round icons
+- iOS: the ${chalk.bold('AppIcon')} and ${chalk.bold('Splash')} image sets of ${chalk.bold('ios/App/App/Assets.xcassets/')}, including their ${chalk.bold('Contents.json')}
+
+Additional images are generated from dedicated source images, if present:
+- ${chalk.bold('resources/android/icon-foreground.png')}: the foreground layer of adaptive icons (${chalk.bold('432×432px')}, with the artwork within the center ${chalk.bold('288×288px')}). Without it, the icon is scaled into the center of the layer.
+- ${chalk.bold('resources/android/icon-background.png')}: the background layer of adaptive icons. Without it, the ${chalk.bold('ic_launcher_background')} color of the Android project is used.
+- ${chalk.bold('resources/android/icon-round.png')}: round icons. Without it, the icon is cropped to a circle.
+- ${chalk.bold('resources/ios/splash-dark.png')}: the splash screen in dark mode
+      `,
+      exampleCommands: ['', 'ios', 'android', '--icon'],
+      inputs: [
+        {
+          name: 'platform',
+          summary: `The platform for which you would like to generate resources (${['android', 'ios'].map(v => chalk.green(v)).join(', ')})`,
+        },
+      ],
+      options: [
+        {
+          name: 'icon',
+          summary: 'Generate icon resources',
+          type: Boolean,
+          aliases: ['i'],
+        },
+        {
+          name: 'splash',
+          summary: 'Generate splash screen resources',
+          type: Boolean,
+          aliases: ['s'],
+        },
+      ],
+      groups: [CommandGroup.Beta],
+    };
+  }
+
+  async preRun(inputs: CommandLineInputs, options: CommandLineOptions, runinfo: CommandInstanceInfo): Promise<void> {
+    await this.preRunChecks(runinfo);
+  }
+
+  async getNativePlatforms(): Promise<CapacitorPlatform[]> {
+    const { CAPACITOR_PLATFORMS } = await import('../../lib/integrations/capacitor/resources');
+
+    const platforms = await Promise.all(CAPACITOR_PLATFORMS.map(async (p): Promise<[CapacitorPlatform, boolean]> => [p, await pathExists(path.resolve(this.integration.root, p))]));
+
+    return platforms.filter(([ , exists ]) => exists).map(([ p ]) => p);
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const { CAPACITOR_PLATFORMS, generateCapacitorImageResource, getCapacitorImageResources, writeCapacitorResourceFiles } = await import('../../lib/integrations/capacitor/resources');
+    const { findMostSpecificSourceImage, getBaseResourceType, getResourceTypesWithVariants, getSourceImages, loadLocalSourceImage } = await import('../../lib/integrations/cordova/resources');
+
+    const [ platform ] = inputs;
+    const { root } = this.integration;
+
+    if (platform && !CAPACITOR_PLATFORMS.includes(platform as CapacitorPlatform)) {
+      throw new FatalException(`Resources cannot be generated for ${chalk.green(platform)}. Supported platforms: ${CAPACITOR_PLATFORMS.map(p => chalk.green(p)).join(', ')}`);
+    }
+
+    const platforms = platform ? [platform as CapacitorPlatform] : await this.getNativePlatforms();
+
+    if (platforms.length === 0) {
+      throw new FatalException(`No native platforms detected. Please run: ${chalk.green('ionic capacitor add')}`);
+    }
+
+    // if no resource filters are passed as arguments assume to use all.
+    let resourceTypes = AVAILABLE_RESOURCE_TYPES.filter(type => options[type]);
+    resourceTypes = getResourceTypesWithVariants(resourceTypes.length ? resourceTypes : AVAILABLE_RESOURCE_TYPES);
+
+    const tasks = this.createTaskChain();
+
+    tasks.next(`Collecting source images`);
+
+    const srcImagesAvailable = await getSourceImages(root, platforms, resourceTypes);
+    debug(`${chalk.cyan('getSourceImages')} completed: (${srcImagesAvailable.map(v => chalk.bold(prettyPath(v.path))).join(', ')})`);
+
+    // Find the dedicated source image of each image resource, or the one of
+    // its fallback, e.g. the icon for round icons
+    const findSourceImage = (img: CapacitorImageResource): [SourceImage, boolean] | undefined => {
+      const srcImage = findMostSpecificSourceImage(img, srcImagesAvailable);
+
+      if (srcImage) {
+        return [srcImage, false];
+      }
+
+      const fallbackImage = img.fallback ? findMostSpecificSourceImage({ platform: img.platform, resType: img.fallback.resType }, srcImagesAvailable) : undefined;
+
+      if (fallbackImage) {
+        return [fallbackImage, true];
+      }
+    };
+
+    const allImgResources = getCapacitorImageResources(platforms, resourceTypes);
+    const missingSrcImages = allImgResources
+      .filter(img => getBaseResourceType(img.resType) === img.resType && !findSourceImage(img))
+      .map(img => `${img.platform}/${img.resType}`)
+      .filter((v, i, list) => list.indexOf(v) === i);
+
+    if (missingSrcImages.length > 0) {
+      throw new FatalException(
+        `Source image files were not found for the following platforms/types:\n${missingSrcImages.map(v => `- ${chalk.bold(v)}`).join('\n')}\n\n` +
+        `Please review ${chalk.green('--help')}`
+      );
+    }
+
+    // Variants without source image, such as the background layer of adaptive
+    // icons, are not generated
+    const imgResources = allImgResources.filter(img => findSourceImage(img));
+
+    tasks.next(`Reading source images`);
+
+    const localSourceImages = new Map<string, LocalSourceImage>();
+
+    for (const srcImage of srcImagesAvailable) {
+      try {
+        localSourceImages.set(srcImage.path, await loadLocalSourceImage(srcImage));
+      } catch (e) {
+        if (e instanceof UnsupportedImageException) {
+          throw new FatalException(`Cannot use ${chalk.bold(prettyPath(srcImage.path))} as source image: ${e.message}\n\nOnly ${chalk.bold('.png')} and ${chalk.bold('.svg')} source images are supported for Capacitor.`);
+        }
+
+        throw e;
+      }
+    }
+
+    const getSourceImage = (img: CapacitorImageResource): [LocalSourceImage, boolean] => {
+      const [ srcImage, fallback ] = findSourceImage(img) as [SourceImage, boolean];
+      return [localSourceImages.get(srcImage.path) as LocalSourceImage, fallback];
+    };
+
+    // images larger than their raster source image are not generated, as for
+    // Cordova
+    const imagesTooLargeForSource = imgResources.filter(img => {
+      const [ srcImage ] = getSourceImage(img);
+      return !srcImage.vector && (img.width > srcImage.width || img.height > srcImage.height);
+    });
+
+    const generateTask = tasks.next(`Generating platform resources`);
+    const generated = imgResources.filter(img => !imagesTooLargeForSource.includes(img));
+    let count = 0;
+
+    for (const img of generated) {
+      const [ srcImage, fallback ] = getSourceImage(img);
+      await generateCapacitorImageResource(root, img, srcImage, fallback);
+      count += 1;
+      generateTask.msg = `Generating platform resources: ${chalk.bold(`${count} / ${generated.length}`)} complete`;
+    }
+
+    tasks.next(`Updating native projects`);
+    const files = await writeCapacitorResourceFiles(root, imgResources);
+    debug('wrote files: %O', files);
+
+    tasks.end();
+
+    if (imagesTooLargeForSource.length > 0) {
+      this.env.log.rawmsg(
+        `The following images were not created because their source image was too small:\n` +
+        imagesTooLargeForSource.map(img => `    ${chalk.bold(img.dest)}     ${img.platform}/${img.resType} needed ${img.width}×${img.height}px`).join('\n')
+      );
+    }
+
+    this.env.output.setData({ generated: generated.map(formatResourceForOutput), skipped: imagesTooLargeForSource.map(formatResourceForOutput) });
+  }
+}
+
+function formatResourceForOutput({ platform, resType, dest, width, height }: CapacitorImageResource) {
+  return { platform, type: resType, dest, width, height };
+}
@@ -1,11 +1,13 @@
 import { CommandGroup, validators } from '@ionic/cli-framework';
 import { onBeforeExit, sleepForever } from '@ionic/cli-framework/utils/process';
+import { formatHost } from '@ionic/utils-network';
 import chalk from 'chalk';
+import * as lodash from 'lodash';
 import * as path from 'path';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, CommandPreRun } from '../../definitions';
 import { build } from '../../lib/build';
-import { FatalException } from '../../lib/errors';
+import { ProjectRequiredException } from '../../lib/errors';
 import { CAPACITOR_CONFIG_FILE, CapacitorConfig } from '../../lib/integrations/capacitor/config';
 import { generateOptionsForCapacitorBuild } from '../../lib/integrations/capacitor/utils';
 import { COMMON_SERVE_COMMAND_OPTIONS, LOCAL_ADDRESSES, serve } from '../../lib/serve';
@@ -22,7 +24,7 @@ export class RunCommand extends CapacitorCommand implements CommandPreRun {
       'ios --livereload',
       'ios --livereload-url=http://localhost:8100',
     ].sort();
-    const options: CommandMetadataOption[] = [
+    let options: CommandMetadataOption[] = [
       // Build Options
       {
         name: 'build',
@@ -48,8 +50,12 @@ export class RunCommand extends CapacitorCommand implements CommandPreRun {
 
     if (buildRunner) {
       const libmetadata = await buildRunner.getCommandMetadata();
+      const buildOptions = libmetadata.options || [];
+      const buildAliases = lodash.flatten(buildOptions.map(o => o.aliases || []));
       groups = libmetadata.groups || [];
-      options.push(...libmetadata.options || []);
+      // aliases of build options win, e.g. -c for --configuration over --consolelogs
+      options = options.map(o => o.aliases ? { ...o, aliases: o.aliases.filter(a => !buildAliases.includes(a)) } : o);
+      options.push(...buildOptions);
     }
 
     if (serveRunner) {
@@ -116,13 +122,15 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova run/emulate')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova run/emulate')} outside a project directory.`);
     }
 
     const [ platform ] = inputs;
+    let livereloadUrl = options['livereload-url'] ? String(options['livereload-url']) : undefined;
+
+    await this.runCapacitorHook('capacitor:run:before', { platform, livereloadUrl });
 
     if (options['livereload']) {
-      let livereloadUrl = options['livereload-url'] ? String(options['livereload-url']) : undefined;
 
       if (!livereloadUrl) {
         // TODO: use runner directly
@@ -133,7 +141,7 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
           this.env.log.warn(`Your device or emulator may not be able to access ${chalk.bold(details.externalAddress)}.${extra}\n\n`);
         }
 
-        livereloadUrl = `${details.protocol || 'http'}://${details.externalAddress}:${details.port}`;
+        livereloadUrl = `${details.protocol || 'http'}://${formatHost(details.externalAddress)}:${details.port}`;
       }
 
       const conf = new CapacitorConfig(path.resolve(this.project.directory, CAPACITOR_CONFIG_FILE));
@@ -165,6 +173,7 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
     this.env.log.nl();
 
     await this.runCapacitor(['open', platform]);
+    await this.runCapacitorHook('capacitor:run:after', { platform, livereloadUrl });
 
     if (options['livereload']) {
       this.env.log.nl();
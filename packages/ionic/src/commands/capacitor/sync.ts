@@ -43,6 +43,8 @@ ${chalk.green('ionic capacitor sync')} will do the following:
       args.push(platform);
     }
 
+    await this.runCapacitorHook('capacitor:sync:before', { platform });
     await this.runCapacitor(args);
+    await this.runCapacitorHook('capacitor:sync:after', { platform });
   }
 }
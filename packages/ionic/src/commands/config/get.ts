@@ -73,7 +73,7 @@ This command will sanitize config output for known sensitive fields (disabled wh
     const { global, json } = ctx;
 
     if (json) {
-      process.stdout.write(this.jsonStringify(v));
+      this.env.output.setData(v);
     } else {
       if (global && v && typeof v === 'object') {
         const columns = lodash.entries(v)
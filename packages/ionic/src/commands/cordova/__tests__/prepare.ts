@@ -0,0 +1,39 @@
+import { Hook } from '../../../lib/hooks';
+import { PrepareCommand } from '../prepare';
+
+describe('ionic', () => {
+
+  describe('commands/cordova/prepare', () => {
+
+    let calls: any[][];
+    let spy: jest.SpyInstance;
+
+    beforeEach(() => {
+      calls = [];
+      spy = jest.spyOn(Hook.prototype, 'run').mockImplementation(async function(this: Hook, input: any) { calls.push([this.name, input]); return {}; });
+    });
+
+    afterEach(() => {
+      spy.mockRestore();
+    });
+
+    it('should run cordova hooks with the arguments of cordova prepare', async () => {
+      const project = { directory: '/path/to/proj', getBuildRunner: async () => undefined };
+      const cmd = new PrepareCommand({ root: { env: {}, project } } as any);
+      jest.spyOn(cmd, 'checkForPlatformInstallation').mockImplementation(async () => undefined);
+      jest.spyOn(cmd, 'runCordova').mockImplementation(async (args: string[]) => { calls.push(args); });
+
+      await cmd.run(['android'], { _: ['android'], build: false });
+
+      const args = ['prepare', 'android'];
+
+      expect(calls).toEqual([
+        ['cordova:prepare:before', { name: 'cordova:prepare:before', cordova: { platform: 'android', args } }],
+        args,
+        ['cordova:prepare:after', { name: 'cordova:prepare:after', cordova: { platform: 'android', args } }],
+      ]);
+    });
+
+  });
+
+});
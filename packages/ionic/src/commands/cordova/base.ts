@@ -1,13 +1,14 @@
-import { ERROR_SHELL_COMMAND_NOT_FOUND, OptionGroup, ShellCommandError } from '@ionic/cli-framework';
+import { BaseError, ERROR_SHELL_COMMAND_NOT_FOUND, OptionGroup, ShellCommandError } from '@ionic/cli-framework';
 import { prettyPath } from '@ionic/cli-framework/utils/format';
 import { mkdirp, pathExists } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as path from 'path';
 
-import { CommandInstanceInfo, CommandMetadataOption, IShellRunOptions, ProjectIntegration } from '../../definitions';
+import { CommandInstanceInfo, CommandMetadataOption, CordovaHookInput, IShellRunOptions, ProjectIntegration } from '../../definitions';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { CordovaPlatformMissingException, FatalException, HookException, ProjectRequiredException } from '../../lib/errors';
 import { runCommand } from '../../lib/executor';
+import { Hook, HookDeps } from '../../lib/hooks';
 
 export const COMMON_CORDOVA_BUILD_COMMAND_OPTIONS: CommandMetadataOption[] = [
   {
@@ -66,7 +67,7 @@ export abstract class CordovaCommand extends Command {
 
   get integration(): Required<ProjectIntegration> {
     if (!this.project) {
-      throw new FatalException(`Cannot use Cordova outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot use Cordova outside a project directory.`);
     }
 
     if (!this._integration) {
@@ -78,7 +79,7 @@ export abstract class CordovaCommand extends Command {
 
   async checkCordova(runinfo: CommandInstanceInfo) {
     if (!this.project) {
-      throw new FatalException('Cannot use Cordova outside a project directory.');
+      throw new ProjectRequiredException('Cannot use Cordova outside a project directory.');
     }
 
     const cordova = this.project.getIntegration('cordova');
@@ -90,7 +91,7 @@ export abstract class CordovaCommand extends Command {
 
   async preRunChecks(runinfo: CommandInstanceInfo) {
     if (!this.project) {
-      throw new FatalException('Cannot use Cordova outside a project directory.');
+      throw new ProjectRequiredException('Cannot use Cordova outside a project directory.');
     }
 
     const { loadConfigXml } = await import('../../lib/integrations/cordova/config');
@@ -118,7 +119,7 @@ export abstract class CordovaCommand extends Command {
 
   async runCordova(argList: string[], { fatalOnNotFound = false, truncateErrorOutput = 5000, ...options }: IShellRunOptions = {}): Promise<void> {
     if (!this.project) {
-      throw new FatalException('Cannot use Cordova outside a project directory.');
+      throw new ProjectRequiredException('Cannot use Cordova outside a project directory.');
     }
 
     const { pkgManagerArgs } = await import('../../lib/utils/npm');
@@ -143,9 +144,27 @@ export abstract class CordovaCommand extends Command {
     }
   }
 
+  async runCordovaHook(name: CordovaHookInput['name'], cordova: CordovaHookInput['cordova']): Promise<void> {
+    if (!this.project) {
+      throw new ProjectRequiredException('Cannot use Cordova outside a project directory.');
+    }
+
+    const hook = new CordovaHook(name, { config: this.env.config, log: this.env.log, project: this.project, shell: this.env.shell });
+
+    try {
+      await hook.run({ name: hook.name, cordova });
+    } catch (e) {
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
+      }
+
+      throw e;
+    }
+  }
+
   async checkForPlatformInstallation(platform: string, { promptToInstall = false, promptToInstallRefusalMsg = `Cannot run this command for the ${chalk.green(platform)} platform unless it is installed.` }: { promptToInstall?: boolean; promptToInstallRefusalMsg?: string; } = {}): Promise<void> {
     if (!this.project) {
-      throw new FatalException('Cannot use Cordova outside a project directory.');
+      throw new ProjectRequiredException('Cannot use Cordova outside a project directory.');
     }
 
     if (platform) {
@@ -163,9 +182,15 @@ export abstract class CordovaCommand extends Command {
         if (confirm) {
           await this.runCordova(['platform', 'add', platform, '--save']);
         } else {
-          throw new FatalException(promptToInstallRefusalMsg);
+          throw new CordovaPlatformMissingException(promptToInstallRefusalMsg);
         }
       }
     }
   }
 }
+
+class CordovaHook extends Hook {
+  constructor(readonly name: CordovaHookInput['name'], e: HookDeps) {
+    super(e);
+  }
+}
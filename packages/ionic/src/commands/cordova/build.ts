@@ -3,7 +3,7 @@ import chalk from 'chalk';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun } from '../../definitions';
 import { build } from '../../lib/build';
-import { FatalException } from '../../lib/errors';
+import { ProjectRequiredException } from '../../lib/errors';
 import { filterArgumentsForCordova, generateOptionsForCordovaBuild } from '../../lib/integrations/cordova/utils';
 
 import { COMMON_CORDOVA_BUILD_COMMAND_OPTIONS, CORDOVA_BUILD_EXAMPLE_COMMANDS, CordovaCommand } from './base';
@@ -75,15 +75,20 @@ ${chalk.cyan('[2]')}: ${chalk.bold('https://cordova.apache.org/docs/en/latest/gu
     const metadata = await this.getMetadata();
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova build')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova build')} outside a project directory.`);
     }
 
+    const [ platform ] = inputs;
+    const cordovaArgs = filterArgumentsForCordova(metadata, options);
+
+    await this.runCordovaHook('cordova:build:before', { platform, args: cordovaArgs });
+
     if (options.build) {
       // TODO: use runner directly
       await build({ config: this.env.config, log: this.env.log, shell: this.env.shell, prompt: this.env.prompt, project: this.project }, inputs, generateOptionsForCordovaBuild(metadata, inputs, options));
     }
 
-    const cordovaArgs = filterArgumentsForCordova(metadata, options);
     await this.runCordova(cordovaArgs, {});
+    await this.runCordovaHook('cordova:build:after', { platform, args: cordovaArgs });
   }
 }
@@ -0,0 +1,67 @@
+import chalk from 'chalk';
+
+import { CommandLineOptions, CommandMetadataInput, CommandMetadataOption } from '../../../definitions';
+import { FatalException } from '../../../lib/errors';
+import { CordovaCommand } from '../base';
+
+export type ConfigXmlElementType = 'preference' | 'access' | 'allow-navigation' | 'allow-intent' | 'edit-config' | 'config-file' | 'plugin-variable';
+
+export const CONFIG_XML_ELEMENT_TYPES: ConfigXmlElementType[] = ['preference', 'access', 'allow-navigation', 'allow-intent', 'edit-config', 'config-file', 'plugin-variable'];
+
+export const CONFIG_XML_NAME_DESCRIPTION = `
+The ${chalk.green('name')} identifies the element of the given ${chalk.green('type')}:
+- ${chalk.green('preference')}: the name of the preference, e.g. ${chalk.green('Orientation')}
+- ${chalk.green('access')}, ${chalk.green('allow-navigation')}, ${chalk.green('allow-intent')}: the URL of the rule, e.g. ${chalk.green('https://*.example.com/*')}
+- ${chalk.green('edit-config')}: the file and target, separated by a colon, e.g. ${chalk.green('AndroidManifest.xml:/manifest/application')}
+- ${chalk.green('config-file')}: the target and parent, separated by a colon, e.g. ${chalk.green('*-Info.plist:NSCameraUsageDescription')}
+- ${chalk.green('plugin-variable')}: the plugin and variable, separated by a slash, e.g. ${chalk.green('cordova-plugin-facebook4/APP_ID')}
+`;
+
+export const CONFIG_XML_PLATFORM_OPTION: CommandMetadataOption = {
+  name: 'platform',
+  summary: 'Operate on the elements of a platform',
+  aliases: ['p'],
+};
+
+export function getConfigXmlTypeInput(summary: string): CommandMetadataInput {
+  return {
+    name: 'type',
+    summary: `${summary} (${CONFIG_XML_ELEMENT_TYPES.map(t => chalk.green(t)).join(', ')})`,
+  };
+}
+
+export abstract class CordovaConfigCommand extends CordovaCommand {
+  getPlatform(options: CommandLineOptions): string | undefined {
+    return options['platform'] ? String(options['platform']) : undefined;
+  }
+
+  /**
+   * Split the name of an element into its identifying parts, e.g. the file
+   * and target of `<edit-config>`.
+   *
+   * @param fromEnd Split at the last separator instead of the first one.
+   */
+  splitName(type: ConfigXmlElementType, name: string, separator: string, fromEnd = false): [string, string] {
+    const i = fromEnd ? name.lastIndexOf(separator) : name.indexOf(separator);
+
+    if (i <= 0 || i === name.length - 1) {
+      throw new FatalException(`Invalid name for ${chalk.green(type)}: ${chalk.green(name)}\n\nPlease review ${chalk.green('--help')}`);
+    }
+
+    return [name.substring(0, i), name.substring(i + 1)];
+  }
+
+  /**
+   * Split the name of a plugin variable into the plugin and the variable, if
+   * given. Names of scoped packages, e.g. `@scope/plugin`, contain a slash.
+   */
+  splitPluginVariableName(name: string): [string, string | undefined] {
+    const slashes = name.split('/').length - 1;
+
+    if (slashes === 0 || (slashes === 1 && name.startsWith('@'))) {
+      return [name, undefined];
+    }
+
+    return this.splitName('plugin-variable', name, '/', true);
+  }
+}
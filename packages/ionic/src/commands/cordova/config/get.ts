@@ -0,0 +1,126 @@
+import { OptionGroup, contains, validate } from '@ionic/cli-framework';
+import chalk from 'chalk';
+import * as util from 'util';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../../definitions';
+import { FatalException } from '../../../lib/errors';
+import { ConfigXml } from '../../../lib/integrations/cordova/config';
+
+import { CONFIG_XML_ELEMENT_TYPES, CONFIG_XML_NAME_DESCRIPTION, CONFIG_XML_PLATFORM_OPTION, ConfigXmlElementType, CordovaConfigCommand, getConfigXmlTypeInput } from './base';
+
+export class CordovaConfigGetCommand extends CordovaConfigCommand {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'get',
+      type: 'project',
+      summary: 'Print elements of config.xml',
+      description: `
+This command reads and prints elements of the Cordova ${chalk.bold('config.xml')} file.
+
+Without a ${chalk.green('name')} argument, this command prints all elements of the given ${chalk.green('type')}. Without a ${chalk.green('type')} argument, it prints all elements, except plugin variables.
+${CONFIG_XML_NAME_DESCRIPTION}
+For ${chalk.green('plugin-variable')}, the name of the plugin alone prints all of its variables.
+
+With ${chalk.green('--platform')}, the preferences of the platform take precedence over global ones, as they do for Cordova.
+
+If you are using this command programmatically, you can use the ${chalk.green('--json')} option.
+      `,
+      inputs: [
+        getConfigXmlTypeInput('The type of elements you wish to get'),
+        {
+          name: 'name',
+          summary: 'The name of the element you wish to get',
+        },
+      ],
+      options: [
+        CONFIG_XML_PLATFORM_OPTION,
+        {
+          name: 'json',
+          summary: 'Output elements in JSON',
+          type: Boolean,
+          groups: [OptionGroup.Advanced],
+        },
+      ],
+      exampleCommands: ['', 'preference', 'preference Orientation --platform=android', 'allow-navigation', 'edit-config AndroidManifest.xml:/manifest/application', 'plugin-variable cordova-plugin-facebook4'],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const { loadConfigXml } = await import('../../../lib/integrations/cordova/config');
+
+    const [ type, name ] = inputs;
+
+    if (type) {
+      validate(type, 'type', [contains(CONFIG_XML_ELEMENT_TYPES, {})]);
+    }
+
+    const conf = await loadConfigXml(this.integration);
+    const v = this.getValue(conf, type as ConfigXmlElementType | undefined, name, this.getPlatform(options));
+
+    if (options['json']) {
+      this.env.output.setData(v);
+    } else if (typeof v === 'string') {
+      this.env.log.rawmsg(v);
+    } else {
+      this.env.log.rawmsg(util.inspect(v, { depth: Infinity, colors: chalk.enabled }));
+    }
+  }
+
+  getValue(conf: ConfigXml, type?: ConfigXmlElementType, name?: string, platform?: string): any {
+    if (!type) {
+      return {
+        'preference': conf.getPreferences(platform),
+        'access': conf.getNavigationRules('access', platform),
+        'allow-navigation': conf.getNavigationRules('allow-navigation', platform),
+        'allow-intent': conf.getNavigationRules('allow-intent', platform),
+        'edit-config': conf.getEditConfigs(platform),
+        'config-file': conf.getConfigFiles(platform),
+      };
+    }
+
+    if (type === 'preference') {
+      return name ? conf.getPreference(name, platform) : conf.getPreferences(platform);
+    }
+
+    if (type === 'edit-config') {
+      const editConfigs = conf.getEditConfigs(platform);
+
+      if (!name) {
+        return editConfigs;
+      }
+
+      const [ file, target ] = this.splitName(type, name, ':');
+      const editConfig = editConfigs.find(c => c.file === file && c.target === target);
+
+      return editConfig ? editConfig.contents : undefined;
+    }
+
+    if (type === 'config-file') {
+      const configFiles = conf.getConfigFiles(platform);
+
+      if (!name) {
+        return configFiles;
+      }
+
+      const [ target, parent ] = this.splitName(type, name, ':');
+      const configFile = configFiles.find(c => c.target === target && c.parent === parent);
+
+      return configFile ? configFile.contents : undefined;
+    }
+
+    if (type === 'plugin-variable') {
+      if (!name) {
+        throw new FatalException(`Please specify the plugin of the variables to get, e.g. ${chalk.green('ionic cordova config get plugin-variable cordova-plugin-facebook4')}`);
+      }
+
+      const [ plugin, variable ] = this.splitPluginVariableName(name);
+      const variables = conf.getPluginVariables(plugin, platform);
+
+      return variable ? variables[variable] : variables;
+    }
+
+    const rules = conf.getNavigationRules(type, platform);
+
+    return name ? rules.find(url => url === name) : rules;
+  }
+}
@@ -0,0 +1,28 @@
+import chalk from 'chalk';
+
+import { CommandMap, Namespace } from '../../../lib/namespace';
+
+export class CordovaConfigNamespace extends Namespace {
+  async getMetadata() {
+    return {
+      name: 'config',
+      summary: 'Manage the configuration of the Cordova project',
+      description: `
+These commands are used to programmatically read, write, and delete elements of the Cordova ${chalk.bold('config.xml')} file, such as preferences, navigation rules and changes to native files. Comments and formatting of the file are kept.
+
+Elements are global by default. To operate on the elements of a platform, use the ${chalk.green('--platform')} option.
+
+Cordova reference documentation:
+- config.xml: ${chalk.bold('https://cordova.apache.org/docs/en/latest/config_ref/')}
+      `,
+    };
+  }
+
+  async getCommands(): Promise<CommandMap> {
+    return new CommandMap([
+      ['get', async () => { const { CordovaConfigGetCommand } = await import('./get'); return new CordovaConfigGetCommand(this); }],
+      ['set', async () => { const { CordovaConfigSetCommand } = await import('./set'); return new CordovaConfigSetCommand(this); }],
+      ['unset', async () => { const { CordovaConfigUnsetCommand } = await import('./unset'); return new CordovaConfigUnsetCommand(this); }],
+    ]);
+  }
+}
@@ -0,0 +1,96 @@
+import { contains, validate, validators } from '@ionic/cli-framework';
+import chalk from 'chalk';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../../definitions';
+import { FatalException } from '../../../lib/errors';
+
+import { CONFIG_XML_ELEMENT_TYPES, CONFIG_XML_NAME_DESCRIPTION, CONFIG_XML_PLATFORM_OPTION, ConfigXmlElementType, CordovaConfigCommand, getConfigXmlTypeInput } from './base';
+
+const EDIT_CONFIG_MODES = ['merge', 'overwrite'];
+
+export class CordovaConfigSetCommand extends CordovaConfigCommand {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'set',
+      type: 'project',
+      summary: 'Set elements of config.xml',
+      description: `
+This command adds or replaces elements of the Cordova ${chalk.bold('config.xml')} file.
+${CONFIG_XML_NAME_DESCRIPTION}
+The ${chalk.green('value')} is the value of preferences and plugin variables, and the XML the native file is changed with for ${chalk.green('edit-config')} and ${chalk.green('config-file')}. Navigation rules have no value: they are added unless they exist already.
+      `,
+      inputs: [
+        {
+          ...getConfigXmlTypeInput('The type of the element you wish to set'),
+          validators: [validators.required, contains(CONFIG_XML_ELEMENT_TYPES, {})],
+        },
+        {
+          name: 'name',
+          summary: 'The name of the element you wish to set',
+          validators: [validators.required],
+        },
+        {
+          name: 'value',
+          summary: 'The value of the element',
+        },
+      ],
+      options: [
+        CONFIG_XML_PLATFORM_OPTION,
+        {
+          name: 'mode',
+          summary: `The mode of ${chalk.green('edit-config')} elements (${EDIT_CONFIG_MODES.map(m => chalk.green(m)).join(', ')})`,
+          default: 'merge',
+        },
+      ],
+      exampleCommands: [
+        'preference Orientation portrait',
+        'preference android-minSdkVersion 21 --platform=android',
+        'allow-navigation "https://*.example.com/*"',
+        'edit-config AndroidManifest.xml:/manifest/application \'<application android:usesCleartextTraffic="true" />\' --platform=android',
+        'config-file "*-Info.plist:NSCameraUsageDescription" "<string>Scan barcodes</string>" --platform=ios',
+        'plugin-variable cordova-plugin-facebook4/APP_ID 1234567890',
+      ],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const { loadConfigXml } = await import('../../../lib/integrations/cordova/config');
+
+    const [ , name, value ] = inputs;
+    const type = inputs[0] as ConfigXmlElementType;
+    const platform = this.getPlatform(options);
+    const mode = String(options['mode']);
+
+    validate(mode, 'mode', [contains(EDIT_CONFIG_MODES, {})]);
+
+    if (!['access', 'allow-navigation', 'allow-intent'].includes(type) && inputs.length < 3) {
+      throw new FatalException(`Please specify the value of the ${chalk.green(type)} element.`);
+    }
+
+    const conf = await loadConfigXml(this.integration);
+
+    if (type === 'preference') {
+      conf.setPreference(name, value, platform);
+    } else if (type === 'edit-config') {
+      const [ file, target ] = this.splitName(type, name, ':');
+      conf.setEditConfig({ file, target, mode: mode === 'overwrite' ? 'overwrite' : 'merge', contents: value }, platform);
+    } else if (type === 'config-file') {
+      const [ target, parent ] = this.splitName(type, name, ':');
+      conf.setConfigFile({ target, parent, contents: value }, platform);
+    } else if (type === 'plugin-variable') {
+      const [ plugin, variable ] = this.splitPluginVariableName(name);
+
+      if (!variable) {
+        throw new FatalException(`Please specify the plugin and the variable, separated by a slash, e.g. ${chalk.green(`${plugin}/API_KEY`)}`);
+      }
+
+      conf.setPluginVariable(plugin, variable, value, platform);
+    } else {
+      conf.addNavigationRule(type, name, {}, platform);
+    }
+
+    await conf.save();
+
+    this.env.log.ok(`${chalk.green(type)} ${chalk.green(name)} set${platform ? ` for ${chalk.green(platform)}` : ''}!`);
+  }
+}
@@ -0,0 +1,76 @@
+import { contains, validators } from '@ionic/cli-framework';
+import chalk from 'chalk';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../../definitions';
+import { FatalException } from '../../../lib/errors';
+
+import { CONFIG_XML_ELEMENT_TYPES, CONFIG_XML_NAME_DESCRIPTION, CONFIG_XML_PLATFORM_OPTION, ConfigXmlElementType, CordovaConfigCommand, getConfigXmlTypeInput } from './base';
+
+export class CordovaConfigUnsetCommand extends CordovaConfigCommand {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'unset',
+      type: 'project',
+      summary: 'Delete elements of config.xml',
+      description: `
+This command deletes elements of the Cordova ${chalk.bold('config.xml')} file.
+${CONFIG_XML_NAME_DESCRIPTION}
+Global elements are not deleted along with the elements of a platform with the same name.
+      `,
+      inputs: [
+        {
+          ...getConfigXmlTypeInput('The type of the element you wish to delete'),
+          validators: [validators.required, contains(CONFIG_XML_ELEMENT_TYPES, {})],
+        },
+        {
+          name: 'name',
+          summary: 'The name of the element you wish to delete',
+          validators: [validators.required],
+        },
+      ],
+      options: [
+        CONFIG_XML_PLATFORM_OPTION,
+      ],
+      exampleCommands: ['preference Orientation', 'allow-navigation "https://*.example.com/*"', 'edit-config AndroidManifest.xml:/manifest/application --platform=android', 'plugin-variable cordova-plugin-facebook4/APP_ID'],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const { loadConfigXml } = await import('../../../lib/integrations/cordova/config');
+
+    const [ , name ] = inputs;
+    const type = inputs[0] as ConfigXmlElementType;
+    const platform = this.getPlatform(options);
+    const conf = await loadConfigXml(this.integration);
+    let removed: boolean;
+
+    if (type === 'preference') {
+      removed = conf.unsetPreference(name, platform);
+    } else if (type === 'edit-config') {
+      const [ file, target ] = this.splitName(type, name, ':');
+      removed = conf.removeEditConfig(file, target, platform);
+    } else if (type === 'config-file') {
+      const [ target, parent ] = this.splitName(type, name, ':');
+      removed = conf.removeConfigFile(target, parent, platform);
+    } else if (type === 'plugin-variable') {
+      const [ plugin, variable ] = this.splitPluginVariableName(name);
+
+      if (!variable) {
+        throw new FatalException(`Please specify the plugin and the variable, separated by a slash, e.g. ${chalk.green(`${plugin}/API_KEY`)}`);
+      }
+
+      removed = conf.unsetPluginVariable(plugin, variable, platform);
+    } else {
+      removed = conf.removeNavigationRule(type, name, platform);
+    }
+
+    if (!removed) {
+      this.env.log.info(`${chalk.green(type)} ${chalk.green(name)} is not set${platform ? ` for ${chalk.green(platform)}` : ''}.`);
+      return;
+    }
+
+    await conf.save();
+
+    this.env.log.ok(`${chalk.green(type)} ${chalk.green(name)} unset${platform ? ` for ${chalk.green(platform)}` : ''}!`);
+  }
+}
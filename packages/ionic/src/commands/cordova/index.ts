@@ -1,6 +1,6 @@
 import chalk from 'chalk';
 
-import { CommandMap, Namespace } from '../../lib/namespace';
+import { CommandMap, Namespace, NamespaceMap } from '../../lib/namespace';
 
 export class CordovaNamespace extends Namespace {
   async getMetadata() {
@@ -8,7 +8,7 @@ export class CordovaNamespace extends Namespace {
       name: 'cordova',
       summary: 'Cordova functionality',
       description: `
-These commands integrate with Apache Cordova, which brings native functionality to your app. Aside from ${chalk.green('ionic cordova resources')}, these commands all wrap the Cordova CLI.
+These commands integrate with Apache Cordova, which brings native functionality to your app. Aside from ${chalk.green('ionic cordova resources')} and ${chalk.green('ionic cordova config')}, these commands all wrap the Cordova CLI.
 
 Cordova Reference documentation:
 - Overview: ${chalk.bold('https://cordova.apache.org/docs/en/latest/guide/overview/index.html')}
@@ -17,6 +17,12 @@ Cordova Reference documentation:
     };
   }
 
+  async getNamespaces(): Promise<NamespaceMap> {
+    return new NamespaceMap([
+      ['config', async () => { const { CordovaConfigNamespace } = await import('./config/index'); return new CordovaConfigNamespace(this); }],
+    ]);
+  }
+
   async getCommands(): Promise<CommandMap> {
     return new CommandMap([
       ['build', async () => { const { BuildCommand } = await import('./build'); return new BuildCommand(this); }],
@@ -3,7 +3,7 @@ import chalk from 'chalk';
 import * as lodash from 'lodash';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun } from '../../definitions';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 import { runCommand } from '../../lib/executor';
 
 import { CordovaCommand } from './base';
@@ -76,7 +76,7 @@ Like running ${chalk.green('cordova platform')} directly, but adds default Ionic
     const { filterArgumentsForCordova } = await import('../../lib/integrations/cordova/utils');
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova platform')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova platform')} outside a project directory.`);
     }
 
     const [ action, platformName ] = inputs;
@@ -3,7 +3,7 @@ import chalk from 'chalk';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun } from '../../definitions';
 import { build } from '../../lib/build';
-import { FatalException } from '../../lib/errors';
+import { ProjectRequiredException } from '../../lib/errors';
 import { filterArgumentsForCordova, generateOptionsForCordovaBuild } from '../../lib/integrations/cordova/utils';
 
 import { CordovaCommand } from './base';
@@ -60,7 +60,7 @@ You may wish to use ${chalk.green('ionic cordova prepare')} if you run your proj
     const [ platform ] = inputs;
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova prepare')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova prepare')} outside a project directory.`);
     }
 
     await this.checkForPlatformInstallation(platform, {
@@ -89,6 +89,10 @@ You may wish to use ${chalk.green('ionic cordova prepare')} if you run your proj
       }
     }
 
-    await this.runCordova(filterArgumentsForCordova(metadata, options), {});
+    const cordovaArgs = filterArgumentsForCordova(metadata, options);
+
+    await this.runCordovaHook('cordova:prepare:before', { platform, args: cordovaArgs });
+    await this.runCordova(cordovaArgs, {});
+    await this.runCordovaHook('cordova:prepare:after', { platform, args: cordovaArgs });
   }
 }
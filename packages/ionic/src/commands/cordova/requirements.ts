@@ -2,7 +2,7 @@ import chalk from 'chalk';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun } from '../../definitions';
 import { isExitCodeException } from '../../guards';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 import { filterArgumentsForCordova } from '../../lib/integrations/cordova/utils';
 
 import { CordovaCommand } from './base';
@@ -33,7 +33,7 @@ Like running ${chalk.green('cordova requirements')} directly, but provides frien
     const [ platform ] = inputs;
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova requirements')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova requirements')} outside a project directory.`);
     }
 
     await this.checkForPlatformInstallation(platform, {
@@ -1,16 +1,17 @@
 import { prettyPath } from '@ionic/cli-framework/utils/format';
-import { cacheFileChecksum, copyFile, pathExists } from '@ionic/utils-fs';
+import { cacheFileChecksum, copyFile } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as Debug from 'debug';
 
-import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun, KnownPlatform, ResourcesConfig, ResourcesImageConfig, SourceImage } from '../../definitions';
-import { FatalException } from '../../lib/errors';
+import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun, ImageResource, ImageUploadResponse, KnownPlatform, KnownResourceType, ResourcesConfig, ResourcesImageConfig, SourceImage } from '../../definitions';
+import { CordovaPlatformMissingException, FatalException, ProjectRequiredException, UnsupportedImageException } from '../../lib/errors';
+import { LocalSourceImage } from '../../lib/integrations/cordova/resources';
 
 import { CordovaCommand } from './base';
 
 const debug = Debug('ionic:commands:cordova:resources');
 
-const AVAILABLE_RESOURCE_TYPES = ['icon', 'splash'];
+const AVAILABLE_RESOURCE_TYPES: KnownResourceType[] = ['icon', 'splash'];
 
 export class ResourcesCommand extends CordovaCommand implements CommandPreRun {
   async getMetadata(): Promise<CommandMetadata> {
@@ -19,13 +20,20 @@ export class ResourcesCommand extends CordovaCommand implements CommandPreRun {
       type: 'project',
       summary: 'Automatically create icon and splash screen resources',
       description: `
-Ionic can automatically generate perfectly sized icons and splash screens from source images (${chalk.bold('.png')}, ${chalk.bold('.psd')}, or ${chalk.bold('.ai')}) for your Cordova platforms.
+Ionic can automatically generate perfectly sized icons and splash screens from source images (${chalk.bold('.png')}, ${chalk.bold('.svg')}, ${chalk.bold('.psd')}, or ${chalk.bold('.ai')}) for your Cordova platforms.
 
 The source image for icons should ideally be at least ${chalk.bold('1024×1024px')} and located at ${chalk.bold('resources/icon.png')}. The source image for splash screens should ideally be at least ${chalk.bold('2732×2732px')} and located at ${chalk.bold('resources/splash.png')}. If you used ${chalk.green('ionic start')}, there should already be default Ionic resources in the ${chalk.bold('resources/')} directory, which you can overwrite.
 
 You can also generate platform-specific icons and splash screens by placing them in the respective ${chalk.bold('resources/<platform>/')} directory. For example, to generate an icon for Android, place your image at ${chalk.bold('resources/android/icon.png')}.
 
-By default, this command will not regenerate resources whose source image has not changed. To disable this functionality and always overwrite generated images, use ${chalk.green('--force')}.
+Additional images are generated from dedicated source images, if present:
+- ${chalk.bold('resources/android/icon-foreground.png')} and ${chalk.bold('resources/android/icon-background.png')}: the layers of Android adaptive icons (${chalk.bold('432×432px')}, with the artwork within the center ${chalk.bold('288×288px')})
+- ${chalk.bold('resources/android/icon-round.png')}: Android round icons
+- ${chalk.bold('resources/ios/splash-dark.png')}: the iOS splash screen in dark mode
+
+By default, this command will not regenerate resources whose source image, dimensions and generated image have not changed, which it tracks in ${chalk.bold('resources/.cache.json')}. To disable this functionality and always overwrite generated images, use ${chalk.green('--force')}.
+
+With ${chalk.green('--check')}, no images are generated. Instead, the command exits with a non-zero status if any generated image is missing or out of date, e.g. as a pre-commit hook. Commit ${chalk.bold('resources/.cache.json')} along with the generated images for this.
 
 For best results, the splash screen's artwork should roughly fit within a square (${chalk.bold('1200×1200px')}) at the center of the image. You can use ${chalk.bold('https://code.ionicframework.com/resources/splash.psd')} as a template for your splash screen.
 
@@ -35,9 +43,11 @@ Cordova reference documentation:
 - Icons: ${chalk.bold('https://cordova.apache.org/docs/en/latest/config_ref/images.html')}
 - Splash Screens: ${chalk.bold('https://cordova.apache.org/docs/en/latest/reference/cordova-plugin-splashscreen/')}
 
-This command uses Ionic servers, so we require you to be logged into your free Ionic account. Use ${chalk.green('ionic login')} to login.
+By default, this command uses Ionic servers, so we require you to be logged into your free Ionic account. Use ${chalk.green('ionic login')} to login.
+
+With ${chalk.green('--local')}, images are generated on your computer instead. ${chalk.bold('.png')} and ${chalk.bold('.svg')} source images are supported; SVG images require the ${chalk.green('@resvg/resvg-js')} package to be installed next to the Ionic CLI. Source images that cannot be processed locally are still sent to Ionic servers. To always generate images locally, use ${chalk.green('ionic config set -g resources.local true')}.
       `,
-      exampleCommands: ['', 'ios', 'android'],
+      exampleCommands: ['', 'ios', 'android', '--check'],
       inputs: [
         {
           name: 'platform',
@@ -63,6 +73,16 @@ This command uses Ionic servers, so we require you to be logged into your free I
           type: Boolean,
           aliases: ['s'],
         },
+        {
+          name: 'check',
+          summary: 'Exit with a non-zero status if generated images are out of date',
+          type: Boolean,
+        },
+        {
+          name: 'local',
+          summary: 'Generate resources on this computer instead of Ionic servers',
+          type: Boolean,
+        },
       ],
     };
   }
@@ -70,6 +90,16 @@ This command uses Ionic servers, so we require you to be logged into your free I
   async preRun(inputs: CommandLineInputs, options: CommandLineOptions, runinfo: CommandInstanceInfo): Promise<void> {
     await this.preRunChecks(runinfo);
 
+    if (!options['check'] && !this.isLocal(options)) {
+      await this.ensureLoggedIn();
+    }
+  }
+
+  isLocal(options: CommandLineOptions): boolean {
+    return options['local'] ? true : Boolean(this.env.config.get('resources.local'));
+  }
+
+  async ensureLoggedIn(): Promise<void> {
     const { promptToLogin } = await import('../../lib/session');
 
     const isLoggedIn = this.env.session.isLoggedIn();
@@ -97,20 +127,21 @@ This command uses Ionic servers, so we require you to be logged into your free I
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     const { loadConfigXml } = await import('../../lib/integrations/cordova/config');
-    const { addResourcesToConfigXml, createImgDestinationDirectories, findMostSpecificSourceImage, getImageResources, getSourceImages, transformResourceImage, uploadSourceImage } = await import('../../lib/integrations/cordova/resources');
+    const { addResourcesToConfigXml, cacheImageResource, createImgDestinationDirectories, findMostSpecificSourceImage, getBaseResourceType, getImageResources, getResourceTypesWithVariants, getSourceImages, getStaleImageResources, loadLocalSourceImage, readResourcesCache, transformResourceImage, transformResourceImageLocally, uploadSourceImage, writeResourcesCache } = await import('../../lib/integrations/cordova/resources');
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova resources')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova resources')} outside a project directory.`);
     }
 
     const platform = inputs[0] ? String(inputs[0]) : undefined;
-    const { force } = options;
+    const { check, force } = options;
+    const local = this.isLocal(options);
 
     const tasks = this.createTaskChain();
 
     // if no resource filters are passed as arguments assume to use all.
     let resourceTypes = AVAILABLE_RESOURCE_TYPES.filter((type, index, array) => options[type]);
-    resourceTypes = resourceTypes.length ? resourceTypes : AVAILABLE_RESOURCE_TYPES;
+    resourceTypes = getResourceTypesWithVariants(resourceTypes.length ? resourceTypes : AVAILABLE_RESOURCE_TYPES);
 
     // await this.checkForPlatformInstallation(platform, { promptToInstall: true });
 
@@ -118,7 +149,7 @@ This command uses Ionic servers, so we require you to be logged into your free I
     const buildPlatforms = platform ? [platform] : await this.getBuildPlatforms();
 
     if (buildPlatforms.length === 0) {
-      throw new FatalException(`No platforms detected. Please run: ${chalk.green('ionic cordova platform add')}`);
+      throw new CordovaPlatformMissingException(`No platforms detected. Please run: ${chalk.green('ionic cordova platform add')}`);
     }
 
     tasks.next(`Collecting resource configuration and source images`);
@@ -131,7 +162,7 @@ This command uses Ionic servers, so we require you to be logged into your free I
     let imgResources = getImageResources(this.integration.root)
       .filter(img => orientation === 'default' || typeof img.orientation === 'undefined' || img.orientation === orientation)
       .filter(img => buildPlatforms.includes(img.platform))
-      .filter(img => resourceTypes.includes(img.resType));
+      .filter(img => resourceTypes.includes(img.resType as KnownResourceType));
 
     if (platform) {
       imgResources = imgResources.filter(img => img.platform === platform);
@@ -139,10 +170,6 @@ This command uses Ionic servers, so we require you to be logged into your free I
 
     debug(`imgResources=${imgResources.length}`);
 
-    // Create the resource directories that are needed for the images we will create
-    const buildDirResponses = await createImgDestinationDirectories(imgResources);
-    debug(`${chalk.cyan('createImgDestinationDirectories')} completed: ${buildDirResponses.length}`);
-
     // Check /resources and /resources/<platform> directories for src files
     // Update imgResources to have their src attributes to equal the most
     // specific src img found
@@ -163,6 +190,21 @@ This command uses Ionic servers, so we require you to be logged into your free I
       };
     });
 
+    // Variants, such as the layers of adaptive icons, are only generated from
+    // their dedicated source images
+    imgResources = imgResources.filter(img => img.imageId || getBaseResourceType(img.resType) === img.resType);
+
+    for (const p of buildPlatforms) {
+      const layers = ['icon-foreground', 'icon-background'].filter(t => imgResources.some(img => img.platform === p && img.resType === t));
+
+      if (layers.length === 1) {
+        throw new FatalException(
+          `Adaptive icons need both foreground and background layers, but only ${chalk.bold(`${p}/${layers[0]}`)} was found.\n\n` +
+          `Please review ${chalk.green('--help')}`
+        );
+      }
+    }
+
     debug(`imgResources=${imgResources.length}`);
 
     // If there are any imgResources that have missing images then end
@@ -188,23 +230,31 @@ This command uses Ionic servers, so we require you to be logged into your free I
 
     tasks.next(`Filtering out image resources that do not need regeneration`);
 
-    const cachedSourceIds = srcImagesAvailable
-      .filter(img => img.imageId && img.cachedId && img.imageId === img.cachedId)
-      .map(img => img.imageId);
+    const cache = await readResourcesCache(this.integration.root);
+    const staleImgResources = await getStaleImageResources(this.integration.root, cache, imgResources, srcImagesAvailable);
+    debug(`staleImgResources=${staleImgResources.length}`);
 
-    if (!force) {
-      const keepImgResources = await Promise.all(imgResources.map(async img => {
-        if (!await pathExists(img.dest)) {
-          return true;
-        }
+    if (check) {
+      tasks.end();
+      this.env.output.setData({ stale: staleImgResources.map(formatResourceForOutput) });
 
-        return img.imageId && !cachedSourceIds.includes(img.imageId);
-      }));
+      if (staleImgResources.length > 0) {
+        throw new FatalException(
+          `The following images are missing or out of date:\n${staleImgResources.map(img => `    ${chalk.bold(img.name)}     ${img.platform}/${img.resType}`).join('\n')}\n\n` +
+          `Regenerate them with: ${chalk.green('ionic cordova resources')}`
+        );
+      }
+
+      this.env.log.ok('Generated images are up to date.');
+      return;
+    }
 
-      imgResources = imgResources.filter((img, i) => keepImgResources[i]);
+    if (!force) {
+      imgResources = staleImgResources;
 
       if (imgResources.length === 0) {
         tasks.end();
+        this.env.output.setData({ generated: [], skipped: [] });
         this.env.log.nl();
         this.env.log.info(
           'No need to regenerate images.\n' +
@@ -216,26 +266,59 @@ This command uses Ionic servers, so we require you to be logged into your free I
       }
     }
 
-    const uploadTask = tasks.next(`Uploading source images to prepare for transformations`);
+    // Create the resource directories that are needed for the images we will create
+    const buildDirResponses = await createImgDestinationDirectories(imgResources);
+    debug(`${chalk.cyan('createImgDestinationDirectories')} completed: ${buildDirResponses.length}`);
+
+    // Source images transformed locally, by their checksums
+    const localSourceImages = new Map<string, LocalSourceImage>();
+
+    if (local) {
+      tasks.next(`Reading source images`);
 
+      for (const srcImage of srcImagesAvailable) {
+        try {
+          localSourceImages.set(srcImage.imageId || '', await loadLocalSourceImage(srcImage));
+        } catch (e) {
+          if (!(e instanceof UnsupportedImageException)) {
+            throw e;
+          }
+
+          this.env.log.warn(`Cannot process ${chalk.bold(prettyPath(srcImage.path))} locally, falling back to Ionic servers: ${e.message}`);
+        }
+      }
+    }
+
+    const remoteSourceImages = srcImagesAvailable.filter(img => !localSourceImages.has(img.imageId || ''));
+    const imageUploadResponses = new Map<SourceImage, ImageUploadResponse>();
     let count = 0;
-    // Upload images to service to prepare for resource transformations
-    const imageUploadResponses = await Promise.all(srcImagesAvailable.map(async srcImage => {
-      const response = await uploadSourceImage(this.env, srcImage);
-      count += 1;
-      uploadTask.msg = `Uploading source images to prepare for transformations: ${chalk.bold(`${count} / ${srcImagesAvailable.length}`)} complete`;
-      return response;
-    }));
 
-    debug(`${chalk.cyan('uploadSourceImages')} completed: responses=%O`, imageUploadResponses);
+    if (remoteSourceImages.length > 0) {
+      if (local) {
+        await this.ensureLoggedIn();
+      }
 
-    srcImagesAvailable = srcImagesAvailable.map((img, index) => {
-      return {
-        ...img,
-        width: imageUploadResponses[index].Width,
-        height: imageUploadResponses[index].Height,
-        vector: imageUploadResponses[index].Vector,
-      };
+      const uploadTask = tasks.next(`Uploading source images to prepare for transformations`);
+
+      // Upload images to service to prepare for resource transformations
+      await Promise.all(remoteSourceImages.map(async srcImage => {
+        imageUploadResponses.set(srcImage, await uploadSourceImage(this.env, srcImage));
+        count += 1;
+        uploadTask.msg = `Uploading source images to prepare for transformations: ${chalk.bold(`${count} / ${remoteSourceImages.length}`)} complete`;
+      }));
+
+      debug(`${chalk.cyan('uploadSourceImages')} completed: responses=%O`, [...imageUploadResponses.values()]);
+    }
+
+    srcImagesAvailable = srcImagesAvailable.map(img => {
+      const localImage = localSourceImages.get(img.imageId || '');
+      const response = imageUploadResponses.get(img);
+
+      if (localImage) {
+        return { ...img, width: localImage.width, height: localImage.height, vector: localImage.vector };
+      }
+
+      return response ? { ...img, width: response.Width, height: response.Height, vector: response.Vector } : img;
     });
 
     debug('srcImagesAvailable=%O', srcImagesAvailable);
@@ -258,8 +341,16 @@ This command uses Ionic servers, so we require you to be logged into your free I
       return !imagesTooLargeForSource.find(tooLargeForSourceImage => img.name === tooLargeForSourceImage.name);
     });
 
+    // Images too large for their source image are cached as well, as running
+    // this command again would not generate them either
+    for (const img of imagesTooLargeForSource) {
+      await cacheImageResource(this.integration.root, cache, img, true);
+    }
+
     if (imgResources.length === 0) {
+      await writeResourcesCache(this.integration.root, cache);
       tasks.end();
+      this.env.output.setData({ generated: [], skipped: imagesTooLargeForSource.map(formatResourceForOutput) });
       this.env.log.nl();
       this.env.log.info('No need to regenerate images--images too large for transformation.'); // TODO: improve messaging
       throw new FatalException('', 0);
@@ -270,7 +361,8 @@ This command uses Ionic servers, so we require you to be logged into your free I
     count = 0;
 
     const transforms = imgResources.map(async img => {
-      const result = await transformResourceImage(this.env, img);
+      const localImage = localSourceImages.get(img.imageId || '');
+      const result = localImage ? await transformResourceImageLocally(img, localImage) : await transformResourceImage(this.env, img);
       count += 1;
       generateTask.msg = `Generating platform resources: ${chalk.bold(`${count} / ${imgResources.length}`)} complete`;
       return result;
@@ -298,6 +390,12 @@ This command uses Ionic servers, so we require you to be logged into your free I
       await cacheFileChecksum(img.path, img.imageId);
     }));
 
+    for (const img of imgResources) {
+      await cacheImageResource(this.integration.root, cache, img);
+    }
+
+    await writeResourcesCache(this.integration.root, cache);
+
     tasks.next(`Modifying config.xml to add new image resources`);
     const imageResourcesForConfig = imgResources.reduce((rc, img) => {
       if (!rc[img.platform]) {
@@ -321,9 +419,11 @@ This command uses Ionic servers, so we require you to be logged into your free I
         width: img.width,
         height: img.height,
         density: img.density,
+        target: img.target,
       } as ResourcesImageConfig);
       rc[img.platform][img.resType].nodeName = img.nodeName;
       rc[img.platform][img.resType].nodeAttributes = img.nodeAttributes;
+      rc[img.platform][img.resType].nodeSrcAttribute = img.nodeSrcAttribute;
 
       return rc;
     }, {} as ResourcesConfig);
@@ -344,5 +444,11 @@ This command uses Ionic servers, so we require you to be logged into your free I
     }
 
     await conf.save();
+
+    this.env.output.setData({ generated: imgResources.map(formatResourceForOutput), skipped: imagesTooLargeForSource.map(formatResourceForOutput) });
   }
 }
+
+function formatResourceForOutput({ platform, resType, name, dest, width, height, density }: ImageResource) {
+  return { platform, type: resType, name, dest, width, height, density };
+}
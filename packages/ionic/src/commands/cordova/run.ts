@@ -1,10 +1,12 @@
 import { LOGGER_LEVELS, OptionGroup, createPrefixedFormatter } from '@ionic/cli-framework';
 import { onBeforeExit, sleepForever } from '@ionic/cli-framework/utils/process';
+import { formatHost } from '@ionic/utils-network';
 import chalk from 'chalk';
+import * as lodash from 'lodash';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, CommandPreRun } from '../../definitions';
 import { COMMON_BUILD_COMMAND_OPTIONS, build } from '../../lib/build';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 import { loadConfigXml } from '../../lib/integrations/cordova/config';
 import { filterArgumentsForCordova, generateOptionsForCordovaBuild } from '../../lib/integrations/cordova/utils';
 import { COMMON_SERVE_COMMAND_OPTIONS, LOCAL_ADDRESSES, serve } from '../../lib/serve';
@@ -65,7 +67,7 @@ export class RunCommand extends CordovaCommand implements CommandPreRun {
       'ios --livereload',
       'ios --livereload-url=http://localhost:8100',
     ].sort();
-    const options: CommandMetadataOption[] = [
+    let options: CommandMetadataOption[] = [
       {
         name: 'list',
         summary: 'List all available Cordova targets',
@@ -99,8 +101,12 @@ export class RunCommand extends CordovaCommand implements CommandPreRun {
 
     if (buildRunner) {
       const libmetadata = await buildRunner.getCommandMetadata();
+      const buildOptions = libmetadata.options || [];
+      const buildAliases = lodash.flatten(buildOptions.map(o => o.aliases || []));
       groups = libmetadata.groups || [];
-      options.push(...libmetadata.options || []);
+      // aliases of build options win, e.g. -c for --configuration over --consolelogs
+      options = options.map(o => o.aliases ? { ...o, aliases: o.aliases.filter(a => !buildAliases.includes(a)) } : o);
+      options.push(...buildOptions);
     }
 
     if (serveRunner) {
@@ -188,13 +194,17 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic cordova run/emulate')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic cordova run/emulate')} outside a project directory.`);
     }
 
+    const [ platform ] = inputs;
     const metadata = await this.getMetadata();
+    const cordovaArgs = filterArgumentsForCordova(metadata, options);
+    let livereloadUrl = options['livereload-url'] ? String(options['livereload-url']) : undefined;
+
+    await this.runCordovaHook('cordova:run:before', { platform, args: cordovaArgs, livereloadUrl });
 
     if (options['livereload']) {
-      let livereloadUrl = options['livereload-url'] ? String(options['livereload-url']) : undefined;
 
       if (!livereloadUrl) {
         // TODO: use runner directly
@@ -205,7 +215,7 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
           this.env.log.warn(`Your device or emulator may not be able to access ${chalk.bold(details.externalAddress)}.${extra}\n\n`);
         }
 
-        livereloadUrl = `${details.protocol || 'http'}://${details.externalAddress}:${details.port}`;
+        livereloadUrl = `${details.protocol || 'http'}://${formatHost(details.externalAddress)}:${details.port}`;
       }
 
       const conf = await loadConfigXml(this.integration);
@@ -219,10 +229,11 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
       await conf.save();
 
       const cordovalog = this.env.log.clone();
-      cordovalog.handlers = createDefaultLoggerHandlers(createPrefixedFormatter(`${chalk.dim(`[cordova]`)} `));
+      cordovalog.handlers = createDefaultLoggerHandlers(createPrefixedFormatter(`${chalk.dim(`[cordova]`)} `), { json: this.env.output.enabled });
       const cordovalogws = cordovalog.createWriteStream(LOGGER_LEVELS.INFO);
 
-      await this.runCordova(filterArgumentsForCordova(metadata, options), { stream: cordovalogws });
+      await this.runCordova(cordovaArgs, { stream: cordovalogws });
+      await this.runCordovaHook('cordova:run:after', { platform, args: cordovaArgs, livereloadUrl });
       await sleepForever();
     } else {
       if (options.build) {
@@ -230,7 +241,8 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/developer-re
         await build({ config: this.env.config, log: this.env.log, shell: this.env.shell, prompt: this.env.prompt, project: this.project }, inputs, generateOptionsForCordovaBuild(metadata, inputs, options));
       }
 
-      await this.runCordova(filterArgumentsForCordova(metadata, options));
+      await this.runCordova(cordovaArgs);
+      await this.runCordovaHook('cordova:run:after', { platform, args: cordovaArgs });
     }
   }
 }
@@ -7,7 +7,7 @@ import * as path from 'path';
 
 import { CommandMetadata } from '../../definitions';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { ProjectRequiredException } from '../../lib/errors';
 
 interface DeployManifestItem {
   href: string;
@@ -26,7 +26,7 @@ export class DeployManifestCommand extends Command {
 
   async run(): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic deploy manifest')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic deploy manifest')} outside a project directory.`);
     }
 
     const buildDir = path.resolve(this.project.directory, 'www'); // TODO: this is hard-coded
@@ -3,8 +3,8 @@ import chalk from 'chalk';
 
 import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../definitions';
 import { isSuperAgentError } from '../guards';
+import { BROWSERS, getBrowserApp } from '../lib/browser';
 import { Command } from '../lib/command';
-import { BROWSERS } from '../lib/serve';
 import { createRequest } from '../lib/utils/http';
 
 export class DocsCommand extends Command {
@@ -27,7 +27,7 @@ export class DocsCommand extends Command {
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     const opn = await import('opn');
 
-    const browser = options['browser'] ? String(options['browser']) : undefined;
+    const browser = options['browser'] ? getBrowserApp(String(options['browser'])) : undefined;
 
     const homepage = 'https://ionicframework.com/docs';
     const url = this.project ? await this.project.getDocsUrl() : homepage;
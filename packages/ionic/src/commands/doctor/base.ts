@@ -5,14 +5,14 @@ import * as Debug from 'debug';
 import { IAilment, IAilmentRegistry, TreatableAilment } from '../../definitions';
 import { isTreatableAilment } from '../../guards';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { ProjectRequiredException } from '../../lib/errors';
 
 const debug = Debug('ionic:commands:doctor:base');
 
 export abstract class DoctorCommand extends Command {
   async getRegistry(): Promise<IAilmentRegistry> {
     if (!this.project) {
-      throw new FatalException(`Cannot use ${chalk.green('ionic doctor')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot use ${chalk.green('ionic doctor')} outside a project directory.`);
     }
 
     const { AilmentRegistry } = await import('../../lib/doctor');
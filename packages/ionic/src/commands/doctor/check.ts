@@ -46,7 +46,8 @@ Optionally supply the ${chalk.green('id')} argument to check a single issue. Use
         throw new FatalException(`Issue not found by ID: ${chalk.green(id)}`);
       }
 
-      await this.checkAilment(ailment);
+      const detected = await this.checkAilment(ailment);
+      this.env.output.setData({ ailments: [{ id: ailment.id, detected, treatable: isTreatableAilment(ailment) }] });
     } else {
       const ailments = await this.detectAilments();
       await this.checkAilments(ailments);
@@ -55,6 +56,7 @@ Optionally supply the ${chalk.green('id')} argument to check a single issue. Use
 
   async checkAilments(ailments: IAilment[]) {
     let treatableAilments = 0;
+    const results = [];
 
     if (ailments.length > 0) {
       for (const ailment of ailments) {
@@ -62,10 +64,13 @@ Optionally supply the ${chalk.green('id')} argument to check a single issue. Use
           treatableAilments += 1;
         }
 
-        await this.checkAilment(ailment);
+        const detected = await this.checkAilment(ailment);
+        results.push({ id: ailment.id, detected, treatable: isTreatableAilment(ailment) });
       }
     }
 
+    this.env.output.setData({ ailments: results });
+
     const msg = (
       'Doctor Summary\n' +
       `- Detected ${chalk.bold(String(ailments.length))} issue${ailments.length === 1 ? '' : 's'}.` +
@@ -81,13 +86,15 @@ Optionally supply the ${chalk.green('id')} argument to check a single issue. Use
     }
   }
 
-  async checkAilment(ailment: IAilment) {
+  async checkAilment(ailment: IAilment): Promise<boolean> {
     const { formatAilmentMessage } = await import('../../lib/doctor');
 
     if (await ailment.detected()) {
       this.env.log.warn(await formatAilmentMessage(ailment));
+      return true;
     } else {
       this.env.log.ok(`${chalk.green(ailment.id)} was not detected.`);
+      return false;
     }
   }
 }
@@ -3,7 +3,7 @@ import chalk from 'chalk';
 
 import { CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataInput, CommandMetadataOption, CommandPreRun } from '../definitions';
 import { Command } from '../lib/command';
-import { FatalException } from '../lib/errors';
+import { ProjectRequiredException } from '../lib/errors';
 import { prettyProjectName } from '../lib/project';
 
 export class GenerateCommand extends Command implements CommandPreRun {
@@ -51,7 +51,7 @@ export class GenerateCommand extends Command implements CommandPreRun {
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic generate')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic generate')} outside a project directory.`);
     }
 
     const runner = await this.project.requireGenerateRunner();
@@ -2,7 +2,7 @@ import chalk from 'chalk';
 
 import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../definitions';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 
 export class GitRemoteCommand extends Command {
   async getMetadata(): Promise<CommandMetadata> {
@@ -25,7 +25,7 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://dashboard.ionicframework.com')}
     const { addIonicRemote, getIonicRemote, initializeRepo, isRepoInitialized, setIonicRemote } = await import('../../lib/git');
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic git remote')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic git remote')} outside a project directory.`);
     }
 
     const token = this.env.session.getUserToken();
@@ -32,11 +32,16 @@ export class HelpCommand extends Command {
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     const { CommandSchemaHelpFormatter, CommandStringHelpFormatter, NamespaceSchemaHelpFormatter, NamespaceStringHelpFormatter } = await import('../lib/help');
     const location = await this.namespace.locate(inputs);
+    const json = options['json'] || this.env.flags.json;
 
     if (isCommand(location.obj)) {
       const formatterOptions = { location, command: location.obj };
-      const formatter = options['json'] ? new CommandSchemaHelpFormatter(formatterOptions) : new CommandStringHelpFormatter(formatterOptions);
-      this.env.log.rawmsg(await formatter.format());
+
+      if (json) {
+        this.env.output.setData(await new CommandSchemaHelpFormatter(formatterOptions).serialize());
+      } else {
+        this.env.log.rawmsg(await new CommandStringHelpFormatter(formatterOptions).format());
+      }
     } else {
       if (location.args.length > 0) {
         this.env.log.error(
@@ -58,8 +63,11 @@ export class HelpCommand extends Command {
         namespace: location.obj,
       };
 
-      const formatter = options['json'] ? new NamespaceSchemaHelpFormatter(formatterOptions) : new NamespaceStringHelpFormatter(formatterOptions);
-      this.env.log.rawmsg(await formatter.format());
+      if (json) {
+        this.env.output.setData(await new NamespaceSchemaHelpFormatter(formatterOptions).serialize());
+      } else {
+        this.env.log.rawmsg(await new NamespaceStringHelpFormatter(formatterOptions).format());
+      }
     }
   }
 }
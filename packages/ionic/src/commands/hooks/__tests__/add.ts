@@ -0,0 +1,54 @@
+import { mkdirp, readJsonFile, removeDirectory, writeFile } from '@ionic/utils-fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FatalException } from '../../../lib/errors';
+import { ProjectConfig } from '../../../lib/project';
+import { HooksAddCommand } from '../add';
+
+describe('ionic', () => {
+
+  describe('commands/hooks/add', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-hooks-add-${process.pid}`);
+    const configPath = path.resolve(dir, 'ionic.config.json');
+
+    const createCommand = () => {
+      const project = { directory: dir, config: new ProjectConfig(configPath) };
+      const log = { ok: jest.fn(), info: jest.fn(), warn: jest.fn() };
+      return new HooksAddCommand({ root: { env: { log }, project } } as any);
+    };
+
+    beforeEach(async () => {
+      await mkdirp(path.resolve(dir, 'scripts'));
+      await writeFile(path.resolve(dir, 'scripts', 'lint.js'), 'module.exports = async () => {};\n', { encoding: 'utf8' });
+      await writeFile(configPath, JSON.stringify({ name: 'app', integrations: {}, hooks: { 'build:before': 'scripts/prepare.js' } }), { encoding: 'utf8' });
+    });
+
+    afterAll(async () => {
+      await removeDirectory(dir);
+    });
+
+    it('should add the hook file relative to the project directory', async () => {
+      const cmd = createCommand();
+      await cmd.run(['build:before', path.resolve(dir, 'scripts', 'lint.js')], { _: [] });
+      const config = await readJsonFile(configPath);
+      expect(config.hooks).toEqual({ 'build:before': ['scripts/prepare.js', path.join('scripts', 'lint.js')] });
+    });
+
+    it('should not add the same hook file twice', async () => {
+      const cmd = createCommand();
+      await cmd.run(['serve:before', path.resolve(dir, 'scripts', 'lint.js')], { _: [] });
+      await cmd.run(['serve:before', path.resolve(dir, 'scripts', 'lint.js')], { _: [] });
+      const config = await readJsonFile(configPath);
+      expect(config.hooks['serve:before']).toEqual([path.join('scripts', 'lint.js')]);
+    });
+
+    it('should reject files which are not hook modules', async () => {
+      const cmd = createCommand();
+      await expect(cmd.run(['build:before', path.resolve(dir, 'scripts', 'lint.sh')], { _: [] })).rejects.toBeInstanceOf(FatalException);
+    });
+
+  });
+
+});
@@ -0,0 +1,59 @@
+import { mkdirp, readJsonFile, removeDirectory, writeFile } from '@ionic/utils-fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FatalException } from '../../../lib/errors';
+import { ProjectConfig } from '../../../lib/project';
+import { HooksRemoveCommand } from '../remove';
+
+describe('ionic', () => {
+
+  describe('commands/hooks/remove', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-hooks-remove-${process.pid}`);
+    const configPath = path.resolve(dir, 'ionic.config.json');
+
+    const createCommand = () => {
+      const project = { directory: dir, config: new ProjectConfig(configPath) };
+      const log = { ok: jest.fn() };
+      return new HooksRemoveCommand({ root: { env: { log }, project } } as any);
+    };
+
+    beforeEach(async () => {
+      await mkdirp(dir);
+      await writeFile(configPath, JSON.stringify({
+        name: 'app',
+        integrations: {},
+        hooks: {
+          'build:before': ['scripts/prepare.js', 'scripts/lint.js'],
+          'serve:before': 'scripts/lint.js',
+        },
+      }), { encoding: 'utf8' });
+    });
+
+    afterAll(async () => {
+      await removeDirectory(dir);
+    });
+
+    it('should remove the hook file', async () => {
+      const cmd = createCommand();
+      await cmd.run(['build:before', path.resolve(dir, 'scripts', 'lint.js')], { _: [] });
+      const config = await readJsonFile(configPath);
+      expect(config.hooks).toEqual({ 'build:before': ['scripts/prepare.js'], 'serve:before': 'scripts/lint.js' });
+    });
+
+    it('should remove the hook without entries left', async () => {
+      const cmd = createCommand();
+      await cmd.run(['serve:before', path.resolve(dir, 'scripts', 'lint.js')], { _: [] });
+      const config = await readJsonFile(configPath);
+      expect(config.hooks).toEqual({ 'build:before': ['scripts/prepare.js', 'scripts/lint.js'] });
+    });
+
+    it('should fail for hook files which are not added', async () => {
+      const cmd = createCommand();
+      await expect(cmd.run(['build:after', path.resolve(dir, 'scripts', 'lint.js')], { _: [] })).rejects.toBeInstanceOf(FatalException);
+    });
+
+  });
+
+});
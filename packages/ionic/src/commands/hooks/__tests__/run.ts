@@ -0,0 +1,35 @@
+import { FatalException, RunnerNotFoundException } from '../../../lib/errors';
+import { HooksRunCommand } from '../run';
+
+describe('ionic', () => {
+
+  describe('commands/hooks/run', () => {
+
+    const createCommand = () => new HooksRunCommand({ root: { env: { log: {} }, project: { directory: '/path/to/proj' } } } as any);
+
+    it('should reject unknown hooks in its input validators', async () => {
+      const cmd = createCommand();
+      const { inputs } = await cmd.getMetadata();
+      const [ , validator ] = inputs![0].validators!;
+      expect(validator('build:before', 'name')).toBe(true);
+      expect(validator('build:during', 'name')).toContain('build:during');
+    });
+
+    it('should fail for unknown hooks', async () => {
+      const cmd = createCommand();
+      const p = cmd.run(['build:during'], { _: [] });
+      await expect(p).rejects.toBeInstanceOf(FatalException);
+      await expect(p).rejects.toMatchObject({ message: expect.stringContaining('build:during') });
+    });
+
+    it('should fail with the code of errors creating the hook context', async () => {
+      const project = { directory: '/path/to/proj', requireBuildRunner: async () => { throw new RunnerNotFoundException('Cannot perform build.'); } };
+      const cmd = new HooksRunCommand({ root: { env: { log: {} }, project } } as any);
+      const p = cmd.run(['build:before'], { _: [] });
+      await expect(p).rejects.toBeInstanceOf(RunnerNotFoundException);
+      await expect(p).rejects.toMatchObject({ code: 'ERR_RUNNER_NOT_FOUND' });
+    });
+
+  });
+
+});
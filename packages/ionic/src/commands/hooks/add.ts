@@ -0,0 +1,77 @@
+import { contains, validators } from '@ionic/cli-framework';
+import { conform } from '@ionic/cli-framework/utils/array';
+import { prettyPath } from '@ionic/cli-framework/utils/format';
+import { pathExists } from '@ionic/utils-fs';
+import chalk from 'chalk';
+import * as path from 'path';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, HooksConfig } from '../../definitions';
+import { isHookName } from '../../guards';
+import { Command } from '../../lib/command';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
+import { HOOK_FILE_EXTENSIONS, HOOK_NAMES, addHook, locateHook } from '../../lib/hooks';
+
+export class HooksAddCommand extends Command {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'add',
+      type: 'project',
+      summary: 'Add a hook to your app',
+      description: `
+This command adds a hook file to the ${chalk.bold('hooks')} object of ${chalk.bold('ionic.config.json')}. Hook files must be ${HOOK_FILE_EXTENSIONS.map(ext => chalk.bold(ext)).join(', ')} files with a function for their default export.
+
+The path to the file is saved relative to the project directory.
+      `,
+      exampleCommands: [
+        'build:before scripts/lint.js',
+        'cordova:prepare:after scripts/copy-assets.ts',
+      ],
+      inputs: [
+        {
+          name: 'name',
+          summary: `The name of the hook (e.g. ${['build:before', 'serve:after'].map(n => chalk.green(n)).join(', ')})`,
+          validators: [validators.required, contains(HOOK_NAMES, {})],
+        },
+        {
+          name: 'file',
+          summary: 'The path to the hook file',
+          validators: [validators.required],
+        },
+      ],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const [ name, file ] = inputs;
+
+    if (!this.project) {
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic hooks add')} outside a project directory.`);
+    }
+
+    if (!isHookName(name)) {
+      throw new FatalException(`Don't know about ${chalk.green(name)} hook!`);
+    }
+
+    const p = path.resolve(file);
+
+    if (!HOOK_FILE_EXTENSIONS.includes(path.extname(p))) {
+      throw new FatalException(`Hooks must be ${HOOK_FILE_EXTENSIONS.map(ext => chalk.bold(ext)).join(', ')} files.`);
+    }
+
+    if (!(await pathExists(p))) {
+      this.env.log.warn(`${chalk.bold(prettyPath(p))} does not exist. The ${chalk.green(name)} hook will fail until it is created.`);
+    }
+
+    const hooks: HooksConfig = { ...this.project.config.get('hooks') };
+    const relativePath = path.relative(this.project.directory, p);
+
+    if (locateHook(this.project.directory, conform(hooks[name]), relativePath) >= 0) {
+      this.env.log.info(`Hook ${chalk.bold(relativePath)} already added to ${chalk.green(name)}.`);
+      return;
+    }
+
+    hooks[name] = addHook(this.project.directory, hooks[name], relativePath);
+    this.project.config.set('hooks', hooks);
+    this.env.log.ok(`Added ${chalk.bold(relativePath)} to ${chalk.green(name)} hook.`);
+  }
+}
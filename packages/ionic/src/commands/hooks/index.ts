@@ -0,0 +1,28 @@
+import chalk from 'chalk';
+
+import { CommandMap, Namespace } from '../../lib/namespace';
+
+export class HooksNamespace extends Namespace {
+  async getMetadata() {
+    return {
+      name: 'hooks',
+      summary: 'Manage Ionic CLI hooks in your app',
+      description: `
+Hooks run custom scripts before or after Ionic CLI commands. They are configured in the ${chalk.bold('hooks')} object of ${chalk.bold('ionic.config.json')} or as ${chalk.green('ionic:<hook>')} npm scripts in ${chalk.bold('package.json')}.
+
+These commands list, add, remove and test the hooks of your app.
+      `,
+    };
+  }
+
+  async getCommands(): Promise<CommandMap> {
+    return new CommandMap([
+      ['list', async () => { const { HooksListCommand } = await import('./list'); return new HooksListCommand(this); }],
+      ['add', async () => { const { HooksAddCommand } = await import('./add'); return new HooksAddCommand(this); }],
+      ['remove', async () => { const { HooksRemoveCommand } = await import('./remove'); return new HooksRemoveCommand(this); }],
+      ['run', async () => { const { HooksRunCommand } = await import('./run'); return new HooksRunCommand(this); }],
+      ['ls', 'list'],
+      ['rm', 'remove'],
+    ]);
+  }
+}
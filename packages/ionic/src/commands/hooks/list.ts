@@ -0,0 +1,78 @@
+import { columnar, prettyDuration } from '@ionic/cli-framework/utils/format';
+import chalk from 'chalk';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, HookConfig } from '../../definitions';
+import { isHookCommandConfig } from '../../guards';
+import { Command } from '../../lib/command';
+import { ProjectRequiredException } from '../../lib/errors';
+import { HOOK_NAMES, formatHookLabel } from '../../lib/hooks';
+
+export class HooksListCommand extends Command {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'list',
+      type: 'project',
+      summary: 'List the hooks of your app',
+      description: `
+This command prints the hooks configured in ${chalk.bold('ionic.config.json')} along with the matching ${chalk.green('ionic:<hook>')} npm scripts found in ${chalk.bold('package.json')}, which run before the configured hooks.
+      `,
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const { conform } = await import('@ionic/cli-framework/utils/array');
+
+    if (!this.project) {
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic hooks list')} outside a project directory.`);
+    }
+
+    const pkg = await this.project.requirePackageJson();
+    const scripts = pkg.scripts ? pkg.scripts : {};
+    const hooks = this.project.config.get('hooks');
+
+    const rows = HOOK_NAMES
+      .map(name => {
+        const entries = hooks ? conform(hooks[name]) : [];
+        const script = scripts[`ionic:${name}`];
+
+        return { name, entries, script };
+      })
+      .filter(({ entries, script }) => entries.length > 0 || script)
+      .map(({ name, entries, script }) => [
+        chalk.green(name),
+        entries.length > 0 ? entries.map(h => formatHookEntry(h)).join('\n') : chalk.dim('none'),
+        script ? chalk.green(`ionic:${name}`) : chalk.dim('none'),
+      ]);
+
+    if (rows.length === 0) {
+      this.env.log.info(`No hooks found. Use ${chalk.green('ionic hooks add')} to add hooks to your app.`);
+      return;
+    }
+
+    this.env.log.rawmsg(columnar(rows, { headers: ['hook', 'entries', 'npm script'] }));
+  }
+}
+
+function formatHookEntry(h: HookConfig): string {
+  if (typeof h === 'string') {
+    return h;
+  }
+
+  const label = isHookCommandConfig(h) ? `$ ${formatHookLabel(h)}` : formatHookLabel(h);
+  const details: string[] = [];
+
+  if (h.parallel) {
+    details.push('parallel');
+  }
+
+  if (typeof h.timeout === 'number') {
+    details.push(`timeout: ${prettyDuration(h.timeout)}`);
+  }
+
+  if (h.when) {
+    const { engine, platform } = h.when;
+    details.push(`when: ${[engine ? `engine=${engine}` : undefined, platform ? `platform=${platform}` : undefined].filter(d => d).join(', ')}`);
+  }
+
+  return details.length > 0 ? `${label} ${chalk.dim(`(${details.join('; ')})`)}` : label;
+}
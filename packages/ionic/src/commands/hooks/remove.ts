@@ -0,0 +1,68 @@
+import { contains, validators } from '@ionic/cli-framework';
+import { conform } from '@ionic/cli-framework/utils/array';
+import chalk from 'chalk';
+import * as path from 'path';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, HooksConfig } from '../../definitions';
+import { isHookName } from '../../guards';
+import { Command } from '../../lib/command';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
+import { HOOK_NAMES, locateHook, removeHook } from '../../lib/hooks';
+
+export class HooksRemoveCommand extends Command {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'remove',
+      type: 'project',
+      summary: 'Remove a hook from your app',
+      description: `
+This command removes a hook file from the ${chalk.bold('hooks')} object of ${chalk.bold('ionic.config.json')}. The file itself is not deleted.
+      `,
+      exampleCommands: [
+        'build:before scripts/lint.js',
+      ],
+      inputs: [
+        {
+          name: 'name',
+          summary: `The name of the hook (e.g. ${['build:before', 'serve:after'].map(n => chalk.green(n)).join(', ')})`,
+          validators: [validators.required, contains(HOOK_NAMES, {})],
+        },
+        {
+          name: 'file',
+          summary: 'The path to the hook file',
+          validators: [validators.required],
+        },
+      ],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const [ name, file ] = inputs;
+
+    if (!this.project) {
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic hooks remove')} outside a project directory.`);
+    }
+
+    if (!isHookName(name)) {
+      throw new FatalException(`Don't know about ${chalk.green(name)} hook!`);
+    }
+
+    const hooks: HooksConfig = { ...this.project.config.get('hooks') };
+    const relativePath = path.relative(this.project.directory, path.resolve(file));
+
+    if (locateHook(this.project.directory, conform(hooks[name]), relativePath) < 0) {
+      throw new FatalException(`Hook ${chalk.bold(relativePath)} not found in ${chalk.green(name)}.`);
+    }
+
+    const entries = removeHook(this.project.directory, hooks[name], relativePath);
+
+    if (entries.length > 0) {
+      hooks[name] = entries;
+    } else {
+      delete hooks[name];
+    }
+
+    this.project.config.set('hooks', hooks);
+    this.env.log.ok(`Removed ${chalk.bold(relativePath)} from ${chalk.green(name)} hook.`);
+  }
+}
@@ -0,0 +1,182 @@
+import { BaseError, OptionGroup, contains, validators } from '@ionic/cli-framework';
+import { conform } from '@ionic/cli-framework/utils/array';
+import chalk from 'chalk';
+import * as lodash from 'lodash';
+import * as path from 'path';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, HookInput, HookName, IProject } from '../../definitions';
+import { isHookName } from '../../guards';
+import { Command } from '../../lib/command';
+import { FatalException, HookException, ProjectRequiredException } from '../../lib/errors';
+import { HOOK_NAMES, Hook, HookDeps, formatHookLabel, matchesHookCondition } from '../../lib/hooks';
+
+export class HooksRunCommand extends Command {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'run',
+      type: 'project',
+      summary: 'Run a hook of your app',
+      description: `
+This command runs the ${chalk.green('ionic:<hook>')} npm script and the configured hooks for ${chalk.green('<name>')} without running the command they are attached to. This is useful for testing hooks.
+
+Hooks receive a synthetic context built from the default options of the command. Use ${chalk.green('--engine')} and ${chalk.green('--platform')} to test hooks with ${chalk.bold('when')} conditions.
+
+Use ${chalk.green('--dry-run')} to print the context and the hooks which would run without running them.
+      `,
+      exampleCommands: [
+        'build:before',
+        'cordova:build:before --platform=ios --dry-run',
+      ],
+      inputs: [
+        {
+          name: 'name',
+          summary: `The name of the hook (e.g. ${['build:before', 'serve:after'].map(n => chalk.green(n)).join(', ')})`,
+          validators: [validators.required, contains(HOOK_NAMES, {})],
+        },
+      ],
+      options: [
+        {
+          name: 'dry-run',
+          summary: 'Print the hooks which would run and their context without running them',
+          type: Boolean,
+        },
+        {
+          name: 'engine',
+          summary: `Target engine of the synthetic context (e.g. ${['browser', 'cordova'].map(e => chalk.green(e)).join(', ')})`,
+          groups: [OptionGroup.Advanced],
+        },
+        {
+          name: 'platform',
+          summary: `Target platform of the synthetic context (e.g. ${['ios', 'android'].map(e => chalk.green(e)).join(', ')})`,
+          groups: [OptionGroup.Advanced],
+        },
+      ],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const [ name ] = inputs;
+
+    if (!this.project) {
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic hooks run')} outside a project directory.`);
+    }
+
+    if (!isHookName(name)) {
+      throw new FatalException(`Don't know about ${chalk.green(name)} hook!`);
+    }
+
+    const input = await createSyntheticHookInput(this.project, name, options);
+
+    if (options['dry-run']) {
+      return this.printDryRun(this.project, input);
+    }
+
+    const hook = new HooksRunHook(name, { config: this.env.config, log: this.env.log, project: this.project, shell: this.env.shell });
+
+    try {
+      const result = await hook.run(input);
+
+      if (hook.timings.length === 0) {
+        this.env.log.info(`No hooks found for ${chalk.green(name)}.`);
+        return;
+      }
+
+      if (!lodash.isEmpty(result)) {
+        this.env.log.msg(`Options returned from hooks:\n\n${JSON.stringify(result, undefined, 2)}\n`);
+      }
+    } catch (e) {
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
+      }
+
+      throw e;
+    }
+
+    this.env.log.ok(`Ran ${chalk.bold(String(hook.timings.length))} hook${hook.timings.length === 1 ? '' : 's'} for ${chalk.green(name)}.`);
+  }
+
+  protected async printDryRun(project: IProject, input: HookInput): Promise<void> {
+    const pkg = await project.requirePackageJson();
+    const script = `ionic:${input.name}`;
+    const hooks = project.config.get('hooks');
+    const entries = hooks ? conform(hooks[input.name]) : [];
+
+    this.env.log.msg(`Context for ${chalk.green(input.name)}:\n\n${JSON.stringify(input, undefined, 2)}\n`);
+
+    if (pkg.scripts && pkg.scripts[script]) {
+      this.env.log.msg(`${chalk.green(script)} npm script would run.`);
+    }
+
+    for (const h of entries) {
+      const label = chalk.bold(formatHookLabel(h));
+      this.env.log.msg(matchesHookCondition(h, input) ? `${label} would run.` : `${label} would be skipped: ${chalk.bold('when')} condition not met.`);
+    }
+
+    if (entries.length === 0 && !(pkg.scripts && pkg.scripts[script])) {
+      this.env.log.info(`No hooks found for ${chalk.green(input.name)}.`);
+    }
+  }
+}
+
+/**
+ * Create the input of a hook from the default options of the command it is
+ * attached to.
+ */
+async function createSyntheticHookInput(project: IProject, name: HookName, options: CommandLineOptions): Promise<HookInput> {
+  const engine = options['engine'] ? String(options['engine']) : undefined;
+  const platform = options['platform'] ? String(options['platform']) : undefined;
+  const runnerOptions: CommandLineOptions = { _: [], '--': [], engine, platform };
+
+  switch (name) {
+    case 'build:before':
+    case 'build:after':
+      const buildRunner = await project.requireBuildRunner();
+      return { name, build: buildRunner.createOptionsFromCommandLine([], runnerOptions) };
+    case 'serve:before':
+      const serveRunner = await project.requireServeRunner();
+      return { name, serve: serveRunner.createOptionsFromCommandLine([], runnerOptions) };
+    case 'serve:after':
+      const serveOptions = (await project.requireServeRunner()).createOptionsFromCommandLine([], runnerOptions);
+      return {
+        name,
+        serve: {
+          ...serveOptions,
+          custom: false,
+          protocol: 'http',
+          localAddress: 'localhost',
+          externalAddress: serveOptions.address,
+          port: serveOptions.port,
+          externalNetworkInterfaces: [],
+          externallyAccessible: false,
+        },
+      };
+    case 'generate:before':
+    case 'generate:after':
+      const generateRunner = await project.requireGenerateRunner();
+      return { name, generate: generateRunner.createOptionsFromCommandLine(['page', 'example'], runnerOptions) };
+    case 'capacitor:copy:before':
+    case 'capacitor:copy:after':
+    case 'capacitor:sync:before':
+    case 'capacitor:sync:after':
+    case 'capacitor:run:before':
+    case 'capacitor:run:after':
+      return { name, capacitor: { platform } };
+    case 'cordova:prepare:before':
+    case 'cordova:prepare:after':
+    case 'cordova:build:before':
+    case 'cordova:build:after':
+    case 'cordova:run:before':
+    case 'cordova:run:after':
+      const [ , verb ] = name.split(':');
+      return { name, cordova: { platform, args: platform ? [verb, platform] : [verb] } };
+    case 'start:after':
+      const projectName = project.config.get('name');
+      return { name, start: { type: project.type ? project.type : 'custom', name: projectName, projectId: path.basename(project.directory) } };
+  }
+}
+
+class HooksRunHook extends Hook {
+  constructor(readonly name: HookName, e: HookDeps) {
+    super(e);
+  }
+}
@@ -1,5 +1,9 @@
-import { IProject, IonicEnvironment } from '../definitions';
+import { NamespaceLocateOptions } from '@ionic/cli-framework';
+import chalk from 'chalk';
+
+import { HydratedCommandMetadata, IProject, IonicEnvironment, NamespaceLocateResult } from '../definitions';
 import { CommandMap, Namespace, NamespaceMap } from '../lib/namespace';
+import { CommandPluginContributions, loadCommandPlugins } from '../lib/plugins';
 
 export interface IonicEnvironmentDeps {
   readonly env: IonicEnvironment;
@@ -9,6 +13,7 @@ export interface IonicEnvironmentDeps {
 export class IonicNamespace extends Namespace {
   protected _env: IonicEnvironment;
   protected _project: IProject | undefined;
+  protected _plugins?: Promise<CommandPluginContributions>;
 
   constructor({ env, project }: IonicEnvironmentDeps) {
     super(undefined);
@@ -39,13 +44,94 @@ export class IonicNamespace extends Namespace {
     };
   }
 
+  /**
+   * Locate a command or namespace, loading command plugins only if it is not
+   * a core command or namespace.
+   */
+  async locate(argv: ReadonlyArray<string>, options?: NamespaceLocateOptions): Promise<NamespaceLocateResult> {
+    const location = await super.locate(argv, options);
+
+    if (location.obj === this && location.args.length > 0 && !this._plugins) {
+      await this.getPlugins();
+      return super.locate(argv, options);
+    }
+
+    return location;
+  }
+
+  /**
+   * Get the metadata of all commands, including the commands of command
+   * plugins, e.g. to render help.
+   */
+  async getCommandMetadataList(): Promise<ReadonlyArray<HydratedCommandMetadata>> {
+    await this.getPlugins();
+    return super.getCommandMetadataList();
+  }
+
+  /**
+   * Get the namespaces and commands contributed by command plugins, loading
+   * them on first use.
+   */
+  async getPlugins(): Promise<CommandPluginContributions> {
+    if (!this._plugins) {
+      this._plugins = (async () => {
+        const [ namespaces, commands, plugins ] = await Promise.all([this.getCoreNamespaces(), this.getCoreCommands(), loadCommandPlugins(this)]);
+        const reserved = [...namespaces.keys(), ...commands.keys()];
+
+        // plugins cannot replace core namespaces and commands
+        for (const name of [...plugins.namespaces.keys(), ...plugins.commands.keys()]) {
+          if (reserved.includes(name)) {
+            this.env.log.warn(`Command plugin cannot replace ${chalk.green(`ionic ${String(name)}`)}. Skipping.`);
+            plugins.namespaces.delete(name);
+            plugins.commands.delete(name);
+          }
+        }
+
+        return plugins;
+      })();
+    }
+
+    return this._plugins;
+  }
+
+  /**
+   * Get the core namespaces, and the namespaces of command plugins once they
+   * are loaded.
+   */
   async getNamespaces(): Promise<NamespaceMap> {
+    const namespaces = await this.getCoreNamespaces();
+
+    if (!this._plugins) {
+      return namespaces;
+    }
+
+    const plugins = await this._plugins;
+    return new NamespaceMap([...namespaces.entries(), ...plugins.namespaces.entries()]);
+  }
+
+  /**
+   * Get the core commands, and the commands of command plugins once they are
+   * loaded.
+   */
+  async getCommands(): Promise<CommandMap> {
+    const commands = await this.getCoreCommands();
+
+    if (!this._plugins) {
+      return commands;
+    }
+
+    const plugins = await this._plugins;
+    return new CommandMap([...commands.entries(), ...plugins.commands.entries()]);
+  }
+
+  protected async getCoreNamespaces(): Promise<NamespaceMap> {
     return new NamespaceMap([
       ['config', async () => { const { ConfigNamespace } = await import('./config/index'); return new ConfigNamespace(this); }],
       ['cordova', async () => { const { CordovaNamespace } = await import('./cordova/index'); return new CordovaNamespace(this); }],
       ['capacitor', async () => { const { CapacitorNamespace } = await import('./capacitor/index'); return new CapacitorNamespace(this); }],
       ['deploy', async () => { const { DeployNamespace } = await import('./deploy/index'); return new DeployNamespace(this); }],
       ['git', async () => { const { GitNamespace } = await import('./git/index'); return new GitNamespace(this); }],
+      ['hooks', async () => { const { HooksNamespace } = await import('./hooks/index'); return new HooksNamespace(this); }],
       ['ssl', async () => { const { SSLNamespace } = await import('./ssl/index'); return new SSLNamespace(this); }],
       ['ssh', async () => { const { SSHNamespace } = await import('./ssh/index'); return new SSHNamespace(this); }],
       ['monitoring', async () => { const { MonitoringNamespace } = await import('./monitoring/index'); return new MonitoringNamespace(this); }],
@@ -55,7 +141,7 @@ export class IonicNamespace extends Namespace {
     ]);
   }
 
-  async getCommands(): Promise<CommandMap> {
+  protected async getCoreCommands(): Promise<CommandMap> {
     return new CommandMap([
       ['build', async () => { const { BuildCommand } = await import('./build'); return new BuildCommand(this); }],
       ['docs', async () => { const { DocsCommand } = await import('./docs'); return new DocsCommand(this); }],
@@ -32,7 +32,7 @@ This command is an easy way to share information about your setup. If applicable
     const { json } = options;
 
     if (json) {
-      process.stdout.write(JSON.stringify(await this.env.getInfo()));
+      this.env.output.setData(await this.env.getInfo());
     } else {
       const results = await this.env.getInfo();
 
@@ -1,14 +1,17 @@
 import { CommandGroup, OptionGroup, validators } from '@ionic/cli-framework';
+import { conform } from '@ionic/cli-framework/utils/array';
 import { prettyPath } from '@ionic/cli-framework/utils/format';
 import { slugify } from '@ionic/cli-framework/utils/string';
 import chalk from 'chalk';
+import * as lodash from 'lodash';
 import * as path from 'path';
 
 import { PROJECT_FILE, PROJECT_TYPES } from '../constants';
-import { CommandLineInputs, CommandLineOptions, CommandMetadata, IProject, ProjectType } from '../definitions';
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, IProject, ProjectTypePlugin } from '../definitions';
 import { Command } from '../lib/command';
 import { FatalException } from '../lib/errors';
 import { ProjectDetails, createProjectFromDetails, prettyProjectName } from '../lib/project';
+import { getProjectTypePlugins, loadProjectTypePlugins } from '../lib/project/plugins';
 
 export class InitCommand extends Command {
   async getMetadata(): Promise<CommandMetadata> {
@@ -20,11 +23,14 @@ export class InitCommand extends Command {
 This command will initialize the current directory with an ${chalk.bold(PROJECT_FILE)} file.
 
 ${chalk.green('ionic init')} will prompt for a project name and then proceed to determine the type of your project. You can specify the ${chalk.green('name')} argument and ${chalk.green('--type')} option to provide these values via command-line.
+
+Project types may also be provided by plugins installed in your project's ${chalk.bold('node_modules')}. Use ${chalk.green('--type-plugin')} to register a plugin in the ${chalk.bold('projectTypePlugins')} array of ${chalk.bold(PROJECT_FILE)}.
       `,
       exampleCommands: [
         '',
         '"My App"',
         '"My App" --type=angular',
+        '"My App" --type=stencil --type-plugin=ionic-project-type-stencil',
       ],
       inputs: [
         {
@@ -38,6 +44,11 @@ ${chalk.green('ionic init')} will prompt for a project name and then proceed to
           name: 'type',
           summary: `Type of project (e.g. ${PROJECT_TYPES.map(type => chalk.green(type)).join(', ')})`,
         },
+        {
+          name: 'type-plugin',
+          summary: 'Module name(s) of project type plugins to register (comma-separated)',
+          groups: [OptionGroup.Advanced],
+        },
         {
           name: 'force',
           summary: 'Initialize even if a project already exists',
@@ -77,8 +88,10 @@ ${chalk.green('ionic init')} will prompt for a project name and then proceed to
       inputs[0] = name;
     }
 
+    const plugins = await this.getPlugins(options);
+
     if (!options['type']) {
-      const details = new ProjectDetails({ rootDirectory: this.env.ctx.execPath, e: this.env });
+      const details = new ProjectDetails({ rootDirectory: this.env.ctx.execPath, plugins, e: this.env });
       options['type'] = await details.getTypeFromDetection();
     }
 
@@ -95,10 +108,16 @@ ${chalk.green('ionic init')} will prompt for a project name and then proceed to
         type: 'list',
         name: 'type',
         message: 'Project type:',
-        choices: PROJECT_TYPES.map(t => ({
-          name: `${prettyProjectName(t)} (${chalk.green(t)})`,
-          value: t,
-        })),
+        choices: [
+          ...PROJECT_TYPES.map(t => ({
+            name: `${prettyProjectName(t)} (${chalk.green(t)})`,
+            value: t,
+          })),
+          ...plugins.map(p => ({
+            name: `${p.name} (${chalk.green(p.type)})`,
+            value: p.type,
+          })),
+        ],
       });
 
       options['type'] = type;
@@ -107,7 +126,7 @@ ${chalk.green('ionic init')} will prompt for a project name and then proceed to
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     const name = inputs[0].trim();
-    const type = options['type'] ? String(options['type']) as ProjectType : undefined;
+    const type = options['type'] ? String(options['type']) : undefined;
     const projectId = options['project-id'] ? String(options['project-id']) : slugify(name); // TODO validate --project-id
 
     if (!type) {
@@ -117,18 +136,51 @@ ${chalk.green('ionic init')} will prompt for a project name and then proceed to
       );
     }
 
+    const plugins = await this.getPlugins(options);
+    const projectTypes = [...PROJECT_TYPES, ...plugins.map(p => p.type)];
+
+    if (!projectTypes.includes(type)) {
+      throw new FatalException(
+        `Invalid project type: ${chalk.green(type)}.\n` +
+        `Project type must be one of: ${projectTypes.map(t => chalk.green(t)).join(', ')}. Use ${chalk.green('--type-plugin')} for project types provided by plugins.`
+      );
+    }
+
     let project: IProject | undefined;
 
     if (this.project && this.project.details.context === 'multiapp') {
-      project = await createProjectFromDetails({ context: 'multiapp', configPath: path.resolve(this.project.rootDirectory, PROJECT_FILE), id: projectId, type, errors: [] }, this.env);
+      project = await createProjectFromDetails({ context: 'multiapp', configPath: path.resolve(this.project.rootDirectory, PROJECT_FILE), id: projectId, type, errors: [] }, this.env, plugins);
       project.config.set('root', path.relative(this.project.rootDirectory, this.env.ctx.execPath));
     } else {
-      project = await createProjectFromDetails({ context: 'app', configPath: path.resolve(this.env.ctx.execPath, PROJECT_FILE), type, errors: [] }, this.env);
+      project = await createProjectFromDetails({ context: 'app', configPath: path.resolve(this.env.ctx.execPath, PROJECT_FILE), type, errors: [] }, this.env, plugins);
     }
 
     project.config.set('name', name);
     project.config.set('type', type);
 
+    const typePlugins = getTypePluginNames(options);
+
+    if (typePlugins.length > 0) {
+      const existing = project.config.get('projectTypePlugins');
+      project.config.set('projectTypePlugins', lodash.uniq([...conform(existing), ...typePlugins]));
+    }
+
     this.env.log.ok('Your Ionic project has been initialized!');
   }
+
+  /**
+   * Get the project type plugins of an existing project config and the
+   * plugins given with `--type-plugin`.
+   */
+  protected async getPlugins(options: CommandLineOptions): Promise<ReadonlyArray<ProjectTypePlugin>> {
+    const rootDirectory = this.project ? this.project.rootDirectory : this.env.ctx.execPath;
+    const existing = await getProjectTypePlugins(path.resolve(rootDirectory, PROJECT_FILE), this.env);
+    const plugins = await loadProjectTypePlugins(this.env.ctx.execPath, getTypePluginNames(options), this.env);
+
+    return lodash.uniqBy([...plugins, ...existing], p => p.type);
+  }
+}
+
+function getTypePluginNames(options: CommandLineOptions): string[] {
+  return options['type-plugin'] ? String(options['type-plugin']).split(',').map(n => n.trim()).filter(n => n) : [];
 }
@@ -4,7 +4,7 @@ import chalk from 'chalk';
 import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../definitions';
 import { isIntegrationName } from '../../guards';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 import { INTEGRATION_NAMES } from '../../lib/integrations';
 
 export class IntegrationsDisableCommand extends Command {
@@ -30,7 +30,7 @@ Integrations, such as Cordova, can be disabled with this command.
     const [ name ] = inputs;
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic integrations disable')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic integrations disable')} outside a project directory.`);
     }
 
     if (!isIntegrationName(name)) {
@@ -5,7 +5,7 @@ import * as path from 'path';
 import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../definitions';
 import { isIntegrationName } from '../../guards';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 import { INTEGRATION_NAMES } from '../../lib/integrations';
 
 export class IntegrationsEnableCommand extends Command {
@@ -50,7 +50,7 @@ Integrations can be re-added with the ${chalk.green('--add')} option.
     const { add, quiet } = options;
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic integrations enable')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic integrations enable')} outside a project directory.`);
     }
 
     const root = options['root'] ? path.resolve(this.project.directory, String(options['root'])) : this.project.directory;
@@ -3,9 +3,17 @@ import chalk from 'chalk';
 
 import { CommandLineInputs, CommandLineOptions, CommandMetadata, IntegrationName } from '../../definitions';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { ProjectRequiredException } from '../../lib/errors';
 import { INTEGRATION_NAMES } from '../../lib/integrations';
 
+type IntegrationStatus = 'enabled' | 'disabled' | 'not added';
+
+const STATUS_COLORS: { readonly [S in IntegrationStatus]: (s: string) => string; } = {
+  'enabled': chalk.green,
+  'disabled': chalk.dim.red,
+  'not added': chalk.dim,
+};
+
 export class IntegrationsListCommand extends Command {
   async getMetadata(): Promise<CommandMetadata> {
     return {
@@ -25,25 +33,29 @@ This command will print the status of integrations in Ionic projects. Integratio
     const { project } = this;
 
     if (!project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic integrations list')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic integrations list')} outside a project directory.`);
     }
 
     const integrations = await Promise.all(INTEGRATION_NAMES.map(async name => project.createIntegration(name)));
 
-    const status = (name: IntegrationName) => {
+    const status = (name: IntegrationName): IntegrationStatus => {
       const c = project.config.get('integrations')[name];
 
       if (c) {
         if (c.enabled === false) {
-          return chalk.dim.red('disabled');
+          return 'disabled';
         }
 
-        return chalk.green('enabled');
+        return 'enabled';
       }
 
-      return chalk.dim('not added');
+      return 'not added';
     };
 
-    this.env.log.rawmsg(columnar(integrations.map(i => [chalk.green(i.name), i.summary, status(i.name)]), { headers: ['name', 'summary', 'status'] }));
+    if (this.env.flags.json) {
+      this.env.output.setData(integrations.map(i => ({ name: i.name, summary: i.summary, status: status(i.name) })));
+    } else {
+      this.env.log.rawmsg(columnar(integrations.map(i => [chalk.green(i.name), i.summary, STATUS_COLORS[status(i.name)](status(i.name))]), { headers: ['name', 'summary', 'status'] }));
+    }
   }
 }
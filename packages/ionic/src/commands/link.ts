@@ -7,7 +7,7 @@ import { PROJECT_FILE } from '../constants';
 import { App, CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun, GithubBranch, GithubRepo } from '../definitions';
 import { isSuperAgentError } from '../guards';
 import { Command } from '../lib/command';
-import { FatalException } from '../lib/errors';
+import { FatalException, ProjectRequiredException } from '../lib/errors';
 import { runCommand } from '../lib/executor';
 
 const debug = Debug('ionic:commands:link');
@@ -92,7 +92,7 @@ ${chalk.cyan('[2]')}: ${chalk.bold('https://ionicframework.com/support/request')
     const { promptToLogin } = await import('../lib/session');
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic link')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic link')} outside a project directory.`);
     }
 
     let proId: string | undefined = inputs[0];
@@ -8,7 +8,7 @@ import { APIResponseSuccess, CommandLineInputs, CommandLineOptions, CommandMetad
 import { isSuperAgentError } from '../../guards';
 import { build } from '../../lib/build';
 import { Command } from '../../lib/command';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
 
 const debug = Debug('ionic:commands:monitoring:syncmaps');
 
@@ -43,7 +43,7 @@ By default, ${chalk.green('ionic monitoring syncmaps')} will upload the sourcema
     const { loadConfigXml } = await import('../../lib/integrations/cordova/config');
 
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic monitoring syncmaps')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic monitoring syncmaps')} outside a project directory.`);
     }
 
     const token = this.env.session.getUserToken();
@@ -5,7 +5,7 @@ import * as path from 'path';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, IProject } from '../definitions';
 import { Command } from '../lib/command';
-import { FatalException } from '../lib/errors';
+import { FatalException, ProjectRequiredException } from '../lib/errors';
 import { runCommand } from '../lib/executor';
 
 export class RepairCommand extends Command {
@@ -24,7 +24,7 @@ For Cordova apps, it removes and recreates the generated native project and the
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions, runinfo: CommandInstanceInfo): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic repair')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic repair')} outside a project directory.`);
     }
 
     const { pkgManagerArgs } = await import('../lib/utils/npm');
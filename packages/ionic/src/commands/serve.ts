@@ -4,9 +4,11 @@ import chalk from 'chalk';
 import * as lodash from 'lodash';
 
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, CommandPreRun } from '../definitions';
+import { BROWSERS, CHROME_DEVICES } from '../lib/browser';
 import { Command } from '../lib/command';
-import { FatalException } from '../lib/errors';
-import { BROWSERS, COMMON_SERVE_COMMAND_OPTIONS, DEFAULT_LAB_PORT, serve } from '../lib/serve';
+import { FatalException, ProjectRequiredException } from '../lib/errors';
+import { getMultiAppProjectIds } from '../lib/project';
+import { COMMON_SERVE_COMMAND_OPTIONS, DEFAULT_LAB_PORT, formatServeProjectsTable, serve, serveProjects } from '../lib/serve';
 
 export class ServeCommand extends Command implements CommandPreRun {
   async getMetadata(): Promise<CommandMetadata> {
@@ -47,10 +49,31 @@ export class ServeCommand extends Command implements CommandPreRun {
       },
       {
         name: 'browser',
-        summary: `Specifies the browser to use (${BROWSERS.map(b => chalk.green(b)).join(', ')})`,
+        summary: `Specifies the browsers to use, comma-separated (${BROWSERS.map(b => chalk.green(b)).join(', ')})`,
         aliases: ['w'],
         groups: [OptionGroup.Advanced],
       },
+      {
+        name: 'browser-profile',
+        summary: `Use a set of browsers and flags saved in ${chalk.green('browser.profiles')} in global config`,
+        groups: [OptionGroup.Advanced],
+      },
+      {
+        name: 'browser-incognito',
+        summary: 'Open browsers in incognito or private mode',
+        type: Boolean,
+        groups: [OptionGroup.Advanced],
+      },
+      {
+        name: 'browser-data-dir',
+        summary: 'Use a separate profile directory for browsers',
+        groups: [OptionGroup.Advanced],
+      },
+      {
+        name: 'browser-device',
+        summary: `Emulate a device in Chrome (${Object.keys(CHROME_DEVICES).map(d => chalk.green(d)).join(', ')})`,
+        groups: [OptionGroup.Advanced],
+      },
       {
         name: 'browseroption',
         summary: `Specifies a path to open to (${chalk.green('/#/tab/dash')})`,
@@ -63,6 +86,18 @@ export class ServeCommand extends Command implements CommandPreRun {
         type: Boolean,
         aliases: ['l'],
       },
+      {
+        name: 'projects',
+        summary: `Serve several apps of a multi-app project, each on its own ports (e.g. ${chalk.green('app,admin')})`,
+        type: String,
+        groups: [OptionGroup.Advanced],
+      },
+      {
+        name: 'all',
+        summary: 'Serve all apps of a multi-app project',
+        type: Boolean,
+        groups: [OptionGroup.Advanced],
+      },
       {
         name: 'auth',
         summary: 'HTTP Basic Auth password to secure the server on your local network',
@@ -78,7 +113,9 @@ Easily spin up a development server which launches in your browser. It watches f
 
 By default, ${chalk.green('ionic serve')} boots up a development server on all network interfaces and prints the external address(es) on which your app is being served. It also broadcasts your app to the Ionic DevApp on your network. To disable the DevApp and bind to ${chalk.green('localhost')}, use ${chalk.green('--local')}.
 
-Try the ${chalk.green('--lab')} option to see multiple platforms at once.`;
+Try the ${chalk.green('--lab')} option to see multiple platforms at once.
+
+Use ${chalk.green('--consolelogs')} to print the console logs of your app to the terminal, ${chalk.green('--ssl')} to serve it over HTTPS, and ${chalk.green('--browser-profile')} to open it in a saved set of browsers. In a multi-app project, ${chalk.green('--projects')} and ${chalk.green('--all')} serve several apps at once.`;
 
     const runner = this.project && await this.project.getServeRunner();
 
@@ -135,13 +172,66 @@ Try the ${chalk.green('--lab')} option to see multiple platforms at once.`;
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic serve')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic serve')} outside a project directory.`);
+    }
+
+    const ids = await this.getProjectIds(options);
+
+    if (ids) {
+      const results = await serveProjects(this.env, this.project.rootDirectory, ids, inputs, options);
+
+      this.env.log.nl();
+      this.env.log.info('Development servers running!');
+      this.env.log.rawmsg(`\n${formatServeProjectsTable(results)}\n`);
+
+      this.env.output.setData(results.map(r => ({ project: r.id, type: r.type, ...r.details })));
+      this.env.output.write();
+
+      await sleepForever();
     }
 
     // TODO: use runner directly
-    await serve({ flags: this.env.flags, config: this.env.config, log: this.env.log, prompt: this.env.prompt, shell: this.env.shell, project: this.project }, inputs, options);
+    const details = await serve({ flags: this.env.flags, config: this.env.config, log: this.env.log, prompt: this.env.prompt, shell: this.env.shell, project: this.project }, inputs, options);
+
+    // the dev server runs until the process is stopped, so the JSON document
+    // is written as soon as the dev server is ready
+    this.env.output.setData(details);
+    this.env.output.write();
+
     await sleepForever();
   }
+
+  /**
+   * Get the ids of the apps to serve with `--projects` or `--all`, or
+   * `undefined` to serve the current app.
+   */
+  protected async getProjectIds(options: CommandLineOptions): Promise<string[] | undefined> {
+    if (!this.project || (!options['projects'] && !options['all'])) {
+      return;
+    }
+
+    if (this.project.details.context !== 'multiapp') {
+      throw new FatalException(`${chalk.green('--projects')} and ${chalk.green('--all')} can only be used in multi-app projects.`);
+    }
+
+    const available = await getMultiAppProjectIds(this.project.filePath);
+
+    if (options['all']) {
+      return available;
+    }
+
+    const ids = lodash.uniq(String(options['projects']).split(',').map(id => id.trim()).filter(id => id));
+    const unknown = ids.filter(id => !available.includes(id));
+
+    if (unknown.length > 0) {
+      throw new FatalException(
+        `Unknown project${unknown.length === 1 ? '' : 's'}: ${unknown.map(id => chalk.green(id)).join(', ')}\n` +
+        `Projects in ${chalk.bold('ionic.config.json')}: ${available.map(id => chalk.green(id)).join(', ')}`
+      );
+    }
+
+    return ids;
+  }
 }
 
 export class LabCommand extends ServeCommand {
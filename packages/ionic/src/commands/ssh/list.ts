@@ -41,7 +41,7 @@ export class SSHListCommand extends SSHBaseCommand implements CommandPreRun {
     const res = await r;
 
     if (json) {
-      process.stdout.write(JSON.stringify(res.data));
+      this.env.output.setData(res.data);
     } else {
       let activeFingerprint: string | undefined;
       let foundActiveKey = false;
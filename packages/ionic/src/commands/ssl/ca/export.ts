@@ -0,0 +1,65 @@
+import { OptionGroup } from '@ionic/cli-framework';
+import { prettyPath } from '@ionic/cli-framework/utils/format';
+import { writeFile } from '@ionic/utils-fs';
+import chalk from 'chalk';
+import * as path from 'path';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata } from '../../../definitions';
+import { Command } from '../../../lib/command';
+import { FatalException } from '../../../lib/errors';
+import { pem2der, readCACertificate } from '../../../lib/ssl';
+
+const FORMATS = ['pem', 'der'];
+
+export class SSLCAExportCommand extends Command {
+  async getMetadata(): Promise<CommandMetadata> {
+    return {
+      name: 'export',
+      type: 'global',
+      summary: 'Export the root certificate of the local certificate authority',
+      description: `
+Exports the root certificate of the local certificate authority so it can be installed as a trusted certificate on test devices.
+
+Android devices generally accept ${chalk.green('der')} (${chalk.bold('.crt')}) files from ${chalk.bold('Settings')} » ${chalk.bold('Security')} » ${chalk.bold('Install from storage')}. On iOS, install the ${chalk.green('pem')} file as a profile and enable full trust for it in ${chalk.bold('Settings')} » ${chalk.bold('General')} » ${chalk.bold('About')} » ${chalk.bold('Certificate Trust Settings')}.
+
+Without ${chalk.green('--output')}, the certificate is printed to stdout.
+      `,
+      exampleCommands: ['', '--output=ionic-ca.pem', '--format=der --output=ionic-ca.crt'],
+      options: [
+        {
+          name: 'format',
+          summary: `Encoding of the certificate (${FORMATS.map(f => chalk.green(f)).join(', ')})`,
+          default: 'pem',
+          groups: [OptionGroup.Advanced],
+        },
+        {
+          name: 'output',
+          summary: 'Write the certificate to a file',
+          aliases: ['o'],
+        },
+      ],
+    };
+  }
+
+  async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
+    const format = options['format'] ? String(options['format']) : 'pem';
+    const output = options['output'] ? path.resolve(String(options['output'])) : undefined;
+
+    if (!FORMATS.includes(format)) {
+      throw new FatalException(`Unknown format: ${chalk.green(format)}. Use one of: ${FORMATS.map(f => chalk.green(f)).join(', ')}`);
+    }
+
+    const pem = await readCACertificate(this.env.config);
+    const contents = format === 'der' ? pem2der(pem) : Buffer.from(pem);
+
+    if (output) {
+      await writeFile(output, contents, { encoding: 'binary' });
+      this.env.output.setData({ format, path: output });
+      this.env.log.ok(`Exported root certificate to ${chalk.bold(prettyPath(output))}!`);
+    } else if (this.env.flags.json) {
+      this.env.output.setData({ format, certificate: format === 'der' ? contents.toString('base64') : pem });
+    } else {
+      process.stdout.write(contents);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import chalk from 'chalk';
+
+import { CommandMap, Namespace } from '../../../lib/namespace';
+
+export class SSLCANamespace extends Namespace {
+  async getMetadata() {
+    return {
+      name: 'ca',
+      summary: 'Commands for the local certificate authority',
+      description: `
+The local certificate authority (CA) in ${chalk.green('~/.ionic/ssl/')} signs the certificates generated by ${chalk.green('ionic ssl generate')}. Trusting its root certificate once makes browsers and test devices trust every certificate issued by it.
+      `,
+    };
+  }
+
+  async getCommands(): Promise<CommandMap> {
+    return new CommandMap([
+      ['export', async () => { const { SSLCAExportCommand } = await import('./export'); return new SSLCAExportCommand(this); }],
+    ]);
+  }
+}
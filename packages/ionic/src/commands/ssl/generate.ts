@@ -1,12 +1,13 @@
 import { CommandGroup, OptionGroup } from '@ionic/cli-framework';
 import { prettyPath } from '@ionic/cli-framework/utils/format';
-import { mkdirp, pathExists, tmpfilepath, unlink, writeFile } from '@ionic/utils-fs';
+import { mkdirp, pathExists, unlink } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as lodash from 'lodash';
 import * as path from 'path';
 
 import { CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun } from '../../definitions';
-import { FatalException } from '../../lib/errors';
+import { FatalException, ProjectRequiredException } from '../../lib/errors';
+import { DEFAULT_SSL_CERT_FILE, DEFAULT_SSL_KEY_FILE, getCertificateHosts, issueCertificate } from '../../lib/ssl';
 
 import { SSLBaseCommand } from './base';
 
@@ -26,16 +27,13 @@ interface OpenSSLConfig {
   commonName: string;
 }
 
-const DEFAULT_KEY_FILE = '.ionic/ssl/key.pem';
-const DEFAULT_CERT_FILE = '.ionic/ssl/cert.pem';
-
 export class SSLGenerateCommand extends SSLBaseCommand implements CommandPreRun {
   getDefaultKeyPath() {
-    return path.resolve(this.project ? this.project.directory : '', DEFAULT_KEY_FILE);
+    return path.resolve(this.project ? this.project.directory : '', DEFAULT_SSL_KEY_FILE);
   }
 
   getDefaultCertPath() {
-    return path.resolve(this.project ? this.project.directory : '', DEFAULT_CERT_FILE);
+    return path.resolve(this.project ? this.project.directory : '', DEFAULT_SSL_CERT_FILE);
   }
 
   async getMetadata(): Promise<CommandMetadata> {
@@ -48,9 +46,9 @@ export class SSLGenerateCommand extends SSLBaseCommand implements CommandPreRun
       summary: 'Generates an SSL key & certificate',
       // TODO: document how to add trusted certs
       description: `
-Uses OpenSSL to create a self-signed certificate for ${chalk.bold('localhost')} (by default).
+Uses OpenSSL to create a certificate for ${chalk.bold('localhost')}, ${chalk.bold('127.0.0.1')} and the addresses of your network interfaces, signed by a local certificate authority (CA). The CA is created in ${chalk.green('~/.ionic/ssl/')} the first time this command is run.
 
-After the certificate is generated, you will still need to add it to your system or browser as a trusted certificate.
+After the certificate is generated, you will still need to add the root certificate of the CA to your system, browser or test devices as a trusted certificate once. See ${chalk.green('ionic ssl ca export --help')}. ${chalk.green('ionic serve --ssl')} automatically re-issues the certificate when your network interfaces change.
 
 The default directory for ${chalk.green('--key-path')} and ${chalk.green('--cert-path')} is ${chalk.green('.ionic/ssl/')}.
       `,
@@ -113,7 +111,7 @@ The default directory for ${chalk.green('--key-path')} and ${chalk.green('--cert
 
   async run(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
     if (!this.project) {
-      throw new FatalException(`Cannot run ${chalk.green('ionic ssl generate')} outside a project directory.`);
+      throw new ProjectRequiredException(`Cannot run ${chalk.green('ionic ssl generate')} outside a project directory.`);
     }
 
     const keyPath = path.resolve(options['key-path'] ? String(options['key-path']) : this.getDefaultKeyPath());
@@ -143,15 +141,16 @@ The default directory for ${chalk.green('--key-path')} and ${chalk.green('--cert
     }
 
     const cnf = { bits, countryName, stateOrProvinceName, localityName, organizationName, commonName };
-    const cnfPath = await this.writeConfig(cnf);
+    const hosts = lodash.uniq([commonName, ...getCertificateHosts()]);
 
-    await this.env.shell.run('openssl', ['req', '-x509', '-newkey', `rsa:${bits}`, '-nodes', '-subj', this.formatSubj(cnf), '-reqexts', 'SAN', '-extensions', 'SAN', '-config', cnfPath, '-days', '365', '-keyout', keyPath, '-out', certPath], {});
+    await issueCertificate({ key: keyPath, cert: certPath }, { subject: this.formatSubj(cnf), hosts, bits }, { config: this.env.config, log: this.env.log, shell: this.env.shell });
 
     this.env.log.nl();
 
     this.env.log.rawmsg(
-      `Key:  ${chalk.bold(prettyPath(keyPath))}\n` +
-      `Cert: ${chalk.bold(prettyPath(certPath))}\n\n`
+      `Key:   ${chalk.bold(prettyPath(keyPath))}\n` +
+      `Cert:  ${chalk.bold(prettyPath(certPath))}\n` +
+      `Hosts: ${hosts.map(h => chalk.bold(h)).join(', ')}\n\n`
     );
 
     this.env.log.ok('Generated key & certificate!');
@@ -191,26 +190,4 @@ The default directory for ${chalk.green('--key-path')} and ${chalk.green('--cert
       }
     }
   }
-
-  private async writeConfig({ bits, countryName, stateOrProvinceName, localityName, organizationName, commonName }: OpenSSLConfig): Promise<string> {
-    const cnf = `
-[req]
-default_bits       = ${bits}
-distinguished_name = req_distinguished_name
-
-[req_distinguished_name]
-countryName                = ${countryName}
-stateOrProvinceName        = ${stateOrProvinceName}
-localityName               = ${localityName}
-organizationName           = ${organizationName}
-commonName                 = ${commonName}
-
-[SAN]
-subjectAltName=DNS:${commonName}
-`.trim();
-
-    const p = tmpfilepath('ionic-ssl');
-    await writeFile(p, cnf, { encoding: 'utf8' });
-    return p;
-  }
 }
@@ -1,7 +1,7 @@
 import { NamespaceGroup } from '@ionic/cli-framework';
 import chalk from 'chalk';
 
-import { CommandMap, Namespace } from '../../lib/namespace';
+import { CommandMap, Namespace, NamespaceMap } from '../../lib/namespace';
 
 export class SSLNamespace extends Namespace {
   async getMetadata() {
@@ -15,6 +15,12 @@ These commands make it easy to manage SSL certificates for using HTTPS with ${ch
     };
   }
 
+  async getNamespaces(): Promise<NamespaceMap> {
+    return new NamespaceMap([
+      ['ca', async () => { const { SSLCANamespace } = await import('./ca/index'); return new SSLCANamespace(this); }],
+    ]);
+  }
+
   async getCommands(): Promise<CommandMap> {
     return new CommandMap([
       ['generate', async () => { const { SSLGenerateCommand } = await import('./generate'); return new SSLGenerateCommand(this); }],
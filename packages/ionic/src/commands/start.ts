@@ -1,4 +1,4 @@
-import { OptionGroup, validators } from '@ionic/cli-framework';
+import { BaseError, OptionGroup, validators } from '@ionic/cli-framework';
 import { columnar, prettyPath } from '@ionic/cli-framework/utils/format';
 import { isValidURL, slugify } from '@ionic/cli-framework/utils/string';
 import { mkdir, pathExists, removeDirectory, unlink } from '@ionic/utils-fs';
@@ -10,8 +10,9 @@ import * as path from 'path';
 import { PROJECT_FILE } from '../constants';
 import { CommandInstanceInfo, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandPreRun, IProject, ProjectType, ResolvedStarterTemplate, StarterManifest, StarterTemplate } from '../definitions';
 import { Command } from '../lib/command';
-import { FatalException } from '../lib/errors';
+import { FatalException, HookException } from '../lib/errors';
 import { runCommand } from '../lib/executor';
+import { Hook } from '../lib/hooks';
 import { createProjectFromDetails, createProjectFromDirectory, isValidProjectId } from '../lib/project';
 import { prependNodeModulesBinToPath } from '../lib/shell';
 import { emoji } from '../lib/utils/emoji';
@@ -358,7 +359,7 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/cli/starters
       this.schema = {
         cloned,
         name: inputs[0],
-        type: projectType as ProjectType,
+        type: projectType,
         template: inputs[1],
         projectId,
         projectDir,
@@ -489,6 +490,8 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/cli/starters
       await this.env.shell.run(installer, installerArgs, shellOptions);
     }
 
+    await this.runStartHook(this.schema);
+
     if (!this.schema.cloned) {
       if (gitIntegration) {
         try {
@@ -557,6 +560,34 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/cli/starters
     await this.showNextSteps(projectDir, this.schema.cloned, linkConfirmed);
   }
 
+  async runStartHook(schema: NewAppSchema | ClonedAppSchema): Promise<void> {
+    if (!this.project) {
+      throw new FatalException('Error while loading project.');
+    }
+
+    const { projectId, packageId } = schema;
+    const hook = new StartAfterHook({ config: this.env.config, log: this.env.log, project: this.project, shell: this.env.shell });
+
+    try {
+      await hook.run({
+        name: hook.name,
+        start: {
+          type: this.project.type,
+          name: schema.cloned ? this.project.config.get('name') : schema.name,
+          projectId,
+          packageId,
+          template: schema.cloned ? undefined : schema.template,
+        },
+      });
+    } catch (e) {
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
+      }
+
+      throw e;
+    }
+  }
+
   async getStarterTemplates(): Promise<StarterTemplate[]> {
     const { STARTER_TEMPLATES } = await import('../lib/start');
 
@@ -688,3 +719,7 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://ionicframework.com/docs/cli/starters
     this.env.log.info(`${chalk.bold('Next Steps')}:\n${steps.map(s => `- ${s}`).join('\n')}`);
   }
 }
+
+class StartAfterHook extends Hook {
+  readonly name = 'start:after';
+}
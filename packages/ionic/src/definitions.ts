@@ -6,7 +6,11 @@ import * as fs from 'fs';
 import * as ζsuperagent from 'superagent';
 
 import * as ζbuild from './lib/build';
+import * as ζcommand from './lib/command';
+import * as ζailments from './lib/doctor/ailments/base';
+import * as ζerrors from './lib/errors';
 import * as ζgenerate from './lib/generate';
+import * as ζnamespace from './lib/namespace';
 import * as ζproject from './lib/project';
 import * as ζserve from './lib/serve';
 
@@ -42,8 +46,65 @@ export interface Runner<T extends object, U> {
   run(options: T): Promise<U>;
 }
 
-export type ProjectType = 'angular' | 'ionic-angular' | 'ionic1' | 'custom';
-export type HookName = 'build:before' | 'build:after' | 'serve:before' | 'serve:after';
+/**
+ * Project types built into the Ionic CLI.
+ */
+export type BuiltinProjectType = 'angular' | 'ionic-angular' | 'ionic1' | 'custom';
+
+/**
+ * A built-in project type or a project type provided by a project type plugin.
+ */
+export type ProjectType = BuiltinProjectType | string;
+
+export interface ProjectTypePlugin {
+  /**
+   * The project type, used for `type` in `ionic.config.json`.
+   */
+  readonly type: string;
+
+  /**
+   * The pretty name of this project type.
+   */
+  readonly name: string;
+
+  /**
+   * Create a project of this type, usually an instance of a subclass of
+   * `Project` from the plugin API.
+   */
+  createProject(details: ζproject.ProjectDetailsResult, deps: ζproject.ProjectDeps): IProject;
+}
+
+/**
+ * Classes of the Ionic CLI which project type plugins extend to implement
+ * detection, runners and ailments.
+ */
+export interface ProjectTypePluginAPI {
+  readonly Project: typeof ζproject.Project;
+  readonly BuildRunner: typeof ζbuild.BuildRunner;
+  readonly BuildCLI: typeof ζbuild.BuildCLI;
+  readonly ServeRunner: typeof ζserve.ServeRunner;
+  readonly ServeCLI: typeof ζserve.ServeCLI;
+  readonly GenerateRunner: typeof ζgenerate.GenerateRunner;
+  readonly Ailment: typeof ζailments.Ailment;
+  readonly RunnerNotFoundException: typeof ζerrors.RunnerNotFoundException;
+}
+
+/**
+ * The default export of a project type plugin module.
+ */
+export type ProjectTypePluginFactory = (api: ProjectTypePluginAPI) => ProjectTypePlugin | ProjectTypePlugin[];
+export type HookName = (
+  'build:before' | 'build:after' |
+  'serve:before' | 'serve:after' |
+  'generate:before' | 'generate:after' |
+  'capacitor:copy:before' | 'capacitor:copy:after' |
+  'capacitor:sync:before' | 'capacitor:sync:after' |
+  'capacitor:run:before' | 'capacitor:run:after' |
+  'cordova:prepare:before' | 'cordova:prepare:after' |
+  'cordova:build:before' | 'cordova:build:after' |
+  'cordova:run:before' | 'cordova:run:after' |
+  'start:after'
+);
 
 export interface BaseHookContext {
   project: {
@@ -57,23 +118,110 @@ export interface BaseHookContext {
 
 export interface BuildHookInput {
   readonly name: 'build:before' | 'build:after';
-  readonly build: AngularBuildOptions | IonicAngularBuildOptions | Ionic1BuildOptions;
+  readonly build: AngularBuildOptions | IonicAngularBuildOptions | Ionic1BuildOptions | CustomBuildOptions;
 }
 
 export interface ServeBeforeHookInput {
   readonly name: 'serve:before';
-  readonly serve: AngularServeOptions | IonicAngularServeOptions | Ionic1ServeOptions;
+  readonly serve: AngularServeOptions | IonicAngularServeOptions | Ionic1ServeOptions | CustomServeOptions;
 }
 
 export interface ServeAfterHookInput {
   readonly name: 'serve:after';
-  readonly serve: (AngularServeOptions | IonicAngularServeOptions | Ionic1ServeOptions) & ServeDetails;
+  readonly serve: (AngularServeOptions | IonicAngularServeOptions | Ionic1ServeOptions | CustomServeOptions) & ServeDetails;
+}
+
+export interface GenerateHookInput {
+  readonly name: 'generate:before' | 'generate:after';
+  readonly generate: AngularGenerateOptions | IonicAngularGenerateOptions;
 }
 
-export type HookInput = BuildHookInput | ServeBeforeHookInput | ServeAfterHookInput;
+export interface CapacitorHookInput {
+  readonly name: 'capacitor:copy:before' | 'capacitor:copy:after' | 'capacitor:sync:before' | 'capacitor:sync:after' | 'capacitor:run:before' | 'capacitor:run:after';
+  readonly capacitor: {
+    platform?: string;
+    livereloadUrl?: string;
+  };
+}
+
+export interface CordovaHookInput {
+  readonly name: 'cordova:prepare:before' | 'cordova:prepare:after' | 'cordova:build:before' | 'cordova:build:after' | 'cordova:run:before' | 'cordova:run:after';
+  readonly cordova: {
+    platform?: string;
+    args: string[];
+    livereloadUrl?: string;
+  };
+}
+
+export interface StartHookInput {
+  readonly name: 'start:after';
+  readonly start: ProjectPersonalizationDetails & {
+    type: ProjectType;
+    template?: string;
+  };
+}
+
+export type HookInput = BuildHookInput | ServeBeforeHookInput | ServeAfterHookInput | GenerateHookInput | CapacitorHookInput | CordovaHookInput | StartHookInput;
 export type HookContext = BaseHookContext & HookInput;
 
-export type HookFn = (ctx: HookContext) => Promise<void>;
+/**
+ * Options returned from `build:before` and `serve:before` hooks are merged
+ * into the options of the build or dev server.
+ */
+export type HookResult = Partial<BuildHookInput['build']> | Partial<ServeBeforeHookInput['serve']>;
+
+export type HookFn = (ctx: HookContext) => Promise<HookResult | void>;
+
+/**
+ * Hooks may throw an error with an `exitCode` to abort the command. The
+ * message is printed without a stack trace.
+ */
+export interface HookAbortError extends Error {
+  exitCode: number;
+}
+
+/**
+ * Only run the hook when the command targets the given engine and/or
+ * platform.
+ */
+export interface HookCondition {
+  engine?: string;
+  platform?: string;
+}
+
+export interface HookEntryOptions {
+  /**
+   * Run this hook concurrently with adjacent hooks which are also marked as
+   * parallel.
+   */
+  parallel?: boolean;
+
+  /**
+   * Abort the command if this hook runs longer than this many milliseconds.
+   */
+  timeout?: number;
+
+  when?: HookCondition;
+}
+
+export interface HookFileConfig extends HookEntryOptions {
+  path: string;
+}
+
+export interface HookCommandConfig extends HookEntryOptions {
+  command: string;
+  cwd?: string;
+}
+
+export type HookConfig = string | HookFileConfig | HookCommandConfig;
+
+export type HooksConfig = { [K in HookName]?: HookConfig | HookConfig[]; };
+
+export interface HookTiming {
+  readonly name: HookName;
+  readonly hook: string;
+  readonly elapsed: number;
+}
 
 export type IntegrationName = 'capacitor' | 'cordova';
 
@@ -236,16 +384,113 @@ export interface IProjectConfig {
   root?: string;
 
   readonly integrations: ProjectIntegrations;
-  readonly hooks?: Record<HookName, string | string[] | undefined>;
+  readonly hooks?: HooksConfig;
+
+  /**
+   * Modules in `node_modules` which provide additional project types.
+   */
+  projectTypePlugins?: string[];
 
   ssl?: {
     key?: string;
     cert?: string;
   };
+
+  /**
+   * Rules for proxying requests of the dev server to other servers.
+   */
+  proxies?: ProxyConfig[];
+
+  custom?: CustomProjectConfig;
+}
+
+/**
+ * A rule of the dev server for proxying requests to another server.
+ *
+ * The format is shared with `@ionic/v1-toolkit` and `@ionic/app-scripts`,
+ * which read the `proxies` of `ionic.config.json` themselves.
+ */
+export interface ProxyConfig {
+  /**
+   * Requests with URL paths beginning with this path are proxied, e.g.
+   * `/api`.
+   */
+  path: string;
+
+  /**
+   * The URL of the server to proxy requests to. The `path` is removed from
+   * proxied requests unless `pathRewrite` is set.
+   */
+  proxyUrl: string;
+
+  /**
+   * Headers to add to proxied requests.
+   */
+  headers?: { [key: string]: string; };
+
+  /**
+   * Regular expressions of URL paths mapped to their replacements, e.g.
+   * `{ "^/api": "/v1" }`.
+   */
+  pathRewrite?: { [key: string]: string; };
+
+  /**
+   * Whether to proxy websockets. Defaults to `true`.
+   */
+  ws?: boolean;
+
+  /**
+   * Set to `false` to skip verification of the TLS certificate of the
+   * server.
+   */
+  rejectUnauthorized?: boolean;
+
+  /**
+   * Set to `true` to proxy requests without an HTTP agent, closing
+   * connections after each request.
+   */
+  proxyNoAgent?: boolean;
+}
+
+/**
+ * How the Ionic CLI builds and serves projects of the `custom` type.
+ */
+export interface CustomProjectConfig {
+  /**
+   * Shell command which builds the web assets of the app into `distDir`.
+   */
+  buildCommand?: string;
+
+  /**
+   * Shell command which starts the dev server of the app.
+   *
+   * The `HOST` and `PORT` environment variables are set to the address and
+   * port the dev server is expected to listen on.
+   */
+  serveCommand?: string;
+
+  /**
+   * The directory of built web assets, relative to the project. Defaults to
+   * `www`.
+   */
+  distDir?: string;
+
+  /**
+   * Regular expression tested against each line of dev server output. The
+   * dev server is considered ready when a line matches.
+   */
+  serveReady?: string;
+
+  /**
+   * The port the dev server listens on, for dev servers which do not respect
+   * the `PORT` environment variable.
+   */
+  servePort?: number;
 }
 
 export interface IMultiProjectConfig {
   defaultProject?: string;
+  projectTypePlugins?: string[];
   projects: {
     [key: string]: IProjectConfig | undefined;
   };
@@ -393,8 +638,61 @@ export interface ConfigFile {
   'tokens.user'?: string;
   'tokens.telemetry'?: string;
 
+  // Network
+  'network.interface'?: string;
+  'network.exclude'?: string[];
+  'network.ipv6'?: boolean;
+
+  // Browsers
+  'browser.profiles'?: { [name: string]: BrowserProfile; };
+  'browser.last'?: BrowserChoice;
+
+  // Resources
+  'resources.local'?: boolean;
+
   // Features
   'features.ssl-commands'?: boolean;
+
+  // Command plugins
+  'plugins'?: string[];
+}
+
+/**
+ * Flags for opening the app in a browser. Browsers ignore flags they do not
+ * support.
+ */
+export interface BrowserFlags {
+  /**
+   * Open an incognito or private window.
+   */
+  incognito?: boolean;
+
+  /**
+   * Directory of a separate browser profile.
+   */
+  dataDir?: string;
+
+  /**
+   * Device to emulate in Chrome, e.g. `iphone-x`.
+   */
+  device?: string;
+
+  /**
+   * Additional arguments for the browser programs.
+   */
+  args?: string[];
+}
+
+export interface BrowserProfile extends BrowserFlags {
+  browsers: string[];
+}
+
+/**
+ * The browsers chosen for opening the app, optionally from a named browser
+ * profile of the global config.
+ */
+export interface BrowserChoice extends BrowserProfile {
+  profile?: string;
 }
 
 export interface SSLConfig {
@@ -532,6 +830,8 @@ export interface IonicAngularBuildOptions extends BuildOptions<'ionic-angular'>
 
 export interface Ionic1BuildOptions extends BuildOptions<'ionic1'> {}
 
+export interface CustomBuildOptions extends BuildOptions<'custom'> {}
+
 export interface GenerateOptions {
   type: string;
   name: string;
@@ -551,14 +851,29 @@ export interface ServeOptions {
   address: string;
   port: number;
   ssl: boolean;
+  sslKey?: string;
+  sslCert?: string;
   livereload: boolean;
+  consolelogs: boolean;
   proxy: boolean;
+  proxies?: ProxyConfig[];
+  strictPort: boolean;
+  control: boolean;
+  restartPolicy?: ServeRestartPolicy;
+
+  /**
+   * Prefix for the log output of the dev server, e.g. the project id when
+   * serving several apps.
+   */
+  logPrefix?: string;
   lab: boolean;
   labHost: string;
   labPort: number;
   open: boolean;
   browser?: string;
   browserOption?: string;
+  browserProfile?: string;
+  browserFlags?: BrowserFlags;
   devapp: boolean;
   platform?: string; // android, ios, etc.
   project?: string;
@@ -569,14 +884,30 @@ export interface ServeOptions {
   engine: string; // browser, cordova, etc.
 }
 
+/**
+ * How to restart a dev server which unexpectedly closed.
+ */
+export interface ServeRestartPolicy {
+  /**
+   * Number of restarts before the Ionic CLI gives up and exits.
+   */
+  maxRestarts: number;
+
+  /**
+   * Milliseconds to wait before the first restart, doubled for each
+   * subsequent restart.
+   */
+  backoff: number;
+}
+
 export interface AngularServeOptions extends ServeOptions {
   configuration?: string;
   sourcemaps?: boolean;
+  proxyConfig?: string;
 }
 
 export interface IonicAngularServeOptions extends ServeOptions {
   sourcemaps?: boolean;
-  consolelogs: boolean;
   serverlogs: boolean;
   env?: string;
   livereloadPort: number;
@@ -584,12 +915,13 @@ export interface IonicAngularServeOptions extends ServeOptions {
 }
 
 export interface Ionic1ServeOptions extends ServeOptions {
-  consolelogs: boolean;
   serverlogs: boolean;
   livereloadPort: number;
   notificationPort: number;
 }
 
+export interface CustomServeOptions extends ServeOptions {}
+
 export interface LabServeDetails {
   projectType: ProjectType;
   protocol: string;
@@ -611,14 +943,81 @@ export interface DevAppDetails {
   }[];
 }
 
+export interface BuildDetails {
+  readonly options: AngularBuildOptions | IonicAngularBuildOptions | Ionic1BuildOptions | CustomBuildOptions;
+  readonly distDir: string;
+  readonly hookTimings: ReadonlyArray<HookTiming>;
+}
+
+/**
+ * The ports reserved for the dev server and its helper servers.
+ */
+export interface ServePorts {
+  server: number;
+  livereload?: number;
+  devLogger?: number;
+  devAppComm?: number;
+  lab?: number;
+  control?: number;
+
+  /**
+   * The port of the dev server when it is behind the console logs proxy,
+   * which then listens on the server port.
+   */
+  upstream?: number;
+}
+
+/**
+ * Where to reach the local control API of a running dev server.
+ *
+ * Requests must carry the token as bearer token in the `Authorization`
+ * header or in the `token` query parameter.
+ */
+export interface ServeControlDetails {
+  url: string;
+  token: string;
+}
+
 export interface ServeDetails {
   custom: boolean;
   protocol: string;
   localAddress: string;
   externalAddress: string;
   port: number;
+  ports?: ServePorts;
   externalNetworkInterfaces: NetworkInterface[];
   externallyAccessible: boolean;
+  controlApi?: ServeControlDetails;
+}
+
+export type ServeState = 'starting' | 'ready' | 'stopping';
+
+export type ServeCLIState = 'stopped' | 'starting' | 'running' | 'exited';
+
+export interface ServeCLIStatus {
+  name: string;
+  program: string;
+  pid?: number;
+  state: ServeCLIState;
+  restarts: number;
+}
+
+export interface DevAppConnection {
+  email: string;
+  username: string;
+  connectedAt: string;
+}
+
+/**
+ * The status of a dev server as reported by its local control API.
+ */
+export interface ServeStatus {
+  state: ServeState;
+  project?: string;
+  details?: ServeDetails;
+  lab?: LabServeDetails;
+  devApp?: DevAppDetails & { connections: DevAppConnection[]; };
+  children: ServeCLIStatus[];
 }
 
 export interface IAilment {
@@ -666,6 +1065,7 @@ export interface IonicEnvironment {
   readonly ctx: IonicContext;
   readonly session: ISession;
   readonly shell: IShell;
+  readonly output: IJSONOutput;
 
   getInfo(): Promise<InfoItem[]>;
 }
@@ -673,6 +1073,36 @@ export interface IonicEnvironment {
 export interface IonicEnvironmentFlags {
   readonly interactive: boolean;
   readonly confirm: boolean;
+  readonly json: boolean;
+}
+
+export interface JSONOutputError {
+  readonly code?: string;
+  readonly message: string;
+  readonly exitCode: number;
+}
+
+/**
+ * The document printed to stdout in JSON mode (`--json`).
+ */
+export interface JSONOutputDocument {
+  readonly command?: string;
+  readonly ok: boolean;
+  readonly exitCode: number;
+  readonly data?: any;
+  readonly warnings: ReadonlyArray<string>;
+  readonly errors: ReadonlyArray<JSONOutputError>;
+}
+
+export interface IJSONOutput {
+  readonly enabled: boolean;
+  command?: string;
+
+  setData(data: any): void;
+  addWarning(msg: string): void;
+  addError(error: JSONOutputError): void;
+  createDocument(exitCode: number): JSONOutputDocument;
+  write(exitCode?: number): void;
 }
 
 export type DistTag = 'testing' | 'canary' | 'latest';
@@ -693,6 +1123,31 @@ export interface INamespace extends ζframework.INamespace<ICommand, INamespace,
   project?: IProject;
 }
 
+/**
+ * Namespaces and commands contributed to the root namespace by a command
+ * plugin, keyed by name.
+ */
+export interface CommandPlugin {
+  readonly namespaces?: { [name: string]: new (parent: INamespace) => INamespace; };
+  readonly commands?: { [name: string]: new (namespace: INamespace) => ICommand; };
+}
+
+/**
+ * Classes of the Ionic CLI which command plugins extend.
+ */
+export interface CommandPluginAPI {
+  readonly Command: typeof ζcommand.Command;
+  readonly Namespace: typeof ζnamespace.Namespace;
+  readonly CommandMap: typeof ζnamespace.CommandMap;
+  readonly NamespaceMap: typeof ζnamespace.NamespaceMap;
+  readonly FatalException: typeof ζerrors.FatalException;
+}
+
+/**
+ * The default export of a command plugin module.
+ */
+export type CommandPluginFactory = (api: CommandPluginAPI) => CommandPlugin;
+
 export interface ImageResource {
   platform: string;
   imageId?: string;
@@ -700,11 +1155,13 @@ export interface ImageResource {
   resType: string;
   nodeName: string;
   nodeAttributes: string[];
+  nodeSrcAttribute?: string;
   name: string;
   width: number;
   height: number;
   density?: string;
   orientation?: 'landscape' | 'portrait';
+  target?: string;
 }
 
 export interface ImageResourceTransformResult {
@@ -719,6 +1176,12 @@ export interface ResourcesImageConfig {
   height: number;
   density?: string;
   orientation?: 'landscape' | 'portrait';
+
+  /**
+   * Path within the native project to copy the image to, for images
+   * registered with `<resource-file>`.
+   */
+  target?: string;
 }
 
 export interface SourceImage {
@@ -733,6 +1196,28 @@ export interface SourceImage {
   height: number;
 }
 
+export interface ResourcesCacheEntry {
+  /**
+   * Checksum of the source image the image was generated from.
+   */
+  source: string;
+  width: number;
+  height: number;
+
+  /**
+   * Checksum of the generated image, or `undefined` if the image was not
+   * generated because its source image was too small.
+   */
+  checksum?: string;
+}
+
+/**
+ * Generated images, by their path relative to the resources directory.
+ */
+export interface ResourcesCache {
+  [dest: string]: ResourcesCacheEntry;
+}
+
 export interface ImageUploadResponse {
   Error: string;
   Width: number;
@@ -746,6 +1231,13 @@ export interface ResourcesPlatform {
     images: ResourcesImageConfig[];
     nodeName: string;
     nodeAttributes: string[];
+
+    /**
+     * The attribute of the node with the path of the image, `src` by default.
+     * Nodes with other attributes, such as the layers of adaptive icons, are
+     * shared with the images of the same density.
+     */
+    nodeSrcAttribute?: string;
   };
 }
 
@@ -754,7 +1246,7 @@ export interface ResourcesConfig {
 }
 
 export type KnownPlatform = 'ios' | 'android' | 'wp8' | 'windows' | 'browser';
-export type KnownResourceType = 'icon' | 'splash';
+export type KnownResourceType = 'icon' | 'splash' | 'icon-foreground' | 'icon-background' | 'icon-round' | 'splash-dark';
 
 export interface StarterList {
   starters: {
@@ -12,6 +12,10 @@ import {
   GithubBranch,
   GithubRepo,
   GithubRepoAssociation,
+  HookCommandConfig,
+  HookEntryOptions,
+  HookFileConfig,
+  HookName,
   ICommand,
   IMultiProjectConfig,
   IProjectConfig,
@@ -29,6 +33,7 @@ import {
 } from './definitions';
 
 import { AuthConnection } from './lib/auth';
+import { HOOK_NAMES } from './lib/hooks';
 
 export const INTEGRATION_NAMES: IntegrationName[] = ['capacitor', 'cordova'];
 
@@ -46,6 +51,31 @@ export function isStarterManifest(obj: any): obj is StarterManifest {
     typeof obj.baseref === 'string';
 }
 
+export function isHookEntryOptions(obj: any): obj is HookEntryOptions {
+  return obj &&
+    typeof obj === 'object' &&
+    (typeof obj.parallel === 'undefined' || typeof obj.parallel === 'boolean') &&
+    (typeof obj.timeout === 'undefined' || typeof obj.timeout === 'number') &&
+    (typeof obj.when === 'undefined' || (
+      typeof obj.when === 'object' &&
+      (typeof obj.when.engine === 'undefined' || typeof obj.when.engine === 'string') &&
+      (typeof obj.when.platform === 'undefined' || typeof obj.when.platform === 'string')
+    ));
+}
+
+export function isHookFileConfig(obj: any): obj is HookFileConfig {
+  return obj &&
+    typeof obj.path === 'string' &&
+    isHookEntryOptions(obj);
+}
+
+export function isHookCommandConfig(obj: any): obj is HookCommandConfig {
+  return obj &&
+    typeof obj.command === 'string' &&
+    (typeof obj.cwd === 'undefined' || typeof obj.cwd === 'string') &&
+    isHookEntryOptions(obj);
+}
+
 export function isCordovaPackageJson(obj: any): obj is CordovaPackageJson {
   return obj &&
     typeof obj.name === 'string' &&
@@ -288,6 +318,10 @@ export function isIntegrationName(name: any): name is IntegrationName {
   return INTEGRATION_NAMES.includes(name);
 }
 
+export function isHookName(name: any): name is HookName {
+  return HOOK_NAMES.includes(name);
+}
+
 export function isProjectConfig(configFile: any): configFile is IProjectConfig {
   return configFile
     && typeof configFile.name === 'string'
@@ -8,9 +8,10 @@ import { readPackageJsonFile } from '@ionic/cli-framework/utils/node';
 import { processExit } from '@ionic/cli-framework/utils/process';
 
 import { IonicNamespace } from './commands';
-import { IPCMessage, IonicContext } from './definitions';
+import { IJSONOutput, IPCMessage, IonicContext } from './definitions';
 import { isExitCodeException, isSuperAgentError } from './guards';
 import { generateIonicEnvironment } from './lib';
+import { getExitCode, logError } from './lib/errors';
 import { Executor } from './lib/executor';
 import { mapLegacyCommand } from './lib/init';
 
@@ -138,7 +139,11 @@ export async function run(pargv: string[]): Promise<void> {
   }
 
   if (err) {
-    process.exitCode = 1;
+    process.exitCode = getExitCode(err);
+
+    if (ienv.output.enabled) {
+      recordError(ienv.output, err);
+    }
 
     if (err instanceof InputValidationError) {
       for (const e of err.errors) {
@@ -157,15 +162,16 @@ export async function run(pargv: string[]): Promise<void> {
     } else if (isExitCodeException(err)) {
       if (err.message) {
         if (err.exitCode > 0) {
-          ienv.log.error(err.message);
+          logError(ienv.log, err);
         } else {
           ienv.log.msg(err.message);
         }
       }
 
+      ienv.output.write(err.exitCode);
       await processExit(err.exitCode);
     } else if (err instanceof BaseError) {
-      ienv.log.error(err.message);
+      logError(ienv.log, err);
     } else {
       ienv.log.msg(chalk.red(String(err.stack ? err.stack : err)));
 
@@ -174,6 +180,25 @@ export async function run(pargv: string[]): Promise<void> {
       }
     }
   }
+
+  ienv.output.write(process.exitCode ? process.exitCode : 0);
+}
+
+function recordError(output: IJSONOutput, err: any): void {
+  const code = typeof err.code === 'string' ? err.code : undefined;
+  const exitCode = getExitCode(err);
+
+  if (err instanceof InputValidationError) {
+    for (const e of err.errors) {
+      output.addError({ code, message: e.message, exitCode });
+    }
+  } else if (isExitCodeException(err)) {
+    if (err.exitCode > 0) {
+      output.addError({ code, message: err.message, exitCode });
+    }
+  } else {
+    output.addError({ code, message: err.message ? err.message : String(err), exitCode });
+  }
 }
 
 export async function receive(msg: IPCMessage) {
@@ -0,0 +1,119 @@
+import * as path from 'path';
+
+import { getBrowserApp, getBrowserArgs, getBrowserChoice, getBrowserLaunches, parseBrowsers } from '../browser';
+import { FatalException } from '../errors';
+
+describe('ionic', () => {
+
+  describe('lib/browser', () => {
+
+    const createConfig = (c: { [key: string]: any; }): any => ({
+      get: (key: string, defaultValue?: any) => typeof c[key] === 'undefined' ? defaultValue : c[key],
+    });
+
+    describe('parseBrowsers', () => {
+
+      it('should split a comma-separated list', () => {
+        expect(parseBrowsers('chrome, firefox,,safari')).toEqual(['chrome', 'firefox', 'safari']);
+      });
+
+    });
+
+    describe('getBrowserApp', () => {
+
+      it('should map chrome to the application name of each platform', () => {
+        expect(getBrowserApp('chrome', 'darwin')).toEqual('google chrome');
+        expect(getBrowserApp('chrome', 'linux')).toEqual('google-chrome');
+        expect(getBrowserApp('chrome', 'win32')).toEqual('chrome');
+      });
+
+      it('should use unknown browsers as application names', () => {
+        expect(getBrowserApp('Google Chrome Canary', 'darwin')).toEqual('Google Chrome Canary');
+      });
+
+    });
+
+    describe('getBrowserChoice', () => {
+
+      const profiles = {
+        qa: { browsers: ['chrome', 'firefox'], incognito: true },
+        broken: { browsers: [] },
+      };
+
+      it('should use the system default without any choice', () => {
+        expect(getBrowserChoice(createConfig({}), {})).toBeUndefined();
+      });
+
+      it('should use browsers from the command line', () => {
+        const config = createConfig({ 'browser.profiles': profiles, 'browser.last': { browsers: ['safari'] } });
+        expect(getBrowserChoice(config, { browser: 'chrome,firefox', browserFlags: { device: 'iphone-x' } })).toEqual({ browsers: ['chrome', 'firefox'], device: 'iphone-x' });
+      });
+
+      it('should use a named profile', () => {
+        const config = createConfig({ 'browser.profiles': profiles });
+        expect(getBrowserChoice(config, { browserProfile: 'qa', browserFlags: { dataDir: '/tmp/qa' } })).toEqual({ browsers: ['chrome', 'firefox'], incognito: true, dataDir: '/tmp/qa', profile: 'qa' });
+      });
+
+      it('should throw for unknown profiles', () => {
+        const config = createConfig({ 'browser.profiles': profiles });
+        expect(() => getBrowserChoice(config, { browserProfile: 'dev' })).toThrow(FatalException);
+        expect(() => getBrowserChoice(config, { browserProfile: 'broken' })).toThrow(FatalException);
+      });
+
+      it('should throw for unknown devices', () => {
+        expect(() => getBrowserChoice(createConfig({}), { browser: 'chrome', browserFlags: { device: 'nokia-3310' } })).toThrow(FatalException);
+      });
+
+      it('should use the last choice', () => {
+        const config = createConfig({ 'browser.last': { browsers: ['safari'] } });
+        expect(getBrowserChoice(config, {})).toEqual({ browsers: ['safari'] });
+      });
+
+      it('should use the current version of the last profile', () => {
+        const config = createConfig({ 'browser.profiles': profiles, 'browser.last': { browsers: ['chrome'], profile: 'qa' } });
+        expect(getBrowserChoice(config, {})).toEqual({ browsers: ['chrome', 'firefox'], incognito: true, profile: 'qa' });
+      });
+
+      it('should default to chrome for flags without browsers', () => {
+        expect(getBrowserChoice(createConfig({}), { browserFlags: { incognito: true } })).toEqual({ browsers: ['chrome'], incognito: true });
+      });
+
+    });
+
+    describe('getBrowserArgs', () => {
+
+      it('should build chrome args', () => {
+        const [ args, unsupported ] = getBrowserArgs('google-chrome', { incognito: true, dataDir: '/tmp/qa', device: 'iphone-x', args: ['--auto-open-devtools-for-tabs'] });
+        expect(args).toEqual(['--incognito', `--user-data-dir=${path.resolve('/tmp/qa')}`, expect.stringMatching(/^--user-agent=.+iPhone/), '--window-size=375,812', '--auto-open-devtools-for-tabs']);
+        expect(unsupported).toEqual([]);
+      });
+
+      it('should build firefox args', () => {
+        const [ args, unsupported ] = getBrowserArgs('firefox', { incognito: true, dataDir: '/tmp/qa', device: 'iphone-x' });
+        expect(args).toEqual(['-no-remote', '-profile', path.resolve('/tmp/qa'), '-private-window']);
+        expect(unsupported).toEqual(['device']);
+      });
+
+      it('should report flags unsupported by other browsers', () => {
+        const [ args, unsupported ] = getBrowserArgs('safari', { incognito: true, dataDir: '/tmp/qa' });
+        expect(args).toEqual([]);
+        expect(unsupported).toEqual(['incognito', 'dataDir']);
+      });
+
+    });
+
+    describe('getBrowserLaunches', () => {
+
+      it('should launch each browser', () => {
+        const launches = getBrowserLaunches({ browsers: ['chrome', 'firefox'], incognito: true }, 'linux');
+        expect(launches).toEqual([
+          { name: 'chrome', app: 'google-chrome', args: ['--incognito'], unsupported: [] },
+          { name: 'firefox', app: 'firefox', args: ['-private-window'], unsupported: [] },
+        ]);
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,83 @@
+import { stripAnsi } from '@ionic/cli-framework/utils/format';
+
+import { build } from '../build';
+import { HookException, RunnerException, getExitCode, logError } from '../errors';
+import { Hook } from '../hooks';
+import { CustomBuildRunner } from '../project/custom/build';
+
+describe('ionic', () => {
+
+  describe('lib/build', () => {
+
+    describe('build', () => {
+
+      const createDeps = () => {
+        const deps: any = {
+          config: { get: () => 'npm' },
+          log: { info: jest.fn(), warn: jest.fn(), nl: jest.fn() },
+          shell: { run: jest.fn(async () => undefined) },
+        };
+
+        deps.project = {
+          type: 'custom',
+          directory: '/path/to/proj',
+          details: { context: 'app' },
+          config: { get: () => undefined },
+          getCustomConfig: () => ({}),
+          requirePackageJson: async () => ({ scripts: {} }),
+          requireBuildRunner: async () => new CustomBuildRunner(deps),
+        };
+
+        return deps;
+      };
+
+      it('should fail with the code and exit code of a runner error', async () => {
+        const log = { log: jest.fn(), error: jest.fn(), createRecord: (msg: string, level: any) => ({ msg, level }) };
+        let err: any;
+
+        try {
+          await build(createDeps(), [], { _: [] });
+        } catch (e) {
+          err = e;
+        }
+
+        expect(err).toBeInstanceOf(RunnerException);
+        expect(getExitCode(err)).toEqual(40);
+
+        logError(log as any, err);
+        expect(log.error).not.toHaveBeenCalled();
+        expect(stripAnsi(log.log.mock.calls[0][0].msg)).toMatch(/^Error \[ERR_RUNNER\]: Cannot perform build for custom project\./);
+      });
+
+      it('should return the options patched by hooks', async () => {
+        const deps = createDeps();
+        deps.project.getDistDir = async () => '/path/to/proj/dist';
+        deps.project.requirePackageJson = async () => ({ scripts: { 'ionic:build': 'react-scripts build' } });
+        const spy = jest.spyOn(Hook.prototype, 'run').mockImplementation(async () => ({ '--': ['--mode', 'staging'] }));
+
+        try {
+          const details = await build(deps, [], { _: [] });
+          expect(details.options['--']).toEqual(['--mode', 'staging']);
+          expect(deps.shell.run).toHaveBeenCalledWith('npm', ['run', 'ionic:build', '--', '--mode', 'staging'], expect.anything());
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should fail with the hook error of a failing hook', async () => {
+        const spy = jest.spyOn(Hook.prototype, 'run').mockImplementation(async () => { throw new HookException('hook failed', 3); });
+
+        try {
+          const p = build(createDeps(), [], { _: [] });
+          await expect(p).rejects.toBeInstanceOf(HookException);
+          await expect(p).rejects.toMatchObject({ code: 'ERR_HOOK', exitCode: 3 });
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+    });
+
+  });
+
+});
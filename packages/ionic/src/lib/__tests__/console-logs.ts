@@ -0,0 +1,100 @@
+import { stripAnsi } from '@ionic/cli-framework/utils/format';
+import { SourceMapGenerator } from 'source-map';
+
+import { StackTraceMapper, formatConsoleLogsMessage, isConsoleLogsMessage, normalizeSource } from '../console-logs';
+
+describe('ionic', () => {
+
+  describe('lib/console-logs', () => {
+
+    describe('isConsoleLogsMessage', () => {
+
+      it('should accept messages of the injected script', () => {
+        expect(isConsoleLogsMessage({ category: 'console', type: 'log', data: ['hello', '{"a":1}'] })).toBe(true);
+        expect(isConsoleLogsMessage({ category: 'error', type: 'unhandledrejection', data: ['Error: nope'] })).toBe(true);
+      });
+
+      it('should reject anything else', () => {
+        expect(isConsoleLogsMessage(undefined)).toBeFalsy();
+        expect(isConsoleLogsMessage({ category: 'network', type: 'log', data: [] })).toBeFalsy();
+        expect(isConsoleLogsMessage({ category: 'console', type: 'log', data: [1] })).toBeFalsy();
+      });
+
+    });
+
+    describe('normalizeSource', () => {
+
+      it('should strip webpack prefixes', () => {
+        expect(normalizeSource('webpack:///./src/app/app.module.ts')).toEqual('src/app/app.module.ts');
+        expect(normalizeSource('webpack:///src/main.ts')).toEqual('src/main.ts');
+        expect(normalizeSource('src/main.ts')).toEqual('src/main.ts');
+      });
+
+    });
+
+    describe('formatConsoleLogsMessage', () => {
+
+      it('should label messages', () => {
+        expect(stripAnsi(formatConsoleLogsMessage({ category: 'console', type: 'warn', data: ['a', 'b'] }))).toEqual('[console.warn]: a b');
+        expect(stripAnsi(formatConsoleLogsMessage({ category: 'error', type: 'error', data: ['Error: a'] }))).toEqual('[uncaught error]: Error: a');
+        expect(stripAnsi(formatConsoleLogsMessage({ category: 'error', type: 'unhandledrejection', data: ['b'] }))).toEqual('[unhandled rejection]: b');
+      });
+
+    });
+
+    describe('StackTraceMapper', () => {
+
+      const generator = new SourceMapGenerator({ file: 'main.js' });
+      generator.addMapping({ generated: { line: 10, column: 4 }, original: { line: 5, column: 2 }, source: 'webpack:///./src/app/app.component.ts' });
+      const map = generator.toString();
+
+      const createFetcher = (files: { [url: string]: string; }) => jest.fn(async (u: string) => files[u]);
+
+      it('should map locations with external source maps', async () => {
+        const fetch = createFetcher({
+          'http://localhost:8100/main.js': 'code();\n//# sourceMappingURL=main.js.map',
+          'http://localhost:8100/main.js.map': map,
+        });
+
+        const mapper = new StackTraceMapper(fetch);
+        const result = await mapper.mapText('Error: nope\n    at AppComponent.ngOnInit (http://localhost:8100/main.js:10:5)\n    at http://localhost:8100/main.js:10:5');
+
+        expect(result).toEqual('Error: nope\n    at AppComponent.ngOnInit (src/app/app.component.ts:5:3)\n    at src/app/app.component.ts:5:3');
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      it('should map locations with inline source maps', async () => {
+        const fetch = createFetcher({
+          'http://localhost:8100/main.js?v=1': `code();\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${Buffer.from(map).toString('base64')}`,
+        });
+
+        const mapper = new StackTraceMapper(fetch);
+        expect(await mapper.mapText('at http://localhost:8100/main.js?v=1:10:5')).toEqual('at src/app/app.component.ts:5:3');
+      });
+
+      it('should leave locations without source maps as they are', async () => {
+        const fetch = createFetcher({ 'http://localhost:8100/vendor.js': 'code();' });
+        const mapper = new StackTraceMapper(fetch);
+        const text = 'at http://localhost:8100/vendor.js:1:1 and https://cdn.example.com/lib.js:2:3';
+
+        expect(await mapper.mapText(text)).toEqual(text);
+      });
+
+      it('should load source maps again after reset', async () => {
+        const fetch = createFetcher({ 'http://localhost:8100/vendor.js': 'code();' });
+        const mapper = new StackTraceMapper(fetch);
+
+        await mapper.mapText('at http://localhost:8100/vendor.js:1:1');
+        await mapper.mapText('at http://localhost:8100/vendor.js:1:1');
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        mapper.reset();
+        await mapper.mapText('at http://localhost:8100/vendor.js:1:1');
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,58 @@
+import { ERROR_CODES, HookException, NotLoggedInException, ProjectRequiredException, RunnerNotFoundException, getErrorExitCode } from '../errors';
+
+describe('ionic', () => {
+
+  describe('lib/errors', () => {
+
+    describe('ERROR_CODES', () => {
+
+      it('should have unique codes', () => {
+        const codes = ERROR_CODES.map(def => def.code);
+        expect(new Set(codes).size).toEqual(codes.length);
+      });
+
+      it('should map codes to distinct exit codes', () => {
+        const exitCodes = ERROR_CODES.map(def => def.exitCode);
+        expect(new Set(exitCodes).size).toEqual(exitCodes.length);
+        expect(exitCodes).not.toContain(0);
+        expect(exitCodes).not.toContain(1);
+      });
+
+      it('should include framework error codes', () => {
+        expect(ERROR_CODES.map(def => def.code)).toContain('ERR_ICF_INPUT_VALIDATION');
+      });
+
+    });
+
+    describe('getErrorExitCode', () => {
+
+      it('should get exit code of known code', () => {
+        expect(getErrorExitCode('ERR_NOT_LOGGED_IN')).toEqual(21);
+        expect(getErrorExitCode('ERR_ICF_SHELL_COMMAND_NOT_FOUND')).toEqual(127);
+      });
+
+      it('should default to 1', () => {
+        expect(getErrorExitCode()).toEqual(1);
+        expect(getErrorExitCode('ENOTFOUND')).toEqual(1);
+      });
+
+    });
+
+    describe('exceptions', () => {
+
+      it('should have codes of subclasses', () => {
+        expect(new NotLoggedInException('').code).toEqual('ERR_NOT_LOGGED_IN');
+        expect(new RunnerNotFoundException('').code).toEqual('ERR_RUNNER_NOT_FOUND');
+      });
+
+      it('should have exit codes from catalog', () => {
+        expect(new ProjectRequiredException('').exitCode).toEqual(10);
+        expect(new HookException('').exitCode).toEqual(50);
+        expect(new HookException('', 3).exitCode).toEqual(3);
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,47 @@
+import { GenerateRunner } from '../generate';
+import { Hook } from '../hooks';
+
+describe('ionic', () => {
+
+  describe('lib/generate', () => {
+
+    describe('GenerateRunner', () => {
+
+      class MyGenerateRunner extends GenerateRunner<any> {
+        generateProject = jest.fn(async () => { calls.push(['generate']); });
+
+        constructor(protected readonly e: any) {
+          super();
+        }
+
+        async getCommandMetadata(): Promise<any> { }
+      }
+
+      let calls: any[][];
+      let spy: jest.SpyInstance;
+
+      beforeEach(() => {
+        calls = [];
+        spy = jest.spyOn(Hook.prototype, 'run').mockImplementation(async function(this: Hook, input: any) { calls.push([this.name, input]); return {}; });
+      });
+
+      afterEach(() => {
+        spy.mockRestore();
+      });
+
+      it('should run generate hooks around generating', async () => {
+        const options = { type: 'page', name: 'about' };
+        await new MyGenerateRunner({}).run(options);
+
+        expect(calls).toEqual([
+          ['generate:before', { name: 'generate:before', generate: options }],
+          ['generate'],
+          ['generate:after', { name: 'generate:after', generate: options }],
+        ]);
+      });
+
+    });
+
+  });
+
+});
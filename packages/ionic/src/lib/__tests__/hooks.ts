@@ -1,9 +1,114 @@
-import { addHook, removeHook, locateHook } from '../hooks';
+import { HookException } from '../errors';
+import { Hook, addHook, createHookEnv, groupHooks, locateHook, matchesHookCondition, removeHook } from '../hooks';
 
 describe('ionic', () => {
 
   describe('lib/hooks', () => {
 
+    describe('Hook', () => {
+
+      class MyHook extends Hook {
+        readonly name = 'build:before';
+
+        constructor(readonly fns: any[], entries: any[] = fns.map((fn, i) => `hook${i}.js`)) {
+          super({
+            config: { get: () => 'npm' },
+            log: { createWriteStream: () => ({ write: () => true }) },
+            project: {
+              type: 'angular',
+              directory: '/base',
+              filePath: '/base/ionic.config.json',
+              config: { get: () => ({ 'build:before': entries }) },
+              requirePackageJson: async () => ({}),
+              getSourceDir: async () => '/base/src',
+            },
+            shell: {},
+          } as any);
+        }
+
+        protected async loadHookFn(p: string) {
+          return this.fns[Number(p.replace(/^.*hook(\d+)\.js$/, '$1'))];
+        }
+      }
+
+      const input = { name: 'build:before' as 'build:before', build: { type: 'angular' as 'angular', engine: 'browser', '--': [] } };
+
+      it('should merge options returned from hooks', async () => {
+        const hook = new MyHook([
+          async () => ({ configuration: 'staging' }),
+          async () => undefined,
+          async () => ({ '--': ['--verbose'] }),
+        ]);
+
+        const result = await hook.run(input);
+        expect(result).toEqual({ configuration: 'staging', '--': ['--verbose'] });
+      });
+
+      it('should preserve the message and exit code of aborting hooks', async () => {
+        const hook = new MyHook([
+          async () => { throw Object.assign(new Error('License header missing.'), { exitCode: 3 }); },
+        ]);
+
+        const p = hook.run(input);
+        await expect(p).rejects.toBeInstanceOf(HookException);
+        await expect(p).rejects.toMatchObject({ message: 'License header missing.', exitCode: 3 });
+      });
+
+      it('should skip hooks whose conditions do not match', async () => {
+        const fns = [jest.fn(async () => undefined), jest.fn(async () => undefined)];
+        const hook = new MyHook(fns, [
+          { path: 'hook0.js', when: { engine: 'cordova' } },
+          { path: 'hook1.js', when: { engine: 'browser' } },
+        ]);
+
+        await hook.run(input);
+        expect(fns[0]).not.toHaveBeenCalled();
+        expect(fns[1]).toHaveBeenCalledTimes(1);
+      });
+
+      it('should run parallel hooks concurrently and merge results in order', async () => {
+        const calls: string[] = [];
+        const hook = new MyHook([
+          async () => { calls.push('start0'); await new Promise(resolve => setTimeout(resolve, 20)); calls.push('end0'); return { configuration: 'first' }; },
+          async () => { calls.push('start1'); calls.push('end1'); return { configuration: 'second' }; },
+        ], [
+          { path: 'hook0.js', parallel: true },
+          { path: 'hook1.js', parallel: true },
+        ]);
+
+        const result = await hook.run(input);
+        expect(calls).toEqual(['start0', 'start1', 'end1', 'end0']);
+        expect(result).toEqual({ configuration: 'second' });
+        expect(hook.timings.map(t => t.hook)).toEqual(['hook1.js', 'hook0.js']);
+      });
+
+      it('should measure the wall-clock time of parallel hooks', async () => {
+        const hook = new MyHook([
+          async () => new Promise(resolve => setTimeout(resolve, 50)),
+          async () => new Promise(resolve => setTimeout(resolve, 50)),
+        ], [
+          { path: 'hook0.js', parallel: true },
+          { path: 'hook1.js', parallel: true },
+        ]);
+
+        await hook.run(input);
+        const sum = hook.timings.reduce((acc, t) => acc + t.elapsed, 0);
+        expect(hook.elapsed).toBeGreaterThanOrEqual(Math.max(...hook.timings.map(t => t.elapsed)));
+        expect(hook.elapsed).toBeLessThan(sum);
+      });
+
+      it('should abort hooks which exceed their timeout', async () => {
+        const hook = new MyHook([
+          async () => new Promise(resolve => setTimeout(resolve, 1000)),
+        ], [
+          { path: 'hook0.js', timeout: 10 },
+        ]);
+
+        await expect(hook.run(input)).rejects.toBeInstanceOf(HookException);
+      });
+
+    });
+
     describe('addHook', () => {
 
       it('should return array with hook added if given undefined', () => {
@@ -46,6 +151,11 @@ describe('ionic', () => {
         expect(hooks).toEqual(['hook.js']);
       });
 
+      it('should keep command hooks', () => {
+        const hooks = addHook('/base', [{ command: 'echo hi' }], 'hook.js');
+        expect(hooks).toEqual([{ command: 'echo hi' }, 'hook.js']);
+      });
+
     });
 
     describe('removeHook', () => {
@@ -124,6 +234,70 @@ describe('ionic', () => {
         expect(i).toEqual(1);
       });
 
+      it('should skip command hooks', () => {
+        const i = locateHook('/base', [{ command: 'hook.js' }, 'hook.js'], 'hook.js');
+        expect(i).toEqual(1);
+      });
+
+      it('should locate hook objects by path', () => {
+        const i = locateHook('/base', ['other-hook.js', { path: 'hook.js', parallel: true }], '/base/hook.js');
+        expect(i).toEqual(1);
+      });
+
+    });
+
+    describe('groupHooks', () => {
+
+      it('should group adjacent parallel hooks', () => {
+        const a = { path: 'a.js', parallel: true };
+        const b = { path: 'b.js', parallel: true };
+        const c = { command: 'echo c', parallel: true };
+        const result = groupHooks(['x.js', a, b, 'y.js', c]);
+        expect(result).toEqual([['x.js'], [a, b], ['y.js'], [c]]);
+      });
+
+    });
+
+    describe('matchesHookCondition', () => {
+
+      it('should always match hooks without conditions', () => {
+        expect(matchesHookCondition('a.js', { name: 'cordova:build:before', cordova: { args: [] } })).toEqual(true);
+        expect(matchesHookCondition({ path: 'a.js' }, { name: 'cordova:build:before', cordova: { args: [] } })).toEqual(true);
+      });
+
+      it('should match engine and platform', () => {
+        const h = { path: 'a.js', when: { engine: 'cordova', platform: 'ios' } };
+        expect(matchesHookCondition(h, { name: 'cordova:build:before', cordova: { platform: 'ios', args: [] } })).toEqual(true);
+        expect(matchesHookCondition(h, { name: 'cordova:build:before', cordova: { platform: 'android', args: [] } })).toEqual(false);
+        expect(matchesHookCondition(h, { name: 'capacitor:run:before', capacitor: { platform: 'ios' } })).toEqual(false);
+      });
+
+    });
+
+    describe('createHookEnv', () => {
+
+      it('should expose the hook context', () => {
+        const ctx = {
+          name: 'build:before' as 'build:before',
+          build: { type: 'angular' as 'angular', engine: 'browser', '--': [] },
+          project: { type: 'angular' as 'angular', dir: '/base', srcDir: '/base/src' },
+          argv: ['node', 'ionic', 'build'],
+          env: { PATH: '/usr/bin' },
+        };
+
+        const env = createHookEnv(ctx);
+        expect(env.IONIC_CLI_HOOK_CTX_NAME).toEqual('build:before');
+        expect(env.IONIC_CLI_HOOK_CTX_PROJECT_TYPE).toEqual('angular');
+        expect(env.IONIC_CLI_HOOK_CTX_PROJECT_DIR).toEqual('/base');
+        expect(env.IONIC_CLI_HOOK_CTX_PROJECT_SRCDIR).toEqual('/base/src');
+        expect(JSON.parse(String(env.IONIC_CLI_HOOK_CTX))).toEqual({
+          name: 'build:before',
+          build: { type: 'angular', engine: 'browser', '--': [] },
+          project: { type: 'angular', dir: '/base', srcDir: '/base/src' },
+          argv: ['node', 'ionic', 'build'],
+        });
+      });
+
     });
 
   });
@@ -0,0 +1,75 @@
+import * as osSpy from 'os';
+
+import { findPreferredInterface, getNetworkInterfaces } from '../network';
+
+describe('ionic', () => {
+
+  describe('lib/network', () => {
+
+    const networkInterfaces = {
+      en0: [
+        { internal: false, family: 'IPv4', address: '192.168.1.2' },
+        { internal: false, family: 'IPv6', address: '2001:db8::2' },
+      ],
+      en5: [
+        { internal: false, family: 'IPv4', address: '10.0.0.2' },
+      ],
+      vboxnet0: [
+        { internal: false, family: 'IPv4', address: '192.168.56.1' },
+      ],
+    };
+
+    const createConfig = (c: { [key: string]: any; }): any => ({
+      get: (key: string, defaultValue?: any) => typeof c[key] === 'undefined' ? defaultValue : c[key],
+    });
+
+    beforeEach(() => {
+      spyOn(osSpy, 'networkInterfaces').and.callFake(() => networkInterfaces);
+    });
+
+    describe('getNetworkInterfaces', () => {
+
+      it('should find IPv4 interfaces, excluding virtual adapters', () => {
+        const result = getNetworkInterfaces(createConfig({}));
+        expect(result.map(i => i.address)).toEqual(['192.168.1.2', '10.0.0.2']);
+      });
+
+      it('should prefer IPv6 interfaces if configured', () => {
+        const result = getNetworkInterfaces(createConfig({ 'network.ipv6': true }));
+        expect(result.map(i => i.address)).toEqual(['2001:db8::2', '192.168.1.2', '10.0.0.2']);
+      });
+
+      it('should exclude interfaces by configured patterns', () => {
+        const result = getNetworkInterfaces(createConfig({ 'network.exclude': ['^en5$'] }));
+        expect(result.map(i => i.address)).toEqual(['192.168.1.2']);
+      });
+
+      it('should throw for invalid patterns', () => {
+        expect(() => getNetworkInterfaces(createConfig({ 'network.exclude': ['('] }))).toThrowError(/Invalid pattern/);
+      });
+
+    });
+
+    describe('findPreferredInterface', () => {
+
+      it('should find nothing without a preferred interface', () => {
+        const config = createConfig({});
+        expect(findPreferredInterface(config, getNetworkInterfaces(config))).toBeUndefined();
+      });
+
+      it('should find the preferred interface by device name or address', () => {
+        const interfaces = getNetworkInterfaces(createConfig({}));
+        expect(findPreferredInterface(createConfig({ 'network.interface': 'en5' }), interfaces)).toEqual(expect.objectContaining({ address: '10.0.0.2' }));
+        expect(findPreferredInterface(createConfig({ 'network.interface': '192.168.1.2' }), interfaces)).toEqual(expect.objectContaining({ device: 'en0' }));
+      });
+
+      it('should find nothing if the preferred interface is unavailable', () => {
+        const interfaces = getNetworkInterfaces(createConfig({}));
+        expect(findPreferredInterface(createConfig({ 'network.interface': 'utun3' }), interfaces)).toBeUndefined();
+      });
+
+    });
+
+  });
+
+});
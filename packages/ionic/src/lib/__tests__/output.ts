@@ -0,0 +1,55 @@
+import { JSONOutput } from '../output';
+
+describe('ionic', () => {
+
+  describe('lib/output', () => {
+
+    describe('JSONOutput', () => {
+
+      const createStream = () => ({ write: jest.fn() });
+
+      it('should not write if not enabled', () => {
+        const stream = createStream();
+        const output = new JSONOutput(false, stream as any);
+        output.setData({ foo: 'bar' });
+        output.write();
+        expect(stream.write).not.toHaveBeenCalled();
+      });
+
+      it('should write a single document', () => {
+        const stream = createStream();
+        const output = new JSONOutput(true, stream as any);
+        output.command = 'ionic build';
+        output.setData({ foo: 'bar' });
+        output.addWarning('\u001b[33mcareful\u001b[39m\n');
+        output.write();
+        output.write(1);
+        expect(stream.write).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(stream.write.mock.calls[0][0])).toEqual({
+          command: 'ionic build',
+          ok: true,
+          exitCode: 0,
+          data: { foo: 'bar' },
+          warnings: ['careful'],
+          errors: [],
+        });
+      });
+
+      it('should include errors and exit code', () => {
+        const output = new JSONOutput(true);
+        output.addError({ code: 'ERR_FOO', message: '\u001b[31mbad\u001b[39m', exitCode: 2 });
+        expect(output.createDocument(2)).toEqual({
+          command: undefined,
+          ok: false,
+          exitCode: 2,
+          data: undefined,
+          warnings: [],
+          errors: [{ code: 'ERR_FOO', message: 'bad', exitCode: 2 }],
+        });
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,105 @@
+import { mkdirp, removeDirectory, writeFile } from '@ionic/utils-fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { findCommandPlugins, loadCommandPlugins } from '../plugins';
+
+describe('ionic', () => {
+
+  describe('lib/plugins', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-command-plugins-${process.pid}`);
+
+    const writePlugin = async (name: string, contents: string) => {
+      await mkdirp(path.resolve(dir, 'node_modules', name));
+      await writeFile(path.resolve(dir, 'node_modules', name, 'index.js'), contents, { encoding: 'utf8' });
+    };
+
+    // the Ionic CLI is installed in the node_modules of the project by default
+    const createNamespace = (plugins: string[] = [], libPath = path.resolve(dir, 'node_modules', 'ionic')): any => ({
+      env: {
+        config: { get: (key: string, defaultValue: any) => key === 'plugins' ? plugins : defaultValue },
+        ctx: { execPath: dir, libPath },
+        log: { warn: jest.fn() },
+      },
+    });
+
+    beforeAll(async () => {
+      await writePlugin('ionic-cli-plugin-release', `
+        module.exports = ({ Command, Namespace, CommandMap }) => {
+          class ReleaseCommand extends Command {
+            async getMetadata() { return { name: 'release', type: 'global', summary: '' }; }
+          }
+
+          class SyncCommand extends Command {
+            async getMetadata() { return { name: 'sync', type: 'global', summary: '' }; }
+          }
+
+          class TranslationsNamespace extends Namespace {
+            async getMetadata() { return { name: 'translations', summary: '' }; }
+            async getCommands() { return new CommandMap([['sync', async () => new SyncCommand(this)]]); }
+          }
+
+          class BrokenCommand extends Command {
+            async getMetadata() { throw new Error('broken'); }
+          }
+
+          return { namespaces: { translations: TranslationsNamespace }, commands: { release: ReleaseCommand, broken: BrokenCommand } };
+        };
+      `);
+
+      await writePlugin('@company/ionic-cli-plugin-broken', `throw new Error('broken');`);
+      await writePlugin('listed-plugin', `exports.default = () => ({ commands: { notacommand: class {} } });`);
+    });
+
+    afterAll(async () => {
+      await removeDirectory(dir);
+    });
+
+    describe('findCommandPlugins', () => {
+
+      it('should find plugins next to the Ionic CLI', async () => {
+        const result = await findCommandPlugins(createNamespace());
+        expect(result.sort()).toEqual(['@company/ionic-cli-plugin-broken', 'ionic-cli-plugin-release']);
+      });
+
+      it('should only find plugins of the project listed in global config', async () => {
+        expect(await findCommandPlugins(createNamespace([], '/path/to/ionic'))).toEqual([]);
+        expect(await findCommandPlugins(createNamespace(['ionic-cli-plugin-release'], '/path/to/ionic'))).toEqual(['ionic-cli-plugin-release']);
+      });
+
+      it('should include plugins listed in global config', async () => {
+        const [ first, ...rest ] = await findCommandPlugins(createNamespace(['listed-plugin']));
+        expect(first).toEqual('listed-plugin');
+        expect(rest.sort()).toEqual(['@company/ionic-cli-plugin-broken', 'ionic-cli-plugin-release']);
+      });
+
+    });
+
+    describe('loadCommandPlugins', () => {
+
+      it('should load namespaces and commands of plugins', async () => {
+        const namespace = createNamespace();
+        const { namespaces, commands } = await loadCommandPlugins(namespace);
+        expect([...namespaces.keys()]).toEqual(['translations']);
+        expect([...commands.keys()]).toEqual(['release']);
+      });
+
+      it('should load plugins of the project listed in global config', async () => {
+        const namespace = createNamespace(['ionic-cli-plugin-release'], '/path/to/ionic');
+        const { commands } = await loadCommandPlugins(namespace);
+        expect([...commands.keys()]).toEqual(['release']);
+      });
+
+      it('should skip broken plugins, namespaces and commands with a warning', async () => {
+        const namespace = createNamespace(['listed-plugin']);
+        const { commands } = await loadCommandPlugins(namespace);
+        expect([...commands.keys()]).toEqual(['release']);
+        expect(namespace.env.log.warn).toHaveBeenCalledTimes(3);
+      });
+
+    });
+
+  });
+
+});
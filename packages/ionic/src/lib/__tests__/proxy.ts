@@ -0,0 +1,119 @@
+import { getAppScriptsUnsupportedProxyOptions, getProjectProxyConfigs, proxyConfigsToAngularProxyConfig, validateProxyConfigs } from '../proxy';
+
+describe('ionic', () => {
+
+  describe('lib/proxy', () => {
+
+    describe('getProjectProxyConfigs', () => {
+
+      const createProject = (proxies: any): any => ({
+        filePath: '/path/to/ionic.config.json',
+        config: { get: (key: string) => key === 'proxies' ? proxies : undefined },
+      });
+
+      it('should default to no proxy rules', () => {
+        expect(getProjectProxyConfigs(createProject(undefined))).toEqual([]);
+      });
+
+      it('should return valid proxy rules', () => {
+        const proxies = [{ path: '/api', proxyUrl: 'https://api.example.com' }];
+        expect(getProjectProxyConfigs(createProject(proxies))).toEqual(proxies);
+      });
+
+      it('should throw for invalid proxy rules', () => {
+        expect(() => getProjectProxyConfigs(createProject([{ path: 'api' }]))).toThrowError(/Invalid/);
+      });
+
+    });
+
+    describe('validateProxyConfigs', () => {
+
+      it('should accept valid proxy rules', () => {
+        const errors = validateProxyConfigs([
+          { path: '/api', proxyUrl: 'http://localhost:3000' },
+          { path: '/socket', proxyUrl: 'wss://example.com/socket', ws: true, rejectUnauthorized: false, proxyNoAgent: true },
+          { path: '/v2', proxyUrl: 'https://example.com', headers: { 'X-Api-Key': 'secret' }, pathRewrite: { '^/v2': '/api/v2' } },
+        ]);
+
+        expect(errors).toEqual([]);
+      });
+
+      it('should require an array', () => {
+        expect(validateProxyConfigs({ path: '/api' })).toHaveLength(1);
+      });
+
+      it('should report each problem', () => {
+        const errors = validateProxyConfigs([
+          'nope',
+          { path: 'api', proxyUrl: 'localhost:3000' },
+          { path: '/api', proxyUrl: 'ftp://example.com', ws: 'yes' },
+          { path: '/api', proxyUrl: 'http://example.com', headers: { 'X-Count': 1 } },
+        ]);
+
+        expect(errors).toHaveLength(7);
+        expect(errors[0]).toMatch(/proxies\[0\].* must be an object/);
+        expect(errors[1]).toMatch(/proxies\[1\]\.path.* must be a URL path/);
+        expect(errors[2]).toMatch(/proxies\[1\]\.proxyUrl.* must be an absolute URL/);
+        expect(errors[3]).toMatch(/proxies\[2\]\.proxyUrl.* must be an absolute URL/);
+        expect(errors[4]).toMatch(/proxies\[2\]\.ws.* must be a boolean/);
+        expect(errors[5]).toMatch(/proxies\[3\]\.path.* is a duplicate/);
+        expect(errors[6]).toMatch(/proxies\[3\]\.headers.* must be an object of strings/);
+      });
+
+      it('should report invalid path rewrites', () => {
+        const errors = validateProxyConfigs([{ path: '/api', proxyUrl: 'http://example.com', pathRewrite: { '(': '' } }]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toMatch(/invalid regular expression/);
+      });
+
+    });
+
+    describe('proxyConfigsToAngularProxyConfig', () => {
+
+      it('should remove the path by default', () => {
+        const result = proxyConfigsToAngularProxyConfig([{ path: '/api.v1', proxyUrl: 'http://localhost:3000' }]);
+        expect(result).toEqual({
+          '/api.v1': {
+            target: 'http://localhost:3000',
+            changeOrigin: true,
+            logLevel: 'warn',
+            pathRewrite: { '^/api\\.v1': '' },
+            secure: true,
+            ws: true,
+          },
+        });
+      });
+
+      it('should translate options', () => {
+        const result = proxyConfigsToAngularProxyConfig([
+          { path: '/api', proxyUrl: 'https://example.com', headers: { 'X-Api-Key': 'secret' }, pathRewrite: { '^/api': '/v1' }, ws: false, rejectUnauthorized: false, proxyNoAgent: true },
+        ]);
+
+        expect(result).toEqual({
+          '/api': {
+            target: 'https://example.com',
+            changeOrigin: true,
+            logLevel: 'warn',
+            pathRewrite: { '^/api': '/v1' },
+            secure: false,
+            ws: false,
+            headers: { 'X-Api-Key': 'secret' },
+            agent: false,
+          },
+        });
+      });
+
+    });
+
+    describe('getAppScriptsUnsupportedProxyOptions', () => {
+
+      it('should list options ignored by app-scripts', () => {
+        expect(getAppScriptsUnsupportedProxyOptions({ path: '/api', proxyUrl: 'http://localhost:3000', rejectUnauthorized: false })).toEqual([]);
+        expect(getAppScriptsUnsupportedProxyOptions({ path: '/api', proxyUrl: 'http://localhost:3000', headers: {}, ws: true })).toEqual(['headers', 'ws']);
+      });
+
+    });
+
+  });
+
+});
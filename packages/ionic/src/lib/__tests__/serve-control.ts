@@ -0,0 +1,137 @@
+import * as http from 'http';
+import * as net from 'net';
+import * as WebSocket from 'ws';
+
+import { CONTROL_HOST, ServeControlServer } from '../serve-control';
+
+describe('ionic', () => {
+
+  describe('lib/serve-control', () => {
+
+    const token = 'abc123';
+    const status: any = { state: 'ready', children: [{ name: 'Angular CLI', program: 'ng', pid: 100, state: 'running' }] };
+
+    let server: ServeControlServer;
+    let runCommand: jest.Mock;
+
+    const getFreePort = () => new Promise<number>(resolve => {
+      const s = net.createServer();
+      s.listen(0, CONTROL_HOST, () => {
+        const { port } = s.address();
+        s.close(() => resolve(port));
+      });
+    });
+
+    const request = (method: string, path: string, headers: { [key: string]: string; } = {}) => new Promise<{ status?: number; body: any; }>((resolve, reject) => {
+      const req = http.request({ method, host: CONTROL_HOST, port: server.port, path, headers, agent: false }, res => {
+        let data = '';
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode, body: JSON.parse(data) }));
+      });
+
+      req.on('error', reject);
+      req.end();
+    });
+
+    beforeEach(async () => {
+      runCommand = jest.fn(async (command: string) => command === 'open' ? { url: 'http://localhost:8100' } : undefined);
+      server = new ServeControlServer(await getFreePort(), { getStatus: () => status, runCommand }, token);
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should reject requests without token', async () => {
+      const res = await request('GET', '/status');
+      expect(res.status).toEqual(401);
+      expect(res.body.ok).toEqual(false);
+    });
+
+    it('should reject requests with wrong token', async () => {
+      const res = await request('GET', '/status', { Authorization: 'Bearer abc124' });
+      expect(res.status).toEqual(401);
+    });
+
+    it('should report the status with bearer token', async () => {
+      const res = await request('GET', '/status', { Authorization: `Bearer ${token}` });
+      expect(res.status).toEqual(200);
+      expect(res.body).toEqual(status);
+    });
+
+    it('should report the status with token query parameter', async () => {
+      const res = await request('GET', `/status?token=${token}`);
+      expect(res.status).toEqual(200);
+      expect(res.body).toEqual(status);
+    });
+
+    it('should run commands', async () => {
+      const res = await request('POST', `/open?token=${token}`);
+      expect(res.status).toEqual(200);
+      expect(res.body).toEqual({ ok: true, url: 'http://localhost:8100' });
+      expect(runCommand).toHaveBeenCalledWith('open');
+    });
+
+    it('should report failed commands', async () => {
+      runCommand.mockImplementation(async () => { throw new Error('not running'); });
+      const res = await request('POST', `/restart?token=${token}`);
+      expect(res.status).toEqual(500);
+      expect(res.body).toEqual({ ok: false, error: 'not running' });
+    });
+
+    it('should require POST for commands', async () => {
+      const res = await request('GET', `/stop?token=${token}`);
+      expect(res.status).toEqual(405);
+      expect(runCommand).not.toHaveBeenCalled();
+    });
+
+    it('should respond with 404 for unknown endpoints', async () => {
+      const res = await request('POST', `/rebuild?token=${token}`);
+      expect(res.status).toEqual(404);
+    });
+
+    describe('WebSocket', () => {
+
+      const connect = (path: string) => new Promise<[WebSocket, any[]]>((resolve, reject) => {
+        const ws = new WebSocket(`ws://${CONTROL_HOST}:${server.port}${path}`);
+        const messages: any[] = [];
+        ws.on('message', data => messages.push(JSON.parse(data.toString())));
+        ws.on('open', () => resolve([ws, messages]));
+        ws.on('error', reject);
+      });
+
+      const waitForMessages = async (messages: any[], count: number) => {
+        while (messages.length < count) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+      };
+
+      it('should reject connections without token', async () => {
+        await expect(connect('/ws')).rejects.toThrow('401');
+      });
+
+      it('should send the status on connect and on changes', async () => {
+        const [ ws, messages ] = await connect(`/ws?token=${token}`);
+        await waitForMessages(messages, 1);
+        server.notify();
+        await waitForMessages(messages, 2);
+        expect(messages).toEqual([{ type: 'status', data: status }, { type: 'status', data: status }]);
+        ws.close();
+      });
+
+      it('should run commands', async () => {
+        const [ ws, messages ] = await connect(`/ws?token=${token}`);
+        ws.send(JSON.stringify({ id: 1, command: 'open' }));
+        ws.send(JSON.stringify({ id: 2, command: 'rebuild' }));
+        await waitForMessages(messages, 3);
+        expect(messages).toContainEqual({ type: 'result', id: 1, command: 'open', ok: true, data: { url: 'http://localhost:8100' } });
+        expect(messages).toContainEqual({ type: 'result', id: 2, command: 'rebuild', ok: false, error: 'Unknown command.' });
+        ws.close();
+      });
+
+    });
+
+  });
+
+});
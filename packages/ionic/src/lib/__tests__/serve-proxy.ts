@@ -0,0 +1,122 @@
+import * as http from 'http';
+import * as net from 'net';
+import * as WebSocket from 'ws';
+
+import { CONSOLE_LOGS_SCRIPT_PATH, CONSOLE_LOGS_WS_PATH, ConsoleLogsMessage } from '../console-logs';
+import { ConsoleLogsProxy, injectScript } from '../serve-proxy';
+
+jest.mock('../../constants', () => ({
+  ASSETS_DIRECTORY: require('path').resolve(__dirname, '..', '..', '..', 'assets'),
+}));
+
+describe('ionic', () => {
+
+  describe('lib/serve-proxy', () => {
+
+    describe('injectScript', () => {
+
+      const code = '<script></script>';
+
+      it('should inject at the start of head', () => {
+        expect(injectScript('<html><head lang="en"><title></title></head><body></body></html>', code)).toEqual('<html><head lang="en"><script></script><title></title></head><body></body></html>');
+      });
+
+      it('should fall back to the end of the last body', () => {
+        expect(injectScript('<body><template><body></body></template></body>', code)).toEqual('<body><template><body></body></template><script></script></body>');
+      });
+
+      it('should append to documents without tags', () => {
+        expect(injectScript('hello', code)).toEqual('hello<script></script>');
+      });
+
+    });
+
+    describe('ConsoleLogsProxy', () => {
+
+      const listen = (server: net.Server) => new Promise<number>(resolve => server.listen(0, '127.0.0.1', () => resolve(server.address().port)));
+      const close = (server: net.Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+      const get = (port: number, p: string) => new Promise<{ status?: number; body: string; }>((resolve, reject) => {
+        http.get({ host: '127.0.0.1', port, path: p }, res => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', chunk => body += chunk);
+          res.on('end', () => resolve({ status: res.statusCode, body }));
+        }).on('error', reject);
+      });
+
+      let upstream: http.Server;
+      let proxy: ConsoleLogsProxy;
+      let port: number;
+      const messages: ConsoleLogsMessage[] = [];
+
+      beforeAll(async () => {
+        upstream = http.createServer((req, res) => {
+          if (req.url === '/') {
+            res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+            res.end('<html><head></head><body>app</body></html>');
+          } else if (req.url === '/main.js') {
+            res.writeHead(200, { 'Content-Type': 'application/javascript' });
+            res.end('console.log("app");');
+          } else {
+            res.writeHead(404);
+            res.end();
+          }
+        });
+
+        const upstreamPort = await listen(upstream);
+        const placeholder = net.createServer();
+        port = await listen(placeholder);
+        await close(placeholder);
+
+        proxy = new ConsoleLogsProxy({ address: '127.0.0.1', port, upstreamAddress: '127.0.0.1', upstreamPort }, msg => messages.push(msg));
+        await proxy.start();
+      });
+
+      afterAll(async () => {
+        await proxy.stop();
+        await close(upstream);
+      });
+
+      it('should inject the script into HTML documents', async () => {
+        const { status, body } = await get(port, '/');
+        expect(status).toEqual(200);
+        expect(body).toEqual(`<html><head><script src="${CONSOLE_LOGS_SCRIPT_PATH}"></script></head><body>app</body></html>`);
+      });
+
+      it('should pass other responses through', async () => {
+        expect(await get(port, '/main.js')).toEqual({ status: 200, body: 'console.log("app");' });
+        expect((await get(port, '/nope')).status).toEqual(404);
+      });
+
+      it('should serve the script with its config', async () => {
+        const { status, body } = await get(port, CONSOLE_LOGS_SCRIPT_PATH);
+        expect(status).toEqual(200);
+        expect(body).toContain(`window.Ionic.ConsoleLogsConfig = {"path":"${CONSOLE_LOGS_WS_PATH}"}`);
+      });
+
+      it('should pass messages from the app on', async () => {
+        const ws = new WebSocket(`ws://127.0.0.1:${port}${CONSOLE_LOGS_WS_PATH}`);
+        await new Promise(resolve => ws.on('open', resolve));
+
+        ws.send('not json');
+        ws.send(JSON.stringify({ category: 'console', type: 'warn', data: ['careful', '{"a":1}'] }));
+        ws.send(JSON.stringify({ category: 'error', type: 'error', data: [`Error: nope\n    at http://127.0.0.1:${port}/main.js:1:1`] }));
+
+        while (messages.length < 2) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+
+        ws.close();
+
+        expect(messages).toEqual([
+          { category: 'console', type: 'warn', data: ['careful', '{"a":1}'] },
+          { category: 'error', type: 'error', data: [`Error: nope\n    at http://127.0.0.1:${port}/main.js:1:1`] },
+        ]);
+      });
+
+    });
+
+  });
+
+});
@@ -1,4 +1,20 @@
-import { ServeRunner } from '../serve';
+import { stripAnsi } from '@ionic/cli-framework/utils/format';
+import { processExit as processExitSpy } from '@ionic/cli-framework/utils/process';
+import * as network from '@ionic/utils-network';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as stream from 'stream';
+
+import { PortInUseException } from '../errors';
+import { ServeCLI, ServeCLIOptions, ServeRunner, formatServeProjectsTable, getRestartDelay, reservePort } from '../serve';
+
+jest.mock('@ionic/cli-framework/utils/process', () => ({
+  ...require.requireActual('@ionic/cli-framework/utils/process'),
+  processExit: jest.fn(),
+}));
 
 class MyServeRunner extends ServeRunner<never> {
   constructor(protected readonly e: any) {
@@ -30,10 +46,13 @@ describe('ionic', () => {
           labHost: 'localhost',
           labPort: 8200,
           livereload: true,
+          consolelogs: false,
           open: false,
           port: 8100,
           proxy: true,
           ssl: false,
+          strictPort: false,
+          control: false,
           project: undefined,
         };
 
@@ -67,6 +86,30 @@ describe('ionic', () => {
           expect(result).toEqual({ ...defaults, project: 'app' });
         });
 
+        it('should respect --ssl flag', () => {
+          const runner = new MyServeRunner({});
+          const result = runner.createOptionsFromCommandLine([], { _: [], ssl: true });
+          expect(result).toEqual({ ...defaults, ssl: true });
+        });
+
+        it('should respect --strict-port flag', () => {
+          const runner = new MyServeRunner({});
+          const result = runner.createOptionsFromCommandLine([], { _: [], 'strict-port': true });
+          expect(result).toEqual({ ...defaults, strictPort: true });
+        });
+
+        it('should respect --max-restarts and --restart-backoff', () => {
+          const runner = new MyServeRunner({});
+          const result = runner.createOptionsFromCommandLine([], { _: [], 'max-restarts': '3', 'restart-backoff': '500' });
+          expect(result).toEqual({ ...defaults, restartPolicy: { maxRestarts: 3, backoff: 500 } });
+        });
+
+        it('should respect browser flags', () => {
+          const runner = new MyServeRunner({});
+          const result = runner.createOptionsFromCommandLine([], { _: [], browser: 'chrome,firefox', 'browser-profile': 'qa', 'browser-incognito': true, 'browser-device': 'iphone-x' });
+          expect(result).toEqual({ ...defaults, browser: 'chrome,firefox', browserProfile: 'qa', browserFlags: { incognito: true, device: 'iphone-x' } });
+        });
+
         it('should pass on separated args', () => {
           const runner = new MyServeRunner({});
           const result = runner.createOptionsFromCommandLine([], { _: [], '--': ['foo', '--bar'] });
@@ -77,6 +120,214 @@ describe('ionic', () => {
 
     });
 
+    describe('ServeCLI', () => {
+
+      // exits with code 1 as long as there are crashes left in the counter file,
+      // or once it is sent SIGUSR2 while listening
+      const SCRIPT = `
+const fs = require('fs');
+const crashes = Number(fs.readFileSync(process.env.COUNTER, 'utf8'));
+
+if (crashes > 0) {
+  fs.writeFileSync(process.env.COUNTER, String(crashes - 1));
+  process.exit(1);
+}
+
+process.on('SIGUSR2', () => process.exit(1));
+require('http').createServer().listen(Number(process.env.PORT), '127.0.0.1', () => console.log('listening'));
+`;
+
+      class MyServeCLI extends ServeCLI<ServeCLIOptions> {
+        readonly name = 'Test Server';
+        readonly pkg = 'test';
+        readonly program = process.execPath;
+        readonly prefix = 'test';
+        readonly script = undefined;
+
+        protected async buildArgs(): Promise<string[]> {
+          return ['-e', SCRIPT];
+        }
+
+        protected createLoggerStream(): NodeJS.WritableStream {
+          return new stream.Writable({ write: (chunk, enc, cb) => cb() });
+        }
+      }
+
+      let counter: string;
+      let port: number;
+      let cli: MyServeCLI;
+
+      const createServeCLI = (crashes: number) => {
+        fs.writeFileSync(counter, String(crashes));
+
+        const log = { nl: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const shell = {
+          spawn: async (command: string, args: string[], options: any) => child_process.spawn(command, args, { ...options, env: { ...process.env, COUNTER: counter, PORT: String(port) } }),
+        };
+
+        return new MyServeCLI({ log, shell, project: { directory: os.tmpdir() } } as any);
+      };
+
+      beforeEach(async () => {
+        counter = path.resolve(os.tmpdir(), `ionic-serve-test-${process.pid}`);
+        port = await reservePort(18100, { name: 'test server' });
+        (processExitSpy as jest.Mock).mockClear();
+      });
+
+      afterEach(async () => {
+        await cli.stop();
+        fs.unlinkSync(counter);
+      });
+
+      it('should not restart child processes stopped by signals', async () => {
+        cli = createServeCLI(0);
+        await cli.serve({ address: '127.0.0.1', port, restartPolicy: { maxRestarts: 2, backoff: 10 } });
+        expect(cli.getStatus().state).toEqual('running');
+
+        process.kill(cli.getStatus().pid as number, 'SIGKILL');
+        await new Promise(resolve => cli.on('state', resolve));
+
+        expect(cli.getStatus().state).toEqual('exited');
+        expect(cli.getStatus().restarts).toEqual(0);
+        expect(processExitSpy).not.toHaveBeenCalled();
+      });
+
+      it('should restart until the child process is ready', async () => {
+        cli = createServeCLI(2);
+        const states: string[] = [];
+        cli.on('state', state => states.push(state));
+
+        const serving = cli.serve({ address: '127.0.0.1', port, restartPolicy: { maxRestarts: 2, backoff: 10 } });
+        await new Promise(resolve => cli.on('state', state => state === 'running' ? resolve() : undefined));
+
+        expect(cli.getStatus().restarts).toEqual(0);
+        expect(states).toEqual(['starting', 'exited', 'stopped', 'starting', 'exited', 'stopped', 'starting', 'running']);
+        expect(processExitSpy).not.toHaveBeenCalled();
+
+        await serving;
+      });
+
+      it('should reset the count of restarts once the child process is running', async () => {
+        cli = createServeCLI(1);
+        await cli.serve({ address: '127.0.0.1', port, restartPolicy: { maxRestarts: 1, backoff: 10 } });
+        expect(cli.getStatus().state).toEqual('running');
+
+        const restarted = new Promise(resolve => cli.on('state', state => state === 'running' ? resolve() : undefined));
+        process.kill(cli.getStatus().pid as number, 'SIGUSR2');
+        await restarted;
+
+        expect(cli.getStatus().restarts).toEqual(0);
+        expect(processExitSpy).not.toHaveBeenCalled();
+      });
+
+      it('should exit once the restart policy is exhausted', async () => {
+        cli = createServeCLI(3);
+        cli.serve({ address: '127.0.0.1', port, restartPolicy: { maxRestarts: 2, backoff: 10 } }); // tslint:disable-line:no-floating-promises
+
+        while ((processExitSpy as jest.Mock).mock.calls.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+
+        expect(processExitSpy).toHaveBeenCalledWith(1);
+        expect(cli.getStatus().restarts).toEqual(2);
+        expect(cli.getStatus().state).toEqual('exited');
+      });
+
+      it('should exit without restart policy', async () => {
+        cli = createServeCLI(1);
+        cli.serve({ address: '127.0.0.1', port }); // tslint:disable-line:no-floating-promises
+
+        while ((processExitSpy as jest.Mock).mock.calls.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+
+        expect(processExitSpy).toHaveBeenCalledWith(1);
+        expect(cli.getStatus().restarts).toEqual(0);
+      });
+
+    });
+
+    describe('getRestartDelay', () => {
+
+      it('should double the backoff for each restart', () => {
+        const policy = { maxRestarts: 10, backoff: 1000 };
+        expect([0, 1, 2, 3].map(restarts => getRestartDelay(policy, restarts))).toEqual([1000, 2000, 4000, 8000]);
+      });
+
+      it('should not wait longer than 30 seconds', () => {
+        expect(getRestartDelay({ maxRestarts: 10, backoff: 1000 }, 9)).toEqual(30000);
+      });
+
+    });
+
+    describe('formatServeProjectsTable', () => {
+
+      it('should list the URLs of each project', () => {
+        const details = (port: number, addresses: string[]): any => ({
+          protocol: 'http',
+          localAddress: 'localhost',
+          port,
+          externalNetworkInterfaces: addresses.map(address => ({ address })),
+        });
+
+        const result = stripAnsi(formatServeProjectsTable([
+          { id: 'app', type: 'angular', details: details(8100, ['192.168.1.2', '2001:db8::2']) },
+          { id: 'admin', type: 'angular', details: details(8101, []) },
+        ]));
+
+        const lines = result.split('\n');
+        expect(lines[0]).toMatch(/^project\s+\|\s+type\s+\|\s+local\s+\|\s+external$/);
+        expect(lines[2]).toContain('http://localhost:8100');
+        expect(lines[2]).toContain('http://192.168.1.2:8100');
+        expect(lines[3]).toContain('http://[2001:db8::2]:8100');
+        expect(lines[4]).toMatch(/^admin .*http:\/\/localhost:8101 \| none$/);
+      });
+
+    });
+
+    describe('reservePort', () => {
+
+      let server: net.Server;
+      let port: number;
+
+      beforeAll(async () => {
+        server = net.createServer();
+        await new Promise(resolve => server.listen(0, '0.0.0.0', resolve));
+        port = server.address().port;
+      });
+
+      afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+      });
+
+      it('should skip ports in use', async () => {
+        const result = await reservePort(port, { name: 'dev server' });
+        expect(result).toBeGreaterThan(port);
+      });
+
+      it('should not reserve the same port twice', async () => {
+        const first = await reservePort(port + 100, { name: 'dev server' });
+        const second = await reservePort(port + 100, { name: 'live-reload server' });
+        expect(second).toBeGreaterThan(first);
+      });
+
+      it('should not reserve the same port for concurrent calls', async () => {
+        const spy = jest.spyOn(network, 'isPortAvailable').mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(true), 10)));
+
+        try {
+          const results = await Promise.all([1, 2, 3].map(() => reservePort(port + 200, { name: 'dev server' })));
+          expect(results.sort((a, b) => a - b)).toEqual([port + 200, port + 201, port + 202]);
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should throw for ports in use in strict mode', async () => {
+        await expect(reservePort(port, { name: 'dev server', option: '--port', strict: true })).rejects.toBeInstanceOf(PortInUseException);
+      });
+
+    });
+
   });
 
 });
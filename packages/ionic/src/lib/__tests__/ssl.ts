@@ -0,0 +1,107 @@
+import { mkdirp, removeDirectory, writeFile } from '@ionic/utils-fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { formatSubjectAltNames, getProjectSSLFiles, normalizeHost, parseSubjectAltNames, pem2der } from '../ssl';
+
+describe('ionic', () => {
+
+  describe('lib/ssl', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-ssl-${process.pid}`);
+
+    const createProject = (ssl?: { key?: string; cert?: string; }): any => ({
+      directory: dir,
+      config: { get: (key: string) => key === 'ssl' ? ssl : undefined },
+    });
+
+    beforeAll(async () => {
+      await mkdirp(path.resolve(dir, '.ionic', 'ssl'));
+      await mkdirp(path.resolve(dir, 'certs'));
+      await writeFile(path.resolve(dir, '.ionic', 'ssl', 'key.pem'), '', { encoding: 'utf8' });
+      await writeFile(path.resolve(dir, '.ionic', 'ssl', 'cert.pem'), '', { encoding: 'utf8' });
+      await writeFile(path.resolve(dir, 'certs', 'key.pem'), '', { encoding: 'utf8' });
+      await writeFile(path.resolve(dir, 'certs', 'cert.pem'), '', { encoding: 'utf8' });
+    });
+
+    afterAll(async () => {
+      await removeDirectory(dir);
+    });
+
+    describe('getProjectSSLFiles', () => {
+
+      it('should use files from project config relative to project directory', async () => {
+        const result = await getProjectSSLFiles(createProject({ key: 'certs/key.pem', cert: 'certs/cert.pem' }));
+        expect(result).toEqual({ key: path.resolve(dir, 'certs', 'key.pem'), cert: path.resolve(dir, 'certs', 'cert.pem') });
+      });
+
+      it('should fall back to files of ionic ssl generate', async () => {
+        const result = await getProjectSSLFiles(createProject());
+        expect(result).toEqual({ key: path.resolve(dir, '.ionic', 'ssl', 'key.pem'), cert: path.resolve(dir, '.ionic', 'ssl', 'cert.pem') });
+      });
+
+      it('should require both key and cert in project config', async () => {
+        await expect(getProjectSSLFiles(createProject({ key: 'certs/key.pem' }))).rejects.toThrow('must be set');
+      });
+
+      it('should fail for missing files', async () => {
+        await expect(getProjectSSLFiles(createProject({ key: 'certs/key.pem', cert: 'missing.pem' }))).rejects.toThrow('SSL file not found');
+      });
+
+    });
+
+    describe('formatSubjectAltNames', () => {
+
+      it('should format hosts and IP addresses', () => {
+        expect(formatSubjectAltNames(['localhost', '127.0.0.1', 'my.dev', '::1'])).toEqual('DNS:localhost, IP:127.0.0.1, DNS:my.dev, IP:::1');
+      });
+
+    });
+
+    describe('parseSubjectAltNames', () => {
+
+      it('should parse subject alternative names from certificate text', () => {
+        const text = `
+        X509v3 extensions:
+            X509v3 Subject Alternative Name:${' '}
+                DNS:localhost, IP Address:127.0.0.1, IP Address:192.168.1.10
+            X509v3 Basic Constraints:${' '}
+                CA:FALSE
+        `;
+
+        expect(parseSubjectAltNames(text)).toEqual(['localhost', '127.0.0.1', '192.168.1.10']);
+      });
+
+      it('should return empty array without extension', () => {
+        expect(parseSubjectAltNames('Certificate:\n    Data:\n')).toEqual([]);
+      });
+
+    });
+
+    describe('normalizeHost', () => {
+
+      it('should expand IPv6 addresses like OpenSSL', () => {
+        expect(normalizeHost('::1')).toEqual(normalizeHost('0:0:0:0:0:0:0:1'));
+        expect(normalizeHost('2001:db8::2')).toEqual(normalizeHost('2001:DB8:0:0:0:0:0:2'));
+        expect(normalizeHost('fe80::')).toEqual('fe80:0:0:0:0:0:0:0');
+      });
+
+      it('should leave other hosts alone', () => {
+        expect(normalizeHost('192.168.1.10')).toEqual('192.168.1.10');
+        expect(normalizeHost('My.Dev')).toEqual('my.dev');
+      });
+
+    });
+
+    describe('pem2der', () => {
+
+      it('should decode base64 body of pem', () => {
+        const pem = '-----BEGIN CERTIFICATE-----\naGVsbG8g\nd29ybGQ=\n-----END CERTIFICATE-----\n';
+        expect(pem2der(pem).toString('utf8')).toEqual('hello world');
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,226 @@
+import { expandPath } from '@ionic/cli-framework/utils/format';
+import chalk from 'chalk';
+
+import { BrowserChoice, BrowserFlags, IConfig } from '../definitions';
+
+import { FatalException } from './errors';
+
+export const BROWSERS = ['chrome', 'firefox', 'safari'];
+
+const CHROME_NAMES = ['chrome', 'google chrome', 'google-chrome', 'chromium', 'chromium-browser'];
+const FIREFOX_NAMES = ['firefox'];
+const SAFARI_NAMES = ['safari'];
+
+export interface ChromeDevice {
+  readonly width: number;
+  readonly height: number;
+  readonly userAgent: string;
+}
+
+const IOS_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 12_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/12.0 Mobile/15E148 Safari/604.1';
+
+/**
+ * Devices Chrome can emulate with `--browser-device`, by window size and
+ * user agent.
+ */
+export const CHROME_DEVICES: { readonly [name: string]: ChromeDevice; } = {
+  'iphone-se': { width: 320, height: 568, userAgent: IOS_USER_AGENT },
+  'iphone-8': { width: 375, height: 667, userAgent: IOS_USER_AGENT },
+  'iphone-x': { width: 375, height: 812, userAgent: IOS_USER_AGENT },
+  'ipad': { width: 768, height: 1024, userAgent: 'Mozilla/5.0 (iPad; CPU OS 12_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/12.0 Mobile/15E148 Safari/604.1' },
+  'pixel-2': { width: 411, height: 731, userAgent: 'Mozilla/5.0 (Linux; Android 9; Pixel 2) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/70.0.3538.110 Mobile Safari/537.36' },
+  'galaxy-s9': { width: 360, height: 740, userAgent: 'Mozilla/5.0 (Linux; Android 8.0.0; SM-G960F) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/70.0.3538.110 Mobile Safari/537.36' },
+};
+
+export interface BrowserLaunch {
+  /**
+   * The browser name as given by the user.
+   */
+  readonly name: string;
+
+  /**
+   * The application to open the URL with.
+   */
+  readonly app: string;
+
+  readonly args: string[];
+
+  /**
+   * Flags which the browser does not support and which were left out.
+   */
+  readonly unsupported: string[];
+}
+
+export interface BrowserSelectionOptions {
+  readonly browser?: string;
+  readonly browserProfile?: string;
+  readonly browserFlags?: BrowserFlags;
+}
+
+/**
+ * Parse a comma-separated list of browsers, e.g. `chrome,firefox`.
+ */
+export function parseBrowsers(value: string): string[] {
+  return value.split(',').map(b => b.trim()).filter(b => b.length > 0);
+}
+
+/**
+ * Get the application name of a browser for the current platform. Unknown
+ * browsers are used as application names.
+ */
+export function getBrowserApp(name: string, platform = process.platform): string {
+  const n = name.toLowerCase();
+
+  if (n === 'chrome') {
+    return platform === 'win32' ? 'chrome' : (platform === 'darwin' ? 'google chrome' : 'google-chrome');
+  }
+
+  if (FIREFOX_NAMES.includes(n) || SAFARI_NAMES.includes(n)) {
+    return n;
+  }
+
+  return name;
+}
+
+/**
+ * Determine the browsers to open the app in.
+ *
+ * Browsers given with `--browser` take precedence over a named profile from
+ * `browser.profiles` of the global config given with `--browser-profile`,
+ * which takes precedence over the last choice. Flags given on the command
+ * line are applied on top.
+ *
+ * @return `undefined` to use the default browser of the system.
+ */
+export function getBrowserChoice(config: IConfig, { browser, browserProfile, browserFlags }: BrowserSelectionOptions): BrowserChoice | undefined {
+  let choice: BrowserChoice | undefined;
+
+  if (browser) {
+    choice = { browsers: parseBrowsers(browser) };
+  } else if (browserProfile) {
+    choice = getBrowserProfile(config, browserProfile);
+  } else {
+    const last = config.get('browser.last');
+    const profiles = config.get('browser.profiles', {});
+
+    // profiles may have changed since they were last used
+    choice = last && last.profile && profiles[last.profile] ? getBrowserProfile(config, last.profile) : last;
+  }
+
+  if (!choice && browserFlags) {
+    choice = { browsers: ['chrome'] };
+  }
+
+  if (!choice) {
+    return;
+  }
+
+  const result: BrowserChoice = { ...choice, ...browserFlags };
+
+  if (result.device && !CHROME_DEVICES[result.device]) {
+    throw new FatalException(
+      `Unknown device to emulate: ${chalk.green(result.device)}.\n` +
+      `Available devices: ${Object.keys(CHROME_DEVICES).map(d => chalk.green(d)).join(', ')}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Get a named browser profile from `browser.profiles` of the global config.
+ */
+export function getBrowserProfile(config: IConfig, name: string): BrowserChoice {
+  const profiles = config.get('browser.profiles', {});
+  const profile = profiles[name];
+
+  if (!profile) {
+    const available = Object.keys(profiles);
+
+    throw new FatalException(
+      `Unknown browser profile: ${chalk.green(name)}.\n` +
+      (available.length > 0 ? `Available profiles: ${available.map(p => chalk.green(p)).join(', ')}` : `Create one in ${chalk.green('browser.profiles')} of the global config. See ${chalk.green('ionic serve --help')}.`)
+    );
+  }
+
+  if (!Array.isArray(profile.browsers) || profile.browsers.length === 0) {
+    throw new FatalException(`Browser profile ${chalk.green(name)} must have a non-empty ${chalk.green('browsers')} array.`);
+  }
+
+  return { ...profile, profile: name };
+}
+
+/**
+ * Get the applications and arguments for opening the app in the chosen
+ * browsers.
+ */
+export function getBrowserLaunches(choice: BrowserChoice, platform = process.platform): BrowserLaunch[] {
+  return choice.browsers.map(name => {
+    const app = getBrowserApp(name, platform);
+    const [ args, unsupported ] = getBrowserArgs(app, choice);
+
+    return { name, app, args, unsupported };
+  });
+}
+
+/**
+ * Get the arguments for a browser application for the given flags.
+ *
+ * @return A tuple of the arguments and the names of unsupported flags.
+ */
+export function getBrowserArgs(app: string, { incognito, dataDir, device, args = [] }: BrowserFlags): [string[], string[]] {
+  const n = app.toLowerCase();
+  const result: string[] = [];
+  const unsupported: string[] = [];
+  const dir = dataDir ? expandPath(dataDir) : undefined;
+
+  if (CHROME_NAMES.includes(n)) {
+    if (incognito) {
+      result.push('--incognito');
+    }
+
+    if (dir) {
+      result.push(`--user-data-dir=${dir}`);
+    }
+
+    if (device) {
+      const emulated = CHROME_DEVICES[device];
+
+      if (emulated) {
+        result.push(`--user-agent=${emulated.userAgent}`, `--window-size=${emulated.width},${emulated.height}`);
+      } else {
+        unsupported.push('device');
+      }
+    }
+  } else if (FIREFOX_NAMES.includes(n)) {
+    if (dir) {
+      result.push('-no-remote', '-profile', dir);
+    }
+
+    if (incognito) {
+      result.push('-private-window');
+    }
+
+    if (device) {
+      unsupported.push('device');
+    }
+  } else {
+    if (incognito) {
+      unsupported.push('incognito');
+    }
+
+    if (dir) {
+      unsupported.push('dataDir');
+    }
+
+    if (device) {
+      unsupported.push('device');
+    }
+  }
+
+  return [[...result, ...args], unsupported];
+}
+
+export function formatBrowserChoice(choice: BrowserChoice): string {
+  return choice.browsers.map(b => chalk.bold(b)).join(', ') + (choice.profile ? ` (profile ${chalk.green(choice.profile)})` : '');
+}
@@ -1,10 +1,12 @@
 import { BaseError, ERROR_SHELL_COMMAND_NOT_FOUND, OptionGroup, PromptModule, ShellCommandError } from '@ionic/cli-framework';
+import { columnar, prettyDuration } from '@ionic/cli-framework/utils/format';
 import chalk from 'chalk';
 import * as Debug from 'debug';
+import * as lodash from 'lodash';
 
-import { BaseBuildOptions, BuildOptions, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, IConfig, ILogger, IProject, IShell, Runner } from '../definitions';
+import { BaseBuildOptions, BuildDetails, BuildOptions, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, HookTiming, IConfig, ILogger, IProject, IShell, IShellRunOptions, Runner } from '../definitions';
 
-import { BuildCLIProgramNotFoundException, FatalException, RunnerException } from './errors';
+import { BuildCLIProgramNotFoundException, FatalException, HookException } from './errors';
 import { Hook } from './hooks';
 
 const debug = Debug('ionic:lib:build');
@@ -32,10 +34,21 @@ export interface BuildRunnerDeps {
   readonly shell: IShell;
 }
 
-export abstract class BuildRunner<T extends BuildOptions<any>> implements Runner<T, void> {
+export abstract class BuildRunner<T extends BuildOptions<any>> implements Runner<T, T> {
 
   protected abstract readonly e: BuildRunnerDeps;
 
+  /**
+   * The time spent running each `build:before` and `build:after` hook.
+   */
+  readonly hookTimings: HookTiming[] = [];
+
+  /**
+   * The wall-clock time spent running the `build:before` and `build:after`
+   * hooks.
+   */
+  hookElapsed = 0;
+
   abstract getCommandMetadata(): Promise<Partial<CommandMetadata>>;
   abstract createOptionsFromCommandLine(inputs: CommandLineInputs, options: CommandLineOptions): T;
   abstract buildProject(options: T): Promise<void>;
@@ -61,28 +74,46 @@ export abstract class BuildRunner<T extends BuildOptions<any>> implements Runner
     return 'browser';
   }
 
-  async beforeBuild(options: T): Promise<void> {
+  /**
+   * Run the `build:before` hook.
+   *
+   * Options returned from hooks are merged into the given options and the
+   * result is used for the build.
+   */
+  async beforeBuild(options: T): Promise<T> {
     const hook = new BuildBeforeHook(this.e);
 
     try {
-      await hook.run({ name: hook.name, build: options });
+      const result = await hook.run({ name: hook.name, build: options });
+      return lodash.assign({}, options, result);
     } catch (e) {
-      if (e instanceof BaseError) {
-        throw new FatalException(e.message);
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
       }
 
       throw e;
+    } finally {
+      this.hookTimings.push(...hook.timings);
+      this.hookElapsed += hook.elapsed;
     }
   }
 
-  async run(options: T): Promise<void> {
+  /**
+   * Run the build with its hooks.
+   *
+   * @return The options used for the build, including options returned from
+   * `build:before` hooks.
+   */
+  async run(options: T): Promise<T> {
     if (options.engine === 'cordova' && !options.platform) {
       this.e.log.warn(`Cordova engine chosen without a target platform. This could cause issues. Please use the ${chalk.green('--platform')} option.`);
     }
 
-    await this.beforeBuild(options);
-    await this.buildProject(options);
-    await this.afterBuild(options);
+    const opts = await this.beforeBuild(options);
+    await this.buildProject(opts);
+    await this.afterBuild(opts);
+
+    return opts;
   }
 
   async afterBuild(options: T): Promise<void> {
@@ -91,11 +122,14 @@ export abstract class BuildRunner<T extends BuildOptions<any>> implements Runner
     try {
       await hook.run({ name: hook.name, build: options });
     } catch (e) {
-      if (e instanceof BaseError) {
-        throw new FatalException(e.message);
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
       }
 
       throw e;
+    } finally {
+      this.hookTimings.push(...hook.timings);
+      this.hookElapsed += hook.elapsed;
     }
   }
 }
@@ -171,11 +205,19 @@ export abstract class BuildCLI<T extends object> {
     }
   }
 
+  /**
+   * Build the options for running this Build CLI. Called by `this.run()`.
+   */
+  protected async buildRunOptions(options: T): Promise<IShellRunOptions> {
+    return { cwd: this.e.project.directory, fatalOnNotFound: false };
+  }
+
   protected async run(options: T): Promise<void> {
     const args = await this.buildArgs(options);
+    const runOptions = await this.buildRunOptions(options);
 
     try {
-      await this.e.shell.run(this.resolvedProgram, args, { cwd: this.e.project.directory, fatalOnNotFound: false });
+      await this.e.shell.run(this.resolvedProgram, args, runOptions);
     } catch (e) {
       if (e instanceof ShellCommandError && e.code === ERROR_SHELL_COMMAND_NOT_FOUND) {
         throw new BuildCLIProgramNotFoundException(`${chalk.bold(this.resolvedProgram)} command not found.`);
@@ -231,21 +273,25 @@ class BuildAfterHook extends Hook {
   readonly name = 'build:after';
 }
 
-export async function build(deps: BuildRunnerDeps, inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> {
-  try {
-    const runner = await deps.project.requireBuildRunner();
+export async function build(deps: BuildRunnerDeps, inputs: CommandLineInputs, options: CommandLineOptions): Promise<BuildDetails> {
+  const runner = await deps.project.requireBuildRunner();
 
-    if (deps.project.details.context === 'multiapp') {
-      options['project'] = deps.project.details.id;
-    }
+  if (deps.project.details.context === 'multiapp') {
+    options['project'] = deps.project.details.id;
+  }
 
-    const opts = runner.createOptionsFromCommandLine(inputs, options);
-    await runner.run(opts);
-  } catch (e) {
-    if (e instanceof RunnerException) {
-      throw new FatalException(e.message);
-    }
+  const opts = await runner.run(runner.createOptionsFromCommandLine(inputs, options));
 
-    throw e;
+  if (runner.hookTimings.length > 0) {
+    printHookTimings(deps.log, runner.hookTimings, runner.hookElapsed);
   }
+
+  return { options: opts, distDir: await deps.project.getDistDir(), hookTimings: runner.hookTimings };
+}
+
+function printHookTimings(log: ILogger, timings: ReadonlyArray<HookTiming>, total: number): void {
+  const rows = timings.map(t => [chalk.bold(t.name), t.hook, prettyDuration(t.elapsed)]);
+
+  log.nl();
+  log.info(`Hook timings (${chalk.bold(prettyDuration(total))} total):\n\n${columnar(rows, { headers: ['hook', 'entry', 'elapsed'] })}\n`);
 }
@@ -31,7 +31,7 @@ export abstract class Command extends BaseCommand<ICommand, INamespace, CommandM
       output = new LogUpdateOutputStrategy({ LogUpdate });
       this.env.log.handlers = new Set([new StreamHandler({ stream: output.stream, formatter })]);
     } else {
-      this.env.log.handlers = createDefaultLoggerHandlers();
+      this.env.log.handlers = createDefaultLoggerHandlers(formatter, { json: this.env.output.enabled });
       output = new StreamOutputStrategy({ stream: this.env.log.createWriteStream(LOGGER_LEVELS.INFO, false) });
     }
 
@@ -39,7 +39,7 @@ export abstract class Command extends BaseCommand<ICommand, INamespace, CommandM
     this.taskChains.push(chain);
 
     chain.on('end', () => {
-      this.env.log.handlers = createDefaultLoggerHandlers();
+      this.env.log.handlers = createDefaultLoggerHandlers(formatter, { json: this.env.output.enabled });
     });
 
     return chain;
@@ -54,7 +54,7 @@ export abstract class Command extends BaseCommand<ICommand, INamespace, CommandM
       await this.validate(inputs);
     } catch (e) {
       if (!this.env.flags.interactive) {
-        this.env.log.warn(`Command ran non-interactively due to ${chalk.green('--no-interactive')} flag, CI being detected, non-TTY, or a config setting.`);
+        this.env.log.warn(`Command ran non-interactively due to ${chalk.green('--no-interactive')} or ${chalk.green('--json')} flag, CI being detected, non-TTY, or a config setting.`);
       }
 
       throw e;
@@ -46,9 +46,8 @@ export const GLOBAL_OPTIONS: ReadonlyArray<CommandMetadataOption> = [
   },
   {
     name: 'json',
-    summary: 'Use JSON when operating with stdout, if possible',
+    summary: 'Print a JSON document of the result to stdout and log messages to stderr',
     type: Boolean,
-    groups: [OptionGroup.Hidden],
   },
 ];
 
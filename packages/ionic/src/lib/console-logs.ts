@@ -0,0 +1,179 @@
+import chalk, { Chalk } from 'chalk';
+import * as Debug from 'debug';
+import { SourceMapConsumer } from 'source-map';
+import * as url from 'url';
+
+const debug = Debug('ionic:lib:console-logs');
+
+export const CONSOLE_LOGS_SCRIPT_PATH = '/__ionic/console-logs.js';
+export const CONSOLE_LOGS_WS_PATH = '/__ionic/console-logs';
+
+const STACK_LOCATION_REGEX = /(https?:\/\/[^\s()'"]+?):(\d+):(\d+)/g;
+const SOURCE_MAPPING_URL_REGEX = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/m;
+const SOURCE_MAP_DATA_URI_REGEX = /^data:application\/json;(?:charset=[^;]+;)?base64,(.+)$/;
+
+/**
+ * Message sent by the script injected into the app.
+ *
+ * Messages of the `console` category are calls to `console.*` methods, the
+ * `error` category is for uncaught errors and unhandled rejections. Values
+ * are serialized by the script.
+ */
+export interface ConsoleLogsMessage {
+  category: 'console' | 'error';
+  type: string;
+  data: string[];
+}
+
+export function isConsoleLogsMessage(m: any): m is ConsoleLogsMessage {
+  return m
+    && (m.category === 'console' || m.category === 'error')
+    && typeof m.type === 'string'
+    && Array.isArray(m.data)
+    && m.data.every((d: any) => typeof d === 'string');
+}
+
+/**
+ * Get a script (or source map) of the served app by its URL.
+ *
+ * @return `undefined` if the URL is not served by the dev server.
+ */
+export type ScriptFetcher = (u: string) => Promise<string | undefined>;
+
+export interface OriginalPosition {
+  readonly source: string;
+  readonly line: number;
+  readonly column: number;
+}
+
+/**
+ * Maps locations in stack traces of the served app to their original sources
+ * using the source maps of the dev server.
+ *
+ * Source maps are cached until `reset()` is called, e.g. when the app is
+ * reloaded after a rebuild.
+ */
+export class StackTraceMapper {
+  protected consumers = new Map<string, Promise<SourceMapConsumer | undefined>>();
+
+  constructor(protected readonly fetch: ScriptFetcher) {}
+
+  /**
+   * Replace the locations of scripts in text, such as a stack trace, with
+   * their original locations.
+   */
+  async mapText(text: string): Promise<string> {
+    const matches: RegExpExecArray[] = [];
+    const re = new RegExp(STACK_LOCATION_REGEX.source, 'g');
+    let m = re.exec(text);
+
+    while (m) {
+      matches.push(m);
+      m = re.exec(text);
+    }
+
+    if (matches.length === 0) {
+      return text;
+    }
+
+    const positions = await Promise.all(matches.map(([ , u, line, column ]) => this.mapPosition(u, Number(line), Number(column))));
+    let result = '';
+    let idx = 0;
+
+    matches.forEach((match, i) => {
+      const position = positions[i];
+      result += text.substring(idx, match.index) + (position ? `${position.source}:${position.line}:${position.column}` : match[0]);
+      idx = match.index + match[0].length;
+    });
+
+    return result + text.substring(idx);
+  }
+
+  /**
+   * Map a position in a script to its original source.
+   *
+   * @param line The 1-based line.
+   * @param column The 1-based column, as in stack traces.
+   */
+  async mapPosition(u: string, line: number, column: number): Promise<OriginalPosition | undefined> {
+    const consumer = await this.getConsumer(u);
+
+    if (!consumer) {
+      return;
+    }
+
+    const position = consumer.originalPositionFor({ line, column: column - 1 });
+
+    if (!position.source || !position.line) {
+      return;
+    }
+
+    return { source: normalizeSource(position.source), line: position.line, column: position.column + 1 };
+  }
+
+  reset(): void {
+    this.consumers.clear();
+  }
+
+  protected getConsumer(u: string): Promise<SourceMapConsumer | undefined> {
+    const key = u.replace(/[?#].*$/, '');
+    let p = this.consumers.get(key);
+
+    if (!p) {
+      p = this.loadConsumer(u);
+      this.consumers.set(key, p);
+    }
+
+    return p;
+  }
+
+  protected async loadConsumer(u: string): Promise<SourceMapConsumer | undefined> {
+    try {
+      const script = await this.fetch(u);
+      const m = script ? SOURCE_MAPPING_URL_REGEX.exec(script) : undefined;
+
+      if (!m) {
+        return;
+      }
+
+      const dataUri = SOURCE_MAP_DATA_URI_REGEX.exec(m[1]);
+      const map = dataUri ? Buffer.from(dataUri[1], 'base64').toString('utf8') : await this.fetch(url.resolve(u, m[1]));
+
+      if (!map) {
+        return;
+      }
+
+      return new SourceMapConsumer(JSON.parse(map));
+    } catch (e) {
+      debug('Could not load source map of %s: %o', u, e);
+    }
+  }
+}
+
+/**
+ * Turn the source of a mapping into a path relative to the project, e.g.
+ * `webpack:///./src/app/app.module.ts` into `src/app/app.module.ts`.
+ */
+export function normalizeSource(source: string): string {
+  return source
+    .replace(/^webpack:\/\/\/?/, '')
+    .replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Format a message for the terminal, like `[console.warn]: message`.
+ */
+export function formatConsoleLogsMessage(msg: ConsoleLogsMessage): string {
+  const label = msg.category === 'error' ? (msg.type === 'unhandledrejection' ? 'unhandled rejection' : 'uncaught error') : `console.${msg.type}`;
+  let color: Chalk = chalk.reset;
+
+  if (msg.category === 'error' || msg.type === 'error' || msg.type === 'assert') {
+    color = chalk.red;
+  } else if (msg.type === 'warn') {
+    color = chalk.yellow;
+  } else if (msg.type === 'debug' || msg.type === 'trace') {
+    color = chalk.dim;
+  }
+
+  return `[${color(label)}]: ${msg.data.join(' ')}`;
+}
@@ -1,6 +1,6 @@
 import { PromptModule } from '@ionic/cli-framework';
 
-import { IClient, IConfig, ILogger, ISession, IShell, InfoItem, IonicContext, IonicEnvironment, IonicEnvironmentFlags } from '../definitions';
+import { IClient, IConfig, IJSONOutput, ILogger, ISession, IShell, InfoItem, IonicContext, IonicEnvironment, IonicEnvironmentFlags } from '../definitions';
 
 export interface EnvironmentDeps {
   readonly client: IClient;
@@ -9,6 +9,7 @@ export interface EnvironmentDeps {
   readonly getInfo: () => Promise<InfoItem[]>;
   readonly log: ILogger;
   readonly ctx: IonicContext;
+  readonly output: IJSONOutput;
   readonly prompt: PromptModule;
   readonly session: ISession;
   readonly shell: IShell;
@@ -20,18 +21,20 @@ export class Environment implements IonicEnvironment {
   readonly config: IConfig; // CLI global config (~/.ionic/config.json)
   getInfo: () => Promise<InfoItem[]>;
   readonly log: ILogger;
+  readonly output: IJSONOutput;
   readonly prompt: PromptModule;
   session: ISession;
   readonly shell: IShell;
   readonly ctx: IonicContext;
 
-  constructor({ client, config, flags, getInfo, log, ctx, prompt, session, shell }: EnvironmentDeps) {
+  constructor({ client, config, flags, getInfo, log, ctx, output, prompt, session, shell }: EnvironmentDeps) {
     this.client = client;
     this.config = config;
     this.flags = flags;
     this.getInfo = getInfo;
     this.log = log;
     this.ctx = ctx;
+    this.output = output;
     this.prompt = prompt;
     this.session = session;
     this.shell = shell;
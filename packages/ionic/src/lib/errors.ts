@@ -1,4 +1,77 @@
-import { BaseError } from '@ionic/cli-framework';
+import { BaseError, ERROR_CODES as FRAMEWORK_ERROR_CODES, ErrorCodeDefinition, LOGGER_LEVELS } from '@ionic/cli-framework';
+import chalk from 'chalk';
+
+import { ILogger } from '../definitions';
+import { isExitCodeException } from '../guards';
+
+export type ErrorCode = (
+  'ERR_PROJECT_REQUIRED' |
+  'ERR_SESSION' |
+  'ERR_NOT_LOGGED_IN' |
+  'ERR_INTEGRATION' |
+  'ERR_INTEGRATION_NOT_FOUND' |
+  'ERR_INTEGRATION_MISSING' |
+  'ERR_CORDOVA_PLATFORM_MISSING' |
+  'ERR_CORDOVA_CONFIG_XML' |
+  'ERR_RUNNER' |
+  'ERR_RUNNER_NOT_FOUND' |
+  'ERR_BUILD_CLI_NOT_FOUND' |
+  'ERR_SERVE_CLI_NOT_FOUND' |
+  'ERR_PORT_IN_USE' |
+  'ERR_HOOK' |
+  'ERR_UNSUPPORTED_IMAGE'
+);
+
+export const ERROR_CODES: ReadonlyArray<ErrorCodeDefinition> = [
+  ...FRAMEWORK_ERROR_CODES,
+  { code: 'ERR_PROJECT_REQUIRED', exitCode: 10, summary: 'The command can only be run in an Ionic project directory.' },
+  { code: 'ERR_SESSION', exitCode: 20, summary: 'Authentication with Ionic failed.' },
+  { code: 'ERR_NOT_LOGGED_IN', exitCode: 21, summary: 'The command requires you to be logged in.' },
+  { code: 'ERR_INTEGRATION', exitCode: 30, summary: 'An integration could not be used.' },
+  { code: 'ERR_INTEGRATION_NOT_FOUND', exitCode: 31, summary: 'The integration name is unknown.' },
+  { code: 'ERR_INTEGRATION_MISSING', exitCode: 32, summary: 'The integration is not added to or is disabled in the project.' },
+  { code: 'ERR_CORDOVA_PLATFORM_MISSING', exitCode: 33, summary: 'The Cordova platform is not installed in the project.' },
+  { code: 'ERR_CORDOVA_CONFIG_XML', exitCode: 34, summary: 'The config.xml file of the Cordova project cannot be read or changed.' },
+  { code: 'ERR_RUNNER', exitCode: 40, summary: 'A build, serve or generate runner failed.' },
+  { code: 'ERR_RUNNER_NOT_FOUND', exitCode: 41, summary: 'The project type does not support the build, serve or generate operation.' },
+  { code: 'ERR_BUILD_CLI_NOT_FOUND', exitCode: 42, summary: 'The program of the build CLI could not be found.' },
+  { code: 'ERR_SERVE_CLI_NOT_FOUND', exitCode: 43, summary: 'The program of the dev server could not be found.' },
+  { code: 'ERR_PORT_IN_USE', exitCode: 44, summary: 'A port required by the dev server is in use.' },
+  { code: 'ERR_HOOK', exitCode: 50, summary: 'An Ionic CLI hook failed.' },
+  { code: 'ERR_UNSUPPORTED_IMAGE', exitCode: 60, summary: 'A source image cannot be processed locally.' },
+];
+
+/**
+ * Get the exit code for an error code, or `1` for errors without a known
+ * code.
+ */
+export function getErrorExitCode(code?: string): number {
+  const def = code ? ERROR_CODES.find(d => d.code === code) : undefined;
+  return def ? def.exitCode : 1;
+}
+
+/**
+ * Get the exit code of the process for an error which ends a command.
+ */
+export function getExitCode(err: any): number {
+  if (isExitCodeException(err)) {
+    return err.exitCode;
+  }
+
+  return getErrorExitCode(typeof err.code === 'string' ? err.code : undefined);
+}
+
+/**
+ * Log the message of an error, prefixed with its code if the code is in the
+ * catalog of error codes, e.g. `Error [ERR_NOT_LOGGED_IN]: ...`
+ */
+export function logError(log: ILogger, err: { code?: string; message: string; }): void {
+  if (err.code && ERROR_CODES.find(def => def.code === err.code)) {
+    log.log({ ...log.createRecord(`${chalk.red.bold(`Error [${err.code}]`)}: ${err.message}`, LOGGER_LEVELS.ERROR), format: false });
+  } else {
+    log.error(err.message);
+  }
+}
 
 export class BaseException extends BaseError {
   readonly name = 'Exception';
@@ -12,18 +85,72 @@ export class FatalException extends BaseException {
   }
 }
 
-export class BuildCLIProgramNotFoundException extends BaseException {}
+export class ProjectRequiredException extends FatalException {
+  code: ErrorCode = 'ERR_PROJECT_REQUIRED';
+
+  constructor(message: string) {
+    super(message, getErrorExitCode('ERR_PROJECT_REQUIRED'));
+  }
+}
+
+export class BuildCLIProgramNotFoundException extends BaseException {
+  code: ErrorCode = 'ERR_BUILD_CLI_NOT_FOUND';
+}
+
+export class ServeCLIProgramNotFoundException extends BaseException {
+  code: ErrorCode = 'ERR_SERVE_CLI_NOT_FOUND';
+}
+
+export class SessionException extends BaseException {
+  code: ErrorCode = 'ERR_SESSION';
+}
+
+export class NotLoggedInException extends SessionException {
+  code: ErrorCode = 'ERR_NOT_LOGGED_IN';
+}
+
+export class RunnerException extends BaseException {
+  code: ErrorCode = 'ERR_RUNNER';
+}
+
+export class RunnerNotFoundException extends RunnerException {
+  code: ErrorCode = 'ERR_RUNNER_NOT_FOUND';
+}
+
+export class ServeCLIClosedException extends RunnerException {}
+
+export class PortInUseException extends RunnerException {
+  code: ErrorCode = 'ERR_PORT_IN_USE';
+}
 
-export class ServeCLIProgramNotFoundException extends BaseException {}
+export class IntegrationException extends BaseException {
+  code: ErrorCode = 'ERR_INTEGRATION';
+}
 
-export class SessionException extends BaseException {}
+export class IntegrationNotFoundException extends IntegrationException {
+  code: ErrorCode = 'ERR_INTEGRATION_NOT_FOUND';
+}
 
-export class RunnerException extends BaseException {}
+export class IntegrationMissingException extends IntegrationException {
+  code: ErrorCode = 'ERR_INTEGRATION_MISSING';
+}
+
+export class CordovaPlatformMissingException extends IntegrationException {
+  code: ErrorCode = 'ERR_CORDOVA_PLATFORM_MISSING';
+}
 
-export class RunnerNotFoundException extends RunnerException {}
+export class CordovaConfigXmlException extends IntegrationException {
+  code: ErrorCode = 'ERR_CORDOVA_CONFIG_XML';
+}
 
-export class IntegrationException extends BaseException {}
+export class HookException extends BaseException {
+  code: ErrorCode = 'ERR_HOOK';
 
-export class IntegrationNotFoundException extends IntegrationException {}
+  constructor(public message = '', public exitCode = getErrorExitCode('ERR_HOOK')) {
+    super(message);
+  }
+}
 
-export class HookException extends BaseException {}
+export class UnsupportedImageException extends BaseException {
+  code: ErrorCode = 'ERR_UNSUPPORTED_IMAGE';
+}
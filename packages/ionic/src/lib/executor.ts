@@ -7,7 +7,7 @@ import { CommandInstanceInfo, CommandMetadata, CommandMetadataInput, CommandMeta
 import { isCommand } from '../guards';
 
 import { GLOBAL_OPTIONS } from './config';
-import { FatalException } from './errors';
+import { ProjectRequiredException } from './errors';
 
 export interface ExecutorDeps {
   readonly namespace: INamespace;
@@ -41,6 +41,11 @@ export class Executor extends AbstractExecutor<ICommand, INamespace, CommandMeta
   async run(command: ICommand, cmdargs: string[], { location, env, executor }: CommandInstanceInfo): Promise<void> {
     const metadata = await command.getMetadata();
     const fullNameParts = location.path.map(([p]) => p);
+    const { output } = this.namespace.env;
+
+    if (!output.command) {
+      output.command = fullNameParts.join(' ');
+    }
 
     if (metadata.options) {
       const optMap = metadataToCmdOptsEnv(metadata, fullNameParts.slice(1));
@@ -61,7 +66,7 @@ export class Executor extends AbstractExecutor<ICommand, INamespace, CommandMeta
     const cmdinputs = cmdoptions._;
 
     if (!this.namespace.project && metadata.type === 'project') {
-      throw new FatalException(
+      throw new ProjectRequiredException(
         `Sorry! ${chalk.green(fullNameParts.join(' '))} can only be run in an Ionic project directory.\n` +
         `If this is a project you'd like to integrate with Ionic, create an ${chalk.bold(PROJECT_FILE)} file.`
       );
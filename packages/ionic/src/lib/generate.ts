@@ -1,7 +1,10 @@
-import { PromptModule } from '@ionic/cli-framework';
+import { BaseError, PromptModule } from '@ionic/cli-framework';
 
 import { CommandLineInputs, CommandLineOptions, CommandMetadata, GenerateOptions, IConfig, ILogger, IProject, IShell, IonicContext, Runner } from '../definitions';
 
+import { FatalException, HookException } from './errors';
+import { Hook } from './hooks';
+
 export interface GenerateRunnerDeps {
   readonly config: IConfig;
   readonly ctx: IonicContext;
@@ -21,5 +24,47 @@ export abstract class GenerateRunner<T extends GenerateOptions> implements Runne
 
   async ensureCommandLine(inputs: CommandLineInputs, options: CommandLineOptions): Promise<void> { /* overwritten in subclasses */ }
   abstract getCommandMetadata(): Promise<Partial<CommandMetadata>>;
-  abstract run(options: T): Promise<void>;
+  abstract generateProject(options: T): Promise<void>;
+
+  async beforeGenerate(options: T): Promise<void> {
+    const hook = new GenerateBeforeHook(this.e);
+
+    try {
+      await hook.run({ name: hook.name, generate: options });
+    } catch (e) {
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
+      }
+
+      throw e;
+    }
+  }
+
+  async run(options: T): Promise<void> {
+    await this.beforeGenerate(options);
+    await this.generateProject(options);
+    await this.afterGenerate(options);
+  }
+
+  async afterGenerate(options: T): Promise<void> {
+    const hook = new GenerateAfterHook(this.e);
+
+    try {
+      await hook.run({ name: hook.name, generate: options });
+    } catch (e) {
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
+      }
+
+      throw e;
+    }
+  }
+}
+
+class GenerateBeforeHook extends Hook {
+  readonly name = 'generate:before';
+}
+
+class GenerateAfterHook extends Hook {
+  readonly name = 'generate:after';
 }
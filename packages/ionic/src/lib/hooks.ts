@@ -1,18 +1,38 @@
+import { LOGGER_LEVELS, StreamOutputStrategy, Task, TaskChain } from '@ionic/cli-framework';
 import { conform } from '@ionic/cli-framework/utils/array';
-import { prettyPath } from '@ionic/cli-framework/utils/format';
+import { prettyDuration, prettyPath } from '@ionic/cli-framework/utils/format';
+import { compileNodeModulesPaths, resolve } from '@ionic/cli-framework/utils/node';
+import { fileToString } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as Debug from 'debug';
 import * as lodash from 'lodash';
 import * as path from 'path';
 
-import { HookFn, HookInput, HookName, IConfig, IProject, IShell } from '../definitions';
+import { HookCommandConfig, HookCondition, HookConfig, HookContext, HookFn, HookInput, HookName, HookResult, HookTiming, IConfig, ILogger, IProject, IShell } from '../definitions';
+import { isExitCodeException, isHookCommandConfig, isHookFileConfig } from '../guards';
 
 import { HookException } from './errors';
 
 const debug = Debug('ionic:lib:hooks');
 
+export const HOOK_NAMES: HookName[] = [
+  'build:before', 'build:after',
+  'serve:before', 'serve:after',
+  'generate:before', 'generate:after',
+  'capacitor:copy:before', 'capacitor:copy:after',
+  'capacitor:sync:before', 'capacitor:sync:after',
+  'capacitor:run:before', 'capacitor:run:after',
+  'cordova:prepare:before', 'cordova:prepare:after',
+  'cordova:build:before', 'cordova:build:after',
+  'cordova:run:before', 'cordova:run:after',
+  'start:after',
+];
+
+export const HOOK_FILE_EXTENSIONS: ReadonlyArray<string> = ['.js', '.mjs', '.ts'];
+
 export interface HookDeps {
   readonly config: IConfig;
+  readonly log: ILogger;
   readonly project: IProject;
   readonly shell: IShell;
 }
@@ -20,70 +40,197 @@ export interface HookDeps {
 export abstract class Hook {
   abstract readonly name: HookName;
 
+  /**
+   * The time spent running each hook, in the order the hooks finished.
+   */
+  readonly timings: HookTiming[] = [];
+
+  /**
+   * The wall-clock time spent running all hooks. Hooks which run in parallel
+   * overlap, so this can be less than the sum of the timings.
+   */
+  elapsed = 0;
+
   get script() {
     return `ionic:${this.name}`;
   }
 
   constructor(protected readonly e: HookDeps) {}
 
-  async run(input: HookInput) {
+  async run(input: HookInput): Promise<HookResult> {
     const { pkgManagerArgs } = await import('./utils/npm');
 
     const type = this.e.project.type;
 
     if (!type || !this.e.project.directory) {
-      return; // TODO: will we need hooks outside a project?
+      return {}; // TODO: will we need hooks outside a project?
     }
 
     const pkg = await this.e.project.requirePackageJson();
+    const projectHooks = this.e.project.config.get('hooks');
+    const hooks = (projectHooks ? conform(projectHooks[this.name]) : []).filter(h => matchesHookCondition(h, input));
 
     debug(`Looking for ${chalk.cyan(this.script)} npm script.`);
 
-    if (pkg.scripts && pkg.scripts[this.script]) {
-      debug(`Invoking ${chalk.cyan(this.script)} npm script.`);
-      const [ pkgManager, ...pkgArgs ] = await pkgManagerArgs(this.e.config.get('npmClient'), { command: 'run', script: this.script });
-      await this.e.shell.run(pkgManager, pkgArgs, {});
+    const hasScript = pkg.scripts && pkg.scripts[this.script];
+
+    if (!hasScript && hooks.length === 0) {
+      return {};
     }
 
-    const projectHooks = this.e.project.config.get('hooks');
-    const hooks = projectHooks ? conform(projectHooks[this.name]) : [];
-
-    for (const h of hooks) {
-      const p = path.resolve(this.e.project.directory, h);
-
-      try {
-        if (path.extname(p) !== '.js') {
-          throw new Error(`Hooks must be .js files with a function for its default export.`);
-        }
-
-        const hook = await this.loadHookFn(p);
-
-        if (!hook) {
-          throw new Error(`Module must have a function for its default export.`);
-        }
-
-        await hook(lodash.assign({}, input, {
-          project: {
-            type,
-            dir: this.e.project.directory,
-            srcDir: await this.e.project.getSourceDir(),
-          },
-          argv: process.argv,
-          env: process.env,
-        }));
-      } catch (e) {
-        throw new HookException(
-          `An error occurred while running an Ionic CLI hook defined in ${chalk.bold(prettyPath(this.e.project.filePath))}.\n` +
-          `Hook: ${chalk.bold(this.name)}\n` +
-          `File: ${chalk.bold(p)}\n\n` +
-          `${chalk.red(e.stack ? e.stack : e)}`
+    const tasks = this.createTaskChain();
+    const results: (HookResult | undefined)[] = [];
+    const start = Date.now();
+
+    try {
+      if (hasScript) {
+        debug(`Invoking ${chalk.cyan(this.script)} npm script.`);
+        const [ pkgManager, ...pkgArgs ] = await pkgManagerArgs(this.e.config.get('npmClient'), { command: 'run', script: this.script });
+        const task = tasks.next(`Running ${chalk.cyan(this.script)} npm script`);
+        await this.e.shell.run(pkgManager, pkgArgs, {});
+        this.timings.push({ name: this.name, hook: this.script, elapsed: task.elapsed });
+        this.reportElapsed(task);
+      }
+
+      const ctx: HookContext = lodash.assign({}, input, {
+        project: {
+          type,
+          dir: this.e.project.directory,
+          srcDir: await this.e.project.getSourceDir(),
+        },
+        argv: process.argv,
+        env: process.env,
+      });
+
+      for (const group of groupHooks(hooks)) {
+        const labels = group.map(h => formatHookLabel(h));
+        const task = tasks.next(
+          group.length > 1 ?
+            `Running ${chalk.bold(this.name)} hooks in parallel: ${labels.map(l => chalk.bold(l)).join(', ')}` :
+            `Running ${chalk.bold(this.name)} hook: ${chalk.bold(labels[0])}`
         );
+
+        results.push(...await Promise.all(group.map(async (h, i) => {
+          const hookStart = Date.now();
+          const result = await this.runHookWithTimeout(h, lodash.clone(ctx));
+          this.timings.push({ name: this.name, hook: labels[i], elapsed: Date.now() - hookStart });
+          return result;
+        })));
+
+        this.reportElapsed(task);
       }
+
+      tasks.end();
+    } catch (e) {
+      tasks.fail();
+      throw e;
+    } finally {
+      this.elapsed = Date.now() - start;
+    }
+
+    return lodash.assign({}, ...results);
+  }
+
+  protected createTaskChain(): TaskChain {
+    const output = new StreamOutputStrategy({ stream: this.e.log.createWriteStream(LOGGER_LEVELS.INFO, false) });
+    return output.createTaskChain();
+  }
+
+  protected reportElapsed(task: Task): void {
+    task.msg = `${task.msg} ${chalk.dim(`in ${prettyDuration(task.elapsed)}`)}`;
+  }
+
+  protected async runHookWithTimeout(h: HookConfig, ctx: HookContext): Promise<HookResult | undefined> {
+    const p = this.runHook(h, ctx);
+    const timeout = typeof h === 'string' ? undefined : h.timeout;
+
+    if (typeof timeout === 'undefined') {
+      return p;
+    }
+
+    let timer: NodeJS.Timer | undefined;
+
+    try {
+      return await Promise.race([
+        p,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new HookException(`Hook ${chalk.bold(formatHookLabel(h))} for ${chalk.bold(this.name)} timed out after ${chalk.bold(prettyDuration(timeout))}.`));
+          }, timeout);
+        }),
+      ]);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  protected async runHook(h: HookConfig, ctx: HookContext): Promise<HookResult | undefined> {
+    if (typeof h === 'string') {
+      return this.runFileHook(path.resolve(this.e.project.directory, h), ctx);
+    } else if (isHookFileConfig(h)) {
+      return this.runFileHook(path.resolve(this.e.project.directory, h.path), ctx);
+    }
+
+    await this.runCommandHook(h, ctx);
+  }
+
+  protected async runFileHook(p: string, ctx: HookContext): Promise<HookResult | undefined> {
+    try {
+      if (!HOOK_FILE_EXTENSIONS.includes(path.extname(p))) {
+        throw new Error(`Hooks must be ${HOOK_FILE_EXTENSIONS.map(ext => chalk.bold(ext)).join(', ')} files with a function for its default export.`);
+      }
+
+      const hook = await this.loadHookFn(p);
+
+      if (!hook) {
+        throw new Error(`Module must have a function for its default export.`);
+      }
+
+      const result = await hook(ctx);
+
+      if (lodash.isPlainObject(result)) {
+        return result as HookResult;
+      }
+
+      debug(`Ignoring result of hook ${chalk.bold(p)}: %o not an object`, result);
+    } catch (e) {
+      if (isExitCodeException(e)) {
+        throw new HookException(e.message, e.exitCode);
+      }
+
+      throw new HookException(
+        `An error occurred while running an Ionic CLI hook defined in ${chalk.bold(prettyPath(this.e.project.filePath))}.\n` +
+        `Hook: ${chalk.bold(this.name)}\n` +
+        `File: ${chalk.bold(p)}\n\n` +
+        `${chalk.red(e.stack ? e.stack : e)}`
+      );
+    }
+  }
+
+  protected async runCommandHook(h: HookCommandConfig, ctx: HookContext): Promise<void> {
+    try {
+      if (!isHookCommandConfig(h)) {
+        throw new Error(`Hook entries must be file paths or objects with a ${chalk.bold('path')} or ${chalk.bold('command')} string.`);
+      }
+
+      const cwd = h.cwd ? path.resolve(this.e.project.directory, h.cwd) : this.e.project.directory;
+
+      await this.e.shell.run(h.command, [], { cwd, shell: true, env: createHookEnv(ctx) });
+    } catch (e) {
+      throw new HookException(
+        `An error occurred while running an Ionic CLI hook defined in ${chalk.bold(prettyPath(this.e.project.filePath))}.\n` +
+        `Hook: ${chalk.bold(this.name)}\n` +
+        `Command: ${chalk.green(String(h.command))}\n\n` +
+        `${chalk.red(e.stack ? e.stack : e)}`
+      );
     }
   }
 
   protected async loadHookFn(p: string): Promise<HookFn | undefined> {
-    const module = require(p);
+    const ext = path.extname(p);
+    const module = ext === '.mjs' ? await this.importESModule(p) : (ext === '.ts' ? await this.requireTypeScript(p) : require(p));
 
     if (typeof module === 'function') {
       return module;
@@ -93,20 +240,158 @@ export abstract class Hook {
 
     debug(`Could not load hook function ${chalk.bold(p)}: %o not a function`, module);
   }
+
+  /**
+   * Load an ES module with the native `import()`.
+   *
+   * TypeScript compiles `import()` into `require()` for CommonJS output, so
+   * the expression is created at runtime.
+   */
+  protected async importESModule(p: string): Promise<any> {
+    let importFn: (specifier: string) => Promise<any>;
+
+    try {
+      importFn = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+    } catch (e) {
+      throw new Error(`ES module hooks (${chalk.bold('.mjs')}) are not supported in this version of Node.js (${process.version}).`);
+    }
+
+    return importFn(encodeURI(`file://${p.startsWith('/') ? '' : '/'}${p.replace(/\\/g, '/')}`));
+  }
+
+  /**
+   * Load a TypeScript module using `ts-node` or `typescript` from the
+   * project's dependencies.
+   */
+  protected async requireTypeScript(p: string): Promise<any> {
+    const paths = compileNodeModulesPaths(this.e.project.directory);
+
+    try {
+      const tsnode = require(resolve('ts-node', { paths }));
+      debug('Registering ts-node for %s', p);
+      tsnode.register({ transpileOnly: true });
+      return require(p);
+    } catch (e) {
+      if (e.code !== 'MODULE_NOT_FOUND' || !String(e.message).includes('ts-node')) {
+        throw e;
+      }
+    }
+
+    let ts: any;
+
+    try {
+      ts = require(resolve('typescript', { paths }));
+    } catch (e) {
+      if (e.code !== 'MODULE_NOT_FOUND') {
+        throw e;
+      }
+
+      throw new Error(`TypeScript hooks require ${chalk.green('typescript')} or ${chalk.green('ts-node')} to be installed in your project.`);
+    }
+
+    debug('Transpiling %s with typescript', p);
+
+    const source = await fileToString(p);
+    const { outputText } = ts.transpileModule(source, {
+      fileName: p,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2017,
+        esModuleInterop: true,
+      },
+    });
+
+    const Module = require('module');
+    const m = new Module(p, module);
+    m.filename = p;
+    m.paths = Module._nodeModulePaths(path.dirname(p));
+    m._compile(outputText, p);
+
+    return m.exports;
+  }
+}
+
+/**
+ * Group hooks in the order they are configured. Adjacent hooks marked as
+ * parallel are grouped together, all others run one at a time.
+ */
+export function groupHooks(hooks: HookConfig[]): HookConfig[][] {
+  const groups: HookConfig[][] = [];
+
+  for (const h of hooks) {
+    const prev = groups[groups.length - 1];
+
+    if (isParallelHook(h) && prev && isParallelHook(prev[0])) {
+      prev.push(h);
+    } else {
+      groups.push([h]);
+    }
+  }
+
+  return groups;
+}
+
+export function matchesHookCondition(h: HookConfig, input: HookInput): boolean {
+  if (typeof h === 'string' || !h.when) {
+    return true;
+  }
+
+  const target = getHookTarget(input);
+
+  return (typeof h.when.engine === 'undefined' || h.when.engine === target.engine) &&
+    (typeof h.when.platform === 'undefined' || h.when.platform === target.platform);
+}
+
+function getHookTarget(input: HookInput): HookCondition {
+  if ('build' in input) {
+    return { engine: input.build.engine, platform: input.build.platform };
+  } else if ('serve' in input) {
+    return { engine: input.serve.engine, platform: input.serve.platform };
+  } else if ('cordova' in input) {
+    return { engine: 'cordova', platform: input.cordova.platform };
+  } else if ('capacitor' in input) {
+    return { engine: 'capacitor', platform: input.capacitor.platform };
+  }
+
+  return {};
+}
+
+function isParallelHook(h: HookConfig): boolean {
+  return typeof h !== 'string' && h.parallel === true;
+}
+
+export function formatHookLabel(h: HookConfig): string {
+  if (typeof h === 'string') {
+    return h;
+  }
+
+  return isHookFileConfig(h) ? h.path : h.command;
+}
+
+/**
+ * Create environment variables which expose the hook context to shell hooks.
+ */
+export function createHookEnv(ctx: HookContext): NodeJS.ProcessEnv {
+  return {
+    IONIC_CLI_HOOK_CTX: JSON.stringify(lodash.omit(ctx, 'env')),
+    IONIC_CLI_HOOK_CTX_NAME: ctx.name,
+    IONIC_CLI_HOOK_CTX_PROJECT_TYPE: ctx.project.type,
+    IONIC_CLI_HOOK_CTX_PROJECT_DIR: ctx.project.dir,
+    IONIC_CLI_HOOK_CTX_PROJECT_SRCDIR: ctx.project.srcDir,
+  };
 }
 
-export function addHook(baseDir: string, hooks: string | string[] | undefined, hook: string): string[] {
+export function addHook(baseDir: string, hooks: HookConfig | HookConfig[] | undefined, hook: string): HookConfig[] {
   const hookPaths = conform(hooks);
-  const resolvedHookPaths = hookPaths.map(p => path.resolve(baseDir, p));
 
-  if (!resolvedHookPaths.includes(path.resolve(baseDir, hook))) {
+  if (locateHook(baseDir, hookPaths, hook) < 0) {
     hookPaths.push(hook);
   }
 
   return hookPaths;
 }
 
-export function removeHook(baseDir: string, hooks: string | string[] | undefined, hook: string): string[] {
+export function removeHook(baseDir: string, hooks: HookConfig | HookConfig[] | undefined, hook: string): HookConfig[] {
   const hookPaths = conform(hooks);
   const i = locateHook(baseDir, hookPaths, hook);
 
@@ -117,6 +402,6 @@ export function removeHook(baseDir: string, hooks: string | string[] | undefined
   return hookPaths;
 }
 
-export function locateHook(baseDir: string, hooks: string[], hook: string): number {
-  return conform(hooks).map(p => path.resolve(baseDir, p)).indexOf(path.resolve(baseDir, hook));
+export function locateHook(baseDir: string, hooks: HookConfig[], hook: string): number {
+  return conform(hooks).map(h => typeof h === 'string' ? path.resolve(baseDir, h) : (isHookFileConfig(h) ? path.resolve(baseDir, h.path) : undefined)).indexOf(path.resolve(baseDir, hook));
 }
@@ -10,12 +10,13 @@ import { IProject, InfoItem, IonicContext, IonicEnvironment, IonicEnvironmentFla
 import { CONFIG_FILE, Config, DEFAULT_CONFIG_DIRECTORY, parseGlobalOptions } from './config';
 import { Environment } from './environment';
 import { Client } from './http';
+import { JSONOutput } from './output';
 import { createProjectFromDirectory, findProjectDirectory } from './project';
 import { createOnFallback } from './prompts';
 import { ProSession } from './session';
 import { Shell, prependNodeModulesBinToPath } from './shell';
 import { PROXY_ENVIRONMENT_VARIABLES } from './utils/http';
-import { Logger, createDefaultLoggerHandlers } from './utils/logger';
+import { Logger, createDefaultLoggerHandlers, createFormatter } from './utils/logger';
 
 const debug = Debug('ionic:lib');
 
@@ -27,18 +28,23 @@ export async function generateIonicEnvironment(ctx: IonicContext, pargv: string[
 
   debug('Terminal info: %o', TERMINAL_INFO);
 
-  if (config.get('interactive') === false || !TERMINAL_INFO.tty || TERMINAL_INFO.ci) {
+  if (config.get('interactive') === false || !TERMINAL_INFO.tty || TERMINAL_INFO.ci || argv['json']) {
     argv['interactive'] = false;
   }
 
   const flags = argv as any as IonicEnvironmentFlags; // TODO
   debug('CLI global options: %o', flags);
 
+  const output = new JSONOutput(argv['json'] ? true : false);
   const log = new Logger({
     level: argv['quiet'] ? LOGGER_LEVELS.WARN : LOGGER_LEVELS.INFO,
-    handlers: createDefaultLoggerHandlers(),
+    handlers: createDefaultLoggerHandlers(createFormatter(), { json: output.enabled }),
   });
 
+  if (output.enabled) {
+    log.output = output;
+  }
+
   const prompt = await createPromptModule({
     interactive: argv['interactive'],
     onFallback: createOnFallback({ flags, log }),
@@ -75,11 +81,11 @@ export async function generateIonicEnvironment(ctx: IonicContext, pargv: string[
     return info;
   };
 
-  const shell = new Shell({ log }, { alterPath: p => projectDir ? prependNodeModulesBinToPath(projectDir, p) : p });
+  const shell = new Shell({ log }, { alterPath: p => projectDir ? prependNodeModulesBinToPath(projectDir, p) : p, json: output.enabled });
   const client = new Client(config);
   const session = new ProSession({ config, client });
   const deps = { client, config, ctx, flags, log, prompt, session, shell };
-  const env = new Environment({ getInfo, ...deps });
+  const env = new Environment({ getInfo, output, ...deps });
 
   if (process.env['IONIC_CLI_LOCAL_ERROR']) {
     if (process.env['IONIC_CLI_LOCAL_ERROR'] === ERROR_VERSION_TOO_OLD) {
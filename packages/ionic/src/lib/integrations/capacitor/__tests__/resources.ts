@@ -0,0 +1,142 @@
+import { mkdirp, readFile, removeDirectory, writeFile } from '@ionic/utils-fs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createBitmap, resizeCover } from '../../../utils/image';
+import { decodePNG } from '../../../utils/png';
+import { generateCapacitorImageResource, getCapacitorImageResources, writeCapacitorResourceFiles } from '../resources';
+
+describe('ionic', () => {
+
+  describe('lib/integrations/capacitor/resources', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-capacitor-resources-${process.pid}`);
+
+    const white = createBitmap(1, 1);
+    white.data.set([255, 255, 255, 255]);
+    const srcImage = { width: 1024, height: 1024, vector: false, render: (w: number, h: number) => resizeCover(white, w, h) };
+
+    beforeEach(async () => {
+      await mkdirp(dir);
+    });
+
+    afterEach(async () => {
+      await removeDirectory(dir);
+    });
+
+    describe('getCapacitorImageResources', () => {
+
+      it('should get images for all platforms and types', () => {
+        const result = getCapacitorImageResources(['android', 'ios'], ['icon', 'splash']);
+        expect(result.filter(img => img.platform === 'android' && img.resType === 'icon').length).toEqual(5);
+        expect(result.filter(img => img.platform === 'android' && img.resType === 'splash').length).toEqual(11);
+        expect(result.filter(img => img.platform === 'ios' && img.resType === 'icon').length).toEqual(18);
+        expect(result.filter(img => img.platform === 'ios' && img.resType === 'splash').length).toEqual(3);
+        expect(result.filter(img => img.platform === 'ios' && img.resType === 'splash-dark').length).toEqual(0);
+        expect(result).toContainEqual({ platform: 'ios', resType: 'icon', dest: 'ios/App/App/Assets.xcassets/AppIcon.appiconset/AppIcon-83.5x83.5@2x.png', width: 167, height: 167 });
+        expect(result).toContainEqual({ platform: 'android', resType: 'splash', dest: 'android/app/src/main/res/drawable-port-xxxhdpi/splash.png', width: 1280, height: 1920 });
+      });
+
+      it('should get images for variants of resource types', () => {
+        const result = getCapacitorImageResources(['android', 'ios'], ['icon-round', 'icon-foreground', 'icon-background', 'splash-dark']);
+        expect(result.filter(img => img.platform === 'android' && img.resType === 'icon-round').length).toEqual(5);
+        expect(result.filter(img => img.platform === 'android' && img.resType === 'icon-foreground').length).toEqual(5);
+        expect(result.filter(img => img.platform === 'android' && img.resType === 'icon-background').length).toEqual(5);
+        expect(result.filter(img => img.platform === 'ios' && img.resType === 'splash-dark').length).toEqual(3);
+      });
+
+      it('should filter by platform and type', () => {
+        const result = getCapacitorImageResources(['android'], ['splash']);
+        expect(result.length).toEqual(11);
+        expect(result.every(img => img.platform === 'android' && img.resType === 'splash')).toBe(true);
+      });
+
+    });
+
+    describe('generateCapacitorImageResource', () => {
+
+      it('should write the image into the native project', async () => {
+        const [ resource ] = getCapacitorImageResources(['android'], ['icon']);
+        await generateCapacitorImageResource(dir, resource, srcImage);
+        const bitmap = decodePNG(fs.readFileSync(path.resolve(dir, 'android/app/src/main/res/mipmap-mdpi/ic_launcher.png')));
+        expect(bitmap.width).toEqual(48);
+        expect([...bitmap.data.slice(0, 4)]).toEqual([255, 255, 255, 255]);
+      });
+
+      it('should inset the icon in the foreground of adaptive icons', async () => {
+        const resource = getCapacitorImageResources(['android'], ['icon-foreground']).find(img => img.dest.endsWith('mipmap-mdpi/ic_launcher_foreground.png'));
+        await generateCapacitorImageResource(dir, resource!, srcImage, true);
+        const bitmap = decodePNG(fs.readFileSync(path.resolve(dir, resource!.dest)));
+        expect(bitmap.width).toEqual(108);
+        expect(bitmap.data[3]).toEqual(0);
+        expect(bitmap.data[(54 * 108 + 54) * 4 + 3]).toEqual(255);
+      });
+
+      it('should not inset dedicated foreground images', async () => {
+        const resource = getCapacitorImageResources(['android'], ['icon-foreground']).find(img => img.dest.endsWith('mipmap-mdpi/ic_launcher_foreground.png'));
+        await generateCapacitorImageResource(dir, resource!, srcImage);
+        const bitmap = decodePNG(fs.readFileSync(path.resolve(dir, resource!.dest)));
+        expect(bitmap.data[3]).toEqual(255);
+      });
+
+      it('should crop round icons', async () => {
+        const resource = getCapacitorImageResources(['android'], ['icon-round']).find(img => img.dest.endsWith('mipmap-mdpi/ic_launcher_round.png'));
+        await generateCapacitorImageResource(dir, resource!, srcImage, true);
+        const bitmap = decodePNG(fs.readFileSync(path.resolve(dir, resource!.dest)));
+        expect(bitmap.data[3]).toEqual(0);
+        expect(bitmap.data[(24 * 48 + 24) * 4 + 3]).toEqual(255);
+      });
+
+    });
+
+    describe('writeCapacitorResourceFiles', () => {
+
+      it('should write Contents.json of iOS image sets', async () => {
+        const result = await writeCapacitorResourceFiles(dir, getCapacitorImageResources(['ios'], ['icon', 'splash']));
+        expect(result).toEqual(['ios/App/App/Assets.xcassets/AppIcon.appiconset/Contents.json', 'ios/App/App/Assets.xcassets/Splash.imageset/Contents.json']);
+
+        const appIcon = JSON.parse(await readFile(path.resolve(dir, result[0]), { encoding: 'utf8' }));
+        expect(appIcon.images.length).toEqual(18);
+        expect(appIcon.images).toContainEqual({ size: '83.5x83.5', idiom: 'ipad', filename: 'AppIcon-83.5x83.5@2x.png', scale: '2x' });
+        expect(appIcon.info).toEqual({ version: 1, author: 'xcode' });
+
+        const splash = JSON.parse(await readFile(path.resolve(dir, result[1]), { encoding: 'utf8' }));
+        expect(splash.images).toContainEqual({ idiom: 'universal', filename: 'splash-2732x2732.png', scale: '3x' });
+        expect(splash.images.length).toEqual(3);
+      });
+
+      it('should add dark splash screens to Contents.json', async () => {
+        const [ file ] = await writeCapacitorResourceFiles(dir, getCapacitorImageResources(['ios'], ['splash', 'splash-dark']));
+        const splash = JSON.parse(await readFile(path.resolve(dir, file), { encoding: 'utf8' }));
+        expect(splash.images.length).toEqual(6);
+        expect(splash.images).toContainEqual({ appearances: [{ appearance: 'luminosity', value: 'dark' }], idiom: 'universal', filename: 'splash-2732x2732-dark.png', scale: '3x' });
+      });
+
+      it('should write adaptive icons and keep the background color', async () => {
+        const colors = path.resolve(dir, 'android/app/src/main/res/values/ic_launcher_background.xml');
+        await mkdirp(path.dirname(colors));
+        await writeFile(colors, 'custom', { encoding: 'utf8' });
+
+        const result = await writeCapacitorResourceFiles(dir, getCapacitorImageResources(['android'], ['icon', 'splash']));
+        expect(result).toEqual(['android/app/src/main/res/mipmap-anydpi-v26/ic_launcher.xml', 'android/app/src/main/res/mipmap-anydpi-v26/ic_launcher_round.xml']);
+        expect(await readFile(path.resolve(dir, result[0]), { encoding: 'utf8' })).toContain('<foreground android:drawable="@mipmap/ic_launcher_foreground"/>');
+        expect(await readFile(colors, { encoding: 'utf8' })).toEqual('custom');
+      });
+
+      it('should write the background color if missing', async () => {
+        const result = await writeCapacitorResourceFiles(dir, getCapacitorImageResources(['android'], ['icon']));
+        expect(result).toContain('android/app/src/main/res/values/ic_launcher_background.xml');
+      });
+
+      it('should use the background layer image if generated', async () => {
+        const result = await writeCapacitorResourceFiles(dir, getCapacitorImageResources(['android'], ['icon', 'icon-background']));
+        expect(result).not.toContain('android/app/src/main/res/values/ic_launcher_background.xml');
+        expect(await readFile(path.resolve(dir, result[0]), { encoding: 'utf8' })).toContain('<background android:drawable="@mipmap/ic_launcher_background"/>');
+      });
+
+    });
+
+  });
+
+});
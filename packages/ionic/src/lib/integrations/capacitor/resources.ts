@@ -0,0 +1,234 @@
+import { mkdirp, pathExists, writeFile } from '@ionic/utils-fs';
+import * as Debug from 'debug';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { KnownResourceType } from '../../../definitions';
+import { extendCenter, maskCircle } from '../../utils/image';
+import { encodePNG } from '../../utils/png';
+import { LocalSourceImage, getBaseResourceType } from '../cordova/resources';
+
+const debug = Debug('ionic:lib:integrations:capacitor:resources');
+
+export type CapacitorPlatform = 'android' | 'ios';
+
+export const CAPACITOR_PLATFORMS: CapacitorPlatform[] = ['android', 'ios'];
+
+const ANDROID_RES_DIRECTORY = 'android/app/src/main/res';
+const IOS_ASSETS_DIRECTORY = 'ios/App/App/Assets.xcassets';
+
+export interface CapacitorImageResource {
+  readonly platform: CapacitorPlatform;
+  readonly resType: KnownResourceType;
+
+  /**
+   * Path of the image, relative to the root of the Capacitor project.
+   */
+  readonly dest: string;
+  readonly width: number;
+  readonly height: number;
+
+  /**
+   * Generate the image from the source image of another resource type if
+   * there is no dedicated source image, e.g. round icons from the icon.
+   */
+  readonly fallback?: {
+    readonly resType: KnownResourceType;
+
+    /**
+     * Scale the image into a centered square of this proportion of the
+     * dimensions, leaving the rest transparent.
+     */
+    readonly inset?: number;
+  };
+
+  /**
+   * Crop the image to a circle.
+   */
+  readonly round?: boolean;
+}
+
+interface AppIconImage {
+  readonly filename: string;
+  readonly idiom: 'iphone' | 'ipad' | 'ios-marketing';
+  readonly size: number;
+  readonly scale: number;
+}
+
+const ANDROID_DENSITIES: ReadonlyArray<[string, number]> = [['mdpi', 1], ['hdpi', 1.5], ['xhdpi', 2], ['xxhdpi', 3], ['xxxhdpi', 4]];
+
+// density, long and short side of splash screens
+const ANDROID_SPLASH_SIZES: ReadonlyArray<[string, number, number]> = [
+  ['mdpi', 480, 320], ['hdpi', 800, 480], ['xhdpi', 1280, 720], ['xxhdpi', 1600, 960], ['xxxhdpi', 1920, 1280],
+];
+
+// the foreground layer of adaptive icons is 108dp, of which the center 72dp
+// are visible through the mask of the launcher
+const ADAPTIVE_ICON_INSET = 72 / 108;
+
+const APP_ICON_IMAGES: AppIconImage[] = [
+  { filename: 'AppIcon-20x20@2x.png', idiom: 'iphone', size: 20, scale: 2 },
+  { filename: 'AppIcon-20x20@3x.png', idiom: 'iphone', size: 20, scale: 3 },
+  { filename: 'AppIcon-29x29@2x.png', idiom: 'iphone', size: 29, scale: 2 },
+  { filename: 'AppIcon-29x29@3x.png', idiom: 'iphone', size: 29, scale: 3 },
+  { filename: 'AppIcon-40x40@2x.png', idiom: 'iphone', size: 40, scale: 2 },
+  { filename: 'AppIcon-40x40@3x.png', idiom: 'iphone', size: 40, scale: 3 },
+  { filename: 'AppIcon-60x60@2x.png', idiom: 'iphone', size: 60, scale: 2 },
+  { filename: 'AppIcon-60x60@3x.png', idiom: 'iphone', size: 60, scale: 3 },
+  { filename: 'AppIcon-20x20@1x.png', idiom: 'ipad', size: 20, scale: 1 },
+  { filename: 'AppIcon-20x20@2x-1.png', idiom: 'ipad', size: 20, scale: 2 },
+  { filename: 'AppIcon-29x29@1x.png', idiom: 'ipad', size: 29, scale: 1 },
+  { filename: 'AppIcon-29x29@2x-1.png', idiom: 'ipad', size: 29, scale: 2 },
+  { filename: 'AppIcon-40x40@1x.png', idiom: 'ipad', size: 40, scale: 1 },
+  { filename: 'AppIcon-40x40@2x-1.png', idiom: 'ipad', size: 40, scale: 2 },
+  { filename: 'AppIcon-76x76@1x.png', idiom: 'ipad', size: 76, scale: 1 },
+  { filename: 'AppIcon-76x76@2x.png', idiom: 'ipad', size: 76, scale: 2 },
+  { filename: 'AppIcon-83.5x83.5@2x.png', idiom: 'ipad', size: 83.5, scale: 2 },
+  { filename: 'AppIcon-512@2x.png', idiom: 'ios-marketing', size: 1024, scale: 1 },
+];
+
+const SPLASH_IMAGES: ReadonlyArray<[string, number]> = [['splash-2732x2732-2.png', 1], ['splash-2732x2732-1.png', 2], ['splash-2732x2732.png', 3]];
+const DARK_SPLASH_IMAGES: ReadonlyArray<[string, number]> = [['splash-2732x2732-dark-2.png', 1], ['splash-2732x2732-dark-1.png', 2], ['splash-2732x2732-dark.png', 3]];
+
+/**
+ * Get the images to generate for the native projects of Capacitor, in the
+ * locations of the templates of Capacitor.
+ */
+export function getCapacitorImageResources(platforms: CapacitorPlatform[], resourceTypes: KnownResourceType[]): CapacitorImageResource[] {
+  const images: CapacitorImageResource[] = [];
+
+  if (platforms.includes('android')) {
+    for (const [ density, scale ] of ANDROID_DENSITIES) {
+      const dir = `${ANDROID_RES_DIRECTORY}/mipmap-${density}`;
+      const size = 48 * scale;
+
+      images.push(
+        { platform: 'android', resType: 'icon', dest: `${dir}/ic_launcher.png`, width: size, height: size },
+        { platform: 'android', resType: 'icon-round', dest: `${dir}/ic_launcher_round.png`, width: size, height: size, round: true, fallback: { resType: 'icon' } },
+        { platform: 'android', resType: 'icon-foreground', dest: `${dir}/ic_launcher_foreground.png`, width: 108 * scale, height: 108 * scale, fallback: { resType: 'icon', inset: ADAPTIVE_ICON_INSET } },
+        { platform: 'android', resType: 'icon-background', dest: `${dir}/ic_launcher_background.png`, width: 108 * scale, height: 108 * scale }
+      );
+    }
+
+    images.push({ platform: 'android', resType: 'splash', dest: `${ANDROID_RES_DIRECTORY}/drawable/splash.png`, width: 480, height: 320 });
+
+    for (const [ density, long, short ] of ANDROID_SPLASH_SIZES) {
+      images.push(
+        { platform: 'android', resType: 'splash', dest: `${ANDROID_RES_DIRECTORY}/drawable-land-${density}/splash.png`, width: long, height: short },
+        { platform: 'android', resType: 'splash', dest: `${ANDROID_RES_DIRECTORY}/drawable-port-${density}/splash.png`, width: short, height: long }
+      );
+    }
+  }
+
+  if (platforms.includes('ios')) {
+    for (const { filename, size, scale } of APP_ICON_IMAGES) {
+      images.push({ platform: 'ios', resType: 'icon', dest: `${IOS_ASSETS_DIRECTORY}/AppIcon.appiconset/${filename}`, width: size * scale, height: size * scale });
+    }
+
+    for (const [ filename ] of SPLASH_IMAGES) {
+      images.push({ platform: 'ios', resType: 'splash', dest: `${IOS_ASSETS_DIRECTORY}/Splash.imageset/${filename}`, width: 2732, height: 2732 });
+    }
+
+    for (const [ filename ] of DARK_SPLASH_IMAGES) {
+      images.push({ platform: 'ios', resType: 'splash-dark', dest: `${IOS_ASSETS_DIRECTORY}/Splash.imageset/${filename}`, width: 2732, height: 2732 });
+    }
+  }
+
+  return images.filter(img => resourceTypes.includes(img.resType));
+}
+
+/**
+ * Render an image resource from its source image and write it into the
+ * native project.
+ *
+ * @param fallback Whether the source image is the one of the fallback
+ * resource type.
+ */
+export async function generateCapacitorImageResource(root: string, resource: CapacitorImageResource, srcImage: LocalSourceImage, fallback = false): Promise<void> {
+  const { width, height, round } = resource;
+  const inset = fallback && resource.fallback ? resource.fallback.inset : undefined;
+  const dest = path.resolve(root, resource.dest);
+  let bitmap = inset ? extendCenter(srcImage.render(Math.round(width * inset), Math.round(height * inset)), width, height) : srcImage.render(width, height);
+
+  if (round) {
+    bitmap = maskCircle(bitmap);
+  }
+
+  await mkdirp(path.dirname(dest));
+  await new Promise<void>((resolve, reject) => {
+    fs.writeFile(dest, encodePNG(bitmap), err => err ? reject(err) : resolve());
+  });
+
+  debug('wrote %s', dest);
+}
+
+/**
+ * Write the files which reference the generated images: `Contents.json` of
+ * the asset catalog of iOS and the adaptive icons of Android.
+ *
+ * @param resources The image resources generated.
+ * @return The paths of the files written, relative to the root of the
+ * Capacitor project.
+ */
+export async function writeCapacitorResourceFiles(root: string, resources: CapacitorImageResource[]): Promise<string[]> {
+  const has = (platform: CapacitorPlatform, test: (resType: string) => boolean) => resources.some(img => img.platform === platform && test(img.resType));
+  const files: [string, string][] = [];
+
+  if (has('android', t => getBaseResourceType(t) === 'icon')) {
+    // the background layer is an image if there is a source image for it,
+    // otherwise a color
+    const background = has('android', t => t === 'icon-background') ? '@mipmap/ic_launcher_background' : '@color/ic_launcher_background';
+    const adaptiveIcon = (
+      '<?xml version="1.0" encoding="utf-8"?>\n' +
+      '<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">\n' +
+      `    <background android:drawable="${background}"/>\n` +
+      '    <foreground android:drawable="@mipmap/ic_launcher_foreground"/>\n' +
+      '</adaptive-icon>\n'
+    );
+
+    files.push(
+      [`${ANDROID_RES_DIRECTORY}/mipmap-anydpi-v26/ic_launcher.xml`, adaptiveIcon],
+      [`${ANDROID_RES_DIRECTORY}/mipmap-anydpi-v26/ic_launcher_round.xml`, adaptiveIcon]
+    );
+
+    // the background color is kept if the project defines it already
+    const backgroundColor = `${ANDROID_RES_DIRECTORY}/values/ic_launcher_background.xml`;
+
+    if (background.startsWith('@color/') && !await pathExists(path.resolve(root, backgroundColor))) {
+      files.push([backgroundColor, (
+        '<?xml version="1.0" encoding="utf-8"?>\n' +
+        '<resources>\n' +
+        '    <color name="ic_launcher_background">#FFFFFF</color>\n' +
+        '</resources>\n'
+      )]);
+    }
+  }
+
+  if (has('ios', t => getBaseResourceType(t) === 'icon')) {
+    const images = APP_ICON_IMAGES.map(({ filename, idiom, size, scale }) => ({ size: `${size}x${size}`, idiom, filename, scale: `${scale}x` }));
+    files.push([`${IOS_ASSETS_DIRECTORY}/AppIcon.appiconset/Contents.json`, formatContentsJson(images)]);
+  }
+
+  if (has('ios', t => getBaseResourceType(t) === 'splash')) {
+    const images: object[] = SPLASH_IMAGES.map(([ filename, scale ]) => ({ idiom: 'universal', filename, scale: `${scale}x` }));
+
+    if (has('ios', t => t === 'splash-dark')) {
+      images.push(...DARK_SPLASH_IMAGES.map(([ filename, scale ]) => ({ appearances: [{ appearance: 'luminosity', value: 'dark' }], idiom: 'universal', filename, scale: `${scale}x` })));
+    }
+
+    files.push([`${IOS_ASSETS_DIRECTORY}/Splash.imageset/Contents.json`, formatContentsJson(images)]);
+  }
+
+  for (const [ file, contents ] of files) {
+    const p = path.resolve(root, file);
+    await mkdirp(path.dirname(p));
+    await writeFile(p, contents, { encoding: 'utf8' });
+    debug('wrote %s', p);
+  }
+
+  return files.map(([ file ]) => file);
+}
+
+function formatContentsJson(images: object[]): string {
+  return JSON.stringify({ images, info: { version: 1, author: 'xcode' } }, undefined, 2) + '\n';
+}
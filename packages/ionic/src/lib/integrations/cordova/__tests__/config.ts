@@ -0,0 +1,203 @@
+import { mkdirp, readFile, removeDirectory, writeFile } from '@ionic/utils-fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CordovaConfigXmlException } from '../../../errors';
+import { ConfigXml } from '../config';
+import { RESOURCES } from '../resources';
+
+describe('ionic', () => {
+
+  describe('lib/integrations/cordova/config', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-cordova-config-${process.pid}`);
+    const filePath = path.resolve(dir, 'config.xml');
+
+    beforeEach(async () => {
+      await mkdirp(dir);
+      await writeFile(filePath, '<?xml version="1.0" encoding="utf-8"?>\n<widget id="io.ionic.starter" version="0.0.1"></widget>\n', { encoding: 'utf8' });
+    });
+
+    afterEach(async () => {
+      await removeDirectory(dir);
+    });
+
+    const CONFIG_XML = `<?xml version='1.0' encoding='utf-8'?>
+<widget id="io.ionic.starter" version="0.0.1">
+    <!-- keep me -->
+    <preference name="ScrollEnabled" value="false" />
+    <access origin="*" />
+    <plugin name="cordova-plugin-facebook4" spec="^4.2.1">
+        <variable name="APP_ID" value="123" />
+    </plugin>
+    <platform name="android">
+        <preference name="ScrollEnabled" value="true" />
+    </platform>
+</widget>
+`;
+
+    const load = async (contents = CONFIG_XML) => {
+      await writeFile(filePath, contents, { encoding: 'utf8' });
+      return ConfigXml.load(filePath);
+    };
+
+    describe('save', () => {
+
+      it('should keep comments and formatting', async () => {
+        const conf = await load();
+        conf.setPreference('Orientation', 'portrait');
+        await conf.save();
+
+        expect(await readFile(filePath, { encoding: 'utf8' })).toEqual(CONFIG_XML.replace('    </platform>\n', '    </platform>\n    <preference name="Orientation" value="portrait" />\n'));
+      });
+
+    });
+
+    describe('preferences', () => {
+
+      it('should get preferences with platform preferences taking precedence', async () => {
+        const conf = await load();
+        expect(conf.getPreference('ScrollEnabled')).toEqual('false');
+        expect(conf.getPreference('ScrollEnabled', 'android')).toEqual('true');
+        expect(conf.getPreference('ScrollEnabled', 'ios')).toEqual('false');
+        expect(conf.getPreference('Orientation')).toBeUndefined();
+        expect(conf.getPreferences('android')).toEqual({ ScrollEnabled: 'true' });
+      });
+
+      it('should set and unset preferences', async () => {
+        const conf = await load();
+        conf.setPreference('ScrollEnabled', 'true');
+        conf.setPreference('Fullscreen', 'true', 'ios');
+        expect(conf.getPreferences()).toEqual({ ScrollEnabled: 'true' });
+        expect(conf.getPreferences('ios')).toEqual({ Fullscreen: 'true' });
+
+        expect(conf.unsetPreference('ScrollEnabled', 'android')).toBe(true);
+        expect(conf.unsetPreference('ScrollEnabled', 'android')).toBe(false);
+        expect(conf.getPreference('ScrollEnabled', 'android')).toEqual('true');
+      });
+
+    });
+
+    describe('navigation rules', () => {
+
+      it('should add and remove navigation rules', async () => {
+        const conf = await load();
+        conf.addNavigationRule('access', 'https://example.com', { 'launch-external': 'yes' });
+        conf.addNavigationRule('access', 'https://example.com');
+        conf.addNavigationRule('allow-navigation', `https://*.example.com/'quoted'`, {}, 'android');
+        expect(conf.getNavigationRules('access')).toEqual(['*', 'https://example.com']);
+        expect(conf.getNavigationRules('allow-navigation', 'android')).toEqual([`https://*.example.com/'quoted'`]);
+        expect(conf.doc.getroot().findall('access')[1].attrib).toEqual({ 'origin': 'https://example.com', 'launch-external': 'yes' });
+
+        expect(conf.removeNavigationRule('access', '*')).toBe(true);
+        expect(conf.getNavigationRules('access')).toEqual(['https://example.com']);
+      });
+
+    });
+
+    describe('edit-config and config-file', () => {
+
+      it('should set, replace and remove edit-config elements', async () => {
+        const conf = await load();
+        conf.setEditConfig({ file: 'AndroidManifest.xml', target: '/manifest/application', mode: 'merge', contents: '<application android:usesCleartextTraffic="true" />' }, 'android');
+        conf.setEditConfig({ file: 'AndroidManifest.xml', target: '/manifest/application', contents: '<application android:debuggable="true" />' }, 'android');
+        expect(conf.getEditConfigs('android')).toEqual([{ file: 'AndroidManifest.xml', target: '/manifest/application', mode: undefined, contents: '<application android:debuggable="true" />' }]);
+        expect(conf.getEditConfigs()).toEqual([]);
+
+        expect(conf.removeEditConfig('AndroidManifest.xml', '/manifest/application', 'android')).toBe(true);
+        expect(conf.getEditConfigs('android')).toEqual([]);
+      });
+
+      it('should reject malformed contents', async () => {
+        const conf = await load();
+        expect(() => conf.setEditConfig({ file: 'AndroidManifest.xml', target: '/manifest', contents: '<application>' })).toThrow('Cannot parse contents of <edit-config>');
+        expect(() => conf.setConfigFile({ target: 'AndroidManifest.xml', parent: '/manifest', contents: '<application>' })).toThrow(CordovaConfigXmlException);
+      });
+
+      it('should set and remove config-file elements', async () => {
+        const conf = await load();
+        conf.setConfigFile({ target: '*-Info.plist', parent: 'NSCameraUsageDescription', contents: '<string>Take photos</string>' }, 'ios');
+        await conf.save();
+
+        expect(await readFile(filePath, { encoding: 'utf8' })).toContain(
+          '    <platform name="ios">\n' +
+          '        <config-file target="*-Info.plist" parent="NSCameraUsageDescription">\n' +
+          '            <string>Take photos</string>\n' +
+          '        </config-file>\n' +
+          '    </platform>\n'
+        );
+
+        await conf.reload();
+        expect(conf.getConfigFiles('ios')).toEqual([{ target: '*-Info.plist', parent: 'NSCameraUsageDescription', contents: '<string>Take photos</string>' }]);
+        expect(conf.removeConfigFile('*-Info.plist', 'NSCameraUsageDescription', 'ios')).toBe(true);
+      });
+
+    });
+
+    describe('plugin variables', () => {
+
+      it('should get, set and unset plugin variables', async () => {
+        const conf = await load();
+        expect(conf.getPluginVariables('cordova-plugin-facebook4')).toEqual({ APP_ID: '123' });
+        expect(conf.getPluginVariables('cordova-plugin-facebook4', 'android')).toEqual({});
+
+        conf.setPluginVariable('cordova-plugin-facebook4', 'APP_NAME', 'MyApp');
+        conf.setPluginVariable('cordova-plugin-facebook4', 'APP_ID', '456', 'android');
+        expect(conf.getPluginVariables('cordova-plugin-facebook4')).toEqual({ APP_ID: '123', APP_NAME: 'MyApp' });
+        expect(conf.getPluginVariables('cordova-plugin-facebook4', 'android')).toEqual({ APP_ID: '456' });
+
+        expect(conf.unsetPluginVariable('cordova-plugin-facebook4', 'APP_ID')).toBe(true);
+        expect(conf.unsetPluginVariable('cordova-plugin-other', 'APP_ID')).toBe(false);
+        expect(conf.getPluginVariables('cordova-plugin-facebook4')).toEqual({ APP_NAME: 'MyApp' });
+      });
+
+    });
+
+    describe('ensurePlatformImages', () => {
+
+      it('should add icons', async () => {
+        const conf = await ConfigXml.load(filePath);
+        await conf.ensurePlatformImages('android', { icon: RESOURCES.android.icon });
+
+        const icon = conf.doc.getroot().find(`platform[@name='android']/icon[@density='mdpi']`);
+        expect(icon ? icon.attrib : undefined).toEqual({ src: 'resources/android/icon/drawable-mdpi-icon.png', density: 'mdpi' });
+      });
+
+      it('should add the layers of adaptive icons to the icons of the same density', async () => {
+        const conf = await ConfigXml.load(filePath);
+        const { icon } = RESOURCES.android;
+        await conf.ensurePlatformImages('android', { icon, 'icon-foreground': RESOURCES.android['icon-foreground'], 'icon-background': RESOURCES.android['icon-background'] });
+
+        const icons = conf.doc.getroot().findall(`platform[@name='android']/icon`);
+        expect(icons.length).toEqual(6);
+        expect(icons.find(el => el.get('density') === 'xhdpi')!.attrib).toEqual({
+          src: 'resources/android/icon/drawable-xhdpi-icon.png',
+          density: 'xhdpi',
+          foreground: 'resources/android/icon-foreground/mipmap-xhdpi-foreground.png',
+          background: 'resources/android/icon-background/mipmap-xhdpi-background.png',
+        });
+      });
+
+      it('should add round icons as resource files', async () => {
+        const conf = await ConfigXml.load(filePath);
+        await conf.ensurePlatformImages('android', { 'icon-round': RESOURCES.android['icon-round'] });
+        await conf.ensurePlatformImages('android', { 'icon-round': RESOURCES.android['icon-round'] });
+
+        const files = conf.doc.getroot().findall(`platform[@name='android']/resource-file`);
+        expect(files.length).toEqual(5);
+        expect(files[0].attrib).toEqual({ src: 'resources/android/icon-round/mipmap-mdpi-round.png', target: 'app/src/main/res/mipmap-mdpi/ic_launcher_round.png' });
+      });
+
+      it('should add dark splash screens', async () => {
+        const conf = await ConfigXml.load(filePath);
+        await conf.ensurePlatformImages('ios', { 'splash-dark': RESOURCES.ios['splash-dark'] });
+
+        const splash = conf.doc.getroot().find(`platform[@name='ios']/splash`);
+        expect(splash ? splash.attrib : undefined).toEqual({ src: 'resources/ios/splash-dark/Default@2x~universal~anyany~dark.png', width: 2732, height: 2732 });
+      });
+
+    });
+
+  });
+
+});
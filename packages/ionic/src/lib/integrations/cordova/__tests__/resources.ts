@@ -1,8 +1,12 @@
+import * as fs from 'fs';
 import * as path from 'path';
 
 import * as fsSpy from '@ionic/utils-fs';
 
+import { UnsupportedImageException } from '../../../errors';
 import * as httpSpy from '../../../utils/http';
+import { createBitmap } from '../../../utils/image';
+import { decodePNG, encodePNG } from '../../../utils/png';
 import * as resources from '../resources';
 
 import { ImageResource, SourceImage } from '../../../../definitions';
@@ -17,7 +21,7 @@ describe('ionic', () => {
         const result = resources.getImageResources('/path/to/proj');
 
         expect(result).toEqual(expect.any(Array));
-        expect(result.length).toEqual(53);
+        expect(result.length).toEqual(71);
         expect(result.find(img => img.name === 'Default-568h@2x~iphone.png')).toEqual({
           platform: 'ios',
           resType: 'splash',
@@ -27,13 +31,34 @@ describe('ionic', () => {
           height: 1136,
           density: undefined,
           orientation: 'portrait',
+          target: undefined,
           nodeName: 'splash',
           nodeAttributes: ['src', 'width', 'height'],
+          nodeSrcAttribute: undefined,
         });
       });
 
     });
 
+    describe('getResourceTypesWithVariants', () => {
+
+      it('should add variants of icons and splash screens', () => {
+        expect(resources.getResourceTypesWithVariants(['icon'])).toEqual(['icon', 'icon-foreground', 'icon-background', 'icon-round']);
+        expect(resources.getResourceTypesWithVariants(['splash'])).toEqual(['splash', 'splash-dark']);
+      });
+
+    });
+
+    describe('getBaseResourceType', () => {
+
+      it('should get the resource type of variants', () => {
+        expect(resources.getBaseResourceType('icon-round')).toEqual('icon');
+        expect(resources.getBaseResourceType('splash-dark')).toEqual('splash');
+        expect(resources.getBaseResourceType('icon')).toEqual('icon');
+      });
+
+    });
+
     describe('createImgDestinationDirectories', () => {
       const imgResources: ImageResource[] = [{
         platform: 'ios',
@@ -319,6 +344,118 @@ describe('ionic', () => {
       });
     });
 
+    describe('loadLocalSourceImage', () => {
+      const sourceImage = {
+        ext: '.png',
+        height: 0,
+        width: 0,
+        vector: false,
+        platform: 'ios',
+        resType: 'icon',
+        path: fsSpy.tmpfilepath('ionic-cordova-resources-icon.png'),
+        imageId: '60278b0fa1d5abf43d07c5ae0f8a0b41'
+      };
+
+      beforeAll(() => {
+        fs.writeFileSync(sourceImage.path, encodePNG(createBitmap(337, 421)));
+      });
+
+      afterAll(() => {
+        fs.unlinkSync(sourceImage.path);
+      });
+
+      it('should read the dimensions of PNG images', async () => {
+        const result = await resources.loadLocalSourceImage(sourceImage);
+        expect(result.width).toEqual(337);
+        expect(result.height).toEqual(421);
+        expect(result.vector).toEqual(false);
+      });
+
+      it('should reject images which are not supported locally', async () => {
+        await expect(resources.loadLocalSourceImage({ ...sourceImage, ext: '.psd', path: '/path/to/icon.psd' })).rejects.toThrow(UnsupportedImageException);
+      });
+
+      it('should transform image resources', async () => {
+        const srcImage = await resources.loadLocalSourceImage(sourceImage);
+        const resource = resources.getImageResources('/path/to/proj').find(img => img.name === 'icon-40.png');
+        const result = await resources.transformResourceImageLocally(resource as ImageResource, srcImage);
+
+        expect(result.error).toBeUndefined();
+        const bitmap = decodePNG(fs.readFileSync(result.tmpDest));
+        expect([bitmap.width, bitmap.height]).toEqual([40, 40]);
+      });
+    });
+
+    describe('resources cache', () => {
+
+      const projectDir = fsSpy.tmpfilepath('ionic-cordova-resources-cache');
+      const srcImage: SourceImage = {
+        ext: '.png',
+        imageId: 'SRCMD5',
+        platform: 'global',
+        resType: 'icon',
+        path: path.resolve(projectDir, 'resources/icon.png'),
+        vector: false,
+        width: 0,
+        height: 0,
+      };
+
+      let img: ImageResource;
+
+      beforeEach(async () => {
+        img = { ...resources.getImageResources(projectDir).find(i => i.name === 'icon-40.png') as ImageResource, imageId: 'SRCMD5' };
+        await fsSpy.mkdirp(path.dirname(img.dest));
+        await fsSpy.writeFile(img.dest, 'generated', { encoding: 'utf8' });
+      });
+
+      afterEach(async () => {
+        await fsSpy.removeDirectory(projectDir);
+      });
+
+      it('should read an empty cache if there is none', async () => {
+        expect(await resources.readResourcesCache(projectDir)).toEqual({});
+      });
+
+      it('should write and read the cache', async () => {
+        const cache = {};
+        await resources.cacheImageResource(projectDir, cache, img);
+        await resources.writeResourcesCache(projectDir, cache);
+
+        expect(await resources.readResourcesCache(projectDir)).toEqual({
+          'ios/icon/icon-40.png': { source: 'SRCMD5', width: 40, height: 40, checksum: await fsSpy.getFileChecksum(img.dest) },
+        });
+      });
+
+      it('should find images not in the cache', async () => {
+        expect(await resources.getStaleImageResources(projectDir, {}, [img], [srcImage])).toEqual([img]);
+      });
+
+      it('should find images generated before the cache existed as up to date', async () => {
+        expect(await resources.getStaleImageResources(projectDir, {}, [img], [{ ...srcImage, cachedId: 'SRCMD5' }])).toEqual([]);
+      });
+
+      it('should find images with changed source images, dimensions or contents', async () => {
+        const cache = {};
+        await resources.cacheImageResource(projectDir, cache, img);
+
+        expect(await resources.getStaleImageResources(projectDir, cache, [img], [srcImage])).toEqual([]);
+        expect(await resources.getStaleImageResources(projectDir, cache, [{ ...img, imageId: 'NEWMD5' }], [srcImage]).then(r => r.length)).toEqual(1);
+        expect(await resources.getStaleImageResources(projectDir, cache, [{ ...img, width: 80 }], [srcImage]).then(r => r.length)).toEqual(1);
+
+        await fsSpy.writeFile(img.dest, 'modified', { encoding: 'utf8' });
+        expect(await resources.getStaleImageResources(projectDir, cache, [img], [srcImage])).toEqual([img]);
+      });
+
+      it('should find skipped images as up to date', async () => {
+        const cache = {};
+        await resources.cacheImageResource(projectDir, cache, img, true);
+        await fsSpy.removeDirectory(path.dirname(img.dest));
+
+        expect(await resources.getStaleImageResources(projectDir, cache, [img], [srcImage])).toEqual([]);
+      });
+
+    });
+
   });
 
 });
@@ -7,8 +7,9 @@ import * as Debug from 'debug';
 import * as et from 'elementtree';
 
 import { ProjectIntegration, ResourcesPlatform } from '../../../definitions';
-import { FatalException } from '../../errors';
+import { CordovaConfigXmlException } from '../../errors';
 import { shortid } from '../../utils/uuid';
+import { parseXML, parseXMLFragment, serializeXML, serializeXMLFragment } from '../../utils/xml';
 
 const debug = Debug('ionic:lib:integrations:cordova:config');
 
@@ -18,6 +19,48 @@ export interface PlatformEngine {
   [key: string]: string;
 }
 
+/**
+ * Elements which restrict the URLs the app may access, navigate to, or open
+ * in other apps.
+ */
+export type NavigationRuleTag = 'access' | 'allow-navigation' | 'allow-intent';
+
+/**
+ * A change of a native file with `<edit-config>`, identified by its file and
+ * target.
+ */
+export interface EditConfigElement {
+  file: string;
+  target: string;
+  mode?: 'merge' | 'overwrite';
+
+  /**
+   * The XML the target is edited with.
+   */
+  contents: string;
+}
+
+/**
+ * An addition to a native file with `<config-file>`, identified by its target
+ * and parent.
+ */
+export interface ConfigFileElement {
+  target: string;
+  parent: string;
+
+  /**
+   * The XML added to the parent.
+   */
+  contents: string;
+}
+
+// the attribute with the URL of navigation rules
+const NAVIGATION_RULE_ATTRIBUTES: { [T in NavigationRuleTag]: string; } = {
+  'access': 'origin',
+  'allow-navigation': 'href',
+  'allow-intent': 'href',
+};
+
 export class ConfigXml {
   protected _doc?: et.ElementTree;
   protected _sessionid?: string;
@@ -56,14 +99,14 @@ export class ConfigXml {
     const configFileContents = await readFile(this.filePath, { encoding: 'utf8' });
 
     if (!configFileContents) {
-      throw new Error(`Cannot load empty config.xml file.`);
+      throw new CordovaConfigXmlException(`Cannot load empty config.xml file.`);
     }
 
     try {
-      this._doc = et.parse(configFileContents);
+      this._doc = parseXML(configFileContents);
       this._sessionid = shortid();
     } catch (e) {
-      throw new Error(`Cannot parse config.xml file: ${e.stack ? e.stack : e}`);
+      throw new CordovaConfigXmlException(`Cannot parse config.xml file: ${e.stack ? e.stack : e}`);
     }
   }
 
@@ -143,22 +186,178 @@ export class ConfigXml {
     }
   }
 
-  getPreference(prefName: string): string | undefined {
-    const root = this.doc.getroot();
+  /**
+   * Get the value of a preference. Preferences of a platform take precedence
+   * over global ones.
+   *
+   * @param platform Get the value of the preference for this platform.
+   */
+  getPreference(prefName: string, platform?: string): string | undefined {
+    const scopes = platform ? [this.getScope(platform), this.getScope()] : [this.getScope()];
 
-    const preferenceElement = root.find(`preference[@name='${prefName}']`);
+    for (const scope of scopes) {
+      const preferenceElement = scope ? this.findChild(scope, 'preference', { name: prefName }) : undefined;
+      const value = preferenceElement ? preferenceElement.get('value') : undefined;
 
-    if (!preferenceElement) {
-      return undefined;
+      if (value) {
+        return value;
+      }
     }
+  }
 
-    const value = preferenceElement.get('value');
+  /**
+   * Get the preferences declared globally or, if `platform` is given, for a
+   * platform.
+   */
+  getPreferences(platform?: string): { [name: string]: string; } {
+    const preferences: { [name: string]: string; } = {};
 
-    if (!value) {
-      return undefined;
+    for (const el of this.findChildren(this.getScope(platform), 'preference')) {
+      const name = el.get('name');
+
+      if (name) {
+        preferences[name] = el.get('value') || '';
+      }
+    }
+
+    return preferences;
+  }
+
+  setPreference(prefName: string, value: string, platform?: string): void {
+    this.ensureChild(this.ensureScope(platform), 'preference', { name: prefName }).set('value', value);
+  }
+
+  /**
+   * @return `false` if there was no such preference.
+   */
+  unsetPreference(prefName: string, platform?: string): boolean {
+    return this.removeChildren(this.getScope(platform), 'preference', { name: prefName });
+  }
+
+  /**
+   * Get the URLs of the navigation rules of a kind, e.g. the origins of
+   * `<access>` elements.
+   */
+  getNavigationRules(tag: NavigationRuleTag, platform?: string): string[] {
+    return this.findChildren(this.getScope(platform), tag)
+      .map(el => el.get(NAVIGATION_RULE_ATTRIBUTES[tag]))
+      .filter((url): url is string => typeof url !== 'undefined');
+  }
+
+  /**
+   * Add a navigation rule unless it exists already.
+   *
+   * @param attrs Additional attributes, e.g. `launch-external` of `<access>`.
+   */
+  addNavigationRule(tag: NavigationRuleTag, url: string, attrs: { [key: string]: string; } = {}, platform?: string): void {
+    const el = this.ensureChild(this.ensureScope(platform), tag, { [NAVIGATION_RULE_ATTRIBUTES[tag]]: url });
+
+    for (const attr of Object.keys(attrs)) {
+      el.set(attr, attrs[attr]);
+    }
+  }
+
+  /**
+   * @return `false` if there was no such navigation rule.
+   */
+  removeNavigationRule(tag: NavigationRuleTag, url: string, platform?: string): boolean {
+    return this.removeChildren(this.getScope(platform), tag, { [NAVIGATION_RULE_ATTRIBUTES[tag]]: url });
+  }
+
+  getEditConfigs(platform?: string): EditConfigElement[] {
+    return this.findChildren(this.getScope(platform), 'edit-config').map((el): EditConfigElement => {
+      const mode = el.get('mode');
+
+      return {
+        file: el.get('file') || '',
+        target: el.get('target') || '',
+        mode: mode === 'merge' || mode === 'overwrite' ? mode : undefined,
+        contents: serializeXMLFragment(el.getchildren()),
+      };
+    });
+  }
+
+  /**
+   * Add an `<edit-config>` element, replacing the one of the same file and
+   * target.
+   */
+  setEditConfig({ file, target, mode, contents }: EditConfigElement, platform?: string): void {
+    const el = this.ensureChild(this.ensureScope(platform), 'edit-config', { file, target });
+
+    if (mode) {
+      el.set('mode', mode);
+    } else {
+      delete el.attrib['mode'];
+    }
+
+    this.replaceContents(el, contents);
+  }
+
+  /**
+   * @return `false` if there was no such `<edit-config>` element.
+   */
+  removeEditConfig(file: string, target: string, platform?: string): boolean {
+    return this.removeChildren(this.getScope(platform), 'edit-config', { file, target });
+  }
+
+  getConfigFiles(platform?: string): ConfigFileElement[] {
+    return this.findChildren(this.getScope(platform), 'config-file').map((el): ConfigFileElement => ({
+      target: el.get('target') || '',
+      parent: el.get('parent') || '',
+      contents: serializeXMLFragment(el.getchildren()),
+    }));
+  }
+
+  /**
+   * Add a `<config-file>` element, replacing the one of the same target and
+   * parent.
+   */
+  setConfigFile({ target, parent, contents }: ConfigFileElement, platform?: string): void {
+    this.replaceContents(this.ensureChild(this.ensureScope(platform), 'config-file', { target, parent }), contents);
+  }
+
+  /**
+   * @return `false` if there was no such `<config-file>` element.
+   */
+  removeConfigFile(target: string, parent: string, platform?: string): boolean {
+    return this.removeChildren(this.getScope(platform), 'config-file', { target, parent });
+  }
+
+  /**
+   * Get the variables of a plugin, which are passed to the plugin when it is
+   * installed.
+   *
+   * @param platform Get the variables of the plugin declared for a platform.
+   */
+  getPluginVariables(plugin: string, platform?: string): { [name: string]: string; } {
+    const scope = this.getScope(platform);
+    const pluginElement = scope ? this.findChild(scope, 'plugin', { name: plugin }) : undefined;
+    const variables: { [name: string]: string; } = {};
+
+    for (const el of this.findChildren(pluginElement, 'variable')) {
+      const name = el.get('name');
+
+      if (name) {
+        variables[name] = el.get('value') || '';
+      }
     }
 
-    return value;
+    return variables;
+  }
+
+  setPluginVariable(plugin: string, name: string, value: string, platform?: string): void {
+    const pluginElement = this.ensureChild(this.ensureScope(platform), 'plugin', { name: plugin });
+    this.ensureChild(pluginElement, 'variable', { name }).set('value', value);
+  }
+
+  /**
+   * @return `false` if there was no such plugin variable.
+   */
+  unsetPluginVariable(plugin: string, name: string, platform?: string): boolean {
+    const scope = this.getScope(platform);
+    const pluginElement = scope ? this.findChild(scope, 'plugin', { name: plugin }) : undefined;
+
+    return this.removeChildren(pluginElement, 'variable', { name });
   }
 
   getProjectInfo(): { id: string; name: string; version: string; } {
@@ -226,10 +425,14 @@ export class ConfigXml {
       for (const image of images) {
         // We use forward slashes, (not path.join) here to provide
         // cross-platform compatibility for paths.
-        const imgPath = ['resources', platform, imgType.nodeName, image.name].join('/'); // TODO: hard-coded 'resources' dir
-        let imgElement = platformElement.find(`${imgType.nodeName}[@src='${imgPath}']`);
-
-        if (!imgElement) {
+        const imgPath = ['resources', platform, imgName, image.name].join('/'); // TODO: hard-coded 'resources' dir
+        const srcAttr = imgType.nodeSrcAttribute ? imgType.nodeSrcAttribute : 'src';
+        let imgElement = srcAttr === 'src'
+          ? platformElement.find(`${imgType.nodeName}[@src='${imgPath}']`)
+          // e.g. the layers of adaptive icons belong to the icon of the same density
+          : platformElement.find(`${imgType.nodeName}[@density='${image.density}']`);
+
+        if (!imgElement && srcAttr === 'src') {
           imgElement = platformElement.find(`${imgType.nodeName}[@src='${imgPath.split('/').join('\\')}']`);
         }
 
@@ -239,7 +442,7 @@ export class ConfigXml {
           for (const attr of imgType.nodeAttributes) {
             let v = (image as any)[attr]; // TODO
 
-            if (attr === 'src') {
+            if (attr === srcAttr) {
               v = imgPath;
             }
 
@@ -249,7 +452,7 @@ export class ConfigXml {
           imgElement = et.SubElement(platformElement, imgType.nodeName, attrs);
         }
 
-        imgElement.set('src', imgPath);
+        imgElement.set(srcAttr, imgPath);
       }
     }
   }
@@ -277,12 +480,78 @@ export class ConfigXml {
   }
 
   protected write(): string {
-    // Cordova hard codes an indentation of 4 spaces, so we'll follow.
-    const contents = this.doc.write({ indent: 4 });
+    // Cordova hard codes an indentation of 4 spaces, so we'll follow for new
+    // elements. The rest of the file is written as it was.
+    const contents = serializeXML(this.doc, '    ');
 
     return contents;
   }
 
+  /**
+   * Get the root element for global configuration, or the `<platform>`
+   * element of a platform.
+   */
+  protected getScope(platform?: string): et.Element | undefined {
+    const root = this.doc.getroot();
+    return platform ? this.findChild(root, 'platform', { name: platform }) : root;
+  }
+
+  protected ensureScope(platform?: string): et.Element {
+    const root = this.doc.getroot();
+    return platform ? this.ensureChild(root, 'platform', { name: platform }) : root;
+  }
+
+  /**
+   * Find the child elements of a tag with the given attributes. Unlike
+   * `find()`, attribute values do not need to be escaped for the query.
+   */
+  protected findChildren(parent: et.Element | undefined, tag: string, attrs: { [key: string]: string; } = {}): et.Element[] {
+    if (!parent) {
+      return [];
+    }
+
+    return parent.getchildren().filter(el => el.tag === tag && Object.keys(attrs).every(k => el.get(k) === attrs[k]));
+  }
+
+  protected findChild(parent: et.Element, tag: string, attrs: { [key: string]: string; } = {}): et.Element | undefined {
+    const [ el ] = this.findChildren(parent, tag, attrs);
+    return el;
+  }
+
+  protected ensureChild(parent: et.Element, tag: string, attrs: { [key: string]: string; }): et.Element {
+    const el = this.findChild(parent, tag, attrs);
+    return el ? el : et.SubElement(parent, tag, attrs);
+  }
+
+  protected removeChildren(parent: et.Element | undefined, tag: string, attrs: { [key: string]: string; }): boolean {
+    const elements = this.findChildren(parent, tag, attrs);
+
+    for (const el of elements) {
+      (parent as et.Element).remove(el);
+    }
+
+    return elements.length > 0;
+  }
+
+  protected replaceContents(el: et.Element, contents: string): void {
+    for (const child of el.getchildren()) {
+      el.remove(child);
+    }
+
+    let children: et.Element[];
+
+    try {
+      children = parseXMLFragment(contents);
+    } catch (e) {
+      throw new CordovaConfigXmlException(`Cannot parse contents of <${el.tag}>: ${e.message}`);
+    }
+
+    // Element#extend() of elementtree does not add the elements
+    for (const child of children) {
+      el.append(child);
+    }
+  }
+
   protected engineElementToPlatformEngine(engine: et.Element): PlatformEngine {
     const name = engine.get('name');
     const spec = engine.get('spec');
@@ -302,7 +571,7 @@ export async function loadConfigXml(integration: Required<ProjectIntegration>):
       ? `Cordova ${chalk.bold('config.xml')} file not found.\n\nYou can re-add the Cordova integration with the following command: ${chalk.green('ionic integrations enable cordova --add')}`
       : chalk.red(e.stack ? e.stack : e);
 
-    throw new FatalException(
+    throw new CordovaConfigXmlException(
       `Cannot load ${chalk.bold(prettyPath(filePath))}\n` +
       `${msg}`
     );
@@ -1,22 +1,51 @@
 import { prettyPath } from '@ionic/cli-framework/utils/format';
 import { WritableStreamBuffer } from '@ionic/cli-framework/utils/streams';
-import { getFileChecksums, mkdirp, readDirSafe, tmpfilepath } from '@ionic/utils-fs';
+import { getFileChecksum, getFileChecksums, mkdirp, pathExists, readDirSafe, readFile, tmpfilepath, writeFile } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as Debug from 'debug';
 import * as fs from 'fs';
+import * as lodash from 'lodash';
 import * as path from 'path';
 
-import { ImageResource, ImageResourceTransformResult, ImageUploadResponse, IonicEnvironment, KnownPlatform, ResourcesConfig, SourceImage } from '../../../definitions';
+import { ImageResource, ImageResourceTransformResult, ImageUploadResponse, IonicEnvironment, KnownPlatform, KnownResourceType, ResourcesCache, ResourcesConfig, SourceImage } from '../../../definitions';
+import { UnsupportedImageException } from '../../errors';
 import { formatResponseError } from '../../http';
 import { createRequest } from '../../utils/http';
+import { Bitmap, resizeCover } from '../../utils/image';
+import { decodePNG, encodePNG } from '../../utils/png';
+import { parseSVG } from '../../utils/svg';
 
 import { ConfigXml } from './config';
 
 const debug = Debug('ionic:lib:integrations:cordova:resources');
 
-const SUPPORTED_SOURCE_EXTENSIONS = ['.psd', '.ai', '.png'];
+const SUPPORTED_SOURCE_EXTENSIONS = ['.psd', '.ai', '.png', '.svg'];
 const UPLOAD_URL = 'https://res.ionic.io/api/v1/upload';
 const TRANSFORM_URL = 'https://res.ionic.io/api/v1/transform';
+const RESOURCES_CACHE_FILE = '.cache.json';
+
+// Resource types generated from dedicated source images, if present, along
+// with icons and splash screens
+const RESOURCE_TYPE_VARIANTS: { [resType: string]: KnownResourceType[]; } = {
+  'icon': ['icon-foreground', 'icon-background', 'icon-round'],
+  'splash': ['splash-dark'],
+};
+
+/**
+ * Add the variants of icons and splash screens to a list of resource types,
+ * e.g. the layers of adaptive icons to `icon`.
+ */
+export function getResourceTypesWithVariants(resourceTypes: KnownResourceType[]): KnownResourceType[] {
+  return lodash.uniq(lodash.flatMap(resourceTypes, t => [t, ...(RESOURCE_TYPE_VARIANTS[t] || [])]));
+}
+
+/**
+ * Get the resource type a variant belongs to, e.g. `icon` for `icon-round`.
+ */
+export function getBaseResourceType(resType: string): string {
+  const base = Object.keys(RESOURCE_TYPE_VARIANTS).find(t => RESOURCE_TYPE_VARIANTS[t].includes(resType as KnownResourceType));
+  return base ? base : resType;
+}
 
 export function getImageResources(projectDir: string): ImageResource[] {
   const images: ImageResource[] = [];
@@ -31,14 +60,16 @@ export function getImageResources(projectDir: string): ImageResource[] {
         images.push({
           platform,
           resType: imageType,
-          dest: path.resolve(projectDir, 'resources', platform, imageType, image.name), // TODO: hard-coded
+          dest: path.resolve(getResourcesDirectory(projectDir), platform, imageType, image.name),
           name: image.name,
           width: image.width,
           height: image.height,
           density: image.density,
           orientation: image.orientation,
+          target: image.target,
           nodeName: imageTypeConfig.nodeName,
           nodeAttributes: imageTypeConfig.nodeAttributes,
+          nodeSrcAttribute: imageTypeConfig.nodeSrcAttribute,
         });
       }
     }
@@ -63,7 +94,7 @@ export async function createImgDestinationDirectories(imgResources: ImageResourc
  * Find all source images within the resources directory
  */
 export async function getSourceImages(projectDir: string, buildPlatforms: string[], resourceTypes: string[]): Promise<SourceImage[]> {
-  const resourceDir = path.resolve(projectDir, 'resources'); // TODO: hard-coded
+  const resourceDir = getResourcesDirectory(projectDir);
 
   const srcDirList = buildPlatforms
     .map(platform => ({ platform, path: path.resolve(resourceDir, platform) }))
@@ -114,7 +145,7 @@ export async function getSourceImages(projectDir: string, buildPlatforms: string
 /**
  * Find the source image that matches the requirements of the image resource provided.
  */
-export function findMostSpecificSourceImage(imageResource: ImageResource, srcImagesAvailable: SourceImage[]): SourceImage | undefined {
+export function findMostSpecificSourceImage(imageResource: Pick<ImageResource, 'platform' | 'resType'>, srcImagesAvailable: SourceImage[]): SourceImage | undefined {
   return srcImagesAvailable.reduce((mostSpecificImage: SourceImage | undefined, sourceImage: SourceImage) => {
     if (sourceImage.platform === imageResource.platform && sourceImage.resType === imageResource.resType) {
       return sourceImage;
@@ -174,7 +205,7 @@ export async function transformResourceImage(env: IonicEnvironment, resource: Im
         'image_id': resource.imageId,
         'width': resource.width,
         'height': resource.height,
-        'res_type': resource.resType,
+        'res_type': getBaseResourceType(resource.resType),
         'crop': 'center',
         'encoding': 'png',
       })
@@ -218,6 +249,163 @@ export async function transformResourceImage(env: IonicEnvironment, resource: Im
   });
 }
 
+/**
+ * A source image that can be transformed without the resources web service.
+ */
+export interface LocalSourceImage {
+  readonly width: number;
+  readonly height: number;
+  readonly vector: boolean;
+
+  /**
+   * Render the image scaled to cover the given dimensions, cropped at the
+   * center.
+   */
+  render(width: number, height: number): Bitmap;
+}
+
+/**
+ * Load a source image for local transforms. PNG images are decoded once and
+ * SVG images are rasterized at the size of each resource.
+ *
+ * @throws UnsupportedImageException if the image can only be transformed by
+ * the resources web service, such as `.psd` and `.ai` files, or SVG images
+ * without the optional SVG renderer installed.
+ */
+export async function loadLocalSourceImage(srcImage: SourceImage): Promise<LocalSourceImage> {
+  if (srcImage.ext !== '.png' && srcImage.ext !== '.svg') {
+    throw new UnsupportedImageException(`${chalk.bold(srcImage.ext)} images cannot be processed locally.`);
+  }
+
+  const buf = await new Promise<Buffer>((resolve, reject) => {
+    fs.readFile(srcImage.path, (err, data) => err ? reject(err) : resolve(data));
+  });
+
+  if (srcImage.ext === '.svg') {
+    const svg = parseSVG(buf.toString('utf8'));
+    return { width: svg.width, height: svg.height, vector: true, render: (w, h) => svg.render(w, h) };
+  }
+
+  const bitmap = decodePNG(buf);
+
+  return { width: bitmap.width, height: bitmap.height, vector: false, render: (w, h) => resizeCover(bitmap, w, h) };
+}
+
+/**
+ * Transform the provided image resource into the appropriate w x h locally
+ * and then write the temporary file.
+ */
+export async function transformResourceImageLocally(resource: ImageResource, srcImage: LocalSourceImage): Promise<ImageResourceTransformResult> {
+  const tmpDest = tmpfilepath(`ionic-cordova-resources-${resource.name}`);
+  const result: ImageResourceTransformResult = { resource, tmpDest };
+
+  try {
+    const png = encodePNG(srcImage.render(resource.width, resource.height));
+
+    await new Promise<void>((resolve, reject) => {
+      fs.writeFile(tmpDest, png, err => err ? reject(err) : resolve());
+    });
+
+    debug('wrote locally transformed image for %s: %s', resource.name, tmpDest);
+  } catch (e) {
+    result.error = new Error(`Error while generating ${chalk.bold(resource.name)}: ${e.message ? e.message : e}`);
+  }
+
+  return result;
+}
+
+/**
+ * Read the cache of generated images of the resources directory.
+ */
+export async function readResourcesCache(projectDir: string): Promise<ResourcesCache> {
+  const p = getResourcesCachePath(projectDir);
+
+  try {
+    return JSON.parse(await readFile(p, { encoding: 'utf8' }));
+  } catch (e) {
+    if (e.code !== 'ENOENT' && e.name !== 'SyntaxError') {
+      throw e;
+    }
+
+    debug('no usable cache at %s: %s', p, e);
+
+    return {};
+  }
+}
+
+/**
+ * Write the cache of generated images into the resources directory, sorted so
+ * that it can be committed along with the images.
+ */
+export async function writeResourcesCache(projectDir: string, cache: ResourcesCache): Promise<void> {
+  const p = getResourcesCachePath(projectDir);
+  const sorted = lodash.fromPairs(Object.keys(cache).sort().map(k => [k, cache[k]]));
+
+  await writeFile(p, JSON.stringify(sorted, undefined, 2) + '\n', { encoding: 'utf8' });
+}
+
+/**
+ * Record an image resource in the cache of generated images, keyed by the
+ * checksum of its source image and its dimensions.
+ *
+ * @param skipped Whether the image was not generated because its source image
+ * was too small.
+ */
+export async function cacheImageResource(projectDir: string, cache: ResourcesCache, img: ImageResource, skipped = false): Promise<void> {
+  cache[getResourcesCacheKey(projectDir, img)] = {
+    source: img.imageId ? img.imageId : '',
+    width: img.width,
+    height: img.height,
+    checksum: skipped ? undefined : await getFileChecksum(img.dest),
+  };
+}
+
+/**
+ * Find the image resources which are missing or out of date: their source
+ * image or dimensions changed since they were generated, or the generated
+ * image was modified.
+ */
+export async function getStaleImageResources(projectDir: string, cache: ResourcesCache, imgResources: ImageResource[], srcImages: SourceImage[]): Promise<ImageResource[]> {
+  const stale = await Promise.all(imgResources.map(async img => {
+    const entry = cache[getResourcesCacheKey(projectDir, img)];
+
+    if (!entry) {
+      // images generated before the cache existed are only known by the
+      // checksum file of their source image
+      const srcImage = srcImages.find(i => i.imageId === img.imageId);
+      return !srcImage || !srcImage.cachedId || srcImage.cachedId !== srcImage.imageId || !await pathExists(img.dest);
+    }
+
+    if (entry.source !== img.imageId || entry.width !== img.width || entry.height !== img.height) {
+      return true;
+    }
+
+    if (!entry.checksum) {
+      return false;
+    }
+
+    return !await pathExists(img.dest) || await getFileChecksum(img.dest) !== entry.checksum;
+  }));
+
+  return imgResources.filter((img, i) => stale[i]);
+}
+
+/**
+ * Get the directory of the source images and generated resources of a
+ * project.
+ */
+function getResourcesDirectory(projectDir: string): string {
+  return path.resolve(projectDir, 'resources');
+}
+
+function getResourcesCacheKey(projectDir: string, img: ImageResource): string {
+  return path.relative(getResourcesDirectory(projectDir), img.dest).split(path.sep).join('/');
+}
+
+function getResourcesCachePath(projectDir: string): string {
+  return path.resolve(getResourcesDirectory(projectDir), RESOURCES_CACHE_FILE);
+}
+
 /**
  * Add image resource references for the provided platforms to the project's config.xml file.
  */
@@ -243,6 +431,43 @@ export const RESOURCES: ResourcesConfig = {
       nodeName: 'icon',
       nodeAttributes: ['src', 'density'],
     },
+    'icon-foreground': {
+      images: [
+        { name: 'mipmap-ldpi-foreground.png', width: 81, height: 81, density: 'ldpi' },
+        { name: 'mipmap-mdpi-foreground.png', width: 108, height: 108, density: 'mdpi' },
+        { name: 'mipmap-hdpi-foreground.png', width: 162, height: 162, density: 'hdpi' },
+        { name: 'mipmap-xhdpi-foreground.png', width: 216, height: 216, density: 'xhdpi' },
+        { name: 'mipmap-xxhdpi-foreground.png', width: 324, height: 324, density: 'xxhdpi' },
+        { name: 'mipmap-xxxhdpi-foreground.png', width: 432, height: 432, density: 'xxxhdpi' },
+      ],
+      nodeName: 'icon',
+      nodeAttributes: ['foreground', 'density'],
+      nodeSrcAttribute: 'foreground',
+    },
+    'icon-background': {
+      images: [
+        { name: 'mipmap-ldpi-background.png', width: 81, height: 81, density: 'ldpi' },
+        { name: 'mipmap-mdpi-background.png', width: 108, height: 108, density: 'mdpi' },
+        { name: 'mipmap-hdpi-background.png', width: 162, height: 162, density: 'hdpi' },
+        { name: 'mipmap-xhdpi-background.png', width: 216, height: 216, density: 'xhdpi' },
+        { name: 'mipmap-xxhdpi-background.png', width: 324, height: 324, density: 'xxhdpi' },
+        { name: 'mipmap-xxxhdpi-background.png', width: 432, height: 432, density: 'xxxhdpi' },
+      ],
+      nodeName: 'icon',
+      nodeAttributes: ['background', 'density'],
+      nodeSrcAttribute: 'background',
+    },
+    'icon-round': {
+      images: [
+        { name: 'mipmap-mdpi-round.png', width: 48, height: 48, target: 'app/src/main/res/mipmap-mdpi/ic_launcher_round.png' },
+        { name: 'mipmap-hdpi-round.png', width: 72, height: 72, target: 'app/src/main/res/mipmap-hdpi/ic_launcher_round.png' },
+        { name: 'mipmap-xhdpi-round.png', width: 96, height: 96, target: 'app/src/main/res/mipmap-xhdpi/ic_launcher_round.png' },
+        { name: 'mipmap-xxhdpi-round.png', width: 144, height: 144, target: 'app/src/main/res/mipmap-xxhdpi/ic_launcher_round.png' },
+        { name: 'mipmap-xxxhdpi-round.png', width: 192, height: 192, target: 'app/src/main/res/mipmap-xxxhdpi/ic_launcher_round.png' },
+      ],
+      nodeName: 'resource-file',
+      nodeAttributes: ['src', 'target'],
+    },
     splash: {
       images: [
         { name: 'drawable-land-ldpi-screen.png', width: 320, height: 240, density: 'land-ldpi', orientation: 'landscape' },
@@ -307,6 +532,13 @@ export const RESOURCES: ResourcesConfig = {
       nodeName: 'splash',
       nodeAttributes: ['src', 'width', 'height'],
     },
+    'splash-dark': {
+      images: [
+        { name: 'Default@2x~universal~anyany~dark.png', width: 2732, height: 2732 },
+      ],
+      nodeName: 'splash',
+      nodeAttributes: ['src', 'width', 'height'],
+    },
   },
   wp8: {
     icon: {
@@ -0,0 +1,40 @@
+import { NetworkInterface, NetworkInterfaceFamily, VIRTUAL_INTERFACE_PATTERNS, getExternalInterfaces } from '@ionic/utils-network';
+import chalk from 'chalk';
+
+import { IConfig } from '../definitions';
+
+import { FatalException } from './errors';
+
+/**
+ * Get the external network interfaces the dev server can be reached on.
+ *
+ * Virtual adapters and devices matching the `network.exclude` patterns of
+ * the global config are left out. IPv6 addresses are included (and
+ * preferred) if `network.ipv6` is set.
+ */
+export function getNetworkInterfaces(config: IConfig): NetworkInterface[] {
+  const families: NetworkInterfaceFamily[] = config.get('network.ipv6') ? ['IPv6', 'IPv4'] : ['IPv4'];
+  const exclude = [...VIRTUAL_INTERFACE_PATTERNS, ...config.get('network.exclude', []).map(pattern => {
+    try {
+      return new RegExp(pattern);
+    } catch (e) {
+      throw new FatalException(`Invalid pattern in ${chalk.green('network.exclude')} of global config: ${chalk.bold(pattern)}`);
+    }
+  })];
+
+  return getExternalInterfaces({ families, exclude });
+}
+
+/**
+ * Find the interface set with `network.interface` in the global config,
+ * which may be a device name (e.g. `en0`) or an address.
+ */
+export function findPreferredInterface(config: IConfig, interfaces: ReadonlyArray<NetworkInterface>): NetworkInterface | undefined {
+  const preferred = config.get('network.interface');
+
+  if (!preferred) {
+    return;
+  }
+
+  return interfaces.find(i => i.device === preferred || i.address === preferred);
+}
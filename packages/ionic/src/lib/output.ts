@@ -0,0 +1,59 @@
+import { stripAnsi } from '@ionic/cli-framework/utils/format';
+
+import { IJSONOutput, JSONOutputDocument, JSONOutputError } from '../definitions';
+
+/**
+ * Collects the result of a command for JSON mode (`--json`).
+ *
+ * In JSON mode, commands set their result data and the CLI writes a single
+ * JSON document to stdout when the command finishes. All other output is
+ * written to stderr.
+ */
+export class JSONOutput implements IJSONOutput {
+  command?: string;
+
+  protected data?: any;
+  protected written = false;
+  protected readonly warnings: string[] = [];
+  protected readonly errors: JSONOutputError[] = [];
+
+  constructor(readonly enabled: boolean, protected readonly stream: NodeJS.WritableStream = process.stdout) {}
+
+  setData(data: any): void {
+    this.data = data;
+  }
+
+  addWarning(msg: string): void {
+    this.warnings.push(stripAnsi(msg).trim());
+  }
+
+  addError({ code, message, exitCode }: JSONOutputError): void {
+    this.errors.push({ code, message: stripAnsi(message).trim(), exitCode });
+  }
+
+  createDocument(exitCode: number): JSONOutputDocument {
+    return {
+      command: this.command,
+      ok: exitCode === 0,
+      exitCode,
+      data: this.data,
+      warnings: [...this.warnings],
+      errors: [...this.errors],
+    };
+  }
+
+  /**
+   * Write the JSON document to stdout, if in JSON mode.
+   *
+   * The document is written at most once. Long-running commands, such as
+   * `ionic serve`, write it as soon as their result is known.
+   */
+  write(exitCode = 0): void {
+    if (!this.enabled || this.written) {
+      return;
+    }
+
+    this.written = true;
+    this.stream.write(JSON.stringify(this.createDocument(exitCode), undefined, 2) + '\n');
+  }
+}
@@ -0,0 +1,164 @@
+import { compileNodeModulesPaths, resolve } from '@ionic/cli-framework/utils/node';
+import { readDirSafe } from '@ionic/utils-fs';
+import chalk from 'chalk';
+import * as Debug from 'debug';
+import * as lodash from 'lodash';
+import * as path from 'path';
+
+import { CommandPlugin, CommandPluginAPI, CommandPluginFactory, ICommand, INamespace } from '../definitions';
+
+import { Command } from './command';
+import { FatalException } from './errors';
+import { CommandMap, Namespace, NamespaceMap } from './namespace';
+
+const debug = Debug('ionic:lib:plugins');
+
+export const PLUGIN_PREFIX = 'ionic-cli-plugin-';
+
+export interface CommandPluginContributions {
+  readonly namespaces: NamespaceMap;
+  readonly commands: CommandMap;
+}
+
+/**
+ * Find the module names of command plugins.
+ *
+ * Packages named `ionic-cli-plugin-*` (optionally scoped) are discovered next
+ * to the Ionic CLI itself, e.g. when installed globally alongside it. Plugins
+ * installed in the project must be opted into by listing their module names
+ * (or paths) in the `plugins` array of the global config.
+ */
+export async function findCommandPlugins(namespace: INamespace): Promise<string[]> {
+  const { config, ctx } = namespace.env;
+  const names = [...config.get('plugins', [])];
+  const dir = getCLIDirectory(namespace);
+
+  if (dir) {
+    const contents = await readDirSafe(dir);
+
+    for (const entry of contents) {
+      if (entry.startsWith(PLUGIN_PREFIX)) {
+        names.push(entry);
+      } else if (entry.startsWith('@')) {
+        const scoped = await readDirSafe(path.resolve(dir, entry));
+        names.push(...scoped.filter(e => e.startsWith(PLUGIN_PREFIX)).map(e => `${entry}/${e}`));
+      }
+    }
+  }
+
+  debug('Found command plugins for %s: %o', ctx.execPath, names);
+
+  return [...new Set(names)];
+}
+
+export function isCommandPlugin(obj: any): obj is CommandPlugin {
+  return obj &&
+    typeof obj === 'object' &&
+    (typeof obj.namespaces === 'undefined' || typeof obj.namespaces === 'object') &&
+    (typeof obj.commands === 'undefined' || typeof obj.commands === 'object');
+}
+
+/**
+ * Load command plugins and collect the namespaces and commands they
+ * contribute to the given namespace.
+ *
+ * Each namespace and command is instantiated and its metadata (including the
+ * metadata of all commands of a namespace) is read while loading. Plugins
+ * which fail to load and namespaces and commands which fail to instantiate
+ * are skipped with a warning so they cannot break core commands.
+ */
+export async function loadCommandPlugins(namespace: INamespace): Promise<CommandPluginContributions> {
+  const { log } = namespace.env;
+  const namespaces = new NamespaceMap();
+  const commands = new CommandMap();
+  const names = await findCommandPlugins(namespace);
+
+  if (names.length === 0) {
+    return { namespaces, commands };
+  }
+
+  const api: CommandPluginAPI = { Command, Namespace, CommandMap, NamespaceMap, FatalException };
+  const paths = getPluginDirectories(namespace);
+
+  for (const name of names) {
+    let plugin: CommandPlugin;
+
+    try {
+      const m = require(path.isAbsolute(name) ? name : resolve(name, { paths }));
+      const factory: CommandPluginFactory | undefined = typeof m === 'function' ? m : (m && typeof m.default === 'function' ? m.default : undefined);
+
+      if (!factory) {
+        throw new Error('Module must have a function for its default export.');
+      }
+
+      const result: unknown = factory(api);
+
+      if (!isCommandPlugin(result)) {
+        throw new Error('Plugin factory must return an object of namespaces and commands.');
+      }
+
+      plugin = result;
+    } catch (e) {
+      log.warn(`Could not load command plugin ${chalk.green(name)}: ${e.message}`);
+      continue;
+    }
+
+    for (const [ nsname, NamespaceClass ] of lodash.entries(plugin.namespaces)) {
+      try {
+        const ns = new NamespaceClass(namespace);
+
+        if (!(ns instanceof Namespace)) {
+          throw new Error('Namespaces must extend Namespace of the plugin API.');
+        }
+
+        await ns.getCommandMetadataList();
+        namespaces.set(nsname, async () => ns);
+        debug(`Registered namespace ${chalk.bold(nsname)} from ${chalk.bold(name)}`);
+      } catch (e) {
+        log.warn(`Could not load namespace ${chalk.green(nsname)} of command plugin ${chalk.green(name)}: ${e.message}`);
+      }
+    }
+
+    for (const [ cmdname, CommandClass ] of lodash.entries(plugin.commands)) {
+      try {
+        const cmd: ICommand = new CommandClass(namespace);
+
+        if (!(cmd instanceof Command)) {
+          throw new Error('Commands must extend Command of the plugin API.');
+        }
+
+        await cmd.getMetadata();
+        commands.set(cmdname, async () => cmd);
+        debug(`Registered command ${chalk.bold(cmdname)} from ${chalk.bold(name)}`);
+      } catch (e) {
+        log.warn(`Could not load command ${chalk.green(cmdname)} of command plugin ${chalk.green(name)}: ${e.message}`);
+      }
+    }
+  }
+
+  return { namespaces, commands };
+}
+
+/**
+ * Get the `node_modules` directory which contains the Ionic CLI, if any.
+ */
+function getCLIDirectory(namespace: INamespace): string | undefined {
+  const { ctx } = namespace.env;
+  const cliDir = path.dirname(ctx.libPath);
+
+  if (path.basename(cliDir) === 'node_modules') {
+    return cliDir;
+  }
+}
+
+function getPluginDirectories(namespace: INamespace): string[] {
+  const { ctx } = namespace.env;
+  const dirs = compileNodeModulesPaths(ctx.execPath);
+  const cliDir = getCLIDirectory(namespace);
+
+  if (cliDir && !dirs.includes(cliDir)) {
+    dirs.push(cliDir);
+  }
+
+  return dirs;
+}
@@ -0,0 +1,100 @@
+import { mkdirp, removeDirectory, writeFile, writeJsonFile } from '@ionic/utils-fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ProjectDetails } from '../';
+import { getProjectTypePlugins, loadProjectTypePlugins } from '../plugins';
+
+describe('ionic', () => {
+
+  describe('lib/project/plugins', () => {
+
+    const dir = path.resolve(os.tmpdir(), `ionic-project-type-plugins-${process.pid}`);
+    const log = { warn: jest.fn() };
+
+    const writePlugin = async (name: string, contents: string) => {
+      await mkdirp(path.resolve(dir, 'node_modules', name));
+      await writeFile(path.resolve(dir, 'node_modules', name, 'index.js'), contents, { encoding: 'utf8' });
+    };
+
+    beforeAll(async () => {
+      await writePlugin('stencil-type', `
+        module.exports = api => ({
+          type: 'stencil',
+          name: 'Stencil',
+          createProject: () => ({ type: 'stencil', detected: async () => true, api }),
+        });
+      `);
+
+      await writePlugin('es-type', `
+        exports.default = () => [{ type: 'vue', name: 'Vue', createProject: () => ({ type: 'vue', detected: async () => false }) }];
+      `);
+
+      await writePlugin('broken-type', `module.exports = { type: 'broken' };`);
+
+      await writeJsonFile(path.resolve(dir, 'ionic.config.json'), { name: 'app', projectTypePlugins: ['es-type', 'stencil-type'] }, { encoding: 'utf8' });
+    });
+
+    afterAll(async () => {
+      await removeDirectory(dir);
+    });
+
+    beforeEach(() => {
+      log.warn.mockReset();
+    });
+
+    describe('loadProjectTypePlugins', () => {
+
+      it('should load plugins from node_modules', async () => {
+        const plugins = await loadProjectTypePlugins(dir, ['stencil-type', 'es-type'], { log } as any);
+        expect(plugins.map(p => p.type)).toEqual(['stencil', 'vue']);
+        expect(log.warn).not.toHaveBeenCalled();
+      });
+
+      it('should pass the plugin api to the factory', async () => {
+        const [ plugin ] = await loadProjectTypePlugins(dir, ['stencil-type'], { log } as any);
+        const project: any = plugin.createProject({} as any, {} as any);
+        expect(Object.keys(project.api)).toEqual(['Project', 'BuildRunner', 'BuildCLI', 'ServeRunner', 'ServeCLI', 'GenerateRunner', 'Ailment', 'RunnerNotFoundException']);
+      });
+
+      it('should warn and skip plugins which fail to load', async () => {
+        const plugins = await loadProjectTypePlugins(dir, ['broken-type', 'missing-type', 'stencil-type'], { log } as any);
+        expect(plugins.map(p => p.type)).toEqual(['stencil']);
+        expect(log.warn).toHaveBeenCalledTimes(2);
+      });
+
+    });
+
+    describe('getProjectTypePlugins', () => {
+
+      it('should load plugins declared in project config', async () => {
+        const plugins = await getProjectTypePlugins(path.resolve(dir, 'ionic.config.json'), { log } as any);
+        expect(plugins.map(p => p.type)).toEqual(['vue', 'stencil']);
+      });
+
+      it('should not load plugins without project config', async () => {
+        const plugins = await getProjectTypePlugins(path.resolve(dir, 'missing', 'ionic.config.json'), { log } as any);
+        expect(plugins).toEqual([]);
+      });
+
+    });
+
+    describe('ProjectDetails', () => {
+
+      it('should detect project types of plugins', async () => {
+        const details = new ProjectDetails({ rootDirectory: dir, e: { log } as any });
+        const type = await details.getTypeFromDetection();
+        expect(type).toEqual('stencil');
+      });
+
+      it('should accept project types of plugins in config', async () => {
+        const details = new ProjectDetails({ rootDirectory: dir, e: { log } as any });
+        const types = await details.getProjectTypes();
+        expect(types).toEqual(['angular', 'ionic-angular', 'ionic1', 'custom', 'vue', 'stencil']);
+      });
+
+    });
+
+  });
+
+});
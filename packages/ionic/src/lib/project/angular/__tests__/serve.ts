@@ -21,10 +21,13 @@ describe('ionic', () => {
           labHost: 'localhost',
           labPort: 8200,
           livereload: true,
+          consolelogs: false,
           open: false,
           port: 8100,
           proxy: true,
           ssl: false,
+          strictPort: false,
+          control: false,
           project: undefined,
           prod: undefined,
           platform: undefined,
@@ -103,6 +106,36 @@ describe('ionic', () => {
           ]));
         });
 
+        it('should pass ssl options', async () => {
+          const runner = new AngularServeCLI({} as any);
+          const options = {
+            ...defaults,
+            engine: 'browser',
+            ssl: true,
+            sslKey: '/path/to/key.pem',
+            sslCert: '/path/to/cert.pem',
+          };
+
+          const result = await (runner as any).serveOptionsToNgArgs(options);
+          expect(result).toEqual(expect.arrayContaining([
+            '--ssl',
+            '--ssl-key=/path/to/key.pem',
+            '--ssl-cert=/path/to/cert.pem',
+          ]));
+        });
+
+        it('should pass proxy config', async () => {
+          const runner = new AngularServeCLI({} as any);
+          const options = {
+            ...defaults,
+            engine: 'browser',
+            proxyConfig: '/path/to/proxy.json',
+          };
+
+          const result = await (runner as any).serveOptionsToNgArgs(options);
+          expect(result).toContain('--proxy-config=/path/to/proxy.json');
+        });
+
       });
 
     });
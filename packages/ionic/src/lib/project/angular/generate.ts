@@ -112,7 +112,7 @@ To test a generator before file modifications are made, use the ${chalk.green('-
     };
   }
 
-  async run(options: AngularGenerateOptions) {
+  async generateProject(options: AngularGenerateOptions) {
     const { name } = options;
     const type = SCHEMATIC_ALIAS.get(options.type) || options.type;
 
@@ -1,9 +1,9 @@
 import chalk from 'chalk';
 
 import { CommandGroup, OptionGroup, ParsedArgs, unparseArgs } from '@ionic/cli-framework';
-import { findClosestOpenPort } from '@ionic/utils-network';
 
 import { AngularServeOptions, CommandLineInputs, CommandLineOptions, CommandMetadata, ServeDetails } from '../../../definitions';
+import { writeAngularProxyConfig } from '../../proxy';
 import { BIND_ALL_ADDRESS, LOCAL_ADDRESSES, SERVE_SCRIPT, ServeCLI, ServeRunner, ServeRunnerDeps } from '../../serve';
 
 import { AngularProject } from './';
@@ -33,6 +33,8 @@ export class AngularServeRunner extends ServeRunner<AngularServeOptions> {
       description: `
 ${chalk.green('ionic serve')} uses the Angular CLI. Use ${chalk.green('ng serve --help')} to list all Angular CLI options for serving your app. See the ${chalk.green('ng serve')} docs${chalk.cyan('[1]')} for explanations. Options not listed below are considered advanced and can be passed to the Angular CLI using the ${chalk.green('--')} separator after the Ionic CLI arguments. See the examples.
 
+Proxy rules in the ${chalk.green('proxies')} array of ${chalk.bold('ionic.config.json')} are translated into a proxy config file for the Angular CLI unless ${chalk.green('--proxy-config')} is passed to the Angular CLI.
+
 ${chalk.cyan('[1]')}: ${chalk.bold('https://github.com/angular/angular-cli/wiki/serve')}`,
       options: [
         {
@@ -84,14 +86,22 @@ ${chalk.cyan('[1]')}: ${chalk.bold('https://github.com/angular/angular-cli/wiki/
   async serveProject(options: AngularServeOptions): Promise<ServeDetails> {
     const [ externalIP, availableInterfaces ] = await this.selectExternalIP(options);
 
-    const port = options.port = await findClosestOpenPort(options.port);
+    const { port } = options;
+
+    if (options.proxies && options.proxies.length > 0) {
+      if (options['--'].some(arg => arg === '--proxy-config' || arg.startsWith('--proxy-config='))) {
+        this.e.log.warn(`Ignoring ${chalk.green('proxies')} of project config in favor of ${chalk.green('--proxy-config')}.`);
+      } else {
+        options.proxyConfig = await writeAngularProxyConfig(options.proxies);
+      }
+    }
 
-    const ng = new AngularServeCLI(this.e);
+    const ng = this.registerServeCLI(new AngularServeCLI(this.e));
     await ng.serve(options);
 
     return {
       custom: ng.resolvedProgram !== ng.program,
-      protocol: 'http',
+      protocol: options.ssl ? 'https' : 'http',
       localAddress: 'localhost',
       externalAddress: externalIP,
       externalNetworkInterfaces: availableInterfaces,
@@ -139,6 +149,10 @@ export class AngularServeCLI extends ServeCLI<AngularServeOptions> {
       _: [],
       host: options.address,
       port: String(options.port),
+      ssl: options.ssl,
+      'ssl-key': options.sslKey,
+      'ssl-cert': options.sslCert,
+      'proxy-config': options.proxyConfig,
       'source-map': options.sourcemaps !== false ? options.sourcemaps : 'false',
     };
 
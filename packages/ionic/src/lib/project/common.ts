@@ -1,52 +1,27 @@
-import { findClosestOpenPort } from '@ionic/utils-network';
-import chalk from 'chalk';
-import * as Debug from 'debug';
+import { reservePort } from '../serve';
 
-import { FatalException } from '../errors';
-
-const debug = Debug('ionic:lib:project:common');
+export interface IonicPortsOptions {
+  livereloadPort: number;
+  notificationPort: number;
+  strictPort: boolean;
+}
 
-export interface Ports {
-  port: number;
+export interface IonicPorts {
   livereloadPort: number;
   notificationPort: number;
 }
 
 /**
- * Convenience function for finding open ports of old-style projects.
+ * Convenience function for reserving open ports of old-style projects.
  *
  * For `ionic-angular` and `ionic1`, Ionic provides the livereload server and
- * "dev logger" server.
+ * "dev logger" server. The chosen ports are set in the options.
  */
-export async function findOpenIonicPorts(address: string, ports: Ports): Promise<Ports> {
-  try {
-    const [ port, livereloadPort, notificationPort ] = await Promise.all([
-      findClosestOpenPort(ports.port),
-      findClosestOpenPort(ports.livereloadPort),
-      findClosestOpenPort(ports.notificationPort),
-    ]);
-
-    if (ports.port !== port) {
-      debug(`Port ${chalk.bold(String(ports.port))} taken, using ${chalk.bold(String(port))}.`);
-      ports.port = port;
-    }
-
-    if (ports.livereloadPort !== livereloadPort) {
-      debug(`Port ${chalk.bold(String(ports.livereloadPort))} taken, using ${chalk.bold(String(livereloadPort))}.`);
-      ports.livereloadPort = livereloadPort;
-    }
-
-    if (ports.notificationPort !== notificationPort) {
-      debug(`Port ${chalk.bold(String(ports.notificationPort))} taken, using ${chalk.bold(String(notificationPort))}.`);
-      ports.notificationPort = notificationPort;
-    }
+export async function reserveIonicPorts(options: IonicPortsOptions): Promise<IonicPorts> {
+  const strict = options.strictPort;
 
-    return { port, livereloadPort, notificationPort };
-  } catch (e) {
-    if (e.code !== 'EADDRNOTAVAIL') {
-      throw e;
-    }
+  options.livereloadPort = await reservePort(options.livereloadPort, { name: 'live-reload server', option: '--livereload-port', strict });
+  options.notificationPort = await reservePort(options.notificationPort, { name: 'dev logger server', option: '--dev-logger-port', strict });
 
-    throw new FatalException(`${chalk.green(address)} is not available--cannot bind.`);
-  }
+  return { livereloadPort: options.livereloadPort, notificationPort: options.notificationPort };
 }
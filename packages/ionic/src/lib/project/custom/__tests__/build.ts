@@ -0,0 +1,59 @@
+import { RunnerException } from '../../../errors';
+import { CustomBuildRunner } from '../build';
+
+describe('ionic', () => {
+
+  describe('lib/project/custom/build', () => {
+
+    describe('CustomBuildRunner', () => {
+
+      const createDeps = (custom: any, scripts: any = {}) => ({
+        config: { get: () => 'npm' },
+        shell: { run: jest.fn(async () => undefined) },
+        project: {
+          directory: '/path/to/proj',
+          getCustomConfig: () => custom,
+          requirePackageJson: async () => ({ scripts }),
+        },
+      });
+
+      describe('createOptionsFromCommandLine', () => {
+
+        it('should provide defaults with no options', () => {
+          const runner = new CustomBuildRunner({} as any);
+          const result = runner.createOptionsFromCommandLine([], { _: [] });
+          expect(result).toEqual({ '--': [], engine: 'browser', platform: undefined, project: undefined, type: 'custom' });
+        });
+
+      });
+
+      describe('buildProject', () => {
+
+        const options = { '--': ['--mode', 'staging'], engine: 'browser', type: 'custom' as 'custom' };
+
+        it('should fail without a build command or npm script', async () => {
+          const runner = new CustomBuildRunner(createDeps({}) as any);
+          await expect(runner.buildProject(options)).rejects.toBeInstanceOf(RunnerException);
+        });
+
+        it('should run the build command in a shell', async () => {
+          const deps = createDeps({ buildCommand: 'vue-cli-service build' });
+          const runner = new CustomBuildRunner(deps as any);
+          await runner.buildProject(options);
+          expect(deps.shell.run).toHaveBeenCalledWith('vue-cli-service build', ['--mode', 'staging'], { cwd: '/path/to/proj', fatalOnNotFound: false, shell: true });
+        });
+
+        it('should run the npm script without a build command', async () => {
+          const deps = createDeps({}, { 'ionic:build': 'react-scripts build' });
+          const runner = new CustomBuildRunner(deps as any);
+          await runner.buildProject(options);
+          expect(deps.shell.run).toHaveBeenCalledWith('npm', ['run', 'ionic:build', '--', '--mode', 'staging'], { cwd: '/path/to/proj', fatalOnNotFound: false });
+        });
+
+      });
+
+    });
+
+  });
+
+});
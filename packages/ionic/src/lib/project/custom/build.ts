@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, CustomBuildOptions, IShellRunOptions } from '../../../definitions';
+import { BUILD_SCRIPT, BuildCLI, BuildRunner, BuildRunnerDeps } from '../../build';
+import { RunnerException } from '../../errors';
+
+import { CustomProject } from './';
+
+export interface CustomBuildRunnerDeps extends BuildRunnerDeps {
+  readonly project: CustomProject;
+}
+
+export class CustomBuildRunner extends BuildRunner<CustomBuildOptions> {
+  constructor(protected readonly e: CustomBuildRunnerDeps) {
+    super();
+  }
+
+  async getCommandMetadata(): Promise<Partial<CommandMetadata>> {
+    return {};
+  }
+
+  createOptionsFromCommandLine(inputs: CommandLineInputs, options: CommandLineOptions): CustomBuildOptions {
+    const baseOptions = super.createBaseOptionsFromCommandLine(inputs, options);
+
+    return {
+      ...baseOptions,
+      type: 'custom',
+    };
+  }
+
+  async buildProject(options: CustomBuildOptions): Promise<void> {
+    const pkg = await this.e.project.requirePackageJson();
+    const { buildCommand } = this.e.project.getCustomConfig();
+
+    if (!buildCommand && !(pkg.scripts && pkg.scripts[BUILD_SCRIPT])) {
+      throw new RunnerException(
+        `Cannot perform build for custom project.\n` +
+        `Set ${chalk.bold('custom.buildCommand')} in ${chalk.bold('ionic.config.json')} or add an ${chalk.green(BUILD_SCRIPT)} npm script to ${chalk.bold('package.json')}.`
+      );
+    }
+
+    const cli = new CustomBuildCLI(this.e, buildCommand);
+    await cli.build(options);
+  }
+}
+
+/**
+ * Runs the configured build command, falling back to the `ionic:build` npm
+ * script if there is no build command.
+ */
+class CustomBuildCLI extends BuildCLI<CustomBuildOptions> {
+  readonly name = 'Custom Build';
+  readonly pkg = '';
+  readonly program: string;
+  readonly script?: string;
+
+  constructor(e: BuildRunnerDeps, command?: string) {
+    super(e);
+    this.program = command ? command : BUILD_SCRIPT;
+    this.script = command ? undefined : BUILD_SCRIPT;
+  }
+
+  protected async buildRunOptions(options: CustomBuildOptions): Promise<IShellRunOptions> {
+    const runOptions = await super.buildRunOptions(options);
+
+    if (this.resolvedProgram === this.program) {
+      // the build command is a full shell command, not a program
+      return { ...runOptions, shell: true };
+    }
+
+    return runOptions;
+  }
+
+  protected async buildArgs(options: CustomBuildOptions): Promise<string[]> {
+    const { pkgManagerArgs } = await import('../../utils/npm');
+
+    if (this.resolvedProgram === this.program) {
+      return options['--'];
+    } else {
+      const [ , ...pkgArgs ] = await pkgManagerArgs(this.e.config.get('npmClient'), { command: 'run', script: this.script, scriptArgs: options['--'] });
+      return pkgArgs;
+    }
+  }
+}
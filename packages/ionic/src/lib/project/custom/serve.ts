@@ -0,0 +1,144 @@
+import { stripAnsi } from '@ionic/cli-framework/utils/format';
+import chalk from 'chalk';
+
+import { CommandMetadata, CustomServeOptions, IShellSpawnOptions, ServeDetails, ServePorts } from '../../../definitions';
+import { RunnerException } from '../../errors';
+import { BIND_ALL_ADDRESS, LOCAL_ADDRESSES, SERVE_SCRIPT, ServeCLI, ServeRunner, ServeRunnerDeps, reservePort } from '../../serve';
+
+import { CustomProject } from './';
+
+export interface CustomServeRunnerDeps extends ServeRunnerDeps {
+  readonly project: CustomProject;
+}
+
+export class CustomServeRunner extends ServeRunner<CustomServeOptions> {
+  constructor(protected readonly e: CustomServeRunnerDeps) {
+    super();
+  }
+
+  async getCommandMetadata(): Promise<Partial<CommandMetadata>> {
+    return {};
+  }
+
+  modifyOpenURL(url: string, options: CustomServeOptions): string {
+    return url;
+  }
+
+  protected async reserveServerPort(options: CustomServeOptions): Promise<number> {
+    const { servePort } = this.e.project.getCustomConfig();
+
+    // a configured port cannot be changed because the dev server may not
+    // respect the PORT environment variable
+    if (typeof servePort === 'number') {
+      return options.port = await reservePort(servePort, { name: 'dev server', option: 'custom.servePort', strict: true });
+    }
+
+    return super.reserveServerPort(options);
+  }
+
+  protected async reserveUpstreamPort(options: CustomServeOptions, ports: ServePorts): Promise<void> {
+    const { servePort } = this.e.project.getCustomConfig();
+
+    // the dev server keeps its configured port, so the proxy gets another
+    if (typeof servePort === 'number') {
+      ports.upstream = ports.server;
+      ports.server = await reservePort(ports.server + 1, { name: 'console logs proxy' });
+      return;
+    }
+
+    return super.reserveUpstreamPort(options, ports);
+  }
+
+  async serveProject(options: CustomServeOptions): Promise<ServeDetails> {
+    const pkg = await this.e.project.requirePackageJson();
+    const { serveCommand, serveReady } = this.e.project.getCustomConfig();
+
+    if (!serveCommand && !(pkg.scripts && pkg.scripts[SERVE_SCRIPT])) {
+      throw new RunnerException(
+        `Cannot perform serve for custom project.\n` +
+        `Set ${chalk.bold('custom.serveCommand')} in ${chalk.bold('ionic.config.json')} or add an ${chalk.green(SERVE_SCRIPT)} npm script to ${chalk.bold('package.json')}.`
+      );
+    }
+
+    let ready: RegExp | undefined;
+
+    try {
+      ready = serveReady ? new RegExp(serveReady) : undefined;
+    } catch (e) {
+      throw new RunnerException(`Invalid ${chalk.bold('custom.serveReady')} in ${chalk.bold('ionic.config.json')}: ${e.message}`);
+    }
+
+    const [ externalIP, availableInterfaces ] = await this.selectExternalIP(options);
+    const { port } = options;
+
+    const cli = this.registerServeCLI(new CustomServeCLI(this.e, serveCommand, ready));
+    await cli.serve(options);
+
+    return {
+      custom: cli.resolvedProgram !== cli.program,
+      protocol: options.ssl ? 'https' : 'http',
+      localAddress: 'localhost',
+      externalAddress: externalIP,
+      externalNetworkInterfaces: availableInterfaces,
+      port,
+      externallyAccessible: ![BIND_ALL_ADDRESS, ...LOCAL_ADDRESSES].includes(externalIP),
+    };
+  }
+}
+
+/**
+ * Spawns the configured serve command, falling back to the `ionic:serve` npm
+ * script if there is no serve command.
+ */
+class CustomServeCLI extends ServeCLI<CustomServeOptions> {
+  readonly name = 'Custom Dev Server';
+  readonly pkg = '';
+  readonly prefix = 'custom';
+  readonly program: string;
+  readonly script?: string;
+
+  constructor(e: ServeRunnerDeps, command: string | undefined, protected readonly ready?: RegExp) {
+    super(e);
+    this.program = command ? command : SERVE_SCRIPT;
+    this.script = command ? undefined : SERVE_SCRIPT;
+  }
+
+  protected stdoutFilter(line: string): boolean {
+    if (!this.ready) {
+      return super.stdoutFilter(line);
+    }
+
+    if (this.ready.test(stripAnsi(line))) {
+      this.emit('ready');
+    }
+
+    return true;
+  }
+
+  protected async buildSpawnOptions(options: CustomServeOptions): Promise<IShellSpawnOptions> {
+    const spawnOptions = await super.buildSpawnOptions(options);
+
+    return {
+      ...spawnOptions,
+      // the serve command is a full shell command, not a program
+      shell: this.resolvedProgram === this.program,
+      env: {
+        HOST: options.address,
+        PORT: String(options.port),
+        BROWSER: 'none', // the Ionic CLI opens the browser
+        ...options.sslKey && options.sslCert ? { HTTPS: 'true', SSL_KEY_FILE: options.sslKey, SSL_CRT_FILE: options.sslCert } : {},
+      },
+    };
+  }
+
+  protected async buildArgs(options: CustomServeOptions): Promise<string[]> {
+    const { pkgManagerArgs } = await import('../../utils/npm');
+
+    if (this.resolvedProgram === this.program) {
+      return options['--'];
+    } else {
+      const [ , ...pkgArgs ] = await pkgManagerArgs(this.e.config.get('npmClient'), { command: 'run', script: this.script, scriptArgs: options['--'] });
+      return pkgArgs;
+    }
+  }
+}
@@ -2,21 +2,23 @@ import { BaseConfig, BaseConfigOptions, ParsedArgs, PromptModule } from '@ionic/
 import { resolveValue } from '@ionic/cli-framework/utils/fn';
 import { TTY_WIDTH, prettyPath, wordWrap } from '@ionic/cli-framework/utils/format';
 import { ERROR_INVALID_PACKAGE_JSON, compileNodeModulesPaths, isValidPackageName, readPackageJsonFile, resolve } from '@ionic/cli-framework/utils/node';
-import { findBaseDirectory, readFile, writeFile, writeJsonFile } from '@ionic/utils-fs';
+import { findBaseDirectory, readFile, readJsonFile, writeFile, writeJsonFile } from '@ionic/utils-fs';
 import chalk from 'chalk';
 import * as Debug from 'debug';
 import * as lodash from 'lodash';
 import * as path from 'path';
 
 import { PROJECT_FILE, PROJECT_TYPES } from '../../constants';
-import { IAilmentRegistry, IClient, IConfig, IIntegration, ILogger, IMultiProjectConfig, IProject, IProjectConfig, ISession, IShell, InfoItem, IntegrationName, IonicContext, IonicEnvironmentFlags, PackageJson, ProjectIntegration, ProjectPersonalizationDetails, ProjectType } from '../../definitions';
+import { IAilmentRegistry, IClient, IConfig, IIntegration, ILogger, IMultiProjectConfig, IProject, IProjectConfig, ISession, IShell, InfoItem, IntegrationName, IonicContext, IonicEnvironmentFlags, PackageJson, ProjectIntegration, ProjectPersonalizationDetails, ProjectType, ProjectTypePlugin } from '../../definitions';
 import { isMultiProjectConfig, isProjectConfig } from '../../guards';
 import * as ζbuild from '../build';
-import { BaseException, FatalException, IntegrationNotFoundException, RunnerNotFoundException } from '../errors';
+import { BaseException, FatalException, IntegrationMissingException, IntegrationNotFoundException, RunnerNotFoundException } from '../errors';
 import * as ζgenerate from '../generate';
 import { BaseIntegration } from '../integrations';
 import * as ζserve from '../serve';
 
+import { getProjectTypePlugin, getProjectTypePlugins } from './plugins';
+
 const debug = Debug('ionic:lib:project');
 
 export interface ProjectDetailsResultBase {
@@ -62,6 +64,7 @@ export class ProjectDetailsError extends BaseException {
 export interface ProjectDetailsDeps {
   readonly rootDirectory: string;
   readonly args?: ParsedArgs;
+  readonly plugins?: ReadonlyArray<ProjectTypePlugin>;
   readonly e: ProjectDeps;
 }
 
@@ -70,11 +73,32 @@ export class ProjectDetails {
 
   protected readonly e: ProjectDeps;
   protected readonly args: ParsedArgs;
+  protected plugins?: ReadonlyArray<ProjectTypePlugin>;
 
-  constructor({ rootDirectory, args = { _: [] }, e }: ProjectDetailsDeps) {
+  constructor({ rootDirectory, args = { _: [] }, plugins, e }: ProjectDetailsDeps) {
     this.rootDirectory = rootDirectory;
     this.e = e;
     this.args = args;
+    this.plugins = plugins;
+  }
+
+  /**
+   * Get the project type plugins declared in the project config.
+   */
+  async getPlugins(): Promise<ReadonlyArray<ProjectTypePlugin>> {
+    if (!this.plugins) {
+      this.plugins = await getProjectTypePlugins(path.resolve(this.rootDirectory, PROJECT_FILE), this.e);
+    }
+
+    return this.plugins;
+  }
+
+  /**
+   * Get the built-in project types and the project types of plugins.
+   */
+  async getProjectTypes(): Promise<ProjectType[]> {
+    const plugins = await this.getPlugins();
+    return [...PROJECT_TYPES, ...plugins.map(p => p.type)];
   }
 
   async getIdFromArgs(): Promise<string | undefined> {
@@ -122,8 +146,12 @@ export class ProjectDetails {
   }
 
   async getTypeFromDetection(): Promise<ProjectType | undefined> {
-    for (const projectType of PROJECT_TYPES) {
-      const p = await createProjectFromDetails({ context: 'app', configPath: path.resolve(this.rootDirectory, PROJECT_FILE), type: projectType, errors: [] }, this.e);
+    const plugins = await this.getPlugins();
+
+    // plugins are consulted first so they may claim projects which would
+    // otherwise be detected as a built-in project type
+    for (const projectType of [...plugins.map(plugin => plugin.type), ...PROJECT_TYPES]) {
+      const p = await createProjectFromDetails({ context: 'app', configPath: path.resolve(this.rootDirectory, PROJECT_FILE), type: projectType, errors: [] }, this.e, plugins);
       const type = p.type;
 
       if (await p.detected()) {
@@ -143,7 +171,7 @@ export class ProjectDetails {
 
     if (!type) {
       errors.push(new ProjectDetailsError('Could not determine project type', 'ERR_MISSING_PROJECT_TYPE'));
-    } else if (!PROJECT_TYPES.includes(type)) {
+    } else if (!(await this.getProjectTypes()).includes(type)) {
       errors.push(new ProjectDetailsError(`Invalid project type: ${type}`, 'ERR_INVALID_PROJECT_TYPE'));
       type = undefined;
     }
@@ -183,6 +211,7 @@ export class ProjectDetails {
     const errorCodes = result.errors.map(e => e.code);
     const e1 = result.errors.find(e => e.code === 'ERR_INVALID_PROJECT_FILE');
     const e2 = result.errors.find(e => e.code === 'ERR_INVALID_PROJECT_TYPE');
+    const projectTypes = [...PROJECT_TYPES, ...(this.plugins ? this.plugins.map(p => p.type) : [])];
 
     if (e1) {
       log.error(
@@ -221,7 +250,7 @@ export class ProjectDetails {
         `- ${wordWrap(`For ${chalk.bold(prettyProjectName('angular'))} projects, make sure ${chalk.green('@ionic/angular')} is listed as a dependency in ${chalk.bold('package.json')}.`, listWrapOptions)}\n` +
         `- ${wordWrap(`For ${chalk.bold(prettyProjectName('ionic-angular'))} projects, make sure ${chalk.green('ionic-angular')} is listed as a dependency in ${chalk.bold('package.json')}.`, listWrapOptions)}\n` +
         `- ${wordWrap(`For ${chalk.bold(prettyProjectName('ionic1'))} projects, make sure ${chalk.green('ionic')} is listed as a dependency in ${chalk.bold('bower.json')}.`, listWrapOptions)}\n\n` +
-        `Alternatively, set ${chalk.bold('type')} attribute in ${chalk.bold(prettyPath(result.configPath))} to one of: ${PROJECT_TYPES.map(v => chalk.green(v)).join(', ')}.\n\n` +
+        `Alternatively, set ${chalk.bold('type')} attribute in ${chalk.bold(prettyPath(result.configPath))} to one of: ${projectTypes.map(v => chalk.green(v)).join(', ')}.\n\n` +
         `If the Ionic CLI does not know what type of project this is, ${chalk.green('ionic build')}, ${chalk.green('ionic serve')}, and other commands may not work. You can use the ${chalk.green('custom')} project type if that's okay.`
       );
 
@@ -231,7 +260,7 @@ export class ProjectDetails {
     if (e2) {
       log.error(
         `${e2.message} (project config: ${chalk.bold(prettyPath(result.configPath))}).\n` +
-        `Project type must be one of: ${PROJECT_TYPES.map(v => chalk.green(v)).join(', ')}`
+        `Project type must be one of: ${projectTypes.map(v => chalk.green(v)).join(', ')}`
       );
 
       log.nl();
@@ -288,7 +317,13 @@ export class ProjectDetails {
   }
 }
 
-export async function createProjectFromDetails(details: ProjectDetailsResult, deps: ProjectDeps): Promise<IProject> {
+/**
+ * Create a project of the type in the given details.
+ *
+ * Types which are not built-in are looked up in the given plugins, or, if not
+ * given, in the plugins declared in the project config.
+ */
+export async function createProjectFromDetails(details: ProjectDetailsResult, deps: ProjectDeps, plugins?: ReadonlyArray<ProjectTypePlugin>): Promise<IProject> {
   let project: IProject | undefined;
   const { type } = details;
 
@@ -305,7 +340,13 @@ export async function createProjectFromDetails(details: ProjectDetailsResult, de
     const { CustomProject } = await import('./custom');
     project = new CustomProject(details, deps);
   } else {
-    throw new FatalException(`Bad project type: ${chalk.bold(String(type))}`); // TODO?
+    const plugin = type ? (plugins ? plugins.find(p => p.type === type) : await getProjectTypePlugin(details.configPath, type, deps)) : undefined;
+
+    if (!plugin) {
+      throw new FatalException(`Bad project type: ${chalk.bold(String(type))}`); // TODO?
+    }
+
+    project = plugin.createProject(details, deps);
   }
 
   return project;
@@ -315,6 +356,14 @@ export async function findProjectDirectory(cwd: string): Promise<string | undefi
   return findBaseDirectory(cwd, PROJECT_FILE);
 }
 
+/**
+ * Get the ids of the apps in a multi-app project config file.
+ */
+export async function getMultiAppProjectIds(configPath: string): Promise<string[]> {
+  const config = await readJsonFile(configPath);
+  return isMultiProjectConfig(config) ? Object.keys(config.projects) : [];
+}
+
 export interface CreateProjectFromDirectoryOptions {
   logErrors?: boolean;
 }
@@ -570,11 +619,11 @@ export abstract class Project implements IProject {
     const integration = this.getIntegration(name);
 
     if (!integration) {
-      throw new FatalException(`Could not find ${chalk.bold(name)} integration in the ${chalk.bold(id ? id : 'default')} project.`);
+      throw new IntegrationMissingException(`Could not find ${chalk.bold(name)} integration in the ${chalk.bold(id ? id : 'default')} project.`);
     }
 
     if (!integration.enabled) {
-      throw new FatalException(`${chalk.bold(name)} integration is disabled in the ${chalk.bold(id ? id : 'default')} project.`);
+      throw new IntegrationMissingException(`${chalk.bold(name)} integration is disabled in the ${chalk.bold(id ? id : 'default')} project.`);
     }
 
     return integration;
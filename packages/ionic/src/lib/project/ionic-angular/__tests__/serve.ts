@@ -29,6 +29,8 @@ describe('ionic', () => {
           proxy: true,
           serverlogs: false,
           ssl: false,
+          strictPort: false,
+          control: false,
           project: undefined
         };
 
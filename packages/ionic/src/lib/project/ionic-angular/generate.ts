@@ -99,7 +99,7 @@ The given ${chalk.green('name')} is normalized into an appropriate naming conven
     };
   }
 
-  async run(options: IonicAngularGenerateOptions) {
+  async generateProject(options: IonicAngularGenerateOptions) {
     const AppScripts = await importAppScripts(this.e.project.directory);
 
     const appScriptsArgs = unparseArgs({ _: [], module: options.module, constants: options.constants }, { useEquals: false, ignoreFalse: true, allowCamelCase: true });
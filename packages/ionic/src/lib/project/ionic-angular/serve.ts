@@ -3,9 +3,10 @@ import { str2num } from '@ionic/cli-framework/utils/string';
 import chalk from 'chalk';
 import * as Debug from 'debug';
 
-import { CommandLineInputs, CommandLineOptions, CommandMetadata, IonicAngularServeOptions, ServeDetails } from '../../../definitions';
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, IonicAngularServeOptions, ProxyConfig, ServeDetails, ServePorts } from '../../../definitions';
+import { getAppScriptsUnsupportedProxyOptions } from '../../proxy';
 import { BIND_ALL_ADDRESS, DEFAULT_DEV_LOGGER_PORT, DEFAULT_LIVERELOAD_PORT, LOCAL_ADDRESSES, SERVE_SCRIPT, ServeCLI, ServeRunner, ServeRunnerDeps } from '../../serve';
-import { findOpenIonicPorts } from '../common';
+import { reserveIonicPorts } from '../common';
 
 import { IonicAngularProject } from './';
 import { APP_SCRIPTS_OPTIONS } from './app-scripts';
@@ -20,6 +21,8 @@ export interface IonicAngularServeRunnerDeps extends ServeRunnerDeps {
 }
 
 export class IonicAngularServeRunner extends ServeRunner<IonicAngularServeOptions> {
+  protected readonly forwardsConsoleLogs = true;
+
   constructor(protected readonly e: IonicAngularServeRunnerDeps) {
     super();
   }
@@ -27,13 +30,6 @@ export class IonicAngularServeRunner extends ServeRunner<IonicAngularServeOption
   async getCommandMetadata(): Promise<Partial<CommandMetadata>> {
     return {
       options: [
-        {
-          name: 'consolelogs',
-          summary: 'Print app console logs to Ionic CLI',
-          type: Boolean,
-          aliases: ['c'],
-          hint: chalk.dim('[app-scripts]'),
-        },
         {
           name: 'serverlogs',
           summary: 'Print dev server logs to Ionic CLI',
@@ -90,7 +86,6 @@ export class IonicAngularServeRunner extends ServeRunner<IonicAngularServeOption
     return {
       ...baseOptions,
       sourcemaps,
-      consolelogs: options['consolelogs'] ? true : false,
       serverlogs: options['serverlogs'] ? true : false,
       livereloadPort,
       notificationPort,
@@ -102,20 +97,27 @@ export class IonicAngularServeRunner extends ServeRunner<IonicAngularServeOption
     return `${url}${options.browserOption ? options.browserOption : ''}${options.platform ? `?ionicplatform=${options.platform}` : ''}`;
   }
 
+  async reservePorts(options: IonicAngularServeOptions): Promise<ServePorts> {
+    const ports = await super.reservePorts(options);
+    const { livereloadPort, notificationPort } = await reserveIonicPorts(options);
+
+    return { ...ports, livereload: livereloadPort, devLogger: notificationPort };
+  }
+
   async serveProject(options: IonicAngularServeOptions): Promise<ServeDetails> {
     const [ externalIP, availableInterfaces ] = await this.selectExternalIP(options);
-    const { port, livereloadPort, notificationPort } = await findOpenIonicPorts(options.address, options);
+    const { port } = options;
 
-    options.port = port;
-    options.livereloadPort = livereloadPort;
-    options.notificationPort = notificationPort;
+    if (options.proxies) {
+      this.warnUnsupportedProxyOptions(options.proxies);
+    }
 
-    const appscripts = new IonicAngularServeCLI(this.e);
+    const appscripts = this.registerServeCLI(new IonicAngularServeCLI(this.e));
     await appscripts.serve(options);
 
     return {
       custom: appscripts.resolvedProgram !== appscripts.program,
-      protocol: 'http',
+      protocol: options.ssl ? 'https' : 'http',
       localAddress: 'localhost',
       externalAddress: externalIP,
       externalNetworkInterfaces: availableInterfaces,
@@ -123,6 +125,20 @@ export class IonicAngularServeRunner extends ServeRunner<IonicAngularServeOption
       externallyAccessible: ![BIND_ALL_ADDRESS, ...LOCAL_ADDRESSES].includes(externalIP),
     };
   }
+
+  /**
+   * App Scripts reads the proxy rules from `ionic.config.json` itself, but
+   * only understands some of their options.
+   */
+  protected warnUnsupportedProxyOptions(proxies: ReadonlyArray<ProxyConfig>): void {
+    for (const proxy of proxies) {
+      const unsupported = getAppScriptsUnsupportedProxyOptions(proxy);
+
+      if (unsupported.length > 0) {
+        this.e.log.warn(`Ignoring ${unsupported.map(k => chalk.green(k)).join(', ')} of proxy rule for ${chalk.bold(proxy.path)}: not supported by App Scripts.`);
+      }
+    }
+  }
 }
 
 class IonicAngularServeCLI extends ServeCLI<IonicAngularServeOptions> {
@@ -165,6 +181,9 @@ class IonicAngularServeCLI extends ServeCLI<IonicAngularServeOptions> {
       port: String(options.port),
       'livereload-port': String(options.livereloadPort),
       'dev-logger-port': String(options.notificationPort),
+      ssl: options.ssl,
+      'ssl-key': options.sslKey,
+      'ssl-cert': options.sslCert,
       consolelogs: options.consolelogs,
       serverlogs: options.serverlogs,
       nobrowser: true,
@@ -28,6 +28,8 @@ describe('ionic', () => {
           proxy: true,
           serverlogs: false,
           ssl: false,
+          strictPort: false,
+          control: false,
           project: undefined
         };
 
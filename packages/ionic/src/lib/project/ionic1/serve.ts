@@ -1,9 +1,9 @@
 import { OptionGroup } from '@ionic/cli-framework';
 import { str2num } from '@ionic/cli-framework/utils/string';
 
-import { CommandLineInputs, CommandLineOptions, CommandMetadata, Ionic1ServeOptions, ServeDetails } from '../../../definitions';
+import { CommandLineInputs, CommandLineOptions, CommandMetadata, Ionic1ServeOptions, ServeDetails, ServePorts } from '../../../definitions';
 import { BIND_ALL_ADDRESS, DEFAULT_DEV_LOGGER_PORT, DEFAULT_LIVERELOAD_PORT, LOCAL_ADDRESSES, SERVE_SCRIPT, ServeCLI, ServeRunner, ServeRunnerDeps } from '../../serve';
-import { findOpenIonicPorts } from '../common';
+import { reserveIonicPorts } from '../common';
 
 import { Ionic1Project } from './';
 
@@ -12,6 +12,8 @@ export interface Ionic1ServeRunnerDeps extends ServeRunnerDeps {
 }
 
 export class Ionic1ServeRunner extends ServeRunner<Ionic1ServeOptions> {
+  protected readonly forwardsConsoleLogs = true;
+
   constructor(protected readonly e: Ionic1ServeRunnerDeps) {
     super();
   }
@@ -19,12 +21,6 @@ export class Ionic1ServeRunner extends ServeRunner<Ionic1ServeOptions> {
   async getCommandMetadata(): Promise<Partial<CommandMetadata>> {
     return {
       options: [
-        {
-          name: 'consolelogs',
-          summary: 'Print app console logs to Ionic CLI',
-          type: Boolean,
-          aliases: ['c'],
-        },
         {
           name: 'serverlogs',
           summary: 'Print dev server logs to Ionic CLI',
@@ -64,7 +60,6 @@ export class Ionic1ServeRunner extends ServeRunner<Ionic1ServeOptions> {
 
     return {
       ...baseOptions,
-      consolelogs: options['consolelogs'] ? true : false,
       serverlogs: options['serverlogs'] ? true : false,
       livereloadPort,
       notificationPort,
@@ -75,20 +70,23 @@ export class Ionic1ServeRunner extends ServeRunner<Ionic1ServeOptions> {
     return `${url}${options.browserOption ? options.browserOption : ''}${options.platform ? `?ionicplatform=${options.platform}` : ''}`;
   }
 
+  async reservePorts(options: Ionic1ServeOptions): Promise<ServePorts> {
+    const ports = await super.reservePorts(options);
+    const { livereloadPort, notificationPort } = await reserveIonicPorts(options);
+
+    return { ...ports, livereload: livereloadPort, devLogger: notificationPort };
+  }
+
   async serveProject(options: Ionic1ServeOptions): Promise<ServeDetails> {
     const [ externalIP, availableInterfaces ] = await this.selectExternalIP(options);
-    const { port, livereloadPort, notificationPort } = await findOpenIonicPorts(options.address, options);
-
-    options.port = port;
-    options.livereloadPort = livereloadPort;
-    options.notificationPort = notificationPort;
+    const { port } = options;
 
-    const v1 = new Ionic1ServeCLI(this.e);
+    const v1 = this.registerServeCLI(new Ionic1ServeCLI(this.e));
     await v1.serve(options);
 
     return {
       custom: v1.resolvedProgram !== v1.program,
-      protocol: 'http',
+      protocol: options.ssl ? 'https' : 'http',
       localAddress: 'localhost',
       externalAddress: externalIP,
       externalNetworkInterfaces: availableInterfaces,
@@ -133,6 +131,10 @@ class Ionic1ServeCLI extends ServeCLI<Ionic1ServeOptions> {
       args.push(`--platform=${options.platform}`);
     }
 
+    if (options.sslKey && options.sslCert) {
+      args.push('--ssl', `--ssl-key=${options.sslKey}`, `--ssl-cert=${options.sslCert}`);
+    }
+
     if (options.consolelogs) {
       args.push('-c');
     }
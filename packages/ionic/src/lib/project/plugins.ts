@@ -0,0 +1,122 @@
+import { conform } from '@ionic/cli-framework/utils/array';
+import { compileNodeModulesPaths, resolve } from '@ionic/cli-framework/utils/node';
+import { readJsonFile } from '@ionic/utils-fs';
+import chalk from 'chalk';
+import * as Debug from 'debug';
+import * as lodash from 'lodash';
+import * as path from 'path';
+
+import { ILogger, ProjectTypePlugin, ProjectTypePluginAPI, ProjectTypePluginFactory } from '../../definitions';
+import { isMultiProjectConfig } from '../../guards';
+
+const debug = Debug('ionic:lib:project:plugins');
+
+const cache = new Map<string, Promise<ReadonlyArray<ProjectTypePlugin>>>();
+
+export interface ProjectTypePluginsDeps {
+  readonly log: ILogger;
+}
+
+/**
+ * Load the project type plugins declared with `projectTypePlugins` in the
+ * given project config file.
+ *
+ * Plugins are resolved from the `node_modules` of the project. Plugins which
+ * fail to load are skipped with a warning.
+ */
+export async function getProjectTypePlugins(configPath: string, deps: ProjectTypePluginsDeps): Promise<ReadonlyArray<ProjectTypePlugin>> {
+  let p = cache.get(configPath);
+
+  if (!p) {
+    p = readPluginNames(configPath).then(names => loadProjectTypePlugins(path.dirname(configPath), names, deps));
+    cache.set(configPath, p);
+  }
+
+  return p;
+}
+
+export async function getProjectTypePlugin(configPath: string, type: string, deps: ProjectTypePluginsDeps): Promise<ProjectTypePlugin | undefined> {
+  const plugins = await getProjectTypePlugins(configPath, deps);
+  return plugins.find(plugin => plugin.type === type);
+}
+
+export function isProjectTypePlugin(obj: any): obj is ProjectTypePlugin {
+  return obj &&
+    typeof obj.type === 'string' &&
+    typeof obj.name === 'string' &&
+    typeof obj.createProject === 'function';
+}
+
+/**
+ * Load project type plugins by module name, resolved from the `node_modules`
+ * of the given directory.
+ */
+export async function loadProjectTypePlugins(directory: string, names: ReadonlyArray<string>, { log }: ProjectTypePluginsDeps): Promise<ReadonlyArray<ProjectTypePlugin>> {
+  if (names.length === 0) {
+    return [];
+  }
+
+  const api = await createProjectTypePluginAPI();
+  const paths = compileNodeModulesPaths(directory);
+  const plugins: ProjectTypePlugin[] = [];
+
+  for (const name of names) {
+    try {
+      const m = require(resolve(name, { paths }));
+      const factory: ProjectTypePluginFactory | undefined = typeof m === 'function' ? m : (m && typeof m.default === 'function' ? m.default : undefined);
+
+      if (!factory) {
+        throw new Error(`Module must have a function for its default export.`);
+      }
+
+      for (const plugin of conform(factory(api))) {
+        if (!isProjectTypePlugin(plugin)) {
+          throw new Error(`Plugins must have ${chalk.bold('type')}, ${chalk.bold('name')} and ${chalk.bold('createProject')}.`);
+        }
+
+        debug(`Registered project type ${chalk.bold(plugin.type)} from ${chalk.bold(name)}`);
+        plugins.push(plugin);
+      }
+    } catch (e) {
+      log.warn(`Could not load project type plugin ${chalk.green(name)}: ${e.message}`);
+    }
+  }
+
+  return plugins;
+}
+
+async function readPluginNames(configPath: string): Promise<string[]> {
+  let config: any;
+
+  try {
+    config = await readJsonFile(configPath);
+  } catch (e) {
+    debug('Could not read %s: %o', configPath, e);
+    return [];
+  }
+
+  const names = conform<string>(config.projectTypePlugins);
+
+  if (isMultiProjectConfig(config)) {
+    for (const app of lodash.values(config.projects)) {
+      if (app) {
+        names.push(...conform<string>(app.projectTypePlugins));
+      }
+    }
+  }
+
+  return lodash.uniq(names);
+}
+
+async function createProjectTypePluginAPI(): Promise<ProjectTypePluginAPI> {
+  const [ { Project }, { BuildCLI, BuildRunner }, { ServeCLI, ServeRunner }, { GenerateRunner }, { Ailment }, { RunnerNotFoundException } ] = await Promise.all([
+    import('./'),
+    import('../build'),
+    import('../serve'),
+    import('../generate'),
+    import('../doctor/ailments/base'),
+    import('../errors'),
+  ]);
+
+  return { Project, BuildRunner, BuildCLI, ServeRunner, ServeCLI, GenerateRunner, Ailment, RunnerNotFoundException };
+}
@@ -0,0 +1,181 @@
+import { prettyPath } from '@ionic/cli-framework/utils/format';
+import { tmpfilepath, writeFile } from '@ionic/utils-fs';
+import chalk from 'chalk';
+import * as lodash from 'lodash';
+import * as url from 'url';
+
+import { IProject, ProxyConfig } from '../definitions';
+
+import { FatalException } from './errors';
+
+const PROXY_URL_PROTOCOLS = ['http:', 'https:', 'ws:', 'wss:'];
+
+/**
+ * Options of proxy rules which are not understood by `@ionic/app-scripts`.
+ */
+export const APP_SCRIPTS_UNSUPPORTED_PROXY_OPTIONS: ReadonlyArray<keyof ProxyConfig> = ['headers', 'pathRewrite', 'ws'];
+
+export interface AngularProxyOptions {
+  target: string;
+  changeOrigin: boolean;
+  logLevel: string;
+  pathRewrite: { [key: string]: string; };
+  secure: boolean;
+  ws: boolean;
+  headers?: { [key: string]: string; };
+  agent?: false;
+}
+
+/**
+ * The format of the proxy config file of the Angular CLI (`--proxy-config`),
+ * which maps paths to options of `http-proxy-middleware`.
+ */
+export interface AngularProxyConfig {
+  [path: string]: AngularProxyOptions;
+}
+
+/**
+ * Get the proxy rules of a project.
+ *
+ * The rules are validated up front so mistakes are reported before the dev
+ * server starts.
+ */
+export function getProjectProxyConfigs(project: IProject): ProxyConfig[] {
+  const proxies = project.config.get('proxies');
+
+  if (typeof proxies === 'undefined') {
+    return [];
+  }
+
+  const errors = validateProxyConfigs(proxies);
+
+  if (errors.length > 0) {
+    throw new FatalException(
+      `Invalid ${chalk.green('proxies')} in ${chalk.bold(prettyPath(project.filePath))}:\n\n` +
+      errors.map(e => ` - ${e}`).join('\n')
+    );
+  }
+
+  return proxies;
+}
+
+/**
+ * Validate proxy rules, returning a list of problems.
+ */
+export function validateProxyConfigs(proxies: any): string[] {
+  if (!Array.isArray(proxies)) {
+    return [`${chalk.green('proxies')} must be an array of proxy rules.`];
+  }
+
+  const errors: string[] = [];
+  const paths = new Set<string>();
+
+  proxies.forEach((proxy: any, i) => {
+    const key = (k: string) => chalk.green(`proxies[${i}]${k ? `.${k}` : ''}`);
+
+    if (!proxy || typeof proxy !== 'object') {
+      errors.push(`${key('')} must be an object.`);
+      return;
+    }
+
+    if (typeof proxy.path !== 'string' || !proxy.path.startsWith('/')) {
+      errors.push(`${key('path')} must be a URL path beginning with ${chalk.bold('/')}.`);
+    } else if (paths.has(proxy.path)) {
+      errors.push(`${key('path')} is a duplicate of ${chalk.bold(proxy.path)}.`);
+    } else {
+      paths.add(proxy.path);
+    }
+
+    if (typeof proxy.proxyUrl !== 'string' || !isProxyUrl(proxy.proxyUrl)) {
+      errors.push(`${key('proxyUrl')} must be an absolute URL using ${PROXY_URL_PROTOCOLS.map(p => chalk.bold(p.slice(0, -1))).join(', ')}.`);
+    }
+
+    for (const k of ['headers', 'pathRewrite']) {
+      if (typeof proxy[k] !== 'undefined' && !isStringMap(proxy[k])) {
+        errors.push(`${key(k)} must be an object of strings.`);
+      }
+    }
+
+    if (isStringMap(proxy.pathRewrite)) {
+      for (const pattern of Object.keys(proxy.pathRewrite)) {
+        try {
+          new RegExp(pattern); // tslint:disable-line:no-unused-expression
+        } catch (e) {
+          errors.push(`${key('pathRewrite')} has an invalid regular expression: ${chalk.bold(pattern)}.`);
+        }
+      }
+    }
+
+    for (const k of ['ws', 'rejectUnauthorized', 'proxyNoAgent']) {
+      if (typeof proxy[k] !== 'undefined' && typeof proxy[k] !== 'boolean') {
+        errors.push(`${key(k)} must be a boolean.`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Translate proxy rules into the proxy config of the Angular CLI.
+ *
+ * Like `@ionic/v1-toolkit` and `@ionic/app-scripts`, the path of a rule is
+ * removed from proxied requests unless the rule has its own `pathRewrite`.
+ */
+export function proxyConfigsToAngularProxyConfig(proxies: ReadonlyArray<ProxyConfig>): AngularProxyConfig {
+  const config: AngularProxyConfig = {};
+
+  for (const proxy of proxies) {
+    const options: AngularProxyOptions = {
+      target: proxy.proxyUrl,
+      changeOrigin: true,
+      logLevel: 'warn',
+      pathRewrite: proxy.pathRewrite ? proxy.pathRewrite : { [`^${lodash.escapeRegExp(proxy.path)}`]: '' },
+      secure: proxy.rejectUnauthorized !== false,
+      ws: proxy.ws !== false,
+    };
+
+    if (proxy.headers) {
+      options.headers = proxy.headers;
+    }
+
+    if (proxy.proxyNoAgent) {
+      options.agent = false;
+    }
+
+    config[proxy.path] = options;
+  }
+
+  return config;
+}
+
+/**
+ * Write the proxy config of the Angular CLI for proxy rules to a temporary
+ * file.
+ *
+ * @return The path to the file.
+ */
+export async function writeAngularProxyConfig(proxies: ReadonlyArray<ProxyConfig>): Promise<string> {
+  const p = `${tmpfilepath('ionic-proxy')}.json`;
+  await writeFile(p, JSON.stringify(proxyConfigsToAngularProxyConfig(proxies), undefined, 2), { encoding: 'utf8' });
+  return p;
+}
+
+/**
+ * Get the options of a proxy rule which `@ionic/app-scripts` ignores.
+ */
+export function getAppScriptsUnsupportedProxyOptions(proxy: ProxyConfig): string[] {
+  return APP_SCRIPTS_UNSUPPORTED_PROXY_OPTIONS.filter(k => typeof proxy[k] !== 'undefined');
+}
+
+function isProxyUrl(u: string): boolean {
+  const { protocol, host } = url.parse(u);
+  return typeof protocol === 'string' && PROXY_URL_PROTOCOLS.includes(protocol) && typeof host === 'string' && host.length > 0;
+}
+
+function isStringMap(obj: any): obj is { [key: string]: string; } {
+  return obj &&
+    typeof obj === 'object' &&
+    !Array.isArray(obj) &&
+    lodash.values(obj).every(v => typeof v === 'string');
+}
@@ -0,0 +1,243 @@
+import * as crypto from 'crypto';
+import * as Debug from 'debug';
+import * as http from 'http';
+import * as net from 'net';
+import * as url from 'url';
+import * as WebSocket from 'ws';
+
+import { ServeStatus } from '../definitions';
+
+const debug = Debug('ionic:lib:serve-control');
+
+export const CONTROL_HOST = '127.0.0.1';
+export const CONTROL_WS_PATH = '/ws';
+
+export type ServeControlCommand = 'open' | 'restart' | 'stop';
+
+export const SERVE_CONTROL_COMMANDS: ReadonlyArray<ServeControlCommand> = ['open', 'restart', 'stop'];
+
+export interface ServeControlHandlers {
+  /**
+   * Get the current status of the dev server.
+   */
+  getStatus(): ServeStatus;
+
+  /**
+   * Run a command. The returned object, if any, is sent back to the client.
+   */
+  runCommand(command: ServeControlCommand): Promise<{ [key: string]: any; } | void>;
+}
+
+/**
+ * Message sent to WebSocket clients.
+ *
+ * Clients receive the status on connect and whenever it changes, and the
+ * result of each command they send.
+ */
+export type ServeControlMessage = (
+  { type: 'status'; data: ServeStatus; } |
+  { type: 'result'; id?: string | number; command: string; ok: true; data?: { [key: string]: any; }; } |
+  { type: 'result'; id?: string | number; command: string; ok: false; error: string; }
+);
+
+/**
+ * Local HTTP and WebSocket API for controlling a running dev server.
+ *
+ * The server only binds to the loopback interface and every request must
+ * carry the token, so other users and web pages cannot control the dev
+ * server.
+ *
+ * HTTP:
+ *
+ *   GET /status                   the status of the dev server
+ *   POST /open, /restart, /stop   run a command
+ *
+ * WebSocket (`/ws`): the status is pushed to clients, which send commands as
+ * `{ "id": 1, "command": "restart" }`.
+ */
+export class ServeControlServer {
+  readonly token: string;
+
+  protected server?: http.Server;
+  protected wss?: WebSocket.Server;
+
+  constructor(readonly port: number, protected readonly handlers: ServeControlHandlers, token = createControlToken()) {
+    this.token = token;
+  }
+
+  get url(): string {
+    return `http://${CONTROL_HOST}:${this.port}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('control server already started');
+    }
+
+    const server = this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    const wss = this.wss = new WebSocket.Server({ noServer: true });
+
+    server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      const { pathname } = url.parse(req.url ? req.url : '');
+
+      if (pathname !== CONTROL_WS_PATH || !this.isAuthorized(req)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, ws => this.handleConnection(ws));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, CONTROL_HOST, () => {
+        server.removeListener('error', reject);
+        debug('Control server listening on %s', this.url);
+        resolve();
+      });
+    });
+
+    server.on('error', err => {
+      debug('Error in control server: %o', err);
+    });
+  }
+
+  /**
+   * Push the current status to all WebSocket clients.
+   */
+  notify(): void {
+    this.broadcast({ type: 'status', data: this.handlers.getStatus() });
+  }
+
+  async stop(): Promise<void> {
+    const { server, wss } = this;
+
+    this.server = undefined;
+    this.wss = undefined;
+
+    if (wss) {
+      for (const ws of wss.clients) {
+        ws.terminate();
+      }
+
+      await new Promise<void>(resolve => wss.close(() => resolve()));
+    }
+
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  protected broadcast(msg: ServeControlMessage): void {
+    if (!this.wss) {
+      return;
+    }
+
+    for (const ws of this.wss.clients) {
+      this.send(ws, msg);
+    }
+  }
+
+  protected send(ws: WebSocket, msg: ServeControlMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(msg));
+    }
+  }
+
+  protected isAuthorized(req: http.IncomingMessage): boolean {
+    const { query } = url.parse(req.url ? req.url : '', true);
+    const header = req.headers['authorization'];
+    const bearer = typeof header === 'string' && header.startsWith('Bearer ') ? header.substring('Bearer '.length) : undefined;
+    const token = bearer ? bearer : (query && typeof query.token === 'string' ? query.token : undefined);
+
+    return typeof token === 'string' && compareTokens(token, this.token);
+  }
+
+  protected handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const respond = (status: number, body: { [key: string]: any; }) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (!this.isAuthorized(req)) {
+      return respond(401, { ok: false, error: 'Invalid or missing token.' });
+    }
+
+    const { pathname } = url.parse(req.url ? req.url : '');
+    const route = pathname ? pathname.substring(1) : '';
+
+    if (route === 'status') {
+      if (req.method !== 'GET') {
+        return respond(405, { ok: false, error: `Use GET for /${route}.` });
+      }
+
+      return respond(200, this.handlers.getStatus());
+    }
+
+    const command = SERVE_CONTROL_COMMANDS.find(c => c === route);
+
+    if (!command) {
+      return respond(404, { ok: false, error: `Unknown endpoint: ${pathname}` });
+    }
+
+    if (req.method !== 'POST') {
+      return respond(405, { ok: false, error: `Use POST for /${route}.` });
+    }
+
+    this.runCommand(command).then(
+      data => respond(200, { ok: true, ...data }),
+      err => respond(500, { ok: false, error: String(err && err.message ? err.message : err) })
+    );
+  }
+
+  protected handleConnection(ws: WebSocket): void {
+    debug('WebSocket client connected');
+
+    this.send(ws, { type: 'status', data: this.handlers.getStatus() });
+
+    ws.on('message', async data => {
+      let msg: any;
+
+      try {
+        msg = JSON.parse(data.toString());
+      } catch (e) {
+        debug('Invalid message: %O', data.toString());
+        return;
+      }
+
+      const id = msg && (typeof msg.id === 'string' || typeof msg.id === 'number') ? msg.id : undefined;
+      const command = msg ? SERVE_CONTROL_COMMANDS.find(c => c === msg.command) : undefined;
+
+      if (!command) {
+        this.send(ws, { type: 'result', id, command: String(msg ? msg.command : msg), ok: false, error: 'Unknown command.' });
+        return;
+      }
+
+      try {
+        const result = await this.runCommand(command);
+        this.send(ws, { type: 'result', id, command, ok: true, data: result });
+      } catch (e) {
+        this.send(ws, { type: 'result', id, command, ok: false, error: String(e && e.message ? e.message : e) });
+      }
+    });
+  }
+
+  protected async runCommand(command: ServeControlCommand): Promise<{ [key: string]: any; } | undefined> {
+    debug('Running command: %s', command);
+
+    const result = await this.handlers.runCommand(command);
+
+    return result ? result : undefined;
+  }
+}
+
+export function createControlToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function compareTokens(a: string, b: string): boolean {
+  const bufa = Buffer.from(a);
+  const bufb = Buffer.from(b);
+
+  return bufa.length === bufb.length && crypto.timingSafeEqual(bufa, bufb);
+}
@@ -0,0 +1,284 @@
+import { readFile } from '@ionic/utils-fs';
+import * as Debug from 'debug';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as path from 'path';
+import * as tls from 'tls';
+import * as url from 'url';
+import * as WebSocket from 'ws';
+
+import { ASSETS_DIRECTORY } from '../constants';
+
+import { CONSOLE_LOGS_SCRIPT_PATH, CONSOLE_LOGS_WS_PATH, ConsoleLogsMessage, StackTraceMapper, isConsoleLogsMessage } from './console-logs';
+
+const debug = Debug('ionic:lib:serve-proxy');
+
+export interface ConsoleLogsProxyOptions {
+  /**
+   * The address and port the proxy listens on, i.e. the ones the app is
+   * opened with.
+   */
+  readonly address: string;
+  readonly port: number;
+
+  /**
+   * The address and port of the dev server behind the proxy.
+   */
+  readonly upstreamAddress: string;
+  readonly upstreamPort: number;
+
+  /**
+   * Paths of the key and certificate if the dev server uses HTTPS. The proxy
+   * then uses HTTPS as well.
+   */
+  readonly ssl?: {
+    readonly key: string;
+    readonly cert: string;
+  };
+}
+
+/**
+ * Sits in front of a dev server to forward console logs of the app to the
+ * Ionic CLI, regardless of the tooling of the project.
+ *
+ * Requests are passed through to the dev server. A script is injected into
+ * HTML documents which patches `console.*`, listens for uncaught errors and
+ * unhandled rejections and sends them back over a WebSocket. Locations in
+ * stack traces are mapped to the original sources with the source maps of
+ * the dev server.
+ *
+ * Other WebSocket connections, such as those used for live-reload, are piped
+ * to the dev server.
+ */
+export class ConsoleLogsProxy {
+  protected server?: http.Server | https.Server;
+  protected wss?: WebSocket.Server;
+  protected script?: string;
+  protected readonly mapper = new StackTraceMapper(u => this.fetchUpstream(u));
+  protected queue: Promise<void> = Promise.resolve();
+
+  constructor(protected readonly options: ConsoleLogsProxyOptions, protected readonly onMessage: (msg: ConsoleLogsMessage) => void) {}
+
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('console logs proxy already started');
+    }
+
+    const { address, port, ssl } = this.options;
+    const client = await readFile(path.resolve(ASSETS_DIRECTORY, 'console-logs', 'client.js'), { encoding: 'utf8' });
+    this.script = `window.Ionic = window.Ionic || {}; window.Ionic.ConsoleLogsConfig = ${JSON.stringify({ path: CONSOLE_LOGS_WS_PATH })};\n\n${client}`;
+
+    const handler = (req: http.IncomingMessage, res: http.ServerResponse) => this.handleRequest(req, res);
+    const server = this.server = ssl
+      ? https.createServer({ key: await readFile(ssl.key, { encoding: 'utf8' }), cert: await readFile(ssl.cert, { encoding: 'utf8' }) }, handler)
+      : http.createServer(handler);
+    const wss = this.wss = new WebSocket.Server({ noServer: true });
+
+    server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      const { pathname } = url.parse(req.url ? req.url : '');
+
+      if (pathname === CONSOLE_LOGS_WS_PATH) {
+        wss.handleUpgrade(req, socket, head, ws => {
+          ws.on('message', data => this.handleMessage(String(data)));
+        });
+      } else {
+        this.proxyUpgrade(req, socket, head);
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, address, () => {
+        server.removeListener('error', reject);
+        debug('Console logs proxy listening on %s:%d for %s:%d', address, port, this.options.upstreamAddress, this.options.upstreamPort);
+        resolve();
+      });
+    });
+
+    server.on('error', (err: Error) => {
+      debug('Error in console logs proxy: %o', err);
+    });
+  }
+
+  async stop(): Promise<void> {
+    const { server, wss } = this;
+
+    this.server = undefined;
+    this.wss = undefined;
+    this.mapper.reset();
+
+    if (wss) {
+      for (const ws of wss.clients) {
+        ws.terminate();
+      }
+
+      await new Promise<void>(resolve => wss.close(() => resolve()));
+    }
+
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  protected handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const { pathname } = url.parse(req.url ? req.url : '');
+
+    if (pathname === CONSOLE_LOGS_SCRIPT_PATH) {
+      res.writeHead(200, { 'Content-Type': 'application/javascript', 'Cache-Control': 'no-store' });
+      res.end(this.script);
+      return;
+    }
+
+    const headers = { ...req.headers };
+
+    // responses are modified, so they must not be compressed
+    delete headers['accept-encoding'];
+
+    const upstreamReq = this.request({ method: req.method, path: req.url, headers }, upstreamRes => {
+      const status = upstreamRes.statusCode ? upstreamRes.statusCode : 502;
+      const contentType = upstreamRes.headers['content-type'];
+
+      if (status !== 200 || typeof contentType !== 'string' || !contentType.includes('text/html') || upstreamRes.headers['content-encoding']) {
+        res.writeHead(status, upstreamRes.headers);
+        upstreamRes.pipe(res);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+
+      upstreamRes.on('data', (chunk: Buffer) => chunks.push(chunk));
+      upstreamRes.on('end', () => {
+        const body = Buffer.from(injectScript(Buffer.concat(chunks).toString('utf8'), `<script src="${CONSOLE_LOGS_SCRIPT_PATH}"></script>`), 'utf8');
+        const responseHeaders: http.OutgoingHttpHeaders = { ...upstreamRes.headers, 'content-length': String(body.length) };
+
+        delete responseHeaders['transfer-encoding'];
+        delete responseHeaders['etag'];
+
+        // the app was (re)loaded, possibly after a rebuild
+        this.mapper.reset();
+
+        res.writeHead(status, responseHeaders);
+        res.end(body);
+      });
+    });
+
+    upstreamReq.on('error', err => {
+      debug('Error proxying %s: %o', req.url, err);
+
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+      }
+
+      res.end(`Dev server not reachable: ${err.message}`);
+    });
+
+    req.pipe(upstreamReq);
+  }
+
+  /**
+   * Pipe a WebSocket connection to the dev server.
+   */
+  protected proxyUpgrade(req: http.IncomingMessage, socket: net.Socket, head: Buffer): void {
+    const { upstreamAddress: host, upstreamPort: port, ssl } = this.options;
+    const upstream = ssl ? tls.connect({ host, port, rejectUnauthorized: false }) : net.connect(port, host);
+    const headers: string[] = [];
+
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      headers.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+    }
+
+    upstream.once(ssl ? 'secureConnect' : 'connect', () => {
+      upstream.write(`${req.method} ${req.url} HTTP/${req.httpVersion}\r\n${headers.join('\r\n')}\r\n\r\n`);
+
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+
+    upstream.on('error', err => {
+      debug('Error proxying WebSocket %s: %o', req.url, err);
+      socket.destroy();
+    });
+
+    socket.on('error', () => upstream.destroy());
+  }
+
+  protected handleMessage(data: string): void {
+    let msg: any;
+
+    try {
+      msg = JSON.parse(data);
+    } catch (e) {
+      debug('Could not parse message: %s', data);
+      return;
+    }
+
+    if (!isConsoleLogsMessage(msg)) {
+      debug('Unknown message: %o', msg);
+      return;
+    }
+
+    // keep messages in order while their stack traces are mapped
+    this.queue = this.queue.then(async () => {
+      const mapped = await Promise.all(msg.data.map((d: string) => this.mapper.mapText(d)));
+      this.onMessage({ ...msg, data: mapped });
+    }).catch(e => {
+      debug('Error handling message: %o', e);
+    });
+  }
+
+  protected request(options: http.RequestOptions, cb: (res: http.IncomingMessage) => void): http.ClientRequest {
+    const { upstreamAddress: host, upstreamPort: port, ssl } = this.options;
+
+    return ssl
+      ? https.request({ ...options, host, port, rejectUnauthorized: false }, cb)
+      : http.request({ ...options, host, port }, cb);
+  }
+
+  /**
+   * Get a script of the app from the dev server. Only URLs on the port of
+   * the proxy are fetched.
+   */
+  protected fetchUpstream(u: string): Promise<string | undefined> {
+    const { port, path: p } = url.parse(u);
+
+    if (!p || Number(port) !== this.options.port) {
+      return Promise.resolve(undefined);
+    }
+
+    return new Promise<string | undefined>(resolve => {
+      const req = this.request({ method: 'GET', path: p }, res => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          return resolve();
+        }
+
+        const chunks: Buffer[] = [];
+
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        res.on('error', () => resolve());
+      });
+
+      req.on('error', () => resolve());
+      req.end();
+    });
+  }
+}
+
+/**
+ * Inject code into an HTML document as early as possible: at the start of
+ * `<head>`, falling back to the end of `<body>` or `<html>`.
+ */
+export function injectScript(content: string, code: string): string {
+  const head = content.match(/<head(\s[^>]*)?>/i);
+
+  const end = content.match(/<\/body>(?![\s\S]*<\/body>)/i) || content.match(/<\/html>(?![\s\S]*<\/html>)/i);
+  const idx = head && typeof head.index === 'number' ? head.index + head[0].length : (end && typeof end.index === 'number' ? end.index : content.length);
+
+  return content.substring(0, idx) + code + content.substring(idx);
+}
@@ -1,9 +1,11 @@
 import { BaseError, LOGGER_LEVELS, OptionGroup, PromptModule, createPrefixedFormatter } from '@ionic/cli-framework';
-import { killProcessTree, onBeforeExit, processExit } from '@ionic/cli-framework/utils/process';
+import { columnar } from '@ionic/cli-framework/utils/format';
+import { killProcessTree, onBeforeExit, processExit, sleep } from '@ionic/cli-framework/utils/process';
 import { str2num } from '@ionic/cli-framework/utils/string';
-import { readJsonFile } from '@ionic/utils-fs';
-import { NetworkInterface, findClosestOpenPort, getExternalIPv4Interfaces, isHostConnectable } from '@ionic/utils-network';
+import { mkdirp, readJsonFile, unlink, writeJsonFile } from '@ionic/utils-fs';
+import { NetworkInterface, formatHost, getExternalIPv4Interfaces, isHostConnectable, isPortAvailable } from '@ionic/utils-network';
 import chalk from 'chalk';
+import { ChildProcess } from 'child_process';
 import * as Debug from 'debug';
 import { EventEmitter } from 'events';
 import * as lodash from 'lodash';
@@ -14,13 +16,15 @@ import * as stream from 'stream';
 import * as through2 from 'through2';
 
 import { ASSETS_DIRECTORY } from '../constants';
-import { CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, DevAppDetails, IConfig, ILogger, IProject, IShell, IonicEnvironmentFlags, LabServeDetails, Runner, ServeDetails, ServeOptions } from '../definitions';
+import { BrowserFlags, CommandLineInputs, CommandLineOptions, CommandMetadata, CommandMetadataOption, DevAppDetails, IConfig, ILogger, IProject, IShell, IShellSpawnOptions, IonicEnvironmentFlags, LabServeDetails, Runner, ServeCLIState, ServeCLIStatus, ServeDetails, ServeOptions, ServePorts, ServeRestartPolicy, ServeStatus } from '../definitions';
 import { isCordovaPackageJson } from '../guards';
 
-import { FatalException, RunnerException, ServeCLIProgramNotFoundException } from './errors';
+import { FatalException, HookException, PortInUseException, RunnerException, ServeCLIClosedException, ServeCLIProgramNotFoundException } from './errors';
 import { emit } from './events';
 import { Hook } from './hooks';
-import { createDefaultLoggerHandlers } from './utils/logger';
+import { ProjectDeps } from './project';
+import { ServeControlCommand, ServeControlServer } from './serve-control';
+import { createDefaultLoggerHandlers, createFormatter } from './utils/logger';
 
 const debug = Debug('ionic:lib:serve');
 
@@ -29,11 +33,19 @@ export const DEFAULT_LIVERELOAD_PORT = 35729;
 export const DEFAULT_SERVER_PORT = 8100;
 export const DEFAULT_LAB_PORT = 8200;
 export const DEFAULT_DEVAPP_COMM_PORT = 53233;
+export const DEFAULT_CONTROL_PORT = 53704;
 
-export const BIND_ALL_ADDRESS = '0.0.0.0';
-export const LOCAL_ADDRESSES = ['localhost', '127.0.0.1'];
+// written to the project directory while the dev server runs with --control,
+// so editors and tools can find the control API
+export const CONTROL_FILE = '.ionic/serve.json';
+
+const MAX_PORT = 65535;
 
-export const BROWSERS = ['safari', 'firefox', process.platform === 'win32' ? 'chrome' : (process.platform === 'darwin' ? 'google chrome' : 'google-chrome')];
+export const DEFAULT_RESTART_BACKOFF = 1000;
+export const MAX_RESTART_BACKOFF = 30000;
+
+export const BIND_ALL_ADDRESS = '0.0.0.0';
+export const LOCAL_ADDRESSES = ['localhost', '127.0.0.1', '::1'];
 
 // npm script name
 export const SERVE_SCRIPT = 'ionic:serve';
@@ -52,12 +64,47 @@ export const COMMON_SERVE_COMMAND_OPTIONS: ReadonlyArray<CommandMetadataOption>
     aliases: ['p'],
     groups: [OptionGroup.Advanced],
   },
+  {
+    name: 'ssl',
+    summary: `Use HTTPS with the certificate from ${chalk.green('ssl.key')}/${chalk.green('ssl.cert')} in project config or ${chalk.green('ionic ssl generate')}`,
+    type: Boolean,
+    groups: [OptionGroup.Advanced],
+  },
+  {
+    name: 'strict-port',
+    summary: 'Exit if a port is in use instead of choosing the next free port',
+    type: Boolean,
+    groups: [OptionGroup.Advanced],
+  },
+  {
+    name: 'control',
+    summary: `Start a local control API for editors and tools, with its URL and token in ${chalk.bold(CONTROL_FILE)}`,
+    type: Boolean,
+    groups: [OptionGroup.Advanced],
+  },
+  {
+    name: 'max-restarts',
+    summary: 'Restart a crashed dev server up to this many times in a row (connected apps must be reloaded manually)',
+    groups: [OptionGroup.Advanced],
+  },
+  {
+    name: 'restart-backoff',
+    summary: 'Milliseconds to wait before restarting a crashed dev server, doubled for each restart',
+    default: DEFAULT_RESTART_BACKOFF.toString(),
+    groups: [OptionGroup.Advanced],
+  },
   {
     name: 'livereload',
     summary: 'Do not spin up dev server--just serve files',
     type: Boolean,
     default: true,
   },
+  {
+    name: 'consolelogs',
+    summary: 'Print app console logs, uncaught errors and unhandled rejections to Ionic CLI',
+    type: Boolean,
+    aliases: ['c'],
+  },
   {
     name: 'engine',
     summary: `Target engine (e.g. ${['browser', 'cordova'].map(e => chalk.green(e)).join(', ')})`,
@@ -81,6 +128,16 @@ export interface ServeRunnerDeps {
 
 export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, ServeDetails> {
   protected devAppConnectionMade = false;
+  protected control?: ServeControlServer;
+
+  /**
+   * Whether the tooling of the project forwards console logs by itself. If
+   * not, the dev server is put behind a proxy which does it for
+   * `--consolelogs`.
+   */
+  protected readonly forwardsConsoleLogs: boolean = false;
+  protected readonly serveCLIs: ServeCLI<any>[] = [];
+  protected readonly serveStatus: ServeStatus = { state: 'starting', children: [] };
 
   protected abstract readonly e: ServeRunnerDeps;
 
@@ -100,12 +157,20 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
     const address = options['address'] ? String(options['address']) : BIND_ALL_ADDRESS;
     const labPort = str2num(options['lab-port'], DEFAULT_LAB_PORT);
     const port = str2num(options['port'], DEFAULT_SERVER_PORT);
+    const maxRestarts = str2num(options['max-restarts'], 0);
+    const browserFlags = lodash.pickBy<BrowserFlags>({
+      incognito: options['browser-incognito'] ? true : undefined,
+      dataDir: options['browser-data-dir'] ? String(options['browser-data-dir']) : undefined,
+      device: options['browser-device'] ? String(options['browser-device']) : undefined,
+    }, v => typeof v !== 'undefined');
 
     return {
       '--': separatedArgs ? separatedArgs : [],
       address,
       browser: options['browser'] ? String(options['browser']) : undefined,
       browserOption: options['browseroption'] ? String(options['browseroption']) : undefined,
+      browserProfile: options['browser-profile'] ? String(options['browser-profile']) : undefined,
+      browserFlags: Object.keys(browserFlags).length > 0 ? browserFlags : undefined,
       devapp: engine === 'browser' && (typeof options['devapp'] === 'undefined' || options['devapp']) ? true : false,
       engine,
       externalAddressRequired: options['externalAddressRequired'] ? true : false,
@@ -113,11 +178,15 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
       labHost: options['lab-host'] ? String(options['lab-host']) : 'localhost',
       labPort,
       livereload: typeof options['livereload'] === 'boolean' ? Boolean(options['livereload']) : true,
+      consolelogs: options['consolelogs'] ? true : false,
       open: options['open'] ? true : false,
       platform: options['platform'] ? String(options['platform']) : undefined,
       port,
       proxy: typeof options['proxy'] === 'boolean' ? Boolean(options['proxy']) : true,
-      ssl: false,
+      ssl: options['ssl'] ? true : false,
+      strictPort: options['strict-port'] ? true : false,
+      control: options['control'] ? true : false,
+      restartPolicy: maxRestarts > 0 ? { maxRestarts, backoff: str2num(options['restart-backoff'], DEFAULT_RESTART_BACKOFF) } : undefined,
       project: options['project'] ? String(options['project']) : undefined,
     };
   }
@@ -154,34 +223,76 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
     }
   }
 
-  async beforeServe(options: T) {
+  /**
+   * Run the `serve:before` hook.
+   *
+   * Options returned from hooks are merged into the given options and the
+   * result is used for the dev server.
+   */
+  async beforeServe(options: T): Promise<T> {
     const hook = new ServeBeforeHook(this.e);
 
     try {
-      await hook.run({ name: hook.name, serve: options });
+      const result = await hook.run({ name: hook.name, serve: options });
+      return lodash.assign({}, options, result);
     } catch (e) {
-      if (e instanceof BaseError) {
-        throw new FatalException(e.message);
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
       }
 
       throw e;
     }
   }
 
-  async run(options: T): Promise<ServeDetails> {
-    await this.beforeServe(options);
+  async run(opts: T): Promise<ServeDetails> {
+    const { getProjectProxyConfigs } = await import('./proxy');
+    const proxies = opts.proxy ? getProjectProxyConfigs(this.e.project) : [];
+
+    const options = await this.beforeServe(opts);
+    options.proxies = proxies;
+
+    if (options.open) {
+      const { getBrowserChoice } = await import('./browser');
+      getBrowserChoice(this.e.config, options); // report mistakes before the dev server starts
+    }
+
+    if (options.ssl) {
+      const { getProjectSSLFiles, refreshCertificate } = await import('./ssl');
+      const { key, cert } = await getProjectSSLFiles(this.e.project);
+      await refreshCertificate({ key, cert }, this.e);
+      options.sslKey = key;
+      options.sslCert = cert;
+    }
+
+    const ports = await this.reservePorts(options);
+    this.serveStatus.project = options.project;
+
+    if (ports.control) {
+      await this.startControlServer(options, ports.control);
+    }
 
     const details = await this.serveProject(options);
+    details.ports = ports;
+
+    if (ports.upstream && await this.startConsoleLogsProxy(options, ports.server, ports.upstream)) {
+      details.port = ports.server;
+    }
+
+    if (this.control) {
+      details.controlApi = { url: this.control.url, token: this.control.token };
+    }
+
     const devAppDetails = await this.gatherDevAppDetails(options, details);
     const labDetails = options.lab ? await this.runLab(options, details) : undefined;
 
     if (devAppDetails) {
+      this.serveStatus.devApp = { ...devAppDetails, connections: [] };
       const devAppName = await this.publishDevApp(options, devAppDetails);
-      devAppDetails.channel = devAppName;
+      devAppDetails.channel = this.serveStatus.devApp.channel = devAppName;
     }
 
     const localAddress = `${details.protocol}://localhost:${details.port}`;
-    const fmtExternalAddress = (address: string) => `${details.protocol}://${address}:${details.port}`;
+    const fmtExternalAddress = (address: string) => `${details.protocol}://${formatHost(address)}:${details.port}`;
     const labAddress = labDetails ? `${labDetails.protocol}://${labDetails.address}:${labDetails.port}` : undefined;
 
     this.e.log.nl();
@@ -195,14 +306,13 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
     );
     this.e.log.nl();
 
-    if (options.open) {
-      const openAddress = labAddress ? labAddress : localAddress;
-      const openURL = this.modifyOpenURL(openAddress, options);
-
-      const opn = await import('opn');
-      await opn(openURL, { app: options.browser, wait: false });
+    this.serveStatus.state = 'ready';
+    this.serveStatus.details = details;
+    this.serveStatus.lab = labDetails;
+    this.notifyControl();
 
-      this.e.log.info(`Browser window opened to ${chalk.bold(openURL)}!`);
+    if (options.open) {
+      await this.openBrowser(options);
       this.e.log.nl();
     }
 
@@ -213,14 +323,163 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
     return details;
   }
 
+  /**
+   * Open the app, or Ionic Lab if it is running, in a browser.
+   *
+   * @return The opened URL.
+   */
+  async openBrowser(options: T): Promise<string> {
+    const { details, lab } = this.serveStatus;
+
+    if (!details) {
+      throw new FatalException('The dev server is not running.');
+    }
+
+    const openAddress = lab ? `${lab.protocol}://${lab.address}:${lab.port}` : `${details.protocol}://localhost:${details.port}`;
+    const openURL = this.modifyOpenURL(openAddress, options);
+
+    const opn = await import('opn');
+    const { formatBrowserChoice, getBrowserChoice, getBrowserLaunches } = await import('./browser');
+    const choice = getBrowserChoice(this.e.config, options);
+
+    if (!choice) {
+      await opn(openURL, { wait: false });
+      this.e.log.info(`Browser window opened to ${chalk.bold(openURL)}!`);
+      return openURL;
+    }
+
+    for (const launch of getBrowserLaunches(choice)) {
+      if (launch.unsupported.length > 0) {
+        this.e.log.warn(`${chalk.bold(launch.name)} does not support ${launch.unsupported.map(f => chalk.green(f)).join(', ')}.`);
+      }
+
+      debug('Opening %s with %o', launch.app, launch.args);
+      await opn(openURL, { app: [launch.app, ...launch.args], wait: false });
+    }
+
+    if (options.browser || options.browserProfile || options.browserFlags) {
+      this.e.config.set('browser.last', choice);
+    }
+
+    this.e.log.info(`Browser window opened to ${chalk.bold(openURL)} in ${formatBrowserChoice(choice)}!`);
+
+    return openURL;
+  }
+
+  /**
+   * Get the status of the dev server and its child processes.
+   */
+  getStatus(): ServeStatus {
+    return { ...this.serveStatus, children: this.serveCLIs.map(cli => cli.getStatus()) };
+  }
+
+  /**
+   * Keep track of a Serve CLI, so its state is reported and it can be
+   * restarted by the control API.
+   */
+  protected registerServeCLI<C extends ServeCLI<any>>(cli: C): C {
+    this.serveCLIs.push(cli);
+    cli.on('state', () => this.notifyControl());
+    return cli;
+  }
+
+  /**
+   * Start the local control API on the loopback interface and write its URL
+   * and token to the project directory.
+   */
+  protected async startControlServer(options: T, port: number): Promise<void> {
+    const control = new ServeControlServer(port, {
+      getStatus: () => this.getStatus(),
+      runCommand: async command => this.runControlCommand(options, command),
+    });
+
+    try {
+      await control.start();
+    } catch (e) {
+      this.e.log.warn(`Could not start control API: ${String(e.message ? e.message : e)}`);
+      return;
+    }
+
+    this.control = control;
+
+    const p = path.resolve(this.e.project.directory, CONTROL_FILE);
+    await mkdirp(path.dirname(p));
+    await writeJsonFile(p, { pid: process.pid, project: options.project, url: control.url, token: control.token }, { encoding: 'utf8', mode: 0o600 });
+
+    onBeforeExit(async () => unlink(p));
+
+    debug('Control API listening on %s', control.url);
+  }
+
+  protected async runControlCommand(options: T, command: ServeControlCommand): Promise<{ [key: string]: any; } | void> {
+    switch (command) {
+      case 'open':
+        return { url: await this.openBrowser(options) };
+      case 'restart':
+        this.e.log.info('Restarting dev server...');
+        await Promise.all(this.serveCLIs.map(cli => cli.restart()));
+        this.e.log.info('Dev server restarted. Reload the app in connected browsers and devices.');
+        return;
+      case 'stop':
+        this.serveStatus.state = 'stopping';
+        this.notifyControl();
+        // respond before the process exits
+        setTimeout(() => processExit(0), 100); // tslint:disable-line:no-floating-promises
+        return;
+    }
+  }
+
+  protected notifyControl(): void {
+    if (this.control) {
+      this.control.notify();
+    }
+  }
+
+  /**
+   * Start the proxy which forwards console logs of the app in front of the
+   * dev server.
+   *
+   * @return `false` if the proxy could not be started, in which case the app
+   * is served directly by the dev server.
+   */
+  protected async startConsoleLogsProxy(options: T, port: number, upstreamPort: number): Promise<boolean> {
+    const { formatConsoleLogsMessage } = await import('./console-logs');
+    const { ConsoleLogsProxy } = await import('./serve-proxy');
+
+    const log = this.e.log.clone();
+
+    if (options.logPrefix) {
+      log.handlers = createDefaultLoggerHandlers(createPrefixedFormatter(chalk.dim(`[${options.logPrefix}]`)), { json: this.e.flags.json });
+    }
+
+    const proxy = new ConsoleLogsProxy({
+      address: options.address,
+      port,
+      upstreamAddress: options.address === BIND_ALL_ADDRESS ? '127.0.0.1' : options.address,
+      upstreamPort,
+      ssl: options.sslKey && options.sslCert ? { key: options.sslKey, cert: options.sslCert } : undefined,
+    }, msg => log.msg(formatConsoleLogsMessage(msg)));
+
+    try {
+      await proxy.start();
+    } catch (e) {
+      this.e.log.warn(`Could not start console logs proxy: ${String(e.message ? e.message : e)}`);
+      return false;
+    }
+
+    onBeforeExit(async () => proxy.stop());
+
+    return true;
+  }
+
   async afterServe(options: T, details: ServeDetails) {
     const hook = new ServeAfterHook(this.e);
 
     try {
       await hook.run({ name: hook.name, serve: lodash.assign({}, options, details) });
     } catch (e) {
-      if (e instanceof BaseError) {
-        throw new FatalException(e.message);
+      if (e instanceof BaseError && !(e instanceof HookException)) {
+        throw new FatalException(e.message, e.exitCode);
       }
 
       throw e;
@@ -246,7 +505,7 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
       const { port } = details;
 
       // the comm server always binds to 0.0.0.0 to target every possible interface
-      const commPort = await findClosestOpenPort(DEFAULT_DEVAPP_COMM_PORT);
+      const commPort = details.ports && details.ports.devAppComm ? details.ports.devAppComm : await reservePort(DEFAULT_DEVAPP_COMM_PORT, { name: 'DevApp comm server', strict: options.strictPort });
 
       return { port, commPort, interfaces };
     }
@@ -272,6 +531,11 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
         }
 
         this.e.log.info(`DevApp connection established from ${chalk.bold(data.email)}`);
+
+        if (this.serveStatus.devApp) {
+          this.serveStatus.devApp.connections.push({ email: data.email, username: data.username, connectedAt: new Date().toISOString() });
+          this.notifyControl();
+        }
       });
 
       publisher.on('error', (err: Error) => {
@@ -314,34 +578,70 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
       projectType: this.e.project.type,
       protocol: options.ssl ? 'https' : 'http',
       address: options.labHost,
-      port: await findClosestOpenPort(options.labPort),
+      port: serveDetails.ports && serveDetails.ports.lab ? serveDetails.ports.lab : await reservePort(options.labPort, { name: 'Ionic Lab', option: '--lab-port', strict: options.strictPort }),
     };
 
-    if (options.ssl) {
-      const sslConfig = this.e.project.config.get('ssl');
-
-      if (sslConfig && sslConfig.key && sslConfig.cert) {
-        labDetails.ssl = { key: sslConfig.key, cert: sslConfig.cert };
-      } else {
-        throw new FatalException(
-          `Both ${chalk.green('ssl.key')} and ${chalk.green('ssl.cert')} config entries must be set.\n` +
-          `See ${chalk.green('ionic serve --help')} for details on using your own SSL key and certificate for Ionic Lab and the dev server.`
-        );
-      }
+    if (options.sslKey && options.sslCert) {
+      labDetails.ssl = { key: options.sslKey, cert: options.sslCert };
     }
 
-    const lab = new IonicLabServeCLI(this.e);
-    await lab.serve({ serveDetails, ...labDetails });
+    const lab = this.registerServeCLI(new IonicLabServeCLI(this.e));
+    await lab.serve({ serveDetails, ...labDetails, logPrefix: options.logPrefix, restartPolicy: options.restartPolicy });
 
     return labDetails;
   }
 
+  /**
+   * Find and reserve open ports for the dev server and its helper servers
+   * before anything is spawned.
+   *
+   * The chosen ports are set in the options. Runners with additional servers
+   * extend this method.
+   */
+  async reservePorts(options: T): Promise<ServePorts> {
+    const strict = options.strictPort;
+    const ports: ServePorts = { server: await this.reserveServerPort(options) };
+
+    if (options.consolelogs && !this.forwardsConsoleLogs) {
+      await this.reserveUpstreamPort(options, ports);
+    }
+
+    if (options.lab) {
+      ports.lab = options.labPort = await reservePort(options.labPort, { name: 'Ionic Lab', option: '--lab-port', strict });
+    }
+
+    if (options.devapp) {
+      ports.devAppComm = await reservePort(DEFAULT_DEVAPP_COMM_PORT, { name: 'DevApp comm server', strict });
+    }
+
+    if (options.control) {
+      ports.control = await reservePort(DEFAULT_CONTROL_PORT, { name: 'control API' });
+    }
+
+    return ports;
+  }
+
+  protected async reserveServerPort(options: T): Promise<number> {
+    return options.port = await reservePort(options.port, { name: 'dev server', option: '--port', strict: options.strictPort });
+  }
+
+  /**
+   * Reserve a port for the dev server behind the console logs proxy. The
+   * proxy takes over the server port, so the app is still served on it.
+   */
+  protected async reserveUpstreamPort(options: T, ports: ServePorts): Promise<void> {
+    ports.upstream = options.port = await reservePort(ports.server + 1, { name: 'dev server behind the console logs proxy' });
+  }
+
   async selectExternalIP(options: T): Promise<[string, NetworkInterface[]]> {
     let availableInterfaces: NetworkInterface[] = [];
     let chosenIP = options.address;
 
     if (options.address === BIND_ALL_ADDRESS) {
-      availableInterfaces = getExternalIPv4Interfaces();
+      const { findPreferredInterface, getNetworkInterfaces } = await import('./network');
+
+      availableInterfaces = getNetworkInterfaces(this.e.config);
+      const preferredInterface = findPreferredInterface(this.e.config, availableInterfaces);
 
       if (availableInterfaces.length === 0) {
         if (options.externalAddressRequired) {
@@ -350,6 +650,9 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
             `Are you connected to a local network?\n`
           );
         }
+      } else if (preferredInterface) {
+        debug(`Using preferred network interface ${preferredInterface.device} (${preferredInterface.address})`);
+        chosenIP = preferredInterface.address;
       } else if (availableInterfaces.length === 1) {
         chosenIP = availableInterfaces[0].address;
       } else if (availableInterfaces.length > 1) {
@@ -372,6 +675,8 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
             });
 
             chosenIP = promptedIp;
+
+            await this.rememberPreferredInterface(availableInterfaces, chosenIP);
           } else {
             throw new FatalException(
               `Multiple network interfaces detected!\n` +
@@ -384,6 +689,94 @@ export abstract class ServeRunner<T extends ServeOptions> implements Runner<T, S
 
     return [ chosenIP, availableInterfaces ];
   }
+
+  /**
+   * Offer to save the device of a chosen address as the preferred network
+   * interface in the global config, skipping the prompt in the future.
+   */
+  protected async rememberPreferredInterface(availableInterfaces: ReadonlyArray<NetworkInterface>, address: string): Promise<void> {
+    const chosenInterface = availableInterfaces.find(i => i.address === address);
+
+    if (!chosenInterface) {
+      return;
+    }
+
+    const remember = await this.e.prompt({
+      type: 'confirm',
+      name: 'remember',
+      message: `Always use ${chalk.bold(chosenInterface.device)} when available?`,
+      default: false,
+    });
+
+    if (remember) {
+      this.e.config.set('network.interface', chosenInterface.device);
+      this.e.log.info(`Saved ${chalk.bold(chosenInterface.device)} as ${chalk.green('network.interface')} in global config. Unset it with ${chalk.green('ionic config unset -g network.interface')}.`);
+    }
+  }
+}
+
+export interface ReservePortOptions {
+  /**
+   * What the port is for, used in messages.
+   */
+  readonly name: string;
+
+  /**
+   * The command-line option for choosing the port, used in messages.
+   */
+  readonly option?: string;
+
+  /**
+   * Throw if the port is in use instead of choosing the next open port.
+   */
+  readonly strict?: boolean;
+}
+
+const reservedPorts = new Set<number>();
+
+/**
+ * Find an open port starting at `port` and reserve it for the rest of the
+ * process, so that dev servers run side by side never get the same port.
+ *
+ * Each candidate is reserved before it is probed, so concurrent calls never
+ * choose the same port.
+ */
+export async function reservePort(port: number, { name, option, strict = false }: ReservePortOptions): Promise<number> {
+  let p = port;
+
+  while (!(await tryReservePort(p))) {
+    if (strict) {
+      throw new PortInUseException(
+        `Port ${chalk.bold(String(p))} for the ${name} is in use.\n` +
+        `Stop the process using it` + (option ? ` or choose another port with the ${chalk.green(option)} option.` : '.')
+      );
+    }
+
+    if (++p > MAX_PORT) {
+      throw new PortInUseException(`No open port found for the ${name} starting at ${chalk.bold(String(port))}.`);
+    }
+  }
+
+  if (p !== port) {
+    debug(`Port ${chalk.bold(String(port))} for the ${name} taken, using ${chalk.bold(String(p))}.`);
+  }
+
+  return p;
+}
+
+async function tryReservePort(port: number): Promise<boolean> {
+  if (reservedPorts.has(port)) {
+    return false;
+  }
+
+  reservedPorts.add(port);
+
+  if (!(await isPortAvailable(port))) {
+    reservedPorts.delete(port);
+    return false;
+  }
+
+  return true;
 }
 
 class ServeBeforeHook extends Hook {
@@ -397,12 +790,26 @@ class ServeAfterHook extends Hook {
 export interface ServeCLIOptions {
   readonly address: string;
   readonly port: number;
+  readonly logPrefix?: string;
+  readonly restartPolicy?: ServeRestartPolicy;
+}
+
+/**
+ * Get the milliseconds to wait before a restart, doubling the backoff of the
+ * policy for each previous restart.
+ *
+ * @param restarts The number of previous restarts.
+ */
+export function getRestartDelay(policy: ServeRestartPolicy, restarts: number): number {
+  return Math.min(policy.backoff * Math.pow(2, restarts), MAX_RESTART_BACKOFF);
 }
 
 export interface ServeCLI<T extends ServeCLIOptions> {
   on(event: 'ready', handler: () => void): this;
+  on(event: 'state', handler: (state: ServeCLIState) => void): this;
   once(event: 'ready', handler: () => void): this;
   emit(event: 'ready'): boolean;
+  emit(event: 'state', state: ServeCLIState): boolean;
 }
 
 export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
@@ -434,6 +841,10 @@ export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
   abstract readonly script?: string;
 
   private _resolvedProgram?: string;
+  private _options?: T;
+  private _child?: ChildProcess;
+  private _state: ServeCLIState = 'stopped';
+  private _restarts = 0;
 
   constructor(protected readonly e: ServeRunnerDeps) {
     super();
@@ -447,6 +858,20 @@ export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
     return this.program;
   }
 
+  get state(): ServeCLIState {
+    return this._state;
+  }
+
+  getStatus(): ServeCLIStatus {
+    return {
+      name: this.name,
+      program: this.resolvedProgram,
+      pid: this._child ? this._child.pid : undefined,
+      state: this._state,
+      restarts: this._restarts,
+    };
+  }
+
   /**
    * Build the arguments for starting this Serve CLI. Called by `this.start()`.
    */
@@ -479,9 +904,72 @@ export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
 
   async serve(options: T): Promise<void> {
     this._resolvedProgram = await this.resolveProgram();
+    this._options = options;
+
+    onBeforeExit(async () => this.stop());
+
+    try {
+      await this.spawnWrapper(options);
+    } catch (e) {
+      if (!(e instanceof ServeCLIClosedException)) {
+        throw e;
+      }
+
+      return this.handleUnexpectedClose(options, e.message);
+    }
+
+    await this.waitForConnectivity(options);
+  }
+
+  /**
+   * Stop the child process and start it again with the same options.
+   */
+  async restart(): Promise<void> {
+    const options = this._options;
+
+    if (!options) {
+      throw new Error(`${this.name} has not been started.`);
+    }
+
+    await this.stop();
+    await this.spawn(options);
+    await this.waitForConnectivity(options);
+  }
+
+  /**
+   * Stop the child process, if running, without exiting the Ionic CLI.
+   */
+  async stop(): Promise<void> {
+    const p = this._child;
+    const exited = this._state === 'exited';
+
+    if (!p) {
+      return;
+    }
+
+    this._child = undefined;
+    this.setState('stopped');
+
+    if (p.pid && !exited) {
+      const closed = new Promise<void>(resolve => p.once('close', () => resolve()));
 
-    await this.spawnWrapper(options);
+      try {
+        await killProcessTree(p.pid);
+        await closed;
+      } catch (e) {
+        debug('could not stop %s: %o', this.resolvedProgram, e);
+      }
+    }
+  }
 
+  protected setState(state: ServeCLIState): void {
+    if (this._state !== state) {
+      this._state = state;
+      this.emit('state', state);
+    }
+  }
+
+  protected async waitForConnectivity(options: T): Promise<void> {
     const interval = setInterval(() => {
       this.e.log.info(`Waiting for connectivity with ${chalk.green(this.resolvedProgram)}...`);
     }, 5000);
@@ -516,14 +1004,35 @@ export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
     }
   }
 
+  /**
+   * Build the options for spawning this Serve CLI. Called by `this.spawn()`.
+   */
+  protected async buildSpawnOptions(options: T): Promise<IShellSpawnOptions> {
+    return { stdio: 'pipe', cwd: this.e.project.directory };
+  }
+
   protected async spawn(options: T): Promise<void> {
     const args = await this.buildArgs(options);
-    const p = await this.e.shell.spawn(this.resolvedProgram, args, { stdio: 'pipe', cwd: this.e.project.directory });
+    const p = await this.e.shell.spawn(this.resolvedProgram, args, await this.buildSpawnOptions(options));
+
+    this._child = p;
+    this.setState('starting');
 
     return new Promise<void>((resolve, reject) => {
+      const readyHandler = () => {
+        this._restarts = 0;
+        this.setState('running');
+        resolve();
+      };
+
       const errorHandler = (err: NodeJS.ErrnoException) => {
         debug('received error for %s: %o', this.resolvedProgram, err);
 
+        if (p === this._child && this._state === 'starting') {
+          this.removeListener('ready', readyHandler);
+          this.setState('exited');
+        }
+
         if (this.resolvedProgram === this.program && err.code === 'ENOENT') {
           p.removeListener('close', closeHandler); // do not exit Ionic CLI, we can gracefully ask to install this CLI
           reject(new ServeCLIProgramNotFoundException(`${chalk.bold(this.resolvedProgram)} command not found.`));
@@ -533,44 +1042,95 @@ export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
       };
 
       const closeHandler = (code: number | null) => {
-        if (code !== null) { // tslint:disable-line:no-null-keyword
-          debug('received unexpected close for %s (code: %d)', this.resolvedProgram, code);
+        const running = this._state === 'running';
 
-          this.e.log.nl();
-          this.e.log.error(
-            `${chalk.green(this.resolvedProgram)} has unexpectedly closed (exit code ${code}).\n` +
-            'The Ionic CLI will exit. Please check any output above for error details.'
-          );
+        this.removeListener('ready', readyHandler);
 
-          processExit(1); // tslint:disable-line:no-floating-promises
+        if (p !== this._child) { // stopped or restarted
+          resolve();
+          return;
+        }
+
+        this.setState('exited');
+
+        if (!running) {
+          debug('received close before ready for %s (code: %d)', this.resolvedProgram, code);
+          reject(new ServeCLIClosedException(`${chalk.green(this.resolvedProgram)} has unexpectedly closed` + (code !== null ? ` (exit code ${code}).` : '.'))); // tslint:disable-line:no-null-keyword
+        } else if (code !== null) { // tslint:disable-line:no-null-keyword
+          debug('received unexpected close for %s (code: %d)', this.resolvedProgram, code);
+          this.handleUnexpectedClose(options, `${chalk.green(this.resolvedProgram)} has unexpectedly closed (exit code ${code}).`); // tslint:disable-line:no-floating-promises
         }
       };
 
       p.on('error', errorHandler);
       p.on('close', closeHandler);
 
-      onBeforeExit(async () => {
-        p.removeListener('close', closeHandler);
-
-        if (p.pid) {
-          await killProcessTree(p.pid);
-        }
-      });
-
-      const ws = this.createLoggerStream();
+      const ws = this.createLoggerStream(options);
 
       p.stdout.pipe(split2()).pipe(this.createStreamFilter(line => this.stdoutFilter(line))).pipe(ws);
       p.stderr.pipe(split2()).pipe(this.createStreamFilter(line => this.stderrFilter(line))).pipe(ws);
 
-      this.once('ready', () => {
-        resolve();
-      });
+      this.once('ready', readyHandler);
     });
   }
 
-  protected createLoggerStream(): NodeJS.WritableStream {
+  /**
+   * Restart the child process according to the restart policy until it is
+   * running again, or exit the Ionic CLI once the policy is exhausted.
+   *
+   * The count of restarts is reset once the child process is running, so the
+   * policy limits the number of crashes in a row.
+   *
+   * @param message Why the child process closed.
+   */
+  protected async handleUnexpectedClose(options: T, message: string): Promise<void> {
+    const policy = options.restartPolicy;
+
+    this.e.log.nl();
+
+    while (policy && this._restarts < policy.maxRestarts) {
+      const delay = getRestartDelay(policy, this._restarts);
+      this._restarts++;
+
+      this.e.log.warn(
+        `${message}\n` +
+        `Restarting in ${chalk.bold(`${delay}ms`)} (restart ${this._restarts} of ${policy.maxRestarts}).`
+      );
+
+      await sleep(delay);
+
+      if (this._state !== 'exited') { // stopped or restarted in the meantime
+        return;
+      }
+
+      try {
+        await this.restart();
+        this.e.log.info(`${chalk.green(this.resolvedProgram)} restarted. Reload the app in connected browsers and devices.`);
+        return;
+      } catch (e) {
+        debug('could not restart %s: %o', this.resolvedProgram, e);
+
+        if (this._state !== 'exited') { // stopped or restarted in the meantime
+          return;
+        }
+
+        message = e.message;
+      }
+    }
+
+    this.e.log.error(
+      `${message}\n` +
+      (policy ? `It was restarted ${policy.maxRestarts} times in a row. ` : '') +
+      'The Ionic CLI will exit. Please check any output above for error details.'
+    );
+
+    await processExit(1);
+  }
+
+  protected createLoggerStream(options: T): NodeJS.WritableStream {
     const log = this.e.log.clone();
-    log.handlers = createDefaultLoggerHandlers(createPrefixedFormatter(chalk.dim(`[${this.resolvedProgram === this.program ? this.prefix : this.resolvedProgram}]`)));
+    const prefix = chalk.dim(`[${this.resolvedProgram === this.program ? this.prefix : this.resolvedProgram}]`);
+    log.handlers = createDefaultLoggerHandlers(createPrefixedFormatter(options.logPrefix ? `${chalk.dim(`[${options.logPrefix}]`)} ${prefix}` : prefix), { json: this.e.flags.json });
     return log.createWriteStream(LOGGER_LEVELS.INFO);
   }
 
@@ -626,6 +1186,8 @@ export abstract class ServeCLI<T extends ServeCLIOptions> extends EventEmitter {
 
 interface IonicLabServeCLIOptions extends Readonly<LabServeDetails> {
   readonly serveDetails: Readonly<ServeDetails>;
+  readonly logPrefix?: string;
+  readonly restartPolicy?: ServeRestartPolicy;
 }
 
 class IonicLabServeCLI extends ServeCLI<IonicLabServeCLIOptions> {
@@ -662,23 +1224,76 @@ class IonicLabServeCLI extends ServeCLI<IonicLabServeCLIOptions> {
   }
 }
 
-export async function serve(deps: ServeRunnerDeps, inputs: CommandLineInputs, options: CommandLineOptions): Promise<ServeDetails> {
-  try {
-    const runner = await deps.project.requireServeRunner();
+export interface ServeProjectResult {
+  readonly id: string;
+  readonly type: string;
+  readonly details: ServeDetails;
+}
 
-    if (deps.project.details.context === 'multiapp') {
-      options['project'] = deps.project.details.id;
+/**
+ * Serve several apps of a multi-app project concurrently.
+ *
+ * Each app gets its own project and runner. Ports are reserved for the whole
+ * process, so the dev servers never conflict, and the log output of each app
+ * is prefixed with its id.
+ */
+export async function serveProjects(deps: ProjectDeps, rootDirectory: string, ids: ReadonlyArray<string>, inputs: CommandLineInputs, options: CommandLineOptions): Promise<ServeProjectResult[]> {
+  const { createProjectFromDirectory } = await import('./project');
+  const { Logger } = await import('./utils/logger');
+
+  return Promise.all(ids.map(async id => {
+    const log = new Logger({ level: deps.log.level, handlers: createDefaultLoggerHandlers(createFormatter({ prefix: chalk.dim(`[${id}]`) }), { json: deps.flags.json }) });
+    const project = await createProjectFromDirectory(rootDirectory, { _: [], project: id }, { ...deps, log }, { logErrors: false });
+
+    if (!project) {
+      throw new FatalException(`Could not determine project type of ${chalk.green(id)}.`);
     }
 
-    const opts = runner.createOptionsFromCommandLine(inputs, options);
-    const details = await runner.run(opts);
+    try {
+      const runner = await project.requireServeRunner();
+      const opts = runner.createOptionsFromCommandLine(inputs, { ...options, project: id });
+      opts.logPrefix = id;
 
-    return details;
-  } catch (e) {
-    if (e instanceof RunnerException) {
-      throw new FatalException(e.message);
+      const details = await runner.run(opts);
+
+      return { id, type: project.type, details };
+    } catch (e) {
+      if (e instanceof RunnerException) {
+        e.message = `${chalk.green(id)}: ${e.message}`;
+      }
+
+      throw e;
     }
+  }));
+}
+
+/**
+ * Format a table of the URLs of apps served by `serveProjects`.
+ */
+export function formatServeProjectsTable(results: ReadonlyArray<ServeProjectResult>): string {
+  const rows = results.map(({ id, type, details }) => {
+    const fmtAddress = (address: string) => `${details.protocol}://${formatHost(address)}:${details.port}`;
+
+    return [
+      chalk.green(id),
+      type,
+      fmtAddress(details.localAddress),
+      details.externalNetworkInterfaces.length > 0 ? details.externalNetworkInterfaces.map(i => fmtAddress(i.address)).join('\n') : chalk.dim('none'),
+    ];
+  });
+
+  return columnar(rows, { headers: ['project', 'type', 'local', 'external'] });
+}
 
-    throw e;
+export async function serve(deps: ServeRunnerDeps, inputs: CommandLineInputs, options: CommandLineOptions): Promise<ServeDetails> {
+  const runner = await deps.project.requireServeRunner();
+
+  if (deps.project.details.context === 'multiapp') {
+    options['project'] = deps.project.details.id;
   }
+
+  const opts = runner.createOptionsFromCommandLine(inputs, options);
+  const details = await runner.run(opts);
+
+  return details;
 }
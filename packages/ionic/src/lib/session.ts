@@ -3,7 +3,7 @@ import chalk from 'chalk';
 import { IClient, IConfig, ISession, IonicEnvironment } from '../definitions';
 import { isLoginResponse, isSuperAgentError } from '../guards';
 
-import { FatalException, SessionException } from './errors';
+import { FatalException, NotLoggedInException, SessionException } from './errors';
 import { formatResponseError } from './http';
 
 export interface SessionDeps {
@@ -30,7 +30,7 @@ export class BaseSession {
     const userId = this.e.config.get('user.id');
 
     if (!userId) {
-      throw new SessionException(
+      throw new NotLoggedInException(
         `Oops, sorry! You'll need to log in:\n    ${chalk.green('ionic login')}\n\n` +
         `You can create a new account by signing up:\n\n    ${chalk.green('ionic signup')}\n`
       );
@@ -43,7 +43,7 @@ export class BaseSession {
     const userToken = this.e.config.get('tokens.user');
 
     if (!userToken) {
-      throw new SessionException(
+      throw new NotLoggedInException(
         `Oops, sorry! You'll need to log in:\n    ${chalk.green('ionic login')}\n\n` +
         `You can create a new account by signing up:\n\n    ${chalk.green('ionic signup')}\n`
       );
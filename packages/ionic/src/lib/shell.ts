@@ -22,13 +22,21 @@ export interface ShellDeps {
 
 export interface ShellOptions {
   readonly alterPath?: (p: string) => string;
+
+  /**
+   * In JSON mode, subprocesses which inherit stdio write to stderr instead of
+   * stdout.
+   */
+  readonly json?: boolean;
 }
 
 export class Shell implements IShell {
   alterPath: (p: string) => string;
+  protected readonly json: boolean;
 
   constructor(protected readonly e: ShellDeps, options?: ShellOptions) {
     this.alterPath = options && options.alterPath ? options.alterPath : (p: string) => p;
+    this.json = options && options.json ? true : false;
   }
 
   async run(command: string, args: string[], { stream, killOnExit = true, showCommand = true, showError = true, fatalOnNotFound = true, fatalOnError = true, truncateErrorOutput, ...crossSpawnOptions }: IShellRunOptions): Promise<void> {
@@ -221,6 +229,10 @@ export class Shell implements IShell {
       PATH: this.alterPath(process.env.PATH || ''),
       FORCE_COLOR: chalk.enabled ? '1' : '0',
     });
+
+    if (this.json && options.stdio === 'inherit') {
+      options.stdio = ['inherit', process.stderr, 'inherit'];
+    }
   }
 }
 
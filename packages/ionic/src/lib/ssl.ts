@@ -0,0 +1,293 @@
+import { prettyPath } from '@ionic/cli-framework/utils/format';
+import { mkdirp, pathExists, readFile, tmpfilepath, unlink, writeFile } from '@ionic/utils-fs';
+import { getExternalInterfaces } from '@ionic/utils-network';
+import chalk from 'chalk';
+import * as crypto from 'crypto';
+import * as Debug from 'debug';
+import * as lodash from 'lodash';
+import * as net from 'net';
+import * as path from 'path';
+
+import { IConfig, ILogger, IProject, IShell } from '../definitions';
+
+import { FatalException } from './errors';
+
+const debug = Debug('ionic:lib:ssl');
+
+export const DEFAULT_SSL_KEY_FILE = '.ionic/ssl/key.pem';
+export const DEFAULT_SSL_CERT_FILE = '.ionic/ssl/cert.pem';
+
+export const CA_KEY_FILE = 'ca.key.pem';
+export const CA_CERT_FILE = 'ca.cert.pem';
+export const CA_SUBJECT = '/O=Ionic/CN=Ionic CLI Local CA';
+
+const CA_DAYS = 3650;
+const CERT_DAYS = 825; // maximum validity accepted by iOS and macOS
+
+export interface SSLFiles {
+  readonly key: string;
+  readonly cert: string;
+}
+
+export interface SSLDeps {
+  readonly config: IConfig;
+  readonly log: ILogger;
+  readonly shell: IShell;
+}
+
+export interface IssueCertificateOptions {
+  readonly subject: string;
+  readonly hosts: ReadonlyArray<string>;
+  readonly bits?: string;
+}
+
+/**
+ * Get the SSL key and certificate for the dev server of a project.
+ *
+ * The `ssl.key` and `ssl.cert` entries of the project config are used if
+ * set, otherwise the key and certificate generated by `ionic ssl generate`.
+ */
+export async function getProjectSSLFiles(project: IProject): Promise<SSLFiles> {
+  const sslConfig = project.config.get('ssl');
+
+  if (sslConfig && (sslConfig.key || sslConfig.cert)) {
+    if (!sslConfig.key || !sslConfig.cert) {
+      throw new FatalException(
+        `Both ${chalk.green('ssl.key')} and ${chalk.green('ssl.cert')} config entries must be set.\n` +
+        `See ${chalk.green('ionic serve --help')} for details on using your own SSL key and certificate for Ionic Lab and the dev server.`
+      );
+    }
+
+    return ensureSSLFiles({ key: path.resolve(project.directory, sslConfig.key), cert: path.resolve(project.directory, sslConfig.cert) });
+  }
+
+  const files = { key: path.resolve(project.directory, DEFAULT_SSL_KEY_FILE), cert: path.resolve(project.directory, DEFAULT_SSL_CERT_FILE) };
+
+  if (!(await pathExists(files.key)) && !(await pathExists(files.cert))) {
+    throw new FatalException(
+      `No SSL key and certificate found for the dev server.\n` +
+      `Generate them with ${chalk.green('ionic ssl generate')} or set the ${chalk.green('ssl.key')} and ${chalk.green('ssl.cert')} config entries to your own.`
+    );
+  }
+
+  return ensureSSLFiles(files);
+}
+
+/**
+ * Get the key and root certificate of the local certificate authority, which
+ * live next to the global config file (`~/.ionic/ssl/` by default).
+ */
+export function getCAFiles(config: IConfig): SSLFiles {
+  const dir = path.resolve(path.dirname(config.p), 'ssl');
+
+  return { key: path.resolve(dir, CA_KEY_FILE), cert: path.resolve(dir, CA_CERT_FILE) };
+}
+
+/**
+ * Create the local certificate authority unless it exists.
+ */
+export async function ensureCA({ config, log, shell }: SSLDeps): Promise<SSLFiles> {
+  const ca = getCAFiles(config);
+
+  if (await pathExists(ca.key) && await pathExists(ca.cert)) {
+    return ca;
+  }
+
+  await mkdirp(path.dirname(ca.key), 0o700);
+
+  const cnfPath = await writeOpenSSLConfig(`
+[req]
+distinguished_name = req_distinguished_name
+
+[req_distinguished_name]
+
+[CA]
+basicConstraints       = critical, CA:true
+keyUsage               = critical, keyCertSign, cRLSign
+subjectKeyIdentifier   = hash
+`);
+
+  try {
+    await shell.output('openssl', ['req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-subj', CA_SUBJECT, '-extensions', 'CA', '-config', cnfPath, '-days', String(CA_DAYS), '-keyout', ca.key, '-out', ca.cert], { showCommand: false });
+  } finally {
+    await unlink(cnfPath);
+  }
+
+  log.info(
+    `Created a local certificate authority in ${chalk.bold(prettyPath(path.dirname(ca.cert)))}.\n` +
+    `Install its root certificate on your test devices and browsers to trust certificates issued by it. See ${chalk.green('ionic ssl ca export --help')}.`
+  );
+
+  return ca;
+}
+
+/**
+ * Issue a key and certificate signed by the local certificate authority,
+ * creating the certificate authority if necessary.
+ */
+export async function issueCertificate(files: SSLFiles, { subject, hosts, bits = '2048' }: IssueCertificateOptions, deps: SSLDeps): Promise<void> {
+  const { shell } = deps;
+  const ca = await ensureCA(deps);
+  const csrPath = tmpfilepath('ionic-ssl-csr');
+  const serial = `0x${crypto.randomBytes(16).toString('hex')}`;
+
+  const cnfPath = await writeOpenSSLConfig(`
+[req]
+default_bits       = ${bits}
+distinguished_name = req_distinguished_name
+
+[req_distinguished_name]
+
+[SAN]
+subjectAltName         = ${formatSubjectAltNames(hosts)}
+basicConstraints       = CA:false
+keyUsage               = critical, digitalSignature, keyEncipherment
+extendedKeyUsage       = serverAuth
+`);
+
+  try {
+    await shell.output('openssl', ['req', '-new', '-newkey', `rsa:${bits}`, '-nodes', '-subj', subject, '-config', cnfPath, '-keyout', files.key, '-out', csrPath], { showCommand: false });
+    await shell.output('openssl', ['x509', '-req', '-in', csrPath, '-CA', ca.cert, '-CAkey', ca.key, '-set_serial', serial, '-days', String(CERT_DAYS), '-extfile', cnfPath, '-extensions', 'SAN', '-out', files.cert], { showCommand: false });
+  } finally {
+    await unlink(cnfPath);
+
+    if (await pathExists(csrPath)) {
+      await unlink(csrPath);
+    }
+  }
+}
+
+/**
+ * Re-issue a certificate of the local certificate authority if it does not
+ * cover the addresses of the current network interfaces.
+ *
+ * Certificates which were not issued by the local certificate authority are
+ * left alone.
+ *
+ * @return `true` if the certificate was re-issued
+ */
+export async function refreshCertificate(files: SSLFiles, deps: SSLDeps): Promise<boolean> {
+  const { config, log } = deps;
+  const ca = getCAFiles(config);
+
+  if (!(await pathExists(ca.cert)) || !(await isIssuedBy(files.cert, ca, deps))) {
+    return false;
+  }
+
+  const issuedHosts = parseSubjectAltNames(await deps.shell.output('openssl', ['x509', '-in', files.cert, '-noout', '-text'], { showCommand: false }));
+  const issuedAddresses = issuedHosts.map(normalizeHost);
+  const missingHosts = getCertificateHosts().filter(h => !issuedAddresses.includes(normalizeHost(h)));
+
+  if (missingHosts.length === 0) {
+    return false;
+  }
+
+  const names = issuedHosts.filter(h => !net.isIP(h));
+  const hosts = lodash.uniq([...names, ...getCertificateHosts()]);
+
+  await issueCertificate(files, { subject: `/O=Ionic/CN=${names.length > 0 ? names[0] : 'localhost'}`, hosts }, deps);
+
+  log.info(`Network interfaces changed. Re-issued SSL certificate for ${hosts.map(h => chalk.bold(h)).join(', ')}.`);
+
+  return true;
+}
+
+/**
+ * Get the hosts a dev server certificate should be valid for: `localhost`,
+ * `127.0.0.1`, `::1` and the IPv4 and IPv6 addresses of all external network
+ * interfaces.
+ */
+export function getCertificateHosts(): string[] {
+  return lodash.uniq(['localhost', '127.0.0.1', '::1', ...getExternalInterfaces({ exclude: [] }).map(i => i.address)]);
+}
+
+export function formatSubjectAltNames(hosts: ReadonlyArray<string>): string {
+  return hosts.map(h => net.isIP(h) ? `IP:${h}` : `DNS:${h}`).join(', ');
+}
+
+/**
+ * Parse the DNS names and IP addresses of the Subject Alternative Name
+ * extension from the output of `openssl x509 -text`.
+ */
+export function parseSubjectAltNames(text: string): string[] {
+  const lines = text.split('\n');
+  const idx = lines.findIndex(l => l.includes('X509v3 Subject Alternative Name'));
+
+  if (idx === -1 || !lines[idx + 1]) {
+    return [];
+  }
+
+  return lines[idx + 1]
+    .split(',')
+    .map(entry => entry.trim())
+    .map(entry => /^(?:DNS|IP Address):(.+)$/.exec(entry))
+    .filter((m): m is RegExpExecArray => m !== null) // tslint:disable-line:no-null-keyword
+    .map(m => m[1].trim());
+}
+
+/**
+ * Normalize a host for comparison. OpenSSL prints IPv6 addresses expanded,
+ * e.g. `::1` as `0:0:0:0:0:0:0:1`.
+ */
+export function normalizeHost(host: string): string {
+  if (!net.isIPv6(host)) {
+    return host.toLowerCase();
+  }
+
+  const [ head, tail ] = host.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = host.includes('::') ? [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups] : headGroups;
+
+  return groups.map(g => parseInt(g, 16).toString(16)).join(':');
+}
+
+/**
+ * Convert a PEM-encoded certificate to DER.
+ */
+export function pem2der(pem: string): Buffer {
+  const b64 = pem
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+
+  return Buffer.from(b64, 'base64');
+}
+
+export async function readCACertificate(config: IConfig): Promise<string> {
+  const ca = getCAFiles(config);
+
+  if (!(await pathExists(ca.cert))) {
+    throw new FatalException(
+      `No local certificate authority found in ${chalk.bold(prettyPath(path.dirname(ca.cert)))}.\n` +
+      `It is created by ${chalk.green('ionic ssl generate')}.`
+    );
+  }
+
+  return readFile(ca.cert, { encoding: 'utf8' });
+}
+
+async function isIssuedBy(cert: string, ca: SSLFiles, { shell }: SSLDeps): Promise<boolean> {
+  try {
+    await shell.output('openssl', ['verify', '-CAfile', ca.cert, cert], { showCommand: false, showError: false });
+    return true;
+  } catch (e) {
+    debug('%s not issued by local CA: %o', cert, e);
+    return false;
+  }
+}
+
+async function writeOpenSSLConfig(cnf: string): Promise<string> {
+  const p = tmpfilepath('ionic-ssl');
+  await writeFile(p, cnf.trim(), { encoding: 'utf8' });
+  return p;
+}
+
+async function ensureSSLFiles(files: SSLFiles): Promise<SSLFiles> {
+  for (const p of [files.key, files.cert]) {
+    if (!(await pathExists(p))) {
+      throw new FatalException(`SSL file not found: ${chalk.bold(prettyPath(p))}`);
+    }
+  }
+
+  return files;
+}
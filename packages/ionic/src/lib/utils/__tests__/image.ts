@@ -0,0 +1,76 @@
+import { createBitmap, extendCenter, maskCircle, resizeCover } from '../image';
+
+describe('ionic', () => {
+
+  describe('lib/utils/image', () => {
+
+    describe('resizeCover', () => {
+
+      it('should average pixels when downscaling', () => {
+        const src = createBitmap(2, 2);
+        src.data.set([0, 0, 0, 255, 255, 255, 255, 255, 255, 255, 255, 255, 0, 0, 0, 255]);
+
+        const result = resizeCover(src, 1, 1);
+
+        expect([...result.data]).toEqual([128, 128, 128, 255]);
+      });
+
+      it('should crop at the center', () => {
+        const src = createBitmap(3, 1);
+        src.data.set([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+
+        const result = resizeCover(src, 1, 1);
+
+        expect([...result.data]).toEqual([0, 255, 0, 255]);
+      });
+
+      it('should not bleed the color of transparent pixels', () => {
+        const src = createBitmap(2, 1);
+        src.data.set([255, 0, 0, 255, 0, 0, 255, 0]);
+
+        const result = resizeCover(src, 1, 1);
+
+        expect([...result.data]).toEqual([255, 0, 0, 128]);
+      });
+
+      it('should scale to cover the dimensions', () => {
+        const result = resizeCover(createBitmap(100, 50), 30, 40);
+
+        expect(result.width).toEqual(30);
+        expect(result.height).toEqual(40);
+        expect(result.data.length).toEqual(30 * 40 * 4);
+      });
+
+    });
+
+    describe('extendCenter', () => {
+
+      it('should place the image at the center', () => {
+        const src = createBitmap(1, 1);
+        src.data.set([1, 2, 3, 4]);
+
+        const result = extendCenter(src, 3, 3);
+
+        expect([...result.data.slice(16, 20)]).toEqual([1, 2, 3, 4]);
+        expect([...result.data].filter(v => v !== 0).length).toEqual(4);
+      });
+
+    });
+
+    describe('maskCircle', () => {
+
+      it('should make the corners transparent', () => {
+        const src = resizeCover(Object.assign(createBitmap(1, 1), { data: new Uint8Array([0, 0, 0, 255]) }), 10, 10);
+
+        const result = maskCircle(src);
+
+        expect(result.data[3]).toEqual(0);
+        expect(result.data[(5 * 10 + 5) * 4 + 3]).toEqual(255);
+        expect(src.data[3]).toEqual(255);
+      });
+
+    });
+
+  });
+
+});
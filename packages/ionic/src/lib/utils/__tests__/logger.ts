@@ -0,0 +1,29 @@
+import { StreamHandler } from '@ionic/cli-framework';
+
+import { createDefaultLoggerHandlers } from '../logger';
+
+describe('ionic', () => {
+
+  describe('lib/utils/logger', () => {
+
+    describe('createDefaultLoggerHandlers', () => {
+
+      const getStreams = (handlers: Set<any>) => [...handlers].map((handler: StreamHandler) => handler.stream);
+
+      it('should write to stdout and stderr by default', () => {
+        const streams = getStreams(createDefaultLoggerHandlers());
+        expect(streams).toContain(process.stdout);
+        expect(streams).toContain(process.stderr);
+      });
+
+      it('should write only to stderr in JSON mode', () => {
+        const streams = getStreams(createDefaultLoggerHandlers(undefined, { json: true }));
+        expect(streams.length).toBeGreaterThan(0);
+        expect(streams.every(s => s === process.stderr)).toBe(true);
+      });
+
+    });
+
+  });
+
+});
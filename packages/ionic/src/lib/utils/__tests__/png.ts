@@ -0,0 +1,26 @@
+import { UnsupportedImageException } from '../../errors';
+import { createBitmap } from '../image';
+import { decodePNG, encodePNG } from '../png';
+
+describe('ionic', () => {
+
+  describe('lib/utils/png', () => {
+
+    it('should encode and decode an image', () => {
+      const bitmap = createBitmap(3, 2);
+      bitmap.data.set([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120]);
+
+      const result = decodePNG(encodePNG(bitmap));
+
+      expect(result.width).toEqual(3);
+      expect(result.height).toEqual(2);
+      expect([...result.data]).toEqual([...bitmap.data]);
+    });
+
+    it('should reject images that are not PNG', () => {
+      expect(() => decodePNG(Buffer.from('GIF89a'))).toThrow(UnsupportedImageException);
+    });
+
+  });
+
+});
@@ -0,0 +1,46 @@
+import { UnsupportedImageException } from '../../errors';
+import { parseSVG } from '../svg';
+
+function pixel(data: Uint8Array, width: number, x: number, y: number): number[] {
+  const i = (y * width + x) * 4;
+  return [...data.slice(i, i + 4)];
+}
+
+describe('ionic', () => {
+
+  describe('lib/utils/svg', () => {
+
+    describe('parseSVG', () => {
+
+      it('should read the size of the viewBox', () => {
+        const svg = parseSVG('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 12"/>');
+        expect(svg.width).toEqual(24);
+        expect(svg.height).toEqual(12);
+      });
+
+      it('should reject images which cannot be parsed', () => {
+        expect(() => parseSVG('<svg')).toThrow(UnsupportedImageException);
+      });
+
+      it('should render shapes', () => {
+        const svg = parseSVG('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><rect width="5" height="10" fill="#f00"/></svg>');
+        const { data, width, height } = svg.render(20, 20);
+
+        expect([width, height]).toEqual([20, 20]);
+        expect(pixel(data, width, 4, 10)).toEqual([255, 0, 0, 255]);
+        expect(pixel(data, width, 15, 10)).toEqual([0, 0, 0, 0]);
+      });
+
+      it('should scale to cover and center the image', () => {
+        const svg = parseSVG('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 10"><path d="M5 0h10v10H5z"/></svg>');
+        const { data, width } = svg.render(10, 10);
+
+        expect(pixel(data, width, 0, 0)).toEqual([0, 0, 0, 255]);
+        expect(pixel(data, width, 9, 9)).toEqual([0, 0, 0, 255]);
+      });
+
+    });
+
+  });
+
+});
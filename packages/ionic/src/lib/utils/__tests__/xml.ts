@@ -0,0 +1,138 @@
+import * as et from 'elementtree';
+
+import { parseXML, parseXMLFragment, serializeXML, serializeXMLFragment } from '../xml';
+
+describe('ionic', () => {
+
+  describe('lib/utils/xml', () => {
+
+    const CONFIG_XML = `<?xml version='1.0' encoding='utf-8'?>
+<!-- the app -->
+<widget id="io.ionic.starter" version="0.0.1" xmlns="http://www.w3.org/ns/widgets" xmlns:cdv="http://cordova.apache.org/ns/1.0">
+  <name>MyApp</name>
+  <description>An &quot;awesome&quot; &amp; great app</description>
+  <!-- preferences -->
+  <preference name="ScrollEnabled" value='false'/>
+
+  <platform name="android">
+    <allow-intent href="market:*" />
+  </platform>
+  <platform name="ios"></platform>
+  <edit-config file="*-Info.plist" mode="merge" target="NSCameraUsageDescription"><string><![CDATA[Take <photos>]]></string></edit-config>
+</widget>
+`;
+
+    describe('parseXML', () => {
+
+      it('should parse elements, attributes and text', () => {
+        const root = parseXML(CONFIG_XML).getroot();
+        expect(root.tag).toEqual('widget');
+        expect(root.get('id')).toEqual('io.ionic.starter');
+        expect(root.findtext('name')).toEqual('MyApp');
+        expect(root.findtext('description')).toEqual('An "awesome" & great app');
+        expect(root.find(`preference[@name='ScrollEnabled']`)!.get('value')).toEqual('false');
+        expect(root.findall('platform').length).toEqual(2);
+        expect(root.findtext('edit-config/string')).toEqual('Take <photos>');
+      });
+
+      it('should retain comments', () => {
+        const root = parseXML(CONFIG_XML).getroot();
+        const comments = root.getchildren().filter(el => el.tag === et.Comment);
+        expect(comments.length).toEqual(1);
+        expect(comments[0].text).toEqual(' preferences ');
+      });
+
+      it('should reject malformed documents', () => {
+        expect(() => parseXML('<widget><name></widget>')).toThrow('Unexpected end tag </widget>');
+        expect(() => parseXML('<widget>')).toThrow('Missing end tag of <widget>');
+        expect(() => parseXML('<!-- nothing -->')).toThrow('No root element found.');
+      });
+
+    });
+
+    describe('serializeXML', () => {
+
+      it('should write unmodified documents as they were', () => {
+        expect(serializeXML(parseXML(CONFIG_XML))).toEqual(CONFIG_XML);
+      });
+
+      it('should only rewrite modified elements', () => {
+        const tree = parseXML(CONFIG_XML);
+        tree.getroot().find('preference')!.set('value', 'true');
+        tree.getroot().find('name')!.text = 'Other & App';
+
+        const result = serializeXML(tree);
+        expect(result).toContain(`  <name>Other &amp; App</name>\n`);
+        expect(result).toContain(`  <preference name="ScrollEnabled" value="true" />\n\n`);
+        expect(result).toContain(`  <description>An &quot;awesome&quot; &amp; great app</description>\n`);
+      });
+
+      it('should indent new elements like their siblings', () => {
+        const tree = parseXML(CONFIG_XML);
+        const root = tree.getroot();
+        et.SubElement(root, 'preference', { name: 'Orientation', value: 'portrait' });
+        et.SubElement(root.find(`platform[@name='ios']`)!, 'allow-intent', { href: 'itms:*' });
+        et.SubElement(root.find(`platform[@name='android']`)!, 'allow-intent', { href: 'tel:*' });
+
+        expect(serializeXML(tree)).toEqual(CONFIG_XML
+          .replace(`    <allow-intent href="market:*" />\n`, `    <allow-intent href="market:*" />\n    <allow-intent href="tel:*" />\n`)
+          .replace(`<platform name="ios"></platform>`, `<platform name="ios">\n    <allow-intent href="itms:*" />\n  </platform>`)
+          .replace(`</edit-config>\n`, `</edit-config>\n  <preference name="Orientation" value="portrait" />\n`)
+        );
+      });
+
+      it('should remove elements along with their indentation', () => {
+        const tree = parseXML(CONFIG_XML);
+        const root = tree.getroot();
+        root.remove(root.find('edit-config')!);
+        const android = root.find(`platform[@name='android']`)!;
+        android.remove(android.find('allow-intent')!);
+
+        expect(serializeXML(tree)).toEqual(CONFIG_XML
+          .replace(`\n  <edit-config file="*-Info.plist" mode="merge" target="NSCameraUsageDescription"><string><![CDATA[Take <photos>]]></string></edit-config>`, '')
+          .replace(`<platform name="android">\n    <allow-intent href="market:*" />\n  </platform>`, `<platform name="android"></platform>`)
+        );
+      });
+
+      it('should write new documents with 4 spaces of indentation', () => {
+        const root = et.Element('widget', { id: 'io.ionic.starter' });
+        et.SubElement(et.SubElement(root, 'platform', { name: 'android' }), 'preference', { name: 'a', value: 'b' });
+
+        expect(serializeXML(new et.ElementTree(root))).toEqual(
+          `<?xml version='1.0' encoding='utf-8'?>\n` +
+          `<widget id="io.ionic.starter">\n` +
+          `    <platform name="android">\n` +
+          `        <preference name="a" value="b" />\n` +
+          `    </platform>\n` +
+          `</widget>\n`
+        );
+      });
+
+    });
+
+    describe('parseXMLFragment', () => {
+
+      it('should parse elements', () => {
+        const elements = parseXMLFragment('<uses-permission android:name="android.permission.CAMERA" />\n<uses-feature android:name="android.hardware.camera" />');
+        expect(elements.map(el => el.tag)).toEqual(['uses-permission', 'uses-feature']);
+        expect(elements[0].get('android:name')).toEqual('android.permission.CAMERA');
+      });
+
+      it('should parse text', () => {
+        expect(parseXMLFragment('just text')).toEqual([]);
+      });
+
+    });
+
+    describe('serializeXMLFragment', () => {
+
+      it('should serialize elements', () => {
+        const elements = parseXMLFragment('<application><activity android:name="MainActivity"/></application>');
+        expect(serializeXMLFragment(elements)).toEqual('<application>\n    <activity android:name="MainActivity" />\n</application>');
+      });
+
+    });
+
+  });
+
+});
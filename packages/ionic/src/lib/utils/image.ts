@@ -0,0 +1,189 @@
+/**
+ * An image in memory: rows of RGBA pixels with 8 bits per channel, not
+ * premultiplied.
+ */
+export interface Bitmap {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8Array;
+}
+
+export function createBitmap(width: number, height: number): Bitmap {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+interface Contribution {
+  readonly start: number;
+  readonly weights: Float32Array;
+}
+
+/**
+ * Scale an image to cover the given dimensions and crop it at the center,
+ * like `background-size: cover`.
+ *
+ * Each target pixel is the area average of the source pixels it covers, so
+ * downscaled images do not alias. Upscaled images are interpolated linearly.
+ */
+export function resizeCover(src: Bitmap, width: number, height: number): Bitmap {
+  const scale = Math.max(width / src.width, height / src.height);
+  const offsetX = (src.width - width / scale) / 2;
+  const offsetY = (src.height - height / scale) / 2;
+
+  const columns = getContributions(src.width, width, offsetX, scale);
+  const rows = getContributions(src.height, height, offsetY, scale);
+
+  const firstRow = rows[0].start;
+  const lastRow = rows[rows.length - 1].start + rows[rows.length - 1].weights.length;
+
+  // horizontal pass over the rows needed, premultiplying alpha so that
+  // transparent pixels do not bleed their color
+  const tmp = new Float32Array(width * (lastRow - firstRow) * 4);
+
+  for (let y = firstRow; y < lastRow; y++) {
+    const srcRow = y * src.width * 4;
+    const tmpRow = (y - firstRow) * width * 4;
+
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (let i = 0; i < weights.length; i++) {
+        const p = srcRow + (start + i) * 4;
+        const w = weights[i] * src.data[p + 3] / 255;
+        r += src.data[p] * w;
+        g += src.data[p + 1] * w;
+        b += src.data[p + 2] * w;
+        a += weights[i] * src.data[p + 3];
+      }
+
+      const t = tmpRow + x * 4;
+      tmp[t] = r;
+      tmp[t + 1] = g;
+      tmp[t + 2] = b;
+      tmp[t + 3] = a;
+    }
+  }
+
+  const dest = createBitmap(width, height);
+
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y];
+
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (let i = 0; i < weights.length; i++) {
+        const t = ((start + i - firstRow) * width + x) * 4;
+        r += tmp[t] * weights[i];
+        g += tmp[t + 1] * weights[i];
+        b += tmp[t + 2] * weights[i];
+        a += tmp[t + 3] * weights[i];
+      }
+
+      const d = (y * width + x) * 4;
+
+      if (a > 0) {
+        const alpha = a / 255;
+        dest.data[d] = clamp(r / alpha);
+        dest.data[d + 1] = clamp(g / alpha);
+        dest.data[d + 2] = clamp(b / alpha);
+        dest.data[d + 3] = clamp(a);
+      }
+    }
+  }
+
+  return dest;
+}
+
+/**
+ * Get the source pixels and their weights for each target pixel along one
+ * axis.
+ */
+function getContributions(srcSize: number, destSize: number, offset: number, scale: number): Contribution[] {
+  const contributions: Contribution[] = [];
+
+  for (let i = 0; i < destSize; i++) {
+    let a = offset + i / scale;
+    let b = offset + (i + 1) / scale;
+
+    // when upscaling, a target pixel covers less than one source pixel, so
+    // widen its footprint to interpolate between neighbors
+    if (b - a < 1) {
+      const center = (a + b) / 2;
+      a = center - 0.5;
+      b = center + 0.5;
+    }
+
+    a = Math.max(0, a);
+    b = Math.min(srcSize, b);
+
+    const start = Math.min(Math.floor(a), srcSize - 1);
+    const end = Math.max(Math.ceil(b), start + 1);
+    const weights = new Float32Array(end - start);
+    let sum = 0;
+
+    for (let j = start; j < end; j++) {
+      const w = Math.max(0, Math.min(b, j + 1) - Math.max(a, j));
+      weights[j - start] = w;
+      sum += w;
+    }
+
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] = sum > 0 ? weights[j] / sum : 1 / weights.length;
+    }
+
+    contributions.push({ start, weights });
+  }
+
+  return contributions;
+}
+
+function clamp(v: number): number {
+  return v <= 0 ? 0 : (v >= 255 ? 255 : Math.round(v));
+}
+
+/**
+ * Place an image at the center of a larger, transparent image.
+ */
+export function extendCenter(src: Bitmap, width: number, height: number): Bitmap {
+  const dest = createBitmap(width, height);
+  const left = Math.floor((width - src.width) / 2);
+  const top = Math.floor((height - src.height) / 2);
+
+  for (let y = 0; y < src.height; y++) {
+    dest.data.set(src.data.subarray(y * src.width * 4, (y + 1) * src.width * 4), ((top + y) * width + left) * 4);
+  }
+
+  return dest;
+}
+
+/**
+ * Make the pixels of an image outside of its inscribed circle transparent,
+ * with an anti-aliased edge.
+ */
+export function maskCircle(src: Bitmap): Bitmap {
+  const dest = createBitmap(src.width, src.height);
+  const r = Math.min(src.width, src.height) / 2;
+  const cx = src.width / 2;
+  const cy = src.height / 2;
+
+  dest.data.set(src.data);
+
+  for (let y = 0; y < src.height; y++) {
+    for (let x = 0; x < src.width; x++) {
+      const distance = Math.sqrt((x + 0.5 - cx) * (x + 0.5 - cx) + (y + 0.5 - cy) * (y + 0.5 - cy));
+      const coverage = Math.max(0, Math.min(1, r - distance + 0.5));
+      const i = (y * src.width + x) * 4 + 3;
+
+      dest.data[i] = Math.round(dest.data[i] * coverage);
+    }
+  }
+
+  return dest;
+}
@@ -1,10 +1,23 @@
 import chalk from 'chalk';
 
-import { CreateTaggedFormatterOptions, DEFAULT_LOGGER_HANDLERS, Logger as BaseLogger, LoggerFormatter, createTaggedFormatter } from '@ionic/cli-framework';
+import { CreateTaggedFormatterOptions, DEFAULT_LOGGER_HANDLERS, LOGGER_LEVELS, LogRecord, Logger as BaseLogger, LoggerFormatter, createTaggedFormatter } from '@ionic/cli-framework';
 
-import { ILogger } from '../../definitions';
+import { IJSONOutput, ILogger } from '../../definitions';
 
 export class Logger extends BaseLogger implements ILogger {
+  /**
+   * If set, warnings are also added to the JSON output.
+   */
+  output?: IJSONOutput;
+
+  log(record: LogRecord): void {
+    super.log(record);
+
+    if (this.output && record.level === LOGGER_LEVELS.WARN) {
+      this.output.addWarning(record.msg);
+    }
+  }
+
   ok(msg: string): void {
     this.log({ ...this.createRecord(`${chalk.dim('[')}${chalk.bold.green('OK')}${chalk.dim(']')} ${msg}`), format: false });
   }
@@ -20,6 +33,14 @@ export function createFormatter(options: CreateTaggedFormatterOptions = {}): Log
   return createTaggedFormatter({ prefix, titleize: true, wrap: true, ...options });
 }
 
-export function createDefaultLoggerHandlers(formatter = createFormatter()) {
-  return new Set([...DEFAULT_LOGGER_HANDLERS].map(handler => handler.clone({ formatter })));
+export interface CreateDefaultLoggerHandlersOptions {
+  /**
+   * Write all log messages to stderr, as stdout is reserved for the JSON
+   * document in JSON mode (`--json`).
+   */
+  readonly json?: boolean;
+}
+
+export function createDefaultLoggerHandlers(formatter = createFormatter(), { json = false }: CreateDefaultLoggerHandlersOptions = {}) {
+  return new Set([...DEFAULT_LOGGER_HANDLERS].map(handler => handler.clone(json ? { formatter, stream: process.stderr } : { formatter })));
 }
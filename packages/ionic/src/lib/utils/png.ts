@@ -0,0 +1,32 @@
+import { PNG } from 'pngjs';
+
+import { UnsupportedImageException } from '../errors';
+
+import { Bitmap } from './image';
+
+/**
+ * Decode a PNG image of any color type and bit depth to 8-bit RGBA.
+ *
+ * @throws UnsupportedImageException if the image cannot be decoded.
+ */
+export function decodePNG(buf: Buffer): Bitmap {
+  let png: PNG;
+
+  try {
+    png = PNG.sync.read(buf);
+  } catch (e) {
+    throw new UnsupportedImageException(`Cannot decode PNG image: ${e.message}`);
+  }
+
+  return { width: png.width, height: png.height, data: new Uint8Array(png.data.buffer, png.data.byteOffset, png.data.length) };
+}
+
+/**
+ * Encode an image as an 8-bit RGBA PNG image.
+ */
+export function encodePNG(bitmap: Bitmap): Buffer {
+  const png = new PNG({ width: bitmap.width, height: bitmap.height });
+  png.data = Buffer.from(bitmap.data.buffer, bitmap.data.byteOffset, bitmap.data.length);
+
+  return PNG.sync.write(png);
+}
@@ -0,0 +1,61 @@
+import chalk from 'chalk';
+import * as Debug from 'debug';
+
+import { UnsupportedImageException } from '../errors';
+
+import { Bitmap, resizeCover } from './image';
+import { decodePNG } from './png';
+
+const debug = Debug('ionic:lib:utils:svg');
+
+const SVG_RENDERER_PKG = '@resvg/resvg-js';
+
+export interface SVGImage {
+  readonly width: number;
+  readonly height: number;
+
+  /**
+   * Rasterize the image scaled to cover the given dimensions, cropped at the
+   * center.
+   */
+  render(width: number, height: number): Bitmap;
+}
+
+/**
+ * Parse an SVG image for rasterization with `@resvg/resvg-js`, an optional
+ * peer dependency of the Ionic CLI.
+ *
+ * @throws UnsupportedImageException if `@resvg/resvg-js` is not installed or
+ * the image cannot be parsed.
+ */
+export function parseSVG(source: string): SVGImage {
+  const { Resvg } = requireRenderer();
+  let width: number;
+  let height: number;
+
+  try {
+    ({ width, height } = new Resvg(source));
+  } catch (e) {
+    throw new UnsupportedImageException(`Cannot parse SVG image: ${e.message}`);
+  }
+
+  return {
+    width,
+    height,
+    render: (w, h) => {
+      const scale = Math.max(w / width, h / height);
+      const png = new Resvg(source, { fitTo: { mode: 'width', value: Math.ceil(width * scale) } }).render().asPng();
+
+      return resizeCover(decodePNG(png), w, h);
+    },
+  };
+}
+
+function requireRenderer(): any {
+  try {
+    return require(SVG_RENDERER_PKG);
+  } catch (e) {
+    debug('Could not load %s: %o', SVG_RENDERER_PKG, e);
+    throw new UnsupportedImageException(`SVG images can only be processed locally with ${chalk.green(SVG_RENDERER_PKG)} installed.`);
+  }
+}
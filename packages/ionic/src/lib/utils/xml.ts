@@ -0,0 +1,419 @@
+import * as et from 'elementtree';
+
+const DEFAULT_XML_DECLARATION = `<?xml version='1.0' encoding='utf-8'?>\n`;
+
+const ENTITIES: { [entity: string]: string; } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: `'` };
+
+/**
+ * The source of a parsed node, to write it back as it was unless it has been
+ * modified.
+ */
+interface RawNode {
+  readonly startTag: string;
+
+  /**
+   * The end tag, or `undefined` for self-closing elements, comments and
+   * processing instructions.
+   */
+  readonly endTag?: string;
+  readonly attrib: et.Attributes;
+  readonly children: ReadonlyArray<et.Element>;
+  text?: [string, string];
+  tail?: [string, string];
+}
+
+interface RawDocument {
+  readonly prolog: string;
+  readonly epilog: string;
+  readonly indent?: string;
+}
+
+const rawNodes = new WeakMap<et.Element, RawNode>();
+const rawDocuments = new WeakMap<et.Element, RawDocument>();
+
+/**
+ * Parse an XML document into an element tree which, unlike `et.parse()`,
+ * retains comments and the formatting of the source for `serializeXML()`.
+ */
+export function parseXML(source: string): et.ElementTree {
+  const start = findRootStart(source);
+  const [ root, end ] = parseElements(source, start, true);
+
+  if (!root) {
+    throw new Error('No root element found.');
+  }
+
+  const rootText = rawNodes.get(root);
+  const indent = rootText && rootText.text ? rootText.text[1].match(/\n([ \t]+)$/) : undefined;
+
+  rawDocuments.set(root, { prolog: source.substring(0, start), epilog: source.substring(end), indent: indent ? indent[1] : undefined });
+
+  return new et.ElementTree(root);
+}
+
+/**
+ * Parse XML elements, such as the contents of `<edit-config>`, into elements
+ * which are formatted like new elements by `serializeXML()`.
+ */
+export function parseXMLFragment(source: string): et.Element[] {
+  const [ fragment ] = parseElements(`<fragment>${source}</fragment>`, 0, false);
+  return fragment ? fragment.getchildren() : [];
+}
+
+/**
+ * Serialize an element tree. Nodes parsed by `parseXML()` are written as they
+ * were in the source unless modified, including comments and whitespace. New
+ * elements are indented like their siblings.
+ *
+ * @param indent The indentation of new elements if it cannot be detected.
+ */
+export function serializeXML(tree: et.ElementTree, indent = '    '): string {
+  const root = tree.getroot();
+  const doc = rawDocuments.get(root);
+
+  if (!doc) {
+    return DEFAULT_XML_DECLARATION + serializeNode(root, 0, indent) + '\n';
+  }
+
+  return doc.prolog + serializeNode(root, 0, doc.indent ? doc.indent : indent) + doc.epilog;
+}
+
+/**
+ * Serialize elements, such as the contents of `<edit-config>`, indented at
+ * the top level.
+ */
+export function serializeXMLFragment(elements: ReadonlyArray<et.Element>, indent = '    '): string {
+  return elements.map(el => serializeNode(el, 0, indent)).join('\n');
+}
+
+function findRootStart(source: string): number {
+  let i = 0;
+
+  while (i < source.length) {
+    i = source.indexOf('<', i);
+
+    if (i < 0) {
+      break;
+    }
+
+    if (source.startsWith('<?', i)) {
+      i = expectIndex(source, '?>', i) + 2;
+    } else if (source.startsWith('<!--', i)) {
+      i = expectIndex(source, '-->', i) + 3;
+    } else if (source.startsWith('<!', i)) {
+      i = expectIndex(source, '>', i) + 1;
+    } else {
+      return i;
+    }
+  }
+
+  throw new Error('No root element found.');
+}
+
+/**
+ * Parse the element at `start` along with its descendants.
+ *
+ * @return The element and the index after its end tag.
+ */
+function parseElements(source: string, start: number, raw: boolean): [et.Element | undefined, number] {
+  const stack: et.Element[] = [];
+  let root: et.Element | undefined;
+  let last: et.Element | undefined;
+  let i = start;
+  let data = '';
+  let rawData = '';
+
+  const flush = () => {
+    if (last && rawData) {
+      const isTail = last !== stack[stack.length - 1];
+
+      if (isTail) {
+        last.tail = data;
+      } else {
+        last.text = data;
+      }
+
+      const node = rawNodes.get(last);
+
+      if (node) {
+        node[isTail ? 'tail' : 'text'] = [data, rawData];
+      }
+    }
+
+    data = '';
+    rawData = '';
+  };
+
+  const append = (el: et.Element, node: RawNode) => {
+    flush();
+
+    if (raw) {
+      rawNodes.set(el, node);
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].append(el);
+    }
+
+    last = el;
+  };
+
+  while (i < source.length && (!root || stack.length > 0)) {
+    if (source.startsWith('<!--', i)) {
+      const end = expectIndex(source, '-->', i) + 3;
+      append(et.Comment(source.substring(i + 4, end - 3)), { startTag: source.substring(i, end), attrib: {}, children: [] });
+      i = end;
+    } else if (source.startsWith('<![CDATA[', i)) {
+      const end = expectIndex(source, ']]>', i) + 3;
+      data += source.substring(i + 9, end - 3);
+      rawData += source.substring(i, end);
+      i = end;
+    } else if (source.startsWith('<?', i)) {
+      const end = expectIndex(source, '?>', i) + 2;
+      append(et.ProcessingInstruction(source.substring(i + 2, end - 2)), { startTag: source.substring(i, end), attrib: {}, children: [] });
+      i = end;
+    } else if (source.startsWith('</', i)) {
+      const end = expectIndex(source, '>', i) + 1;
+      const tag = source.substring(i + 2, end - 1).trim();
+
+      flush();
+
+      const el = stack.pop();
+
+      if (!el || el.tag !== tag) {
+        throw new Error(`Unexpected end tag </${tag}> at position ${i}.`);
+      }
+
+      const node = rawNodes.get(el);
+
+      if (node) {
+        rawNodes.set(el, { ...node, endTag: source.substring(i, end), children: [...el.getchildren()] });
+      }
+
+      last = el;
+      i = end;
+    } else if (source[i] === '<') {
+      const end = findTagEnd(source, i);
+      const startTag = source.substring(i, end);
+      const selfClosing = startTag.endsWith('/>');
+      const [ tag, attrib ] = parseStartTag(startTag.substring(1, startTag.length - (selfClosing ? 2 : 1)), i);
+      const el = et.Element(tag, attrib);
+
+      if (stack.length === 0 && root) {
+        throw new Error(`Unexpected element <${tag}> at position ${i}.`);
+      }
+
+      append(el, { startTag, attrib: { ...attrib }, children: [] });
+
+      if (!root) {
+        root = el;
+      }
+
+      if (!selfClosing) {
+        stack.push(el);
+      }
+
+      i = end;
+    } else {
+      const end = source.indexOf('<', i) < 0 ? source.length : source.indexOf('<', i);
+      const text = source.substring(i, end);
+
+      if (stack.length === 0 && text.trim()) {
+        throw new Error(`Unexpected text at position ${i}.`);
+      }
+
+      data += decodeEntities(text);
+      rawData += text;
+      i = end;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Missing end tag of <${stack[stack.length - 1].tag}>.`);
+  }
+
+  return [root, i];
+}
+
+function findTagEnd(source: string, start: number): number {
+  let quote: string | undefined;
+
+  for (let i = start + 1; i < source.length; i++) {
+    const c = source[i];
+
+    if (quote) {
+      if (c === quote) {
+        quote = undefined;
+      }
+    } else if (c === '"' || c === `'`) {
+      quote = c;
+    } else if (c === '>') {
+      return i + 1;
+    }
+  }
+
+  throw new Error(`Unterminated tag at position ${start}.`);
+}
+
+function parseStartTag(contents: string, position: number): [string, { [key: string]: string; }] {
+  const m = contents.match(/^([^\s/>]+)/);
+
+  if (!m) {
+    throw new Error(`Invalid tag at position ${position}.`);
+  }
+
+  const attrib: { [key: string]: string; } = {};
+  const re = /\s*([^\s=]+)\s*=\s*("|')([\s\S]*?)\2/g;
+  const rest = contents.substring(m[1].length);
+  let parsed = 0;
+
+  while (parsed < rest.length) {
+    re.lastIndex = parsed;
+    const a = re.exec(rest);
+
+    if (!a || a.index !== parsed) {
+      break;
+    }
+
+    attrib[a[1]] = decodeEntities(a[3]);
+    parsed = re.lastIndex;
+  }
+
+  if (rest.substring(parsed).trim()) {
+    throw new Error(`Invalid attributes of <${m[1]}> at position ${position}.`);
+  }
+
+  return [m[1], attrib];
+}
+
+function expectIndex(source: string, search: string, start: number): number {
+  const i = source.indexOf(search, start);
+
+  if (i < 0) {
+    throw new Error(`Expected ${search} after position ${start}.`);
+  }
+
+  return i;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(name.substring(2), 16));
+    }
+
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.substring(1), 10));
+    }
+
+    return ENTITIES[name] ? ENTITIES[name] : entity;
+  });
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+}
+
+function isBlank(text: et.ElementText | null): boolean {
+  return !text || !text.toString().trim();
+}
+
+/**
+ * Replace the indentation of the last line of whitespace, keeping blank lines.
+ */
+function reindent(whitespace: et.ElementText | null, indentation: string): string {
+  const ws = whitespace ? whitespace.toString() : '';
+  return ws.includes('\n') ? ws.replace(/\n[ \t]*$/, indentation) : indentation;
+}
+
+/**
+ * Indent the children of an element if they were added or removed.
+ */
+function indentChildren(el: et.Element, depth: number, indent: string): void {
+  const node = rawNodes.get(el);
+  const children = el.getchildren();
+
+  if (node && node.children.length === children.length && node.children.every((child, i) => child === children[i])) {
+    return;
+  }
+
+  if (children.length === 0) {
+    if (isBlank(el.text)) {
+      el.text = null; // tslint:disable-line:no-null-keyword
+    }
+
+    return;
+  }
+
+  const childIndentation = '\n' + indent.repeat(depth + 1);
+
+  children.forEach((child, i) => {
+    if (!rawNodes.has(child)) {
+      if (i === 0) {
+        if (isBlank(el.text)) {
+          el.text = reindent(el.text, childIndentation);
+        }
+      } else if (isBlank(children[i - 1].tail)) {
+        children[i - 1].tail = reindent(children[i - 1].tail, childIndentation);
+      }
+
+      if (isBlank(child.tail)) {
+        child.tail = childIndentation;
+      }
+    }
+  });
+
+  const lastChild = children[children.length - 1];
+
+  if (isBlank(lastChild.tail)) {
+    lastChild.tail = reindent(lastChild.tail, '\n' + indent.repeat(depth));
+  }
+}
+
+function serializeData(data: et.ElementText | null, raw?: [string, string]): string {
+  if (!data) {
+    return '';
+  }
+
+  const s = data.toString();
+
+  return raw && raw[0] === s ? raw[1] : escapeText(s);
+}
+
+function serializeNode(el: et.Element, depth: number, indent: string): string {
+  const node = rawNodes.get(el);
+
+  if (el.tag === et.Comment) {
+    return node ? node.startTag : `<!--${el.text ? el.text : ''}-->`;
+  }
+
+  if (el.tag === et.ProcessingInstruction) {
+    return node ? node.startTag : `<?${el.text ? el.text : ''}?>`;
+  }
+
+  indentChildren(el, depth, indent);
+
+  const tag = el.tag.toString();
+  const children = el.getchildren();
+  const selfClosing = children.length === 0 && !el.text && (!node || !node.endTag);
+  const attrib = (el.items() as [string, string | undefined][]).filter((item): item is [string, string] => typeof item[1] !== 'undefined');
+  const unchanged = node && (!node.endTag === selfClosing) && attrib.length === Object.keys(node.attrib).length && attrib.every(([ k, v ]) => node.attrib[k] === String(v));
+  const startTag = node && unchanged
+    ? node.startTag
+    : `<${tag}${attrib.map(([ k, v ]) => ` ${k}="${escapeAttribute(String(v))}"`).join('')}${selfClosing ? ' />' : '>'}`;
+
+  if (selfClosing) {
+    return startTag;
+  }
+
+  const contents = children.map(child => {
+    const childNode = rawNodes.get(child);
+    return serializeNode(child, depth + 1, indent) + serializeData(child.tail, childNode ? childNode.tail : undefined);
+  });
+
+  return startTag + serializeData(el.text, node ? node.text : undefined) + contents.join('') + (node && node.endTag ? node.endTag : `</${tag}>`);
+}
@@ -1,7 +1,12 @@
 declare module "tiny-lr" {
   import * as http from 'http';
 
-  namespace TinyLR {}
+  namespace TinyLR {
+    interface Options {
+      key?: string;
+      cert?: string;
+    }
+  }
 
   interface TinyLRServer {
     listen(port: number, host: string, cb?: () => {}): void;
@@ -9,7 +14,7 @@ declare module "tiny-lr" {
     changed(p: any): void;
   }
 
-  function TinyLR(): TinyLRServer;
+  function TinyLR(options?: TinyLR.Options): TinyLRServer;
 
   export = TinyLR;
 }